@@ -8,6 +8,8 @@ import { ThemeProvider } from "@/contexts/ThemeContext";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import { ExceptionsProvider } from "@/contexts/ExceptionsContext";
 import { HiddenConversationsProvider } from "@/contexts/HiddenConversationsContext";
+import { PresenceProvider } from "@/contexts/PresenceContext";
+import { ScheduledMessagesProvider } from "@/contexts/ScheduledMessagesContext";
 import { KeychainRedirect } from "@/components/KeychainRedirect";
 import Login from "@/pages/Login";
 import Messages from "@/pages/Messages";
@@ -125,10 +127,14 @@ function App() {
         <AuthProvider>
           <ExceptionsProvider>
             <HiddenConversationsProvider>
-              <TooltipProvider>
-                <Toaster />
-                <Router />
-              </TooltipProvider>
+              <PresenceProvider>
+                <ScheduledMessagesProvider>
+                  <TooltipProvider>
+                    <Toaster />
+                    <Router />
+                  </TooltipProvider>
+                </ScheduledMessagesProvider>
+              </PresenceProvider>
             </HiddenConversationsProvider>
           </ExceptionsProvider>
         </AuthProvider>
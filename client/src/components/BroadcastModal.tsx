@@ -5,7 +5,8 @@ import {
   Clock, 
   Users, 
   Loader2,
-  AlertTriangle
+  AlertTriangle,
+  CalendarClock
 } from 'lucide-react';
 import {
   Dialog,
@@ -16,12 +17,15 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import type { GroupConversationCache } from '@shared/schema';
+import { toDateTimeLocalValue } from '@/lib/scheduledMessages';
+import { hasGroupPermission } from '@shared/groupRoles';
 
 const MAX_MESSAGE_LENGTH = 500;
 
@@ -40,6 +44,7 @@ interface BroadcastModalProps {
   group: GroupConversationCache;
   currentUsername?: string;
   onSendMessage: (content: string) => Promise<void>;
+  onScheduleMessage?: (content: string, sendAt: Date) => Promise<void>;
 }
 
 function getStorageKey(username: string): string {
@@ -88,15 +93,17 @@ export function BroadcastModal({
   onOpenChange, 
   group,
   currentUsername,
-  onSendMessage
+  onSendMessage,
+  onScheduleMessage
 }: BroadcastModalProps) {
-  const isCreator = currentUsername === group.creator;
+  const canBroadcast = hasGroupPermission(group, currentUsername, 'broadcast');
   
   const [message, setMessage] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [sendProgress, setSendProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [recentBroadcasts, setRecentBroadcasts] = useState<StoredBroadcast[]>([]);
+  const [scheduleAt, setScheduleAt] = useState('');
 
   const recipientCount = useMemo(() => {
     return group.members.filter(m => m !== currentUsername).length;
@@ -104,7 +111,7 @@ export function BroadcastModal({
 
   const charCount = message.length;
   const isOverLimit = charCount > MAX_MESSAGE_LENGTH;
-  const canSend = message.trim().length > 0 && !isOverLimit && !isSending && isCreator;
+  const canSend = message.trim().length > 0 && !isOverLimit && !isSending && canBroadcast;
 
   useEffect(() => {
     if (open && currentUsername) {
@@ -112,10 +119,38 @@ export function BroadcastModal({
       setMessage('');
       setError(null);
       setSendProgress(0);
+      setScheduleAt('');
     }
   }, [open, currentUsername]);
 
+  const handleSchedule = async () => {
+    if (!canSend || !onScheduleMessage) return;
+
+    const sendAt = new Date(scheduleAt);
+    if (isNaN(sendAt.getTime()) || sendAt.getTime() <= Date.now()) {
+      setError('Pick a time in the future');
+      return;
+    }
+
+    setIsSending(true);
+    setError(null);
+
+    try {
+      await onScheduleMessage(message.trim(), sendAt);
+      setMessage('');
+      setScheduleAt('');
+      onOpenChange(false);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to schedule broadcast');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
   const handleSend = async () => {
+    if (scheduleAt) {
+      return handleSchedule();
+    }
     if (!canSend || !currentUsername) return;
 
     setIsSending(true);
@@ -171,11 +206,11 @@ export function BroadcastModal({
           </DialogDescription>
         </DialogHeader>
 
-        {!isCreator ? (
+        {!canBroadcast ? (
           <Alert variant="destructive" data-testid="alert-not-creator">
             <AlertTriangle className="h-4 w-4" />
             <AlertDescription>
-              You must be the group creator to send broadcasts.
+              Only the group owner and admins can send broadcasts.
             </AlertDescription>
           </Alert>
         ) : (
@@ -219,6 +254,29 @@ export function BroadcastModal({
               </Card>
             )}
 
+            {onScheduleMessage && (
+              <div className="space-y-2">
+                <label htmlFor="broadcast-schedule-at" className="text-sm font-medium flex items-center gap-2">
+                  <CalendarClock className="h-4 w-4" />
+                  Send later (optional)
+                </label>
+                <Input
+                  id="broadcast-schedule-at"
+                  type="datetime-local"
+                  value={scheduleAt}
+                  min={toDateTimeLocalValue(new Date())}
+                  onChange={(e) => setScheduleAt(e.target.value)}
+                  disabled={isSending}
+                  data-testid="input-broadcast-schedule"
+                />
+                {scheduleAt && (
+                  <p className="text-xs text-muted-foreground">
+                    Sent from this device if Hive Messenger is open at that time.
+                  </p>
+                )}
+              </div>
+            )}
+
             {error && (
               <Alert variant="destructive" data-testid="alert-send-error">
                 <AlertTriangle className="h-4 w-4" />
@@ -251,6 +309,11 @@ export function BroadcastModal({
                     <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                     Sending...
                   </>
+                ) : scheduleAt ? (
+                  <>
+                    <CalendarClock className="h-4 w-4 mr-2" />
+                    Schedule
+                  </>
                 ) : (
                   <>
                     <Send className="h-4 w-4 mr-2" />
@@ -1,4 +1,5 @@
-import { MoreVertical, Lock, User, Trash2, ArrowLeft, Shield, ShieldCheck, EyeOff, UserCheck } from 'lucide-react';
+import { useState } from 'react';
+import { MoreVertical, Lock, User, Trash2, ArrowLeft, Shield, ShieldCheck, EyeOff, UserCheck, UserPlus, UserPen, Ban } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
@@ -20,6 +21,10 @@ import { useQuery } from '@tanstack/react-query';
 import { getAccountMetadata, parseLightningAddress, inferTipReceivePreference } from '@/lib/accountMetadata';
 import { preloadFollowingList, doesUserFollowSync } from '@/lib/hiveFollowing';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePresence, useWatchPresence } from '@/contexts/PresenceContext';
+import { useContacts, getContactDisplayName } from '@/hooks/useContacts';
+import { ContactDetailsDialog } from '@/components/ContactDetailsDialog';
+import { formatDistanceToNow } from 'date-fns';
 
 interface ChatHeaderProps {
   contactUsername: string;
@@ -42,9 +47,19 @@ export function ChatHeader({
   onHideChat,
   onBackClick
 }: ChatHeaderProps) {
-  const { user } = useAuth();
+  const { user, sessionToken } = useAuth();
   const { isException, toggleException } = useExceptionsList();
+  const { contacts, addContact, updateContact } = useContacts(sessionToken);
+  const contact = contacts.find(c => c.username === contactUsername.toLowerCase());
+  const [contactDialogOpen, setContactDialogOpen] = useState(false);
   const { toast } = useToast();
+  const { isSharing, getPresence, getTypingUsers } = usePresence();
+  
+  // Online / typing status from the optional presence relay
+  useWatchPresence(isSharing ? [contactUsername] : []);
+  const presence = getPresence(contactUsername);
+  const isTyping = getTypingUsers({ partner: contactUsername }).length > 0;
+  const online = presence?.online ?? isOnline;
   
   // Fetch recipient's metadata for tip button (Lightning Address + tip preference)
   const { data: recipientMetadata } = useQuery({
@@ -97,6 +112,29 @@ export function ChatHeader({
     }
   };
 
+  const handleToggleBlocked = async () => {
+    const isBlocked = !contact?.isBlocked;
+    try {
+      if (contact) {
+        await updateContact.mutateAsync({ username: contact.username, updates: { isBlocked } });
+      } else {
+        await addContact.mutateAsync({ username: contactUsername.toLowerCase(), isBlocked });
+      }
+      toast({
+        title: isBlocked ? 'Contact Blocked' : 'Contact Unblocked',
+        description: isBlocked
+          ? `@${contactUsername} is hidden from your contact pickers`
+          : `@${contactUsername} is back in your contact pickers`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Could Not Update Contact',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
   return (
     <div className="min-h-[calc(4rem+env(safe-area-inset-top))] border-b bg-background px-4 flex items-center justify-between gap-4 pt-[env(safe-area-inset-top)]">
       {onBackClick && (
@@ -117,12 +155,20 @@ export function ChatHeader({
           </AvatarFallback>
         </Avatar>
         <div className="min-w-0">
-          <h2 className="text-headline font-semibold truncate">
-            @{contactUsername}
+          <h2 className="text-headline font-semibold truncate" data-testid="text-contact-name">
+            {contact ? getContactDisplayName(contact) : `@${contactUsername}`}
           </h2>
-          {isOnline !== undefined && (
-            <p className="text-caption text-muted-foreground">
-              {isOnline ? 'Online' : 'Offline'}
+          {isTyping ? (
+            <p className="text-caption text-primary" data-testid="text-contact-typing">
+              typing…
+            </p>
+          ) : online !== undefined && (
+            <p className="text-caption text-muted-foreground" data-testid="text-contact-presence">
+              {online
+                ? 'Online'
+                : presence?.lastSeen
+                  ? `Last seen ${formatDistanceToNow(new Date(presence.lastSeen), { addSuffix: true })}`
+                  : 'Offline'}
             </p>
           )}
         </div>
@@ -194,6 +240,18 @@ export function ChatHeader({
               <User className="w-4 h-4 mr-2" />
               View Profile
             </DropdownMenuItem>
+            {sessionToken && (
+              <>
+                <DropdownMenuItem onClick={() => setContactDialogOpen(true)} data-testid="menu-edit-contact">
+                  {contact ? <UserPen className="w-4 h-4 mr-2" /> : <UserPlus className="w-4 h-4 mr-2" />}
+                  {contact ? 'Edit Contact' : 'Add to Contacts'}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={handleToggleBlocked} data-testid="menu-toggle-blocked">
+                  <Ban className="w-4 h-4 mr-2" />
+                  {contact?.isBlocked ? 'Unblock' : 'Block'}
+                </DropdownMenuItem>
+              </>
+            )}
             {onViewBlockchain && (
               <DropdownMenuItem onClick={onViewBlockchain} data-testid="menu-view-blockchain">
                 <Lock className="w-4 h-4 mr-2" />
@@ -219,6 +277,14 @@ export function ChatHeader({
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
+
+      {sessionToken && (
+        <ContactDetailsDialog
+          username={contactUsername}
+          open={contactDialogOpen}
+          onOpenChange={setContactDialogOpen}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,194 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/contexts/AuthContext';
+import { useContacts } from '@/hooks/useContacts';
+import { useToast } from '@/hooks/use-toast';
+import type { UpdateContactInput } from '@shared/schema';
+
+interface ContactDetailsDialogProps {
+  username: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Add a user to the server-side address book, or edit / remove their entry
+ * (nickname, notes, tags, favorite and blocked flags)
+ */
+export function ContactDetailsDialog({ username, open, onOpenChange }: ContactDetailsDialogProps) {
+  const { sessionToken } = useAuth();
+  const { toast } = useToast();
+  const { contacts, addContact, updateContact, deleteContact } = useContacts(sessionToken, open);
+  const contact = contacts.find(c => c.username === username.toLowerCase());
+
+  const [nickname, setNickname] = useState('');
+  const [notes, setNotes] = useState('');
+  const [tags, setTags] = useState('');
+  const [isFavorite, setIsFavorite] = useState(false);
+  const [isBlocked, setIsBlocked] = useState(false);
+
+  // Start from the saved entry each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setNickname(contact?.nickname || '');
+    setNotes(contact?.notes || '');
+    setTags((contact?.tags || []).join(', '));
+    setIsFavorite(!!contact?.isFavorite);
+    setIsBlocked(!!contact?.isBlocked);
+  }, [open, contact]);
+
+  const isSaving = addContact.isPending || updateContact.isPending;
+
+  const handleSave = async () => {
+    const fields: UpdateContactInput = {
+      nickname: nickname.trim() || null,
+      notes: notes.trim() || null,
+      tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
+      isFavorite,
+      isBlocked,
+    };
+
+    try {
+      if (contact) {
+        await updateContact.mutateAsync({ username: contact.username, updates: fields });
+      } else {
+        await addContact.mutateAsync({ username: username.toLowerCase(), ...fields });
+      }
+      toast({
+        title: contact ? 'Contact Updated' : 'Contact Added',
+        description: `@${username} ${contact ? 'was updated' : 'is now in your contacts'}`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Could Not Save Contact',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!contact) return;
+
+    try {
+      await deleteContact.mutateAsync(contact.username);
+      toast({
+        title: 'Contact Removed',
+        description: `@${username} was removed from your contacts`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Could Not Remove Contact',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md" data-testid="dialog-contact-details">
+        <DialogHeader>
+          <DialogTitle>{contact ? 'Edit Contact' : 'Add to Contacts'}</DialogTitle>
+          <DialogDescription>
+            Private details for @{username}. Only you can see them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="contact-nickname">Nickname</Label>
+            <Input
+              id="contact-nickname"
+              value={nickname}
+              onChange={(e) => setNickname(e.target.value)}
+              maxLength={50}
+              placeholder={`@${username}`}
+              data-testid="input-contact-nickname"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="contact-notes">Notes</Label>
+            <Textarea
+              id="contact-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={1000}
+              rows={3}
+              data-testid="input-contact-notes"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="contact-tags">Tags</Label>
+            <Input
+              id="contact-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="work, family"
+              data-testid="input-contact-tags"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="contact-favorite">Favorite</Label>
+            <Switch
+              id="contact-favorite"
+              checked={isFavorite}
+              onCheckedChange={setIsFavorite}
+              data-testid="switch-contact-favorite"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="contact-blocked">Blocked</Label>
+              <p className="text-caption text-muted-foreground">Hidden from contact pickers</p>
+            </div>
+            <Switch
+              id="contact-blocked"
+              checked={isBlocked}
+              onCheckedChange={setIsBlocked}
+              data-testid="switch-contact-blocked"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {contact ? (
+            <Button
+              variant="ghost"
+              onClick={handleRemove}
+              disabled={deleteContact.isPending}
+              className="text-destructive hover:text-destructive"
+              data-testid="button-remove-contact"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Remove
+            </Button>
+          ) : <span />}
+          <Button onClick={handleSave} disabled={isSaving} data-testid="button-save-contact">
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Search, Plus, ShieldCheck, Users, Compass, MessageCircle, Clock, Loader2, DollarSign, ChevronDown, ChevronRight, X } from 'lucide-react';
+import { Search, Plus, ShieldCheck, Users, Compass, MessageCircle, Clock, Loader2, DollarSign, ChevronDown, ChevronRight, X, Star } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
@@ -10,6 +10,8 @@ import type { PendingGroup } from '@/lib/messageCache';
 import { Lock } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useExceptionsList } from '@/hooks/useExceptionsList';
+import { useContacts, getContactDisplayName } from '@/hooks/useContacts';
+import { useAuth } from '@/contexts/AuthContext';
 import {
   Tooltip,
   TooltipContent,
@@ -46,6 +48,9 @@ export function ConversationsList({
   isLoadingGroups = false,
 }: ConversationsListProps) {
   const { isException } = useExceptionsList();
+  const { sessionToken } = useAuth();
+  const { contacts } = useContacts(sessionToken);
+  const contactsByUsername = new Map(contacts.map(contact => [contact.username, contact]));
   const [groupsCollapsed, setGroupsCollapsed] = useState(false);
   const [chatsCollapsed, setChatsCollapsed] = useState(false);
   
@@ -101,121 +106,134 @@ export function ConversationsList({
     }
   };
 
-  const renderConversationItem = (conversation: Conversation, isGroup: boolean) => (
-    <div
-      key={conversation.id}
-      className={cn(
-        'group relative w-full flex items-start gap-3 hover-elevate transition-colors min-h-[56px]',
-        selectedConversationId === conversation.id && 'bg-accent/50'
-      )}
-    >
-      <button
-        onClick={() => onSelectConversation(conversation.id)}
-        className="flex-1 px-4 py-3 flex items-start gap-3 text-left"
-        data-testid={`conversation-${conversation.contactUsername}`}
-      >
-        <div className="relative flex-shrink-0">
-          <Avatar className="w-10 h-10">
-            <AvatarFallback className={cn(
-              "font-medium text-sm",
-              isGroup ? "bg-primary/20 text-primary" : "bg-primary/10 text-primary"
-            )}>
-              {isGroup ? <Users className="w-4 h-4" /> : getInitials(conversation.contactUsername)}
-            </AvatarFallback>
-          </Avatar>
-          {conversation.unreadCount > 0 && (
-            <Badge
-              variant="destructive"
-              className="absolute -top-1 -right-1 h-4 min-w-4 flex items-center justify-center px-1 text-[10px] rounded-full"
-              data-testid={`badge-unread-${conversation.contactUsername}`}
-            >
-              {conversation.unreadCount > 99 ? '99+' : conversation.unreadCount}
-            </Badge>
-          )}
-        </div>
+  const renderConversationItem = (conversation: Conversation, isGroup: boolean) => {
+    const contact = isGroup ? undefined : contactsByUsername.get(conversation.contactUsername.toLowerCase());
 
-        <div className="flex-1 min-w-0 text-left">
-          <div className="flex items-center justify-between gap-2 mb-0.5">
-            <div className="flex items-center gap-1.5 min-w-0">
-              <span className={cn(
-                'text-sm font-medium truncate',
-                conversation.unreadCount > 0 && 'font-semibold'
+    return (
+      <div
+        key={conversation.id}
+        className={cn(
+          'group relative w-full flex items-start gap-3 hover-elevate transition-colors min-h-[56px]',
+          selectedConversationId === conversation.id && 'bg-accent/50'
+        )}
+      >
+        <button
+          onClick={() => onSelectConversation(conversation.id)}
+          className="flex-1 px-4 py-3 flex items-start gap-3 text-left"
+          data-testid={`conversation-${conversation.contactUsername}`}
+        >
+          <div className="relative flex-shrink-0">
+            <Avatar className="w-10 h-10">
+              <AvatarFallback className={cn(
+                "font-medium text-sm",
+                isGroup ? "bg-primary/20 text-primary" : "bg-primary/10 text-primary"
               )}>
-                {isGroup ? conversation.contactUsername : `@${conversation.contactUsername}`}
-              </span>
-              {isGroup && conversation.isPaid && (
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <DollarSign 
-                      className="w-3 h-3 text-green-500 flex-shrink-0" 
-                      data-testid={`icon-paid-${conversation.id}`}
-                      aria-label="Paid group"
-                    />
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p className="text-xs">Paid group</p>
-                  </TooltipContent>
-                </Tooltip>
-              )}
-              {!isGroup && isException(conversation.contactUsername) && (
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <ShieldCheck 
-                      className="w-3 h-3 text-primary flex-shrink-0" 
-                      data-testid={`icon-exception-${conversation.contactUsername}`}
-                      aria-label="On exceptions list"
-                    />
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p className="text-xs">On exceptions list</p>
-                  </TooltipContent>
-                </Tooltip>
-              )}
-            </div>
-            {conversation.lastMessageTime && (
-              <span className="text-[10px] text-muted-foreground/70 flex-shrink-0 font-normal">
-                {formatTimestamp(conversation.lastMessageTime)}
-              </span>
+                {isGroup ? <Users className="w-4 h-4" /> : getInitials(conversation.contactUsername)}
+              </AvatarFallback>
+            </Avatar>
+            {conversation.unreadCount > 0 && (
+              <Badge
+                variant="destructive"
+                className="absolute -top-1 -right-1 h-4 min-w-4 flex items-center justify-center px-1 text-[10px] rounded-full"
+                data-testid={`badge-unread-${conversation.contactUsername}`}
+              >
+                {conversation.unreadCount > 99 ? '99+' : conversation.unreadCount}
+              </Badge>
             )}
           </div>
-          <div className="flex items-center gap-1.5 min-w-0">
-            {conversation.isEncrypted && (
-              <Lock className="w-3 h-3 text-primary flex-shrink-0" />
-            )}
-            <p 
-              className={cn(
-                'text-xs flex-1 min-w-0 truncate',
-                conversation.unreadCount > 0 
-                  ? 'text-foreground font-medium' 
-                  : 'text-muted-foreground'
+
+          <div className="flex-1 min-w-0 text-left">
+            <div className="flex items-center justify-between gap-2 mb-0.5">
+              <div className="flex items-center gap-1.5 min-w-0">
+                <span className={cn(
+                  'text-sm font-medium truncate',
+                  conversation.unreadCount > 0 && 'font-semibold'
+                )}>
+                  {isGroup
+                    ? conversation.contactUsername
+                    : contact ? getContactDisplayName(contact) : `@${conversation.contactUsername}`}
+                </span>
+                {contact?.isFavorite && (
+                  <Star
+                    className="w-3 h-3 text-yellow-500 fill-yellow-500 flex-shrink-0"
+                    data-testid={`icon-favorite-${conversation.contactUsername}`}
+                    aria-label="Favorite contact"
+                  />
+                )}
+                {isGroup && conversation.isPaid && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <DollarSign 
+                        className="w-3 h-3 text-green-500 flex-shrink-0" 
+                        data-testid={`icon-paid-${conversation.id}`}
+                        aria-label="Paid group"
+                      />
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p className="text-xs">Paid group</p>
+                    </TooltipContent>
+                  </Tooltip>
+                )}
+                {!isGroup && isException(conversation.contactUsername) && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <ShieldCheck 
+                        className="w-3 h-3 text-primary flex-shrink-0" 
+                        data-testid={`icon-exception-${conversation.contactUsername}`}
+                        aria-label="On exceptions list"
+                      />
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p className="text-xs">On exceptions list</p>
+                    </TooltipContent>
+                  </Tooltip>
+                )}
+              </div>
+              {conversation.lastMessageTime && (
+                <span className="text-[10px] text-muted-foreground/70 flex-shrink-0 font-normal">
+                  {formatTimestamp(conversation.lastMessageTime)}
+                </span>
               )}
-              title={conversation.lastMessage || 'No messages yet'}
-            >
-              {truncatePreview(conversation.lastMessage || 'No messages yet')}
-            </p>
+            </div>
+            <div className="flex items-center gap-1.5 min-w-0">
+              {conversation.isEncrypted && (
+                <Lock className="w-3 h-3 text-primary flex-shrink-0" />
+              )}
+              <p 
+                className={cn(
+                  'text-xs flex-1 min-w-0 truncate',
+                  conversation.unreadCount > 0 
+                    ? 'text-foreground font-medium' 
+                    : 'text-muted-foreground'
+                )}
+                title={conversation.lastMessage || 'No messages yet'}
+              >
+                {truncatePreview(conversation.lastMessage || 'No messages yet')}
+              </p>
+            </div>
           </div>
-        </div>
-      </button>
+        </button>
       
-      {onHideConversation && (
-        <Tooltip>
-          <TooltipTrigger asChild>
-            <button
-              onClick={(e) => handleHideClick(e, conversation.id, conversation.contactUsername)}
-              className="absolute top-2 right-2 p-1 rounded-sm opacity-0 group-hover:opacity-100 hover:bg-destructive/10 hover:text-destructive transition-opacity"
-              data-testid={`button-hide-${conversation.contactUsername}`}
-              aria-label="Hide conversation"
-            >
-              <X className="w-3.5 h-3.5" />
-            </button>
-          </TooltipTrigger>
-          <TooltipContent>
-            <p className="text-xs">Hide chat</p>
-          </TooltipContent>
-        </Tooltip>
-      )}
-    </div>
-  );
+        {onHideConversation && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button
+                onClick={(e) => handleHideClick(e, conversation.id, conversation.contactUsername)}
+                className="absolute top-2 right-2 p-1 rounded-sm opacity-0 group-hover:opacity-100 hover:bg-destructive/10 hover:text-destructive transition-opacity"
+                data-testid={`button-hide-${conversation.contactUsername}`}
+                aria-label="Hide conversation"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p className="text-xs">Hide chat</p>
+            </TooltipContent>
+          </Tooltip>
+        )}
+      </div>
+    );
+  };
 
   const renderPendingGroupItem = (pg: PendingGroup) => (
     <button
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Download, Lock, AlertCircle, File, FileText, FileAudio, FileVideo, FileArchive, FileImage, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { decryptFilePayload } from '@/lib/customJsonEncryption';
+import { downloadAttachment, formatFileSize, getFileTypeLabel } from '@/lib/fileAttachments';
+import { updateCustomJsonMessage, type CustomJsonMessage } from '@/lib/messageCache';
+import { VoiceNotePlayer } from '@/components/VoiceNotePlayer';
+import { logger } from '@/lib/logger';
+
+interface FileAttachmentCardProps {
+  message: CustomJsonMessage;
+  currentUsername: string;
+  isSent: boolean;
+}
+
+function getFileIcon(contentType?: string) {
+  if (!contentType) return File;
+  if (contentType.startsWith('audio/')) return FileAudio;
+  if (contentType.startsWith('video/')) return FileVideo;
+  if (contentType.startsWith('image/')) return FileImage;
+  if (contentType.startsWith('text/') || contentType === 'application/pdf') return FileText;
+  if (/zip|gzip|compressed|rar|tar/.test(contentType)) return FileArchive;
+  return File;
+}
+
+/**
+ * Download card for an encrypted file attachment (inline player for voice notes)
+ * The file is decrypted on demand (one Keychain request) and cached decrypted.
+ * Chunked uploads that are still arriving show their progress instead.
+ */
+export function FileAttachmentCard({ message, currentUsername, isSent }: FileAttachmentCardProps) {
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [decryptError, setDecryptError] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const Icon = getFileIcon(message.contentType);
+  const partnerUsername = message.from === currentUsername ? message.to : message.from;
+
+  const handleDecrypt = async () => {
+    setIsDecrypting(true);
+    setDecryptError(null);
+
+    try {
+      const decrypted = await decryptFilePayload(message.encryptedPayload, currentUsername, message.hash);
+
+      await updateCustomJsonMessage(
+        message.txId,
+        {
+          fileData: decrypted.fileData,
+          message: decrypted.message,
+          filename: decrypted.filename,
+          contentType: decrypted.contentType,
+          size: decrypted.size,
+          replyTo: decrypted.replyTo,
+          duration: decrypted.duration,
+          waveform: decrypted.waveform,
+          isDecrypted: true
+        },
+        currentUsername
+      );
+
+      queryClient.invalidateQueries({ queryKey: ['custom-json-messages', currentUsername, partnerUsername] });
+    } catch (error: any) {
+      logger.error('[FILE] Decryption failed:', error);
+      setDecryptError(error?.message || 'Decryption failed');
+
+      toast({
+        title: 'Decryption Failed',
+        description: error?.message || 'Could not decrypt file',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!message.fileData) return;
+
+    try {
+      downloadAttachment(message.fileData, message.filename || 'attachment', message.contentType || 'application/octet-stream');
+    } catch (error) {
+      logger.error('[FILE] Download failed:', error);
+      toast({
+        title: 'Download Failed',
+        description: 'Could not download file',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const mutedText = isSent ? 'text-primary-foreground/70' : 'text-muted-foreground';
+
+  // Some chunks are on chain, the rest is still being sent
+  if (message.receivedChunks !== undefined) {
+    const total = message.chunks || 0;
+
+    return (
+      <div
+        className={cn(
+          'flex items-center gap-3 min-w-[220px] p-2 rounded-lg border',
+          isSent ? 'border-primary-foreground/30' : 'border-card-border bg-muted/40'
+        )}
+        data-testid={`attachment-receiving-${message.sessionId}`}
+      >
+        <div className={cn('p-2 rounded-md', isSent ? 'bg-primary-foreground/15' : 'bg-background')}>
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+
+        <div className="flex-1 min-w-0 space-y-1">
+          <p className="text-body font-medium truncate">
+            {message.kind === 'file' ? 'Incoming file' : 'Incoming image'}
+          </p>
+          <Progress value={total > 0 ? (message.receivedChunks / total) * 100 : 0} className="h-1.5" />
+          <p className={cn('text-caption', mutedText)} data-testid="text-attachment-receiving">
+            Receiving {message.receivedChunks}/{total} chunks
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Voice notes play inline from the cached audio
+  if (message.isDecrypted && message.fileData && message.duration !== undefined) {
+    return (
+      <VoiceNotePlayer
+        fileData={message.fileData}
+        contentType={message.contentType || 'audio/webm'}
+        duration={message.duration}
+        waveform={message.waveform}
+        isSent={isSent}
+        messageId={message.txId}
+      />
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-3 min-w-[220px] p-2 rounded-lg border',
+        isSent ? 'border-primary-foreground/30' : 'border-card-border bg-muted/40'
+      )}
+      data-testid={`file-attachment-${message.txId}`}
+    >
+      <div className={cn('p-2 rounded-md', isSent ? 'bg-primary-foreground/15' : 'bg-background')}>
+        {message.isDecrypted ? <Icon className="w-6 h-6" /> : <Lock className="w-6 h-6" />}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <p className="text-body font-medium truncate" data-testid="text-attachment-filename">
+          {message.isDecrypted ? (message.filename || 'Attachment') : 'Encrypted file'}
+        </p>
+        <p className={cn('text-caption', mutedText)} data-testid="text-attachment-details">
+          {message.isDecrypted
+            ? [getFileTypeLabel(message.contentType, message.filename), message.size !== undefined && formatFileSize(message.size)]
+                .filter(Boolean)
+                .join(' · ')
+            : decryptError || (message.chunks && message.chunks > 1 ? `${message.chunks} chunks` : 'Decrypt to view')}
+        </p>
+      </div>
+
+      {message.isDecrypted ? (
+        <Button
+          type="button"
+          size="icon"
+          variant={isSent ? 'secondary' : 'outline'}
+          onClick={handleDownload}
+          aria-label="Download file"
+          data-testid="button-download-attachment"
+        >
+          <Download className="w-4 h-4" />
+        </Button>
+      ) : (
+        <Button
+          type="button"
+          size="sm"
+          variant={isSent ? 'secondary' : 'default'}
+          onClick={handleDecrypt}
+          disabled={isDecrypting}
+          data-testid="button-decrypt-attachment"
+        >
+          {decryptError && <AlertCircle className="w-4 h-4 mr-1" />}
+          {isDecrypting ? 'Decrypting...' : decryptError ? 'Retry' : 'Decrypt'}
+        </Button>
+      )}
+    </div>
+  );
+}
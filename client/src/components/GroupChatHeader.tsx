@@ -15,12 +15,14 @@ import {
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePresence, useWatchPresence } from '@/contexts/PresenceContext';
 import { useQuery } from '@tanstack/react-query';
 import { preloadFollowingList, doesUserFollowSync } from '@/lib/hiveFollowing';
 import { PaymentStatusBadge, PaymentRequiredIndicator } from './PaymentStatusBadge';
 import type { PaymentSettings, MemberPayment } from '@shared/schema';
 
 interface GroupChatHeaderProps {
+  groupId?: string;
   groupName: string;
   members: string[];
   creator?: string;
@@ -36,11 +38,14 @@ interface GroupChatHeaderProps {
   onOpenSettings?: () => void;
   onOpenBroadcast?: () => void;
   isCreator?: boolean;
+  canEditSettings?: boolean;
+  canBroadcast?: boolean;
   isPublished?: boolean;
   publishedPermlink?: string;
 }
 
 export function GroupChatHeader({ 
+  groupId,
   groupName,
   members,
   creator,
@@ -56,10 +61,18 @@ export function GroupChatHeader({
   onOpenSettings,
   onOpenBroadcast,
   isCreator,
+  canEditSettings,
+  canBroadcast,
   isPublished,
   publishedPermlink
 }: GroupChatHeaderProps) {
   const { user } = useAuth();
+  const { isSharing, getPresence, getTypingUsers } = usePresence();
+  
+  // Online members and typing indicators from the optional presence relay
+  useWatchPresence(isSharing ? members : []);
+  const onlineCount = members.filter(member => member !== user?.username && getPresence(member)?.online).length;
+  const typingMembers = groupId ? getTypingUsers({ groupId }).filter(member => members.includes(member)) : [];
   
   // Preload current user's following list for trust indicators
   const { data: followingList, isPending } = useQuery({
@@ -127,6 +140,7 @@ export function GroupChatHeader({
                   data-testid="button-view-members"
                 >
                   {members.length} {members.length === 1 ? 'member' : 'members'}
+                  {onlineCount > 0 && `, ${onlineCount} online`}
                 </button>
               </PopoverTrigger>
               <PopoverContent className="w-72 p-0" align="start">
@@ -148,11 +162,20 @@ export function GroupChatHeader({
                           className="flex items-center gap-3 p-2 rounded-md hover-elevate"
                           data-testid={`member-item-${member}`}
                         >
-                          <Avatar className="w-8 h-8 flex-shrink-0">
-                            <AvatarFallback className="bg-primary/10 text-primary font-medium text-caption">
-                              {getInitials(member)}
-                            </AvatarFallback>
-                          </Avatar>
+                          <div className="relative flex-shrink-0">
+                            <Avatar className="w-8 h-8">
+                              <AvatarFallback className="bg-primary/10 text-primary font-medium text-caption">
+                                {getInitials(member)}
+                              </AvatarFallback>
+                            </Avatar>
+                            {!isCurrentUser && getPresence(member)?.online && (
+                              <span
+                                className="absolute bottom-0 right-0 w-2.5 h-2.5 rounded-full bg-green-500 border-2 border-popover"
+                                aria-label="Online"
+                                data-testid={`status-online-${member}`}
+                              />
+                            )}
+                          </div>
                           <span className="text-body font-medium truncate flex-1">@{member}</span>
                           <div className="flex items-center gap-1 flex-shrink-0">
                             {isMemberCreator && (
@@ -184,6 +207,14 @@ export function GroupChatHeader({
               </PopoverContent>
             </Popover>
             
+            {typingMembers.length > 0 && (
+              <span className="text-caption text-primary truncate" data-testid="text-group-typing">
+                {typingMembers.length === 1
+                  ? `@${typingMembers[0]} is typing…`
+                  : `${typingMembers.length} people are typing…`}
+              </span>
+            )}
+            
             {/* Payment Status Indicators */}
             {paymentSettings?.enabled && user?.username && (
               <>
@@ -255,7 +286,7 @@ export function GroupChatHeader({
                 Earnings
               </DropdownMenuItem>
             )}
-            {isCreator && onOpenSettings && (
+            {canEditSettings && onOpenSettings && (
               <DropdownMenuItem 
                 onClick={onOpenSettings} 
                 data-testid="menu-group-settings"
@@ -264,7 +295,7 @@ export function GroupChatHeader({
                 Group Settings
               </DropdownMenuItem>
             )}
-            {isCreator && onOpenBroadcast && (
+            {canBroadcast && onOpenBroadcast && (
               <DropdownMenuItem 
                 onClick={onOpenBroadcast} 
                 data-testid="menu-broadcast-message"
@@ -17,6 +17,8 @@ import { Switch } from '@/components/ui/switch';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Textarea } from '@/components/ui/textarea';
 import type { PaymentSettings } from '@shared/schema';
+import { useAuth } from '@/contexts/AuthContext';
+import { useContacts } from '@/hooks/useContacts';
 
 interface GroupCreationModalProps {
   open: boolean;
@@ -45,6 +47,13 @@ export function GroupCreationModal({
   const [paymentDescription, setPaymentDescription] = useState('');
   const [autoApprove, setAutoApprove] = useState(true);
 
+  // Saved contacts (server API) offered as one-click members; blocked users are excluded
+  const { sessionToken } = useAuth();
+  const { activeContacts, blockedUsernames } = useContacts(sessionToken, open);
+  const contactSuggestions = activeContacts.filter(
+    contact => contact.username !== currentUsername && !members.includes(contact.username)
+  );
+
   const validateUsername = (username: string): string | null => {
     const clean = username.toLowerCase().trim().replace('@', '');
     
@@ -68,6 +77,10 @@ export function GroupCreationModal({
       return 'Member already added';
     }
 
+    if (blockedUsernames.has(clean)) {
+      return 'This user is on your blocklist';
+    }
+
     return null;
   };
 
@@ -266,6 +279,26 @@ export function GroupCreationModal({
             <p className="text-caption text-muted-foreground">
               Press Enter or click + to add a member
             </p>
+            {contactSuggestions.length > 0 && (
+              <div className="flex flex-wrap gap-2 pt-1">
+                {contactSuggestions.slice(0, 20).map((contact) => (
+                  <Badge
+                    key={contact.username}
+                    variant="outline"
+                    className="cursor-pointer py-1.5 hover-elevate"
+                    onClick={() => {
+                      if (isCreating) return;
+                      setMembers([...members, contact.username]);
+                      setError(null);
+                    }}
+                    data-testid={`badge-contact-${contact.username}`}
+                  >
+                    <Plus className="w-3 h-3 mr-1" />
+                    {contact.nickname || `@${contact.username}`}
+                  </Badge>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Members List */}
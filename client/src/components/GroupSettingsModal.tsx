@@ -5,7 +5,17 @@ import {
   UserCheck, 
   MessageSquare, 
   AlertTriangle,
-  Loader2
+  Loader2,
+  History,
+  UserPlus,
+  UserMinus,
+  Shield,
+  Crown,
+  Pencil,
+  Ban,
+  UserX,
+  VolumeX,
+  Volume2
 } from 'lucide-react';
 import {
   Dialog,
@@ -34,13 +44,33 @@ import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
 import type { PaymentSettings, GroupConversationCache } from '@shared/schema';
+import { hasGroupPermission } from '@shared/groupRoles';
+import type { GroupAuditAction } from '@shared/groupReducer';
+import { useGroupAuditLog } from '@/hooks/useGroupAuditLog';
+import { formatDistanceToNow } from 'date-fns';
 
 interface WelcomeMessageSettings {
   enabled: boolean;
   message: string;
 }
 
+const AUDIT_ICONS: Record<GroupAuditAction, typeof History> = {
+  created: Settings,
+  members_added: UserPlus,
+  members_removed: UserMinus,
+  role_changed: Shield,
+  ownership_transferred: Crown,
+  renamed: Pencil,
+  settings_changed: DollarSign,
+  banned: UserX,
+  unbanned: UserCheck,
+  muted: VolumeX,
+  unmuted: Volume2,
+  rejected: Ban,
+};
+
 interface GroupSettingsModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -56,7 +86,7 @@ export function GroupSettingsModal({
   currentUsername,
   onUpdateSettings
 }: GroupSettingsModalProps) {
-  const isCreator = currentUsername === group.creator;
+  const canEditSettings = hasGroupPermission(group, currentUsername, 'edit_settings');
   
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -78,6 +108,12 @@ export function GroupSettingsModal({
   const [convertToFreeDialogOpen, setConvertToFreeDialogOpen] = useState(false);
   const [pendingPaymentToggle, setPendingPaymentToggle] = useState(false);
 
+  // Only rebuilt when the history tab is open (scans several account histories)
+  const { data: auditLog, isLoading: isLoadingAudit, error: auditError } = useGroupAuditLog(
+    group,
+    open && canEditSettings && activeTab === 'history'
+  );
+
   useEffect(() => {
     if (open) {
       setPaymentEnabled(group.paymentSettings?.enabled ?? false);
@@ -229,7 +265,7 @@ export function GroupSettingsModal({
     }
   };
 
-  if (!isCreator) {
+  if (!canEditSettings) {
     return (
       <Dialog open={open} onOpenChange={onOpenChange}>
         <DialogContent className="sm:max-w-md">
@@ -242,7 +278,7 @@ export function GroupSettingsModal({
           <Alert variant="destructive">
             <AlertTriangle className="h-4 w-4" />
             <AlertDescription>
-              Only the group creator can manage settings.
+              Only the group owner and admins can manage settings.
             </AlertDescription>
           </Alert>
         </DialogContent>
@@ -265,7 +301,7 @@ export function GroupSettingsModal({
           </DialogHeader>
 
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-4" data-testid="settings-tabs">
+            <TabsList className="grid w-full grid-cols-5" data-testid="settings-tabs">
               <TabsTrigger value="payment" data-testid="tab-payment">
                 <DollarSign className="w-4 h-4" />
               </TabsTrigger>
@@ -275,6 +311,9 @@ export function GroupSettingsModal({
               <TabsTrigger value="welcome" data-testid="tab-welcome">
                 <MessageSquare className="w-4 h-4" />
               </TabsTrigger>
+              <TabsTrigger value="history" data-testid="tab-history">
+                <History className="w-4 h-4" />
+              </TabsTrigger>
               <TabsTrigger value="danger" data-testid="tab-danger">
                 <AlertTriangle className="w-4 h-4" />
               </TabsTrigger>
@@ -633,6 +672,69 @@ export function GroupSettingsModal({
               </Card>
             </TabsContent>
 
+            <TabsContent value="history" className="space-y-4 mt-4">
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <History className="w-4 h-4" />
+                    Membership History
+                  </CardTitle>
+                  <CardDescription>
+                    Member, role and settings changes as recorded on the blockchain
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {isLoadingAudit ? (
+                    <div className="flex items-center justify-center gap-2 py-6 text-sm text-muted-foreground">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Reading group history...
+                    </div>
+                  ) : auditError ? (
+                    <Alert variant="destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertDescription>Failed to load group history</AlertDescription>
+                    </Alert>
+                  ) : !auditLog || auditLog.audit.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">No changes found</p>
+                  ) : (
+                    <>
+                      {auditLog.partial && (
+                        <Alert>
+                          <AlertTriangle className="h-4 w-4" />
+                          <AlertDescription>
+                            The group's creation was not found, so older changes may be missing.
+                          </AlertDescription>
+                        </Alert>
+                      )}
+                      <ScrollArea className="h-[300px] pr-3">
+                        <div className="space-y-2">
+                          {[...auditLog.audit].reverse().map((entry, index) => {
+                            const Icon = AUDIT_ICONS[entry.action];
+                            return (
+                              <div
+                                key={`${entry.trxId || entry.version}-${entry.action}-${index}`}
+                                className={`flex items-start gap-2 p-2 rounded-md border ${entry.action === 'rejected' ? 'opacity-60' : ''}`}
+                                data-testid={`audit-entry-${entry.action}`}
+                              >
+                                <Icon className="w-4 h-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                                <div className="flex-1 min-w-0 space-y-0.5">
+                                  <p className="text-sm break-words">{entry.summary}</p>
+                                  <p className="text-xs text-muted-foreground">
+                                    {formatDistanceToNow(new Date(entry.timestamp), { addSuffix: true })}
+                                  </p>
+                                </div>
+                                <Badge variant="outline" className="text-xs flex-shrink-0">v{entry.version}</Badge>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </ScrollArea>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
             <TabsContent value="danger" className="space-y-4 mt-4">
               <Card className="border-destructive/50">
                 <CardHeader className="pb-3">
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Download, Lock, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
@@ -16,6 +17,7 @@ export function ImageMessage({ message, currentUsername, className }: ImageMessa
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [decryptError, setDecryptError] = useState<string | null>(null);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   const isSentByMe = message.from === currentUsername;
 
@@ -45,6 +47,7 @@ export function ImageMessage({ message, currentUsername, className }: ImageMessa
           message: decrypted.message,
           filename: decrypted.filename,
           contentType: decrypted.contentType,
+          replyTo: decrypted.replyTo,
           isDecrypted: true
         },
         currentUsername
@@ -55,8 +58,13 @@ export function ImageMessage({ message, currentUsername, className }: ImageMessa
       message.message = decrypted.message;
       message.filename = decrypted.filename;
       message.contentType = decrypted.contentType;
+      message.replyTo = decrypted.replyTo;
       message.isDecrypted = true;
 
+      queryClient.invalidateQueries({
+        queryKey: ['custom-json-messages', currentUsername, isSentByMe ? message.to : message.from]
+      });
+
       toast({
         title: 'Image Decrypted',
         description: 'Image decrypted successfully',
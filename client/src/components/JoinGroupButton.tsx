@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { Users, Loader2, DollarSign, CheckCircle } from 'lucide-react';
+import { useState, useMemo } from 'react';
+import { Users, Loader2, DollarSign, CheckCircle, Ticket, Ban } from 'lucide-react';
 import { Button, type ButtonProps } from '@/components/ui/button';
 import {
   Dialog,
@@ -20,6 +20,8 @@ import { GROUP_CUSTOM_JSON_ID } from '@/lib/groupBlockchain';
 import { cacheGroupConversation, getGroupConversation, removePendingGroup } from '@/lib/messageCache';
 import { logger } from '@/lib/logger';
 import { useUserPendingRequests } from '@/hooks/useJoinRequests';
+import { GROUP_INVITE_STATUS_LABELS, parseGroupInvite, validateGroupInvite } from '@/lib/groupInviteLinks';
+import { getGroupBan, type GroupModeration } from '@shared/groupModeration';
 
 interface JoinGroupButtonProps {
   groupId: string;
@@ -30,6 +32,8 @@ interface JoinGroupButtonProps {
   variant?: ButtonProps['variant'];
   className?: string;
   isMember?: boolean; // If true, show "Joined" instead of join button
+  inviteToken?: string; // Signed invite link token - joins without approval (and without payment with a free pass)
+  moderation?: GroupModeration; // Group bans, if known - banned users cannot request to join
 }
 
 export function JoinGroupButton({
@@ -41,6 +45,8 @@ export function JoinGroupButton({
   variant = 'default',
   className,
   isMember = false,
+  inviteToken,
+  moderation,
 }: JoinGroupButtonProps) {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -56,8 +62,10 @@ export function JoinGroupButton({
   // Check blockchain for pending requests (replaces localStorage)
   const { data: pendingRequests = [], isLoading: isLoadingPendingRequests } = useUserPendingRequests(
     groupId,
-    !!user?.username
+    !!user?.username,
+    moderation
   );
+  const ban = user?.username && moderation ? getGroupBan(moderation, user.username) : undefined;
 
   // Determine if user has a pending request
   const hasPendingRequest = pendingRequests.length > 0;
@@ -67,6 +75,10 @@ export function JoinGroupButton({
   const isAutoApprove = paymentSettings?.autoApprove !== false; // Default to true if undefined
   const requiresPayment = paymentSettings?.enabled && parseFloat(paymentSettings.amount) > 0;
 
+  // An invite skips approval; on paid groups only if it carries a free pass
+  const invite = useMemo(() => inviteToken ? parseGroupInvite(inviteToken)?.invite : undefined, [inviteToken]);
+  const inviteGrantsEntry = !!invite && (!requiresPayment || !!invite.freePass);
+
   // Helper function to calculate next due date for recurring payments
   const calculateNextDueDate = (settings: PaymentSettings): string | undefined => {
     if (settings.type === 'recurring' && settings.recurringInterval) {
@@ -85,9 +97,18 @@ export function JoinGroupButton({
       message?: string;
       memberPayment?: MemberPayment;
       paymentTxId?: string;
+      invite?: string;
     }) => {
       if (!user?.username) throw new Error('Not authenticated');
 
+      // Re-check the invite right before redeeming it (it may have run out since the page loaded)
+      if (payload.invite) {
+        const validation = await validateGroupInvite(payload.invite, { groupId, creator: creatorUsername }, user.username);
+        if (validation.status !== 'valid') {
+          throw new Error(GROUP_INVITE_STATUS_LABELS[validation.status]);
+        }
+      }
+
       // Use payment txId as requestId if available, otherwise generate UUID
       const requestId = payload.paymentTxId || crypto.randomUUID();
       const customJson = {
@@ -98,6 +119,7 @@ export function JoinGroupButton({
         status: payload.status,
         message: payload.message,
         memberPayment: payload.memberPayment, // CRITICAL: Include payment proof for paid joins
+        invite: payload.invite, // Counted as one use of the invite
         timestamp: Date.now(),
       };
 
@@ -166,6 +188,12 @@ export function JoinGroupButton({
     joinRequestMutation.mutate({ status: 'approved_free' });
   };
 
+  // Handle invite join - broadcasts join_request with 'approved_free' status and the token
+  // Creator's background process verifies the invite before broadcasting join_approve
+  const handleInviteJoin = () => {
+    joinRequestMutation.mutate({ status: 'approved_free', invite: inviteToken });
+  };
+
   // Handle paid auto-approve join
   const handlePaidJoin = () => {
     // SECURITY: Payment modal MUST open BEFORE any blockchain broadcasts
@@ -286,6 +314,10 @@ export function JoinGroupButton({
       return 'Request Pending...';
     }
 
+    if (inviteGrantsEntry) {
+      return requiresPayment ? 'Join Free with Invite' : 'Join with Invite';
+    }
+
     if (isAutoApprove) {
       if (requiresPayment && paymentSettings) {
         return `Join Group (${paymentSettings.amount} HBD)`;
@@ -300,7 +332,9 @@ export function JoinGroupButton({
   const handleClick = () => {
     if (hasPendingRequest) return; // Disabled
 
-    if (isAutoApprove) {
+    if (inviteGrantsEntry) {
+      handleInviteJoin();
+    } else if (isAutoApprove) {
       if (requiresPayment) {
         handlePaidJoin();
       } else {
@@ -328,6 +362,21 @@ export function JoinGroupButton({
     );
   }
 
+  if (ban) {
+    return (
+      <Button
+        variant="outline"
+        className={className}
+        disabled
+        title={ban.reason ? `Banned: ${ban.reason}` : undefined}
+        data-testid="button-join-banned"
+      >
+        <Ban className="w-4 h-4 mr-2" />
+        Banned from Group
+      </Button>
+    );
+  }
+
   return (
     <>
       <Button
@@ -342,6 +391,11 @@ export function JoinGroupButton({
             <Loader2 className="w-4 h-4 mr-2 animate-spin" />
             Processing...
           </>
+        ) : inviteGrantsEntry ? (
+          <>
+            <Ticket className="w-4 h-4 mr-2" />
+            {getButtonText()}
+          </>
         ) : requiresPayment && isAutoApprove ? (
           <>
             <DollarSign className="w-4 h-4 mr-2" />
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Users, Plus, X, AlertCircle, Crown, Loader2, DollarSign, Check, XCircle, ExternalLink, Clock } from 'lucide-react';
+import { Users, Plus, X, AlertCircle, Crown, Loader2, DollarSign, Check, XCircle, ExternalLink, Clock, Ban, VolumeX, Volume2, UserCheck } from 'lucide-react';
 import { MemberManagementTable } from './MemberManagementTable';
 import {
   Dialog,
@@ -19,17 +19,42 @@ import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { getHiveMemoKey } from '@/lib/hive';
 import { canInviteToGroup } from '@/lib/accountMetadata';
 import { useToast } from '@/hooks/use-toast';
 import { PaymentStatusBadge, PaymentRequiredIndicator } from './PaymentStatusBadge';
 import { PaymentGatewayModal } from './PaymentGatewayModal';
-import type { PaymentSettings, MemberPayment, JoinRequest } from '@shared/schema';
+import type { PaymentSettings, MemberPayment, JoinRequest, GroupRole } from '@shared/schema';
+import {
+  GROUP_ROLE_LABELS,
+  hasGroupPermission,
+  canRemoveGroupMember,
+  canModerateGroupMember,
+  withGroupRole,
+  transferGroupOwnership,
+} from '@shared/groupRoles';
 import { getPaymentStats } from '@/lib/paymentVerification';
 import { useJoinRequests } from '@/hooks/useJoinRequests';
 import { useMutation } from '@tanstack/react-query';
 import { queryClient } from '@/lib/queryClient';
-import { broadcastJoinApprove, broadcastJoinReject } from '@/lib/groupBlockchain';
+import { broadcastJoinApprove, broadcastJoinReject, broadcastGroupModeration } from '@/lib/groupBlockchain';
+import type { GroupReduction } from '@shared/groupReducer';
+import {
+  applyGroupModeration,
+  getGroupMute,
+  type GroupModeration,
+} from '@shared/groupModeration';
 import { cacheGroupConversation, getGroupConversations, type GroupConversationCache } from '@/lib/messageCache';
 import { formatDistanceToNow } from 'date-fns';
 import { logger } from '@/lib/logger';
@@ -44,9 +69,24 @@ interface ManageMembersModalProps {
   currentUsername?: string;
   paymentSettings?: PaymentSettings;
   memberPayments?: MemberPayment[];
+  roles?: Record<string, GroupRole>;
   onUpdateMembers: (newMembers: string[]) => Promise<void>;
+  onUpdateRoles?: (roles: Record<string, GroupRole>) => Promise<void>;
+  moderation?: GroupModeration;
 }
 
+type ModerationAction = 'ban' | 'unban' | 'mute' | 'unmute';
+
+const EMPTY_MODERATION: GroupModeration = { bans: [], mutes: [] };
+
+// Mute lengths offered in the moderation form (hours, 0 = until unmuted)
+const MUTE_DURATIONS = [
+  { value: '1', label: '1 hour' },
+  { value: '24', label: '24 hours' },
+  { value: '168', label: '7 days' },
+  { value: '0', label: 'Until unmuted' },
+];
+
 export function ManageMembersModal({ 
   open, 
   onOpenChange, 
@@ -57,7 +97,10 @@ export function ManageMembersModal({
   currentUsername,
   paymentSettings,
   memberPayments,
-  onUpdateMembers
+  roles,
+  onUpdateMembers,
+  onUpdateRoles,
+  moderation = EMPTY_MODERATION
 }: ManageMembersModalProps) {
   const { toast } = useToast();
   const [newMemberInput, setNewMemberInput] = useState('');
@@ -65,6 +108,10 @@ export function ManageMembersModal({
   const [isUpdating, setIsUpdating] = useState(false);
   const [isValidating, setIsValidating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [transferTarget, setTransferTarget] = useState<string | null>(null);
+  const [moderationTarget, setModerationTarget] = useState('');
+  const [moderationReason, setModerationReason] = useState('');
+  const [muteHours, setMuteHours] = useState('24');
   
   // Payment modal state
   const [paymentModalOpen, setPaymentModalOpen] = useState(false);
@@ -77,14 +124,20 @@ export function ManageMembersModal({
   // Calculate payment stats if payments are enabled
   const paymentStats = getPaymentStats(memberPayments, paymentSettings);
   
-  // Check if current user is the group creator
-  const isCreator = currentUsername === creator;
+  // What the current user's role allows (checked against the saved group)
+  const roleState = { creator, members: currentMembers, roles };
+  const canApproveJoins = hasGroupPermission(roleState, currentUsername, 'approve_joins');
+  const canManageMembers = hasGroupPermission(roleState, currentUsername, 'manage_members');
+  const canBanMembers = hasGroupPermission(roleState, currentUsername, 'ban_members');
+  const canMuteMembers = hasGroupPermission(roleState, currentUsername, 'mute_members');
+  const activeMutes = moderation.mutes.filter(mute => getGroupMute(moderation, mute.username) === mute);
   
-  // Fetch pending join requests (only if user is creator)
+  // Fetch pending join requests (only if user may approve them)
   const { data: pendingRequests = [], isLoading: isLoadingRequests } = useJoinRequests(
     groupId,
     creator,
-    isCreator && open // Only enable if user is creator and modal is open
+    canApproveJoins && open, // Only enable if user can approve joins and modal is open
+    moderation
   );
   
   // Approve join request mutation
@@ -268,6 +321,99 @@ export function ManageMembersModal({
     },
   });
   
+  // Ban / unban / mute / unmute mutation
+  const moderationMutation = useMutation({
+    mutationFn: async ({ action, target, reason, until }: {
+      action: ModerationAction;
+      target: string;
+      reason?: string;
+      until?: string;
+    }) => {
+      if (!currentUsername) {
+        throw new Error('User not authenticated');
+      }
+
+      const permission = action === 'ban' || action === 'unban' ? 'ban_members' : 'mute_members';
+      if (!canModerateGroupMember(roleState, currentUsername, target, permission)) {
+        throw new Error(`Your role cannot ${action} @${target}`);
+      }
+
+      const txId = await broadcastGroupModeration(currentUsername, groupId, action, target, { reason, until });
+      return { txId, action, target, reason, until };
+    },
+    onSuccess: async ({ txId, action, target, reason, until }) => {
+      const next = applyGroupModeration(moderation, action, {
+        username: target,
+        by: currentUsername!,
+        at: new Date().toISOString(),
+        ...(reason && { reason }),
+        ...(action === 'mute' && until && { until }),
+        trxId: txId,
+      });
+
+      // Show the change right away; the audit scan confirms it from chain later
+      queryClient.setQueryData<GroupReduction>(['groupAuditLog', groupId], old =>
+        old ? { ...old, moderation: next } : old
+      );
+
+      try {
+        const cachedGroups = await getGroupConversations(currentUsername!);
+        const cachedGroup = cachedGroups.find(g => g.groupId === groupId);
+        if (cachedGroup) {
+          await cacheGroupConversation({ ...cachedGroup, bans: next.bans, mutes: next.mutes }, currentUsername!);
+        }
+      } catch (cacheError) {
+        logger.warn('[MANAGE MEMBERS] Failed to cache moderation:', cacheError);
+      }
+
+      await queryClient.invalidateQueries({ queryKey: ['joinRequests', groupId] });
+
+      setModerationTarget('');
+      setModerationReason('');
+
+      const labels: Record<ModerationAction, string> = {
+        ban: 'Member Banned',
+        unban: 'Member Unbanned',
+        mute: 'Member Muted',
+        unmute: 'Member Unmuted',
+      };
+      toast({
+        title: labels[action],
+        description: `@${target}${reason ? `: ${reason}` : ''}`,
+      });
+
+      // A ban also takes the user out of the group (and rotates the group key)
+      if (action === 'ban' && canManageMembers && currentMembers.includes(target)) {
+        try {
+          await onUpdateMembers(currentMembers.filter(m => m !== target));
+          setMembers(prev => prev.filter(m => m !== target));
+        } catch (err: any) {
+          setError(`@${target} is banned but could not be removed: ${err.message || 'update failed'}`);
+        }
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Moderation Failed',
+        description: error.message || 'Failed to broadcast moderation action',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleModerate = (action: 'ban' | 'mute') => {
+    const target = moderationTarget.trim().replace(/^@/, '').toLowerCase();
+    if (!target) return;
+
+    const hours = Number(muteHours);
+    moderationMutation.mutate({
+      action,
+      target,
+      reason: moderationReason.trim() || undefined,
+      until: action === 'mute' && hours > 0 ? new Date(Date.now() + hours * 3600000).toISOString() : undefined,
+    });
+  };
+
   // Handle payment verification callback
   const handlePaymentVerified = async (txId: string, amount: string) => {
     if (!pendingApprovalRequest) return;
@@ -431,17 +577,17 @@ export function ManageMembersModal({
   };
 
   const handleRemoveMember = (username: string) => {
-    // Prevent removing creator or current user
-    if (username === creator) {
-      setError('Cannot remove the group creator');
-      return;
-    }
-    
     if (username === currentUsername) {
       setError('Cannot remove yourself from the group');
       return;
     }
 
+    // Staged (unsaved) members can always be dropped again
+    if (currentMembers.includes(username) && !canRemoveGroupMember(roleState, currentUsername, username)) {
+      setError(`Your role cannot remove @${username}`);
+      return;
+    }
+
     setMembers(members.filter(m => m !== username));
     setError(null);
   };
@@ -483,6 +629,45 @@ export function ManageMembersModal({
     }
   };
 
+  // Role changes are broadcast right away (not staged like members), so the table
+  // only offers them while no member changes are pending
+  const handleChangeRole = async (username: string, role: GroupRole) => {
+    if (!onUpdateRoles) return;
+
+    setIsUpdating(true);
+    setError(null);
+
+    try {
+      await onUpdateRoles(withGroupRole(roleState, username, role));
+      toast({
+        title: 'Role Updated',
+        description: `@${username} is now ${GROUP_ROLE_LABELS[role].toLowerCase()}`,
+      });
+    } catch (err: any) {
+      setError(err.message || 'Failed to update role');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleTransferOwnership = async () => {
+    if (!onUpdateRoles || !transferTarget) return;
+
+    const newOwner = transferTarget;
+    setTransferTarget(null);
+    setIsUpdating(true);
+    setError(null);
+
+    try {
+      await onUpdateRoles(transferGroupOwnership(roleState, newOwner));
+      onOpenChange(false);
+    } catch (err: any) {
+      setError(err.message || 'Failed to transfer ownership');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
   const handleOpenChange = (newOpen: boolean) => {
     if (!newOpen && !isUpdating) {
       setNewMemberInput('');
@@ -538,8 +723,8 @@ export function ManageMembersModal({
             </Alert>
           )}
 
-          {/* Pending Join Requests Section - Only shown to group creator */}
-          {isCreator && (
+          {/* Pending Join Requests Section - Only shown to roles that can approve joins */}
+          {canApproveJoins && (
             <div className="space-y-2">
               <div className="flex items-center gap-2">
                 <Label className="text-caption">Pending Join Requests</Label>
@@ -719,46 +904,48 @@ export function ManageMembersModal({
           )}
 
           {/* Add New Member */}
-          <div className="space-y-2">
-            <Label htmlFor="add-member" className="text-caption">
-              Add New Member
-            </Label>
-            <div className="flex gap-2">
-              <Input
-                id="add-member"
-                type="text"
-                placeholder="username"
-                value={newMemberInput}
-                onChange={(e) => {
-                  setNewMemberInput(e.target.value);
-                  setError(null);
-                }}
-                onKeyPress={handleKeyPress}
-                disabled={isUpdating || isValidating}
-                className="h-11 flex-1"
-                autoComplete="off"
-                data-testid="input-add-member"
-              />
-              <Button
-                type="button"
-                variant="outline"
-                size="icon"
-                onClick={handleAddMember}
-                disabled={!newMemberInput.trim() || isUpdating || isValidating}
-                className="h-11 w-11"
-                data-testid="button-add-member"
-              >
-                {isValidating ? (
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                ) : (
-                  <Plus className="w-4 h-4" />
-                )}
-              </Button>
+          {canManageMembers && (
+            <div className="space-y-2">
+              <Label htmlFor="add-member" className="text-caption">
+                Add New Member
+              </Label>
+              <div className="flex gap-2">
+                <Input
+                  id="add-member"
+                  type="text"
+                  placeholder="username"
+                  value={newMemberInput}
+                  onChange={(e) => {
+                    setNewMemberInput(e.target.value);
+                    setError(null);
+                  }}
+                  onKeyPress={handleKeyPress}
+                  disabled={isUpdating || isValidating}
+                  className="h-11 flex-1"
+                  autoComplete="off"
+                  data-testid="input-add-member"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={handleAddMember}
+                  disabled={!newMemberInput.trim() || isUpdating || isValidating}
+                  className="h-11 w-11"
+                  data-testid="button-add-member"
+                >
+                  {isValidating ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Plus className="w-4 h-4" />
+                  )}
+                </Button>
+              </div>
+              <p className="text-caption text-muted-foreground">
+                {isValidating ? 'Verifying username on Hive blockchain...' : 'Press Enter or click + to add a member'}
+              </p>
             </div>
-            <p className="text-caption text-muted-foreground">
-              {isValidating ? 'Verifying username on Hive blockchain...' : 'Press Enter or click + to add a member'}
-            </p>
-          </div>
+          )}
 
           {/* Enhanced Member Management Table */}
           <div className="space-y-2">
@@ -771,16 +958,191 @@ export function ManageMembersModal({
               currentUsername={currentUsername}
               paymentSettings={paymentSettings}
               memberPayments={memberPayments}
+              roles={roles}
+              savedMembers={currentMembers}
               onRemoveMember={handleRemoveMember}
-              onBatchRemove={(usernames) => {
+              onBatchRemove={canManageMembers ? (usernames) => {
                 const newMembers = members.filter(m => !usernames.includes(m));
                 setMembers(newMembers);
-              }}
+              } : undefined}
+              onChangeRole={onUpdateRoles && !hasChanges ? handleChangeRole : undefined}
+              onTransferOwnership={onUpdateRoles && !hasChanges ? setTransferTarget : undefined}
               isUpdating={isUpdating}
               addedMembers={added}
             />
           </div>
 
+          {/* Moderation - bans and mutes, broadcast right away like role changes */}
+          {(canBanMembers || canMuteMembers) && (
+            <div className="space-y-2" data-testid="section-moderation">
+              <div className="flex items-center gap-2">
+                <Label className="text-caption">Moderation</Label>
+                {moderation.bans.length > 0 && (
+                  <Badge variant="secondary" className="text-caption">
+                    {moderation.bans.length} banned
+                  </Badge>
+                )}
+                {activeMutes.length > 0 && (
+                  <Badge variant="secondary" className="text-caption">
+                    {activeMutes.length} muted
+                  </Badge>
+                )}
+              </div>
+
+              <div className="space-y-2 p-3 border rounded-md">
+                <div className="flex gap-2">
+                  <Input
+                    type="text"
+                    placeholder="username"
+                    value={moderationTarget}
+                    onChange={(e) => setModerationTarget(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && e.preventDefault()}
+                    disabled={moderationMutation.isPending}
+                    className="flex-1"
+                    autoComplete="off"
+                    data-testid="input-moderation-target"
+                  />
+                  <Select value={muteHours} onValueChange={setMuteHours} disabled={!canMuteMembers}>
+                    <SelectTrigger className="w-[140px]" data-testid="select-mute-duration">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MUTE_DURATIONS.map(duration => (
+                        <SelectItem key={duration.value} value={duration.value}>
+                          {duration.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Input
+                  type="text"
+                  placeholder="Reason (optional, public)"
+                  value={moderationReason}
+                  onChange={(e) => setModerationReason(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && e.preventDefault()}
+                  disabled={moderationMutation.isPending}
+                  maxLength={200}
+                  data-testid="input-moderation-reason"
+                />
+                <div className="flex gap-2 justify-end">
+                  {canMuteMembers && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleModerate('mute')}
+                      disabled={!moderationTarget.trim() || moderationMutation.isPending}
+                      data-testid="button-mute-member"
+                    >
+                      <VolumeX className="w-3 h-3 mr-1" />
+                      Mute
+                    </Button>
+                  )}
+                  {canBanMembers && (
+                    <Button
+                      type="button"
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => handleModerate('ban')}
+                      disabled={!moderationTarget.trim() || moderationMutation.isPending}
+                      data-testid="button-ban-member"
+                    >
+                      {moderationMutation.isPending ? (
+                        <Loader2 className="w-3 h-3 animate-spin mr-1" />
+                      ) : (
+                        <Ban className="w-3 h-3 mr-1" />
+                      )}
+                      Ban
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {moderation.bans.length === 0 && activeMutes.length === 0 ? (
+                <div className="p-4 border rounded-md text-center">
+                  <p className="text-caption text-muted-foreground">
+                    No banned or muted users
+                  </p>
+                </div>
+              ) : (
+                <ScrollArea className="max-h-[200px] rounded-md border p-3">
+                  <div className="space-y-2">
+                    {moderation.bans.map((ban) => (
+                      <div
+                        key={`ban-${ban.username}`}
+                        className="flex items-start gap-3"
+                        data-testid={`row-ban-${ban.username}`}
+                      >
+                        <Ban className="w-4 h-4 mt-0.5 text-destructive flex-shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <div className="text-body font-medium">@{ban.username}</div>
+                          <p className="text-caption text-muted-foreground">
+                            Banned by @{ban.by} {formatDistanceToNow(new Date(ban.at), { addSuffix: true })}
+                          </p>
+                          {ban.reason && (
+                            <p className="text-caption text-muted-foreground line-clamp-2">
+                              Reason: {ban.reason}
+                            </p>
+                          )}
+                        </div>
+                        {canBanMembers && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => moderationMutation.mutate({ action: 'unban', target: ban.username })}
+                            disabled={moderationMutation.isPending}
+                            data-testid={`button-unban-${ban.username}`}
+                          >
+                            <UserCheck className="w-3 h-3 mr-1" />
+                            Unban
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                    {activeMutes.map((mute) => (
+                      <div
+                        key={`mute-${mute.username}`}
+                        className="flex items-start gap-3"
+                        data-testid={`row-mute-${mute.username}`}
+                      >
+                        <VolumeX className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <div className="text-body font-medium">@{mute.username}</div>
+                          <p className="text-caption text-muted-foreground">
+                            Muted by @{mute.by}{' '}
+                            {mute.until
+                              ? `until ${new Date(mute.until).toLocaleString()}`
+                              : 'until unmuted'}
+                          </p>
+                          {mute.reason && (
+                            <p className="text-caption text-muted-foreground line-clamp-2">
+                              Reason: {mute.reason}
+                            </p>
+                          )}
+                        </div>
+                        {canMuteMembers && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => moderationMutation.mutate({ action: 'unmute', target: mute.username })}
+                            disabled={moderationMutation.isPending}
+                            data-testid={`button-unmute-${mute.username}`}
+                          >
+                            <Volume2 className="w-3 h-3 mr-1" />
+                            Unmute
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              )}
+            </div>
+          )}
+
           {/* Changes Preview */}
           {hasChanges && (
             <Alert data-testid="alert-changes-preview">
@@ -821,6 +1183,24 @@ export function ManageMembersModal({
         </form>
       </DialogContent>
       
+      <AlertDialog open={!!transferTarget} onOpenChange={(open) => !open && setTransferTarget(null)}>
+        <AlertDialogContent data-testid="dialog-transfer-ownership">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Transfer ownership to @{transferTarget}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              @{transferTarget} becomes the owner of "{groupName}" and you stay on as an admin.
+              Only the new owner can undo this.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-transfer">Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleTransferOwnership} data-testid="button-confirm-transfer">
+              Transfer Ownership
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
       {/* Payment Gateway Modal for Join Request Approval */}
       {paymentSettings && pendingApprovalRequest && currentUsername && (
         <PaymentGatewayModal
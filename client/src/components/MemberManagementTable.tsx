@@ -11,7 +11,9 @@ import {
   Filter,
   ChevronDown,
   ChevronUp,
-  Download
+  Download,
+  Shield,
+  ShieldCheck
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -22,7 +24,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { PaymentStatusBadge } from './PaymentStatusBadge';
-import type { PaymentSettings, MemberPayment } from '@shared/schema';
+import type { PaymentSettings, MemberPayment, GroupRole } from '@shared/schema';
+import {
+  GROUP_ROLE_LABELS,
+  getGroupRole,
+  canSetGroupRole,
+  canRemoveGroupMember,
+  hasGroupPermission,
+} from '@shared/groupRoles';
 import { format, formatDistanceToNow } from 'date-fns';
 
 interface MemberManagementTableProps {
@@ -31,12 +40,18 @@ interface MemberManagementTableProps {
   currentUsername?: string;
   paymentSettings?: PaymentSettings;
   memberPayments?: MemberPayment[];
+  roles?: Record<string, GroupRole>;
+  savedMembers?: string[];         // Members as saved on chain; roles can only change for these
   onRemoveMember: (username: string) => void;
   onBatchRemove?: (usernames: string[]) => void;
+  onChangeRole?: (username: string, role: GroupRole) => void;
+  onTransferOwnership?: (username: string) => void;
   isUpdating?: boolean;
   addedMembers?: string[];
 }
 
+const ASSIGNABLE_ROLES: GroupRole[] = ['admin', 'moderator', 'member'];
+
 type StatusFilter = 'all' | 'paid' | 'unpaid' | 'expired';
 type SortField = 'username' | 'joinDate' | 'amount' | 'status';
 
@@ -46,8 +61,12 @@ export function MemberManagementTable({
   currentUsername,
   paymentSettings,
   memberPayments = [],
+  roles,
+  savedMembers = members,
   onRemoveMember,
   onBatchRemove,
+  onChangeRole,
+  onTransferOwnership,
   isUpdating,
   addedMembers = [],
 }: MemberManagementTableProps) {
@@ -79,13 +98,23 @@ export function MemberManagementTable({
     return isNaN(parsed) ? 0 : parsed;
   };
 
+  // Role checks run against the saved group, not the staged member list
+  const roleState = useMemo(() => ({ creator, members: savedMembers, roles }), [creator, savedMembers, roles]);
+  const canTransferOwnership = hasGroupPermission(roleState, currentUsername, 'transfer_ownership');
+
   const enrichedMembers = useMemo(() => {
     return members.map(member => {
       const payment = getMemberPayment(member);
       const status = getMemberStatus(member);
+      const isSaved = savedMembers.includes(member);
       return {
         username: member,
-        isCreator: member === creator,
+        role: isSaved ? getGroupRole(roleState, member) || 'member' : 'member' as GroupRole,
+        canRemove: member !== currentUsername && (!isSaved || canRemoveGroupMember(roleState, currentUsername, member)),
+        roleOptions: isSaved && onChangeRole
+          ? ASSIGNABLE_ROLES.filter(role => canSetGroupRole(roleState, currentUsername, member, role))
+          : [],
+        canReceiveOwnership: isSaved && canTransferOwnership && !!onTransferOwnership && member !== currentUsername,
         isCurrentUser: member === currentUsername,
         isNew: addedMembers.includes(member),
         payment,
@@ -94,7 +123,7 @@ export function MemberManagementTable({
         amount: payment?.amount,
       };
     });
-  }, [members, creator, currentUsername, addedMembers, memberPayments, paymentSettings]);
+  }, [members, savedMembers, roleState, canTransferOwnership, currentUsername, addedMembers, memberPayments, paymentSettings, onChangeRole, onTransferOwnership]);
 
   const filteredMembers = useMemo(() => {
     let result = [...enrichedMembers];
@@ -157,7 +186,7 @@ export function MemberManagementTable({
   };
 
   const toggleSelectAll = () => {
-    const removableMembers = filteredMembers.filter(m => !m.isCreator && !m.isCurrentUser);
+    const removableMembers = filteredMembers.filter(m => m.canRemove);
     if (selectedMembers.size === removableMembers.length) {
       setSelectedMembers(new Set());
     } else {
@@ -211,7 +240,8 @@ export function MemberManagementTable({
     return { paid, expired, unpaid, totalRevenue };
   }, [enrichedMembers, memberPayments]);
 
-  const removableMembers = filteredMembers.filter(m => !m.isCreator && !m.isCurrentUser);
+  const removableMembers = filteredMembers.filter(m => m.canRemove);
+  const showRoleColumn = !!onChangeRole;
 
   return (
     <div className="space-y-3">
@@ -328,6 +358,7 @@ export function MemberManagementTable({
             </button>
           </>
         )}
+        {showRoleColumn && <div className="w-28">Role</div>}
         <div className="w-16">Actions</div>
       </div>
 
@@ -340,22 +371,21 @@ export function MemberManagementTable({
             </div>
           ) : (
             filteredMembers.map((member) => {
-              const canRemove = !member.isCreator && !member.isCurrentUser;
-              
+
               return (
                 <div
                   key={member.username}
                   className="flex items-center gap-2 p-2 rounded-md hover-elevate"
                   data-testid={`member-row-${member.username}`}
                 >
-                  {onBatchRemove && canRemove && (
+                  {onBatchRemove && member.canRemove && (
                     <Checkbox
                       checked={selectedMembers.has(member.username)}
                       onCheckedChange={() => toggleSelectMember(member.username)}
                       data-testid={`checkbox-member-${member.username}`}
                     />
                   )}
-                  {onBatchRemove && !canRemove && <div className="w-4" />}
+                  {onBatchRemove && !member.canRemove && <div className="w-4" />}
                   
                   <Avatar className="w-8 h-8 flex-shrink-0">
                     <AvatarFallback className="bg-primary/10 text-primary font-medium text-caption">
@@ -366,10 +396,22 @@ export function MemberManagementTable({
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-1 flex-wrap">
                       <span className="text-body font-medium truncate">@{member.username}</span>
-                      {member.isCreator && (
-                        <Badge variant="secondary" className="gap-0.5 px-1.5 py-0 text-xs">
+                      {member.role === 'owner' && (
+                        <Badge variant="secondary" className="gap-0.5 px-1.5 py-0 text-xs" data-testid={`badge-role-${member.username}`}>
                           <Crown className="w-2.5 h-2.5" />
-                          Creator
+                          {GROUP_ROLE_LABELS.owner}
+                        </Badge>
+                      )}
+                      {member.role === 'admin' && (
+                        <Badge variant="secondary" className="gap-0.5 px-1.5 py-0 text-xs" data-testid={`badge-role-${member.username}`}>
+                          <ShieldCheck className="w-2.5 h-2.5" />
+                          {GROUP_ROLE_LABELS.admin}
+                        </Badge>
+                      )}
+                      {member.role === 'moderator' && (
+                        <Badge variant="outline" className="gap-0.5 px-1.5 py-0 text-xs" data-testid={`badge-role-${member.username}`}>
+                          <Shield className="w-2.5 h-2.5" />
+                          {GROUP_ROLE_LABELS.moderator}
                         </Badge>
                       )}
                       {member.isCurrentUser && (
@@ -421,7 +463,51 @@ export function MemberManagementTable({
                     </>
                   )}
 
+                  {showRoleColumn && (
+                    <div className="w-28 flex-shrink-0">
+                      {member.roleOptions.length > 0 ? (
+                        <Select
+                          value={member.role}
+                          onValueChange={(role) => onChangeRole!(member.username, role as GroupRole)}
+                          disabled={isUpdating}
+                        >
+                          <SelectTrigger className="h-7 text-xs" data-testid={`select-role-${member.username}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {/* Keep the current role listed even if it is not one we could hand out */}
+                            {!member.roleOptions.includes(member.role) && (
+                              <SelectItem value={member.role} disabled>{GROUP_ROLE_LABELS[member.role]}</SelectItem>
+                            )}
+                            {member.roleOptions.map(role => (
+                              <SelectItem key={role} value={role}>{GROUP_ROLE_LABELS[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <span className="text-caption text-muted-foreground">{GROUP_ROLE_LABELS[member.role]}</span>
+                      )}
+                    </div>
+                  )}
+
                   <div className="w-16 flex-shrink-0 flex items-center gap-1">
+                    {member.canReceiveOwnership && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => onTransferOwnership!(member.username)}
+                            disabled={isUpdating}
+                            data-testid={`button-transfer-ownership-${member.username}`}
+                          >
+                            <Crown className="w-3 h-3" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>Transfer ownership</TooltipContent>
+                      </Tooltip>
+                    )}
                     {member.payment?.txId && (
                       <Tooltip>
                         <TooltipTrigger asChild>
@@ -438,7 +524,7 @@ export function MemberManagementTable({
                         <TooltipContent>View payment receipt</TooltipContent>
                       </Tooltip>
                     )}
-                    {canRemove && (
+                    {member.canRemove && (
                       <Button
                         variant="ghost"
                         size="icon"
@@ -1,13 +1,36 @@
 import { useState, useMemo } from 'react';
-import { Lock, Check, CheckCheck, Clock, Unlock, ExternalLink, Zap } from 'lucide-react';
+import { Lock, Check, CheckCheck, Clock, Unlock, ExternalLink, Zap, Reply, SmilePlus, MoreHorizontal, Pencil, Trash2, Ban } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { Message } from '@shared/schema';
 import { useAuth } from '@/contexts/AuthContext';
 import { decryptMemo } from '@/lib/hive';
-import { updateMessageContent, cacheGroupConversation, cacheGroupMessage, getAllGroupMessages, type GroupMessageCache } from '@/lib/messageCache';
+import { updateMessageContent, cacheGroupConversation, cacheGroupMessage, getAllGroupMessages, type GroupMessageCache, type CustomJsonMessage } from '@/lib/messageCache';
 import { parseGroupMessageMemo, lookupGroupMetadata, setGroupNegativeCache } from '@/lib/groupBlockchain';
 import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ReplyQuote, type ReplyTarget } from '@/components/ReplyQuote';
+import { FileAttachmentCard } from '@/components/FileAttachmentCard';
+import { ImageMessage } from '@/components/ImageMessage';
+import { REACTION_EMOJIS, type MessageReactions } from '@/lib/reactions';
+import { RETRACTED_MESSAGE_PREVIEW, type MessageOpState } from '@/lib/messageOps';
 import { useToast } from '@/hooks/use-toast';
 import { logger } from '@/lib/logger';
 
@@ -63,22 +86,55 @@ interface MessageBubbleProps {
   showTimestamp?: boolean;
   isGroupMessage?: boolean;
   senderName?: string;
+  replyTarget?: ReplyTarget | null;   // Resolved message.replyTo (null if not loaded)
+  onReply?: () => void;
+  onJumpToReply?: () => void;
+  reactions?: MessageReactions;
+  onToggleReaction?: (emoji: string, remove: boolean) => void;
+  onRevealReactions?: () => void;
+  opState?: MessageOpState;           // Verified edit/retract state
+  onEdit?: (content: string) => void; // Only passed for our own confirmed messages
+  onRetract?: () => void;
+  onRevealEdit?: () => void;
+  attachment?: CustomJsonMessage;     // File attachment (custom_json) this message represents
 }
 
-export function MessageBubble({ message, isSent, showAvatar, showTimestamp, isGroupMessage, senderName }: MessageBubbleProps) {
+export function MessageBubble({ message, isSent, showAvatar, showTimestamp, isGroupMessage, senderName, replyTarget, onReply, onJumpToReply, reactions, onToggleReaction, onRevealReactions, opState, onEdit, onRetract, onRevealEdit, attachment }: MessageBubbleProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isDecrypting, setIsDecrypting] = useState(false);
+  const [isReactionPickerOpen, setIsReactionPickerOpen] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState('');
+  const [showRetractConfirm, setShowRetractConfirm] = useState(false);
+
+  const isRetracted = !!opState?.retracted;
+  const displayContent = opState?.content ?? message.content;
 
   const isEncryptedPlaceholder = 
-    message.content === '[🔒 Encrypted - Click to decrypt]' ||
-    message.content.includes('[Encrypted');
+    !opState?.content && (
+      message.content === '[🔒 Encrypted - Click to decrypt]' ||
+      message.content.includes('[Encrypted')
+    );
   
   // PERF-1: Memoize tip notification parsing to prevent re-renders
   const tipNotification = useMemo(() => {
-    return !isEncryptedPlaceholder ? parseTipNotification(message.content) : null;
-  }, [isEncryptedPlaceholder, message.content]);
+    return !isEncryptedPlaceholder ? parseTipNotification(displayContent) : null;
+  }, [isEncryptedPlaceholder, displayContent]);
+
+  const startEditing = () => {
+    setEditText(displayContent);
+    setIsEditing(true);
+  };
+
+  const saveEdit = () => {
+    const trimmed = editText.trim();
+    if (trimmed && trimmed !== displayContent) {
+      onEdit?.(trimmed);
+    }
+    setIsEditing(false);
+  };
 
   const handleDecrypt = async () => {
     if (!user || !message.encryptedMemo) {
@@ -113,13 +169,13 @@ export function MessageBubble({ message, isSent, showAvatar, showTimestamp, isGr
         // Check if this is a group message FIRST (to strip prefix before caching)
         const parsed = parseGroupMessageMemo(decrypted);
         
-        // CRITICAL: Cache only the actual message content (strip group: prefix)
-        const contentToCache = (parsed && parsed.isGroupMessage && parsed.content) 
+        // CRITICAL: Cache only the actual message content (strip group: prefix / envelope)
+        const contentToCache = (parsed && parsed.content) 
           ? parsed.content 
           : decrypted;
         
         logger.info('[DECRYPT] Updating cache with content (prefix stripped if group), length:', contentToCache.length);
-        await updateMessageContent(message.id, contentToCache, user.username);
+        await updateMessageContent(message.id, contentToCache, user.username, parsed?.isGroupMessage ? undefined : parsed?.replyTo);
         logger.info('[DECRYPT] Cache updated successfully');
         
         if (parsed && parsed.isGroupMessage && parsed.groupId) {
@@ -200,6 +256,8 @@ export function MessageBubble({ message, isSent, showAvatar, showTimestamp, isGr
                 txIds: [message.id],
                 confirmed: true,
                 status: 'confirmed',
+                clientMessageId: parsed.clientMessageId,
+                replyTo: parsed.replyTo,
               };
               
               await cacheGroupMessage(groupMessage, user.username);
@@ -283,6 +341,8 @@ export function MessageBubble({ message, isSent, showAvatar, showTimestamp, isGr
         return <Check className="w-3 h-3" />;
       case 'confirmed':
         return <CheckCheck className="w-3 h-3" />;
+      case 'read':
+        return <CheckCheck className="w-3 h-3 text-sky-400" aria-label="Read" />;
       case 'failed':
         return <span className="text-caption text-destructive">Failed</span>;
       default:
@@ -299,9 +359,10 @@ export function MessageBubble({ message, isSent, showAvatar, showTimestamp, isGr
   return (
     <div
         className={cn(
-          'flex items-end gap-2 max-w-[85%] md:max-w-[480px]',
+          'group flex items-end gap-2 max-w-[85%] md:max-w-[480px] rounded-2xl transition-colors',
           isSent ? 'ml-auto flex-row-reverse' : 'mr-auto'
         )}
+        data-message-id={message.id}
         data-testid={`message-${message.id}`}
       >
       <div
@@ -321,7 +382,64 @@ export function MessageBubble({ message, isSent, showAvatar, showTimestamp, isGr
           </div>
         )}
         
-        {isEncryptedPlaceholder ? (
+        {message.replyTo && !isRetracted && (
+          <ReplyQuote
+            target={replyTarget ?? null}
+            isSent={isSent}
+            onClick={onJumpToReply}
+            className="mb-2"
+          />
+        )}
+        
+        {isRetracted ? (
+          <p
+            className={cn(
+              'flex items-center gap-1.5 text-body-lg italic',
+              isSent ? 'text-primary-foreground/70' : 'text-muted-foreground'
+            )}
+            data-testid={`text-retracted-${message.id}`}
+          >
+            <Ban className="w-4 h-4" />
+            {RETRACTED_MESSAGE_PREVIEW}
+          </p>
+        ) : isEditing ? (
+          <div className="flex flex-col gap-2 min-w-[220px]">
+            <Textarea
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  saveEdit();
+                } else if (e.key === 'Escape') {
+                  setIsEditing(false);
+                }
+              }}
+              className="min-h-[60px] text-foreground bg-background"
+              autoFocus
+              data-testid={`input-edit-${message.id}`}
+            />
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)} data-testid={`button-cancel-edit-${message.id}`}>
+                Cancel
+              </Button>
+              <Button size="sm" variant="secondary" onClick={saveEdit} disabled={!editText.trim()} data-testid={`button-save-edit-${message.id}`}>
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : attachment && user && attachment.kind !== 'file' && attachment.receivedChunks === undefined ? (
+          <ImageMessage message={attachment} currentUsername={user.username} />
+        ) : attachment && user ? (
+          <div className="flex flex-col gap-2">
+            <FileAttachmentCard message={attachment} currentUsername={user.username} isSent={isSent} />
+            {attachment.isDecrypted && attachment.message && (
+              <p className="text-body-lg whitespace-pre-wrap break-words" data-testid={`text-attachment-caption-${message.id}`}>
+                {attachment.message}
+              </p>
+            )}
+          </div>
+        ) : isEncryptedPlaceholder ? (
           <div className="flex flex-col gap-2">
             <p className="text-body-lg text-muted-foreground italic">
               🔒 Encrypted Message {isSent && '(Sent)'}
@@ -376,11 +494,50 @@ export function MessageBubble({ message, isSent, showAvatar, showTimestamp, isGr
         ) : (
           <p className={cn(
             'text-body-lg whitespace-pre-wrap break-words',
-            message.content === 'Your encrypted message' && 'text-muted-foreground italic'
+            displayContent === 'Your encrypted message' && 'text-muted-foreground italic'
           )}>
-            {message.content}
+            {displayContent}
           </p>
         )}
+
+        {/* Emoji reactions (custom_json, no HBD) */}
+        {reactions && !isRetracted && (reactions.summaries.length > 0 || reactions.encryptedCount > 0) && (
+          <div className="flex flex-wrap gap-1 mt-2" data-testid={`reactions-${message.id}`}>
+            {reactions.summaries.map(summary => (
+              <button
+                key={summary.emoji}
+                type="button"
+                onClick={() => onToggleReaction?.(summary.emoji, summary.reactedByMe)}
+                title={summary.reactors.map(reactor => `@${reactor}`).join(', ')}
+                className={cn(
+                  'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-caption border hover-elevate',
+                  summary.reactedByMe
+                    ? 'border-primary bg-primary/20'
+                    : isSent ? 'border-primary-foreground/30' : 'border-card-border'
+                )}
+                data-testid={`button-reaction-${message.id}-${summary.emoji}`}
+              >
+                <span>{summary.emoji}</span>
+                <span>{summary.count}</span>
+              </button>
+            ))}
+            {reactions.encryptedCount > 0 && (
+              <button
+                type="button"
+                onClick={onRevealReactions}
+                title="Decrypt reactions"
+                className={cn(
+                  'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-caption border hover-elevate',
+                  isSent ? 'border-primary-foreground/30' : 'border-card-border'
+                )}
+                data-testid={`button-reveal-reactions-${message.id}`}
+              >
+                <Lock className="w-3 h-3" />
+                <span>{reactions.encryptedCount}</span>
+              </button>
+            )}
+          </div>
+        )}
         
         <div
           className={cn(
@@ -397,17 +554,45 @@ export function MessageBubble({ message, isSent, showAvatar, showTimestamp, isGr
           )}>
             {formatTime(message.timestamp)}
           </span>
+          {opState?.edited && (
+            opState.pendingEditTxId ? (
+              <button
+                type="button"
+                onClick={onRevealEdit}
+                title="Decrypt edited version"
+                className={cn(
+                  'inline-flex items-center gap-1 text-caption italic underline hover-elevate',
+                  isSent ? 'text-primary-foreground/70' : 'text-muted-foreground'
+                )}
+                data-testid={`button-reveal-edit-${message.id}`}
+              >
+                <Lock className="w-3 h-3" />
+                edited
+              </button>
+            ) : (
+              <span
+                className={cn(
+                  'text-caption italic',
+                  isSent ? 'text-primary-foreground/70' : 'text-muted-foreground'
+                )}
+                title={opState.editedAt ? `Edited ${new Date(opState.editedAt).toLocaleString()}` : undefined}
+                data-testid={`text-edited-${message.id}`}
+              >
+                edited
+              </span>
+            )
+          )}
           {isSent && (
             <span className={cn(
               'opacity-70',
-              message.status === 'failed' && 'opacity-100'
+              (message.status === 'failed' || message.status === 'read') && 'opacity-100'
             )}>
               {getStatusIcon()}
             </span>
           )}
           
           {/* Blockchain verification link - only show for confirmed messages */}
-          {message.status === 'confirmed' && message.trxId && (
+          {(message.status === 'confirmed' || message.status === 'read') && message.trxId && (
             <a
               href={getBlockchainExplorerUrl(message.trxId)}
               target="_blank"
@@ -424,6 +609,118 @@ export function MessageBubble({ message, isSent, showAvatar, showTimestamp, isGr
           )}
         </div>
       </div>
+
+      {onReply && !isEncryptedPlaceholder && !isRetracted && (
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8 flex-shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity"
+          onClick={onReply}
+          aria-label="Reply to message"
+          data-testid={`button-reply-${message.id}`}
+        >
+          <Reply className="w-4 h-4" />
+        </Button>
+      )}
+
+      {(onEdit || onRetract) && !isRetracted && !isEditing && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8 flex-shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+              aria-label="Message options"
+              data-testid={`button-message-options-${message.id}`}
+            >
+              <MoreHorizontal className="w-4 h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align={isSent ? 'end' : 'start'}>
+            {onEdit && (
+              <DropdownMenuItem
+                onClick={startEditing}
+                disabled={isEncryptedPlaceholder || !!tipNotification}
+                data-testid={`menu-edit-${message.id}`}
+              >
+                <Pencil className="w-4 h-4 mr-2" />
+                Edit
+              </DropdownMenuItem>
+            )}
+            {onRetract && (
+              <DropdownMenuItem
+                onClick={() => setShowRetractConfirm(true)}
+                className="text-destructive focus:text-destructive"
+                data-testid={`menu-retract-${message.id}`}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete for everyone
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      {onToggleReaction && !isEncryptedPlaceholder && !isRetracted && (
+        <Popover open={isReactionPickerOpen} onOpenChange={setIsReactionPickerOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              size="icon"
+              variant="ghost"
+              className={cn(
+                'h-8 w-8 flex-shrink-0 transition-opacity',
+                isReactionPickerOpen ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus-visible:opacity-100'
+              )}
+              aria-label="React to message"
+              data-testid={`button-react-${message.id}`}
+            >
+              <SmilePlus className="w-4 h-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-1 flex gap-1" side="top">
+            {REACTION_EMOJIS.map(emoji => {
+              const reactedByMe = reactions?.summaries.some(summary => summary.emoji === emoji && summary.reactedByMe) ?? false;
+              return (
+                <Button
+                  key={emoji}
+                  size="icon"
+                  variant={reactedByMe ? 'secondary' : 'ghost'}
+                  className="h-9 w-9 text-lg"
+                  onClick={() => {
+                    setIsReactionPickerOpen(false);
+                    onToggleReaction(emoji, reactedByMe);
+                  }}
+                  data-testid={`button-pick-reaction-${emoji}`}
+                >
+                  {emoji}
+                </Button>
+              );
+            })}
+          </PopoverContent>
+        </Popover>
+      )}
+
+      <AlertDialog open={showRetractConfirm} onOpenChange={setShowRetractConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete for everyone?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Hive Messenger clients will show this message as deleted. The original memo stays
+              on the blockchain, and clients that don't support deletion may still show it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-retract">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => onRetract?.()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-retract"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
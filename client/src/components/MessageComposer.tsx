@@ -1,26 +1,33 @@
 import { useState, useRef, useEffect, useMemo, memo } from 'react';
-import { Send, Paperclip, Smile, X, Image as ImageIcon, DollarSign, Info, CheckCircle, Lock as LockIcon } from 'lucide-react';
+import { Send, Paperclip, Smile, X, Image as ImageIcon, DollarSign, Info, CheckCircle, Lock as LockIcon, File as FileIcon, Mic, RotateCw, CalendarClock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-import { requestTransfer, extractTransactionId } from '@/lib/hive';
-import { cacheCustomJsonMessage, cacheMessage, updateConversation, getConversationKey, addOptimisticGroupMessage, confirmGroupMessage, getGroupConversation, cacheGroupConversation, removeOptimisticGroupMessage } from '@/lib/messageCache';
+import { cacheCustomJsonMessage, getConversationKey, getGroupConversation, getChunkUploadsByConversation, deleteChunkUpload, type ChunkUploadJournal } from '@/lib/messageCache';
 import { processImageForBlockchain } from '@/lib/imageUtils';
-import { encryptImagePayload, type ImagePayload } from '@/lib/customJsonEncryption';
-import { broadcastImageMessage } from '@/lib/imageChunking';
-import { checkSufficientRC, estimateCustomJsonRC, formatRC, getRCWarningLevel } from '@/lib/rcEstimation';
+import { encryptImagePayload, encryptFilePayload, type ImagePayload, type FilePayload } from '@/lib/customJsonEncryption';
+import { broadcastImageMessage, needsChunking, IMAGE_CUSTOM_JSON_ID, FILE_CUSTOM_JSON_ID } from '@/lib/imageChunking';
+import { startJournaledUpload, resumeJournaledUpload } from '@/lib/uploadJournal';
+import { processFileForBlockchain, validateAttachmentFile, formatFileSize, getFileTypeLabel } from '@/lib/fileAttachments';
+import { computeWaveform, formatVoiceDuration, getVoiceNoteDurationCap, VOICE_NOTE_MIN_SECONDS, type VoiceNoteInfo } from '@/lib/voiceNotes';
+import { useVoiceRecorder, type VoiceRecording } from '@/hooks/useVoiceRecorder';
+import { checkSufficientRC, estimateCustomJsonRC, formatRC, getRCWarningLevel, getAccountRC } from '@/lib/rcEstimation';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { logger } from '@/lib/logger';
 import { triggerFastPolling } from '@/hooks/useBlockchainMessages';
 import { useRecipientMinimum } from '@/hooks/useRecipientMinimum';
 import { DEFAULT_MINIMUM_HBD } from '@/lib/accountMetadata';
-import { queryClient } from '@/lib/queryClient';
-import { formatGroupMessageMemo } from '@/lib/groupBlockchain';
+import { sendDirectMessage, sendGroupMessage, ESTIMATED_RC_PER_TRANSFER } from '@/lib/messageSending';
+import { toDateTimeLocalValue } from '@/lib/scheduledMessages';
+import { ReplyQuote, type ReplyTarget } from '@/components/ReplyQuote';
+import { usePresence } from '@/contexts/PresenceContext';
+import { useScheduledMessages } from '@/contexts/ScheduledMessagesContext';
 
 interface MessageComposerProps {
   onSend?: (content: string) => void;
@@ -32,10 +39,16 @@ interface MessageComposerProps {
   groupId?: string;
   groupMembers?: string[];
   groupCreator?: string; // Creator of the group (for metadata discovery)
+  replyingTo?: ReplyTarget | null;
+  onCancelReply?: () => void;
 }
 
+// Typing indicator: re-announce while typing, stop after a pause
+const TYPING_REFRESH_MS = 3000;
+const TYPING_IDLE_MS = 5000;
+
 // Memoized batch progress UI component to prevent unnecessary re-renders
-const BatchProgressUI = memo(({ current, total }: { current: number; total: number }) => {
+const BatchProgressUI = memo(({ current, total, label }: { current: number; total: number; label?: string }) => {
   // Memoize progress percentage calculation
   const progressPercentage = useMemo(() => {
     return total > 0 ? (current / total) * 100 : 0;
@@ -46,7 +59,7 @@ const BatchProgressUI = memo(({ current, total }: { current: number; total: numb
   return (
     <div className="space-y-2" data-testid="batch-progress-container">
       <div className="flex items-center justify-between text-caption text-muted-foreground">
-        <span>Sending to {total} member{total !== 1 ? 's' : ''}...</span>
+        <span>{label ?? `Sending to ${total} member${total !== 1 ? 's' : ''}...`}</span>
         <span>{current} / {total}</span>
       </div>
       <Progress 
@@ -69,7 +82,9 @@ export function MessageComposer({
   onMessageSent,
   groupId,
   groupMembers,
-  groupCreator
+  groupCreator,
+  replyingTo,
+  onCancelReply
 }: MessageComposerProps) {
   const [content, setContent] = useState('');
   const [isSending, setIsSending] = useState(false);
@@ -77,6 +92,12 @@ export function MessageComposer({
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [rcWarning, setRcWarning] = useState<{ level: 'critical' | 'low' | 'ok'; message: string } | null>(null);
   const [batchProgress, setBatchProgress] = useState({ current: 0, total: 0 });
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedVoiceNote, setSelectedVoiceNote] = useState<VoiceNoteInfo | null>(null);
+  const [uploadProgress, setUploadProgress] = useState({ current: 0, total: 0 });
+  const [pendingUploads, setPendingUploads] = useState<ChunkUploadJournal[]>([]);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   // CRITICAL: Use ref for synchronous double-click protection (state updates are async!)
@@ -102,11 +123,12 @@ export function MessageComposer({
     }
   }, [recipientMinimum, isLoadingMinimum]);
 
-  // Clear image state when switching to group chats (images not supported in groups)
+  // Clear attachment state when switching to group chats (attachments not supported in groups)
   useEffect(() => {
     if (groupId) {
       setSelectedImage(null);
       setImagePreview(null);
+      setSelectedFile(null);
       setRcWarning(null);
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
@@ -114,21 +136,111 @@ export function MessageComposer({
     }
   }, [groupId]);
 
-  // Handle image selection
-  const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Scheduled messages of this conversation
+  const { messages: scheduledMessages, scheduleMessage, setQueueOpen } = useScheduledMessages();
+  const conversationScheduledCount = scheduledMessages.filter(message =>
+    groupId ? message.groupId === groupId : message.kind === 'direct' && message.to === recipientUsername
+  ).length;
+
+  // Unfinished chunked uploads of this conversation (from the upload journal)
+  const refreshPendingUploads = async () => {
+    if (!user || !recipientUsername || groupId) {
+      setPendingUploads([]);
+      return;
+    }
+
+    try {
+      setPendingUploads(await getChunkUploadsByConversation(user.username, recipientUsername));
+    } catch (error) {
+      logger.warn('[CHUNK UPLOAD] Could not load upload journal:', error);
+    }
+  };
+
+  useEffect(() => {
+    refreshPendingUploads();
+  }, [user?.username, recipientUsername, groupId]);
+
+  // Typing indicator (no-op unless presence sharing is on)
+  const { sendTyping } = usePresence();
+  const groupMembersKey = groupMembers?.join(',') ?? '';
+  const typingRecipients = useMemo(
+    () => groupId ? (groupMembers ?? []) : recipientUsername ? [recipientUsername] : [],
+    [groupId, groupMembersKey, recipientUsername]
+  );
+  const typingSentAtRef = useRef(0);
+
+  const stopTyping = () => {
+    if (typingSentAtRef.current === 0) return;
+    typingSentAtRef.current = 0;
+    sendTyping(typingRecipients, false, groupId);
+  };
+
+  useEffect(() => {
+    if (typingRecipients.length === 0) return;
+
+    if (!content.trim()) {
+      stopTyping();
+      return;
+    }
+
+    if (Date.now() - typingSentAtRef.current > TYPING_REFRESH_MS) {
+      typingSentAtRef.current = Date.now();
+      sendTyping(typingRecipients, true, groupId);
+    }
+
+    const idleTimer = setTimeout(stopTyping, TYPING_IDLE_MS);
+    return () => clearTimeout(idleTimer);
+  }, [content, typingRecipients, groupId, sendTyping]);
+
+  // Stop typing when switching conversations or unmounting
+  useEffect(() => {
+    return stopTyping;
+  }, [typingRecipients, groupId, sendTyping]);
+
+  // Estimate RC cost of a custom_json attachment and warn if it may fail
+  const updateRcWarning = async (estimatedSize: number, label: string) => {
+    if (!user) return;
+
+    try {
+      const chunks = Math.ceil(estimatedSize / 7000);
+      const estimatedRC = estimateCustomJsonRC(estimatedSize, chunks);
+      
+      const { percentage } = await checkSufficientRC(user.username, estimatedRC);
+      const warningLevel = getRCWarningLevel(percentage);
+      
+      if (warningLevel === 'critical') {
+        setRcWarning({
+          level: 'critical',
+          message: `Very low RC (${percentage.toFixed(1)}%). ${label} sending may fail.`
+        });
+      } else if (warningLevel === 'low') {
+        setRcWarning({
+          level: 'low',
+          message: `Low RC (${percentage.toFixed(1)}%). Estimated cost: ${formatRC(estimatedRC)}`
+        });
+      } else {
+        // Clear warning if RC is sufficient
+        setRcWarning(null);
+      }
+    } catch (error) {
+      logger.warn('[RC] Could not estimate RC cost:', error);
+    }
+  };
+
+  // Route the picked file: images are re-encoded to WebP, anything else is sent as-is
+  const handleAttachmentSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    // Validate file type
-    if (!file.type.startsWith('image/')) {
-      toast({
-        title: 'Invalid File',
-        description: 'Please select an image file',
-        variant: 'destructive',
-      });
-      return;
+    if (file.type.startsWith('image/')) {
+      handleImageSelect(file);
+    } else {
+      handleFileSelect(file);
     }
+  };
 
+  // Handle image selection
+  const handleImageSelect = async (file: File) => {
     // Validate file size (max 5MB before compression)
     const MAX_SIZE = 5 * 1024 * 1024;
     if (file.size > MAX_SIZE) {
@@ -148,35 +260,43 @@ export function MessageComposer({
       setImagePreview(event.target?.result as string);
     };
     reader.readAsDataURL(file);
+    setSelectedFile(null);
 
-    // Estimate RC cost for image
-    if (user) {
-      try {
-        // Rough estimate: assume 70% compression
-        const estimatedSize = Math.floor(file.size * 0.3);
-        const chunks = Math.ceil(estimatedSize / 7000);
-        const estimatedRC = estimateCustomJsonRC(estimatedSize, chunks);
-        
-        const { current, percentage } = await checkSufficientRC(user.username, estimatedRC);
-        const warningLevel = getRCWarningLevel(percentage);
-        
-        if (warningLevel === 'critical') {
-          setRcWarning({
-            level: 'critical',
-            message: `Very low RC (${percentage.toFixed(1)}%). Image sending may fail.`
-          });
-        } else if (warningLevel === 'low') {
-          setRcWarning({
-            level: 'low',
-            message: `Low RC (${percentage.toFixed(1)}%). Estimated cost: ${formatRC(estimatedRC)}`
-          });
-        } else {
-          // Clear warning if RC is sufficient
-          setRcWarning(null);
-        }
-      } catch (error) {
-        logger.warn('[RC] Could not estimate RC cost:', error);
+    // Estimate RC cost for image (rough estimate: assume 70% compression)
+    await updateRcWarning(Math.floor(file.size * 0.3), 'Image');
+  };
+
+  // Handle generic file selection (PDF, audio, archives, ...)
+  const handleFileSelect = async (file: File) => {
+    const validation = validateAttachmentFile(file);
+    if (!validation.valid) {
+      toast({
+        title: 'Invalid File',
+        description: validation.error,
+        variant: 'destructive',
+      });
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
       }
+      return;
+    }
+
+    setSelectedFile(file);
+    setSelectedVoiceNote(null);
+    setSelectedImage(null);
+    setImagePreview(null);
+
+    // Base64 and memo encryption grow the file ~1.9x; compression is unknown here
+    await updateRcWarning(Math.ceil(file.size * 1.33 * 1.4), 'File');
+  };
+
+  // Remove selected file
+  const handleRemoveFile = () => {
+    setSelectedFile(null);
+    setSelectedVoiceNote(null);
+    setRcWarning(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
   };
 
@@ -196,6 +316,8 @@ export function MessageComposer({
     if (isSendingRef.current || !selectedImage || !user || !recipientUsername) return;
     isSendingRef.current = true;
     setIsSending(true);
+    const replyToId = replyingTo?.id;
+    let isJournaled = false;
 
     try {
       // Step 1: Process image (WebP + Gzip + Base64)
@@ -224,7 +346,8 @@ export function MessageComposer({
         contentType: processedImage.contentType,
         from: user.username,
         to: recipientUsername,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        replyTo: replyToId
       };
 
       // Step 3: Encrypt and hash
@@ -244,26 +367,43 @@ export function MessageComposer({
         duration: 60000,
       });
 
-      const txId = await broadcastImageMessage(user.username, encrypted, hash);
-      logger.info('[IMAGE] Broadcast success, txId:', txId);
-
-      // Step 5: Cache locally with UNCOMPRESSED base64 for display
-      const conversationKey = [user.username, recipientUsername].sort().join('-');
-      await cacheCustomJsonMessage({
-        txId,
-        conversationKey,
+      // Local copy with UNCOMPRESSED base64 for display
+      const imageMessage = {
         from: user.username,
         to: recipientUsername,
-        imageData: processedImage.base64Uncompressed, // Use uncompressed for display
+        kind: 'image' as const,
+        imageData: processedImage.base64Uncompressed,
         message: content.trim() || undefined,
         filename: selectedImage.name,
         contentType: processedImage.contentType,
-        timestamp: new Date().toISOString(),
-        encryptedPayload: encrypted,
-        hash,
         isDecrypted: true,
-        confirmed: true
-      }, user.username);
+        replyTo: replyToId
+      };
+
+      if (needsChunking(encrypted, hash)) {
+        // Journaled upload: resumable if Keychain is rejected or RC runs out midway
+        // (cached by the journal once every chunk is confirmed)
+        isJournaled = true;
+        const txId = await startJournaledUpload(
+          { username: user.username, customJsonId: IMAGE_CUSTOM_JSON_ID, encrypted, hash, message: imageMessage },
+          (current, total) => setUploadProgress({ current, total })
+        );
+        logger.info('[IMAGE] Chunked broadcast success, txId:', txId);
+      } else {
+        const txId = await broadcastImageMessage(user.username, encrypted, hash, recipientUsername);
+        logger.info('[IMAGE] Broadcast success, txId:', txId);
+
+        // Step 5: Cache locally for display
+        await cacheCustomJsonMessage({
+          ...imageMessage,
+          txId,
+          conversationKey: getConversationKey(user.username, recipientUsername),
+          timestamp: new Date().toISOString(),
+          encryptedPayload: encrypted,
+          hash,
+          confirmed: true
+        }, user.username);
+      }
 
       // Success!
       toast({
@@ -274,6 +414,7 @@ export function MessageComposer({
       // Clear state
       setContent('');
       handleRemoveImage();
+      onCancelReply?.();
       if (textareaRef.current) {
         textareaRef.current.style.height = 'auto';
       }
@@ -288,19 +429,253 @@ export function MessageComposer({
 
     } catch (error: any) {
       logger.error('[IMAGE] Send failed:', error);
+      await refreshPendingUploads();
+
+      // The journaled upload is resumed from the list rather than by sending again
+      if (isJournaled) {
+        handleRemoveImage();
+      }
+
       toast({
         title: 'Image Send Failed',
-        description: error?.message || 'Could not send image. Please try again.',
+        description: isJournaled
+          ? 'The upload was saved. Resume it from the list above the message box.'
+          : error?.message || 'Could not send image. Please try again.',
         variant: 'destructive',
       });
     } finally {
+      setUploadProgress({ current: 0, total: 0 });
       isSendingRef.current = false;
       setIsSending(false);
     }
   };
 
-  // Handle sending to group chat (batch send to all members)
-  const handleGroupSend = async () => {
+  // Voice notes: recording stops at the RC-driven cap, then the note is sent right away
+  const handleRecordingComplete = async (recording: VoiceRecording) => {
+    if (recording.duration < VOICE_NOTE_MIN_SECONDS) {
+      toast({
+        title: 'Voice Message Too Short',
+        description: 'Hold on a little longer to record a message',
+      });
+      return;
+    }
+
+    const extension = recording.mimeType.includes('ogg') ? 'ogg' : recording.mimeType.includes('mp4') ? 'm4a' : 'webm';
+    const file = new File([recording.blob], `voice-message-${Date.now()}.${extension}`, { type: recording.mimeType });
+    const waveform = await computeWaveform(recording.blob);
+
+    await handleFileSend(file, { duration: recording.duration, waveform });
+  };
+
+  const voiceRecorder = useVoiceRecorder(handleRecordingComplete);
+
+  const handleStartRecording = async () => {
+    if (!user || !recipientUsername) return;
+
+    try {
+      const rcInfo = await getAccountRC(user.username);
+      const maxSeconds = getVoiceNoteDurationCap(rcInfo.current);
+
+      if (maxSeconds < VOICE_NOTE_MIN_SECONDS) {
+        toast({
+          title: 'Not Enough RC',
+          description: 'Your Resource Credits are too low to send a voice message right now',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      await voiceRecorder.start(maxSeconds);
+    } catch (error: any) {
+      logger.error('[VOICE] Could not start recording:', error);
+      toast({
+        title: 'Recording Failed',
+        description: error?.name === 'NotAllowedError'
+          ? 'Microphone access was denied'
+          : error?.message || 'Could not access the microphone',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Handle sending a file attachment or voice note (journaled chunked custom_json)
+  const handleFileSend = async (file: File, voiceNote?: VoiceNoteInfo) => {
+    // CRITICAL: Use ref for synchronous double-click protection (state is async!)
+    if (isSendingRef.current || !user || !recipientUsername) return;
+    isSendingRef.current = true;
+    setIsSending(true);
+    // Set once the encrypted upload is in the journal (failures after that are resumable)
+    let isJournaled = false;
+
+    try {
+      const processedFile = await processFileForBlockchain(file);
+
+      const payload: FilePayload = {
+        fileData: processedFile.fileData,
+        compressed: processedFile.compressed,
+        message: content.trim() || undefined,
+        filename: file.name,
+        // Recorders report e.g. "audio/webm;codecs=opus", which sniffing reads as video/webm
+        contentType: voiceNote ? file.type : processedFile.contentType,
+        size: processedFile.size,
+        from: user.username,
+        to: recipientUsername,
+        timestamp: Date.now(),
+        replyTo: replyingTo?.id,
+        duration: voiceNote?.duration,
+        waveform: voiceNote?.waveform
+      };
+
+      const { encrypted, hash } = await encryptFilePayload(payload, user.username);
+      logger.sensitive('[FILE] Encrypted size:', encrypted.length, 'hash:', hash.substring(0, 16));
+
+      // Cached with the original file for instant download once every chunk is confirmed
+      isJournaled = true;
+      const txId = await startJournaledUpload(
+        {
+          username: user.username,
+          customJsonId: FILE_CUSTOM_JSON_ID,
+          encrypted,
+          hash,
+          message: {
+            from: user.username,
+            to: recipientUsername,
+            kind: 'file',
+            fileData: processedFile.fileDataUncompressed,
+            message: payload.message,
+            filename: payload.filename,
+            contentType: payload.contentType,
+            size: payload.size,
+            duration: payload.duration,
+            waveform: payload.waveform,
+            isDecrypted: true,
+            replyTo: payload.replyTo
+          }
+        },
+        (current, total) => setUploadProgress({ current, total })
+      );
+      logger.info('[FILE] Broadcast success, txId:', txId);
+
+      toast({
+        title: voiceNote ? 'Voice Message Sent' : 'File Sent',
+        description: voiceNote
+          ? formatVoiceDuration(voiceNote.duration)
+          : `${payload.filename} (${formatFileSize(payload.size)})`,
+      });
+
+      setContent('');
+      handleRemoveFile();
+      onCancelReply?.();
+      if (textareaRef.current) {
+        textareaRef.current.style.height = 'auto';
+      }
+
+      triggerFastPolling();
+
+      if (onMessageSent) {
+        onMessageSent();
+      }
+    } catch (error: any) {
+      logger.error('[FILE] Send failed:', error);
+
+      await refreshPendingUploads();
+
+      // Journaled uploads are resumed from the list; otherwise keep the file
+      // selected so pressing send tries again
+      if (isJournaled) {
+        handleRemoveFile();
+      } else {
+        setSelectedFile(file);
+        setSelectedVoiceNote(voiceNote ?? null);
+      }
+
+      toast({
+        title: voiceNote ? 'Voice Message Failed' : 'File Send Failed',
+        description: isJournaled
+          ? 'The upload was saved. Resume it from the list above the message box.'
+          : error?.message || 'Could not send file. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploadProgress({ current: 0, total: 0 });
+      isSendingRef.current = false;
+      setIsSending(false);
+    }
+  };
+
+  // Resume an unfinished upload from the journal (only the unconfirmed chunks are sent)
+  const handleResumeUpload = async (journal: ChunkUploadJournal) => {
+    if (isSendingRef.current || !user) return;
+    isSendingRef.current = true;
+    setIsSending(true);
+
+    try {
+      const txId = await resumeJournaledUpload(user.username, journal, (current, total) => {
+        setUploadProgress({ current, total });
+      });
+      logger.info('[CHUNK UPLOAD] Resumed upload complete, txId:', txId);
+
+      toast({
+        title: journal.message.kind === 'file' ? 'File Sent' : 'Image Sent',
+        description: journal.message.filename,
+      });
+
+      triggerFastPolling();
+
+      if (onMessageSent) {
+        onMessageSent();
+      }
+    } catch (error: any) {
+      logger.error('[CHUNK UPLOAD] Resume failed:', error);
+      toast({
+        title: 'Upload Paused',
+        description: `Sent ${journal.confirmedChunks.length} of ${journal.chunks.length} chunks. ${error?.message || 'Please try again.'}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setUploadProgress({ current: 0, total: 0 });
+      await refreshPendingUploads();
+      isSendingRef.current = false;
+      setIsSending(false);
+    }
+  };
+
+  const handleDiscardUpload = async (journal: ChunkUploadJournal) => {
+    if (!user) return;
+
+    try {
+      await deleteChunkUpload(journal.sessionId, user.username);
+    } catch (error) {
+      logger.error('[CHUNK UPLOAD] Could not discard upload:', error);
+    }
+    await refreshPendingUploads();
+  };
+
+  // Clear the composer after a message was queued for later
+  const handleScheduled = (sendAt: Date) => {
+    setContent('');
+    onCancelReply?.();
+    if (textareaRef.current) {
+      textareaRef.current.style.height = 'auto';
+    }
+
+    toast({
+      title: 'Message Scheduled',
+      description: `Will be sent ${sendAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })} if Hive Messenger is open`,
+    });
+  };
+
+  const handleScheduleError = (error: any) => {
+    logger.error('[SCHEDULED] Could not schedule message:', error);
+    toast({
+      title: 'Could Not Schedule',
+      description: error?.message || 'Failed to save the scheduled message',
+      variant: 'destructive',
+    });
+  };
+
+  // Handle sending to group chat (batch send to all members), or scheduling it
+  const handleGroupSend = async (sendAt?: Date) => {
     // CRITICAL: Use ref for synchronous double-click protection (state is async!)
     if (isSendingRef.current) {
       return;
@@ -317,19 +692,41 @@ export function MessageComposer({
 
     const messageText = content.trim();
     if (!messageText) return;
+    const replyToId = replyingTo?.id;
 
     // Set sending state NOW to block any further submissions (both ref and state)
     isSendingRef.current = true;
     setIsSending(true);
 
+    if (sendAt) {
+      try {
+        const group = await getGroupConversation(groupId, user.username);
+        await scheduleMessage({
+          kind: 'group',
+          groupId,
+          groupName: group?.name,
+          groupCreator,
+          members: groupMembers,
+          content: messageText,
+          replyTo: replyToId,
+          sendAt: sendAt.toISOString(),
+        });
+        handleScheduled(sendAt);
+      } catch (error) {
+        handleScheduleError(error);
+      } finally {
+        isSendingRef.current = false;
+        setIsSending(false);
+      }
+      return;
+    }
+
     // RC Validation: Check if user has sufficient RC for batch sending
     try {
       const recipientCount = groupMembers.filter(m => m !== user.username).length;
       
       if (recipientCount > 0) {
-        // Estimate RC cost per transfer (rough estimate: 200M RC per transfer)
-        const estimatedRCPerTransfer = 200000000;
-        const totalEstimatedRC = estimatedRCPerTransfer * recipientCount;
+        const totalEstimatedRC = ESTIMATED_RC_PER_TRANSFER * recipientCount;
         
         const { current, percentage } = await checkSufficientRC(user.username, totalEstimatedRC);
         const warningLevel = getRCWarningLevel(percentage);
@@ -366,183 +763,43 @@ export function MessageComposer({
 
     // Clear input immediately for instant feedback
     setContent('');
+    onCancelReply?.();
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto';
     }
 
     try {
-      // Step 1: Generate tempId and format message with group prefix (includes creator for discovery)
-      const tempId = crypto.randomUUID();
-      const creator = groupCreator || user.username; // Fallback to current user if creator unknown
-      const formattedMessage = formatGroupMessageMemo(groupId, creator, messageText);
-      
-      logger.info('[GROUP SEND] Starting batch send:', {
+      const { txIds, failedRecipients, remainingRecipients, attemptedCount, rcDepleted, cancelled, sharedKey, recipientCount } = await sendGroupMessage({
+        from: user.username,
         groupId,
-        creator,
-        memberCount: groupMembers.length,
-        tempId,
+        groupCreator,
+        members: groupMembers,
+        content: messageText,
+        replyTo: replyToId,
+        onProgress: (current, total) => setBatchProgress({ current, total }),
       });
 
-      // Step 2: Add optimistic message to cache
-      await addOptimisticGroupMessage(
-        groupId,
-        user.username,
-        groupMembers,
-        messageText,
-        formattedMessage,
-        tempId,
-        user.username
-      );
-
-      // Step 3: Encrypt and send to each member
-      const txIds: string[] = [];
-      const failedRecipients: string[] = [];
-      const remainingRecipients: string[] = [];
-      const attemptedRecipients: string[] = []; // Track who we actually attempted to send to (RC may be consumed)
-      let rcDepleted = false;
-      let completedAttempts = 0; // Track actual completed attempts (success or failure)
-      
-      // Calculate total recipients (excluding self)
-      const totalRecipients = groupMembers.filter(m => m !== user.username).length;
-      
-      for (let i = 0; i < groupMembers.length; i++) {
-        const member = groupMembers[i];
-        
-        // Skip sending to yourself
-        if (member === user.username) {
-          logger.info('[GROUP SEND] Skipping self:', member);
-          continue;
-        }
-
-        // Per-send RC validation: Check RC before EACH individual send
-        try {
-          const { percentage } = await checkSufficientRC(user.username, 200000000);
-          
-          // If RC drops below 10% during batch, stop sending
-          if (percentage < 10) {
-            logger.warn('[GROUP SEND] RC critically low mid-batch, stopping sends');
-            rcDepleted = true;
-            
-            // Add remaining members to the remaining list (not attempted, no RC consumed)
-            for (let j = i; j < groupMembers.length; j++) {
-              if (groupMembers[j] !== user.username) {
-                remainingRecipients.push(groupMembers[j]);
-              }
-            }
-            break;
-          }
-          
-          // If RC is between 10-30%, log warning but continue
-          if (percentage < 30) {
-            logger.warn('[GROUP SEND] Low RC mid-batch:', percentage.toFixed(1) + '%');
-          }
-        } catch (rcError) {
-          logger.warn('[GROUP SEND] Could not check RC for member:', member, rcError);
-          // Don't block if RC check fails
-        }
-
-        // Mark as attempted (transfer will be attempted, RC may be consumed)
-        attemptedRecipients.push(member);
-
-        try {
-          // OPTIMIZED: Single Keychain popup - prepare memo with # prefix for auto-encryption
-          const memoToEncrypt = `#${formattedMessage}`;
-          
-          logger.info('[GROUP SEND] Sending to member (auto-encrypt):', member);
-          
-          // Single Keychain call - Keychain auto-encrypts memos starting with #
-          const transfer = await requestTransfer(
-            user.username,
-            member,
-            DEFAULT_MINIMUM_HBD,
-            memoToEncrypt, // Keychain will encrypt this automatically
-            'HBD'
-          );
-
-          if (transfer.success && transfer.result) {
-            const txId = extractTransactionId(transfer.result);
-            txIds.push(txId);
-            logger.info('[GROUP SEND] ✅ Sent to', member, '- txId:', txId);
-          } else {
-            // Transfer was attempted but failed (RC likely consumed)
-            failedRecipients.push(member);
-            logger.error('[GROUP SEND] ❌ Failed to send to', member);
-          }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          
-          // EDGE CASE FIX #1: Detect user abort/cancellation
-          const isUserAbort = errorMessage.toLowerCase().includes('cancel') ||
-                              errorMessage.toLowerCase().includes('denied') ||
-                              errorMessage.toLowerCase().includes('abort');
-          
-          if (isUserAbort) {
-            // User cancelled - abort entire batch and rollback
-            logger.warn('[GROUP SEND] User cancelled, rolling back entire batch');
-            await removeOptimisticGroupMessage(tempId, user.username);
-            
-            // EDGE CASE FIX #1: Use actual successful txIds count for accurate reporting
-            const successfulSends = txIds.length;
-            
-            toast({ 
-              title: 'Cancelled', 
-              description: successfulSends > 0 
-                ? `Group message cancelled. Successfully sent to ${successfulSends} member(s).`
-                : 'Group message cancelled.',
-              variant: 'default'
-            });
-            
-            isSendingRef.current = false;
-            setIsSending(false);
-            setBatchProgress({ current: 0, total: 0 });
-            return; // Exit immediately, don't confirm anything
-          }
-          
-          // For non-abort errors, track as failed recipient
-          failedRecipients.push(member);
-          logger.error('[GROUP SEND] ❌ Error sending to', member, ':', error);
-        }
-
-        // Update progress based on actual completed attempts (not loop iteration)
-        completedAttempts++;
-        setBatchProgress({ current: completedAttempts, total: totalRecipients });
+      if (cancelled) {
+        toast({ 
+          title: 'Cancelled', 
+          description: txIds.length > 0 
+            ? `Group message cancelled. Successfully sent to ${txIds.length} member(s).`
+            : 'Group message cancelled.',
+          variant: 'default'
+        });
+        return;
       }
 
-      // Step 4: Handle results based on what was attempted
-      // CRITICAL FIX: Don't rollback if any attempts were made (RC was consumed)
-      // Only rollback if NO attempts were made (no RC consumed)
-      if (attemptedRecipients.length === 0) {
-        // NO attempts made - safe to rollback (no RC consumed)
-        logger.warn('[GROUP SEND] No attempts made, rolling back optimistic message');
-        await removeOptimisticGroupMessage(tempId, user.username);
-        
+      if (attemptedCount === 0) {
         toast({
           title: 'Send Failed',
           description: 'No transfers were attempted. Message not saved.',
           variant: 'destructive',
         });
-        
         return;
       }
 
-      // Step 5: Confirm the group message with results
-      // This handles all cases where attempts were made:
-      // - All succeeded (txIds.length === attemptedRecipients.length, failedRecipients.length === 0)
-      // - Some failed (txIds.length > 0, failedRecipients.length > 0)
-      // - All failed (txIds.length === 0, failedRecipients.length === attemptedRecipients.length)
-      await confirmGroupMessage(tempId, txIds, failedRecipients, user.username);
-
-      // Step 6: Update group conversation cache with last message
-      const timestamp = new Date().toISOString();
-      const groupConv = await getGroupConversation(groupId, user.username);
-      if (groupConv) {
-        groupConv.lastMessage = messageText;
-        groupConv.lastTimestamp = timestamp;
-        await cacheGroupConversation(groupConv, user.username);
-        logger.info('[GROUP SEND] Updated group conversation cache');
-      }
-
-      // Step 7: Show appropriate toast based on results
+      // Show appropriate toast based on results
       if (rcDepleted && remainingRecipients.length > 0) {
         // RC depleted mid-batch
         toast({
@@ -551,18 +808,19 @@ export function MessageComposer({
           variant: 'destructive',
         });
       } else if (failedRecipients.length === 0) {
-        // Full success
+        // Full success (a shared-key send is one broadcast for every member)
+        const sentCount = sharedKey ? recipientCount : txIds.length;
         const { percentage } = await checkSufficientRC(user.username, 0).catch(() => ({ percentage: 100 }));
         
         if (percentage < 30) {
           toast({
             title: 'Group Message Sent',
-            description: `Successfully sent to ${txIds.length} member${txIds.length !== 1 ? 's' : ''}. RC now at ${percentage.toFixed(1)}%`,
+            description: `Successfully sent to ${sentCount} member${sentCount !== 1 ? 's' : ''}. RC now at ${percentage.toFixed(1)}%`,
           });
         } else {
           toast({
             title: 'Group Message Sent',
-            description: `Successfully sent to ${txIds.length} member${txIds.length !== 1 ? 's' : ''}`,
+            description: `Successfully sent to ${sentCount} member${sentCount !== 1 ? 's' : ''}`,
           });
         }
       } else {
@@ -574,14 +832,6 @@ export function MessageComposer({
         });
       }
 
-      // Step 8: Invalidate group caches with correct query keys
-      queryClient.invalidateQueries({
-        queryKey: ['blockchain-group-messages', user.username, groupId],
-      });
-      queryClient.invalidateQueries({
-        queryKey: ['blockchain-group-conversations', user.username],
-      });
-
       // Trigger fast polling
       triggerFastPolling();
 
@@ -604,8 +854,9 @@ export function MessageComposer({
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // sendAt: queue the text message for later instead of sending it now
+  const handleSubmit = async (e?: React.FormEvent, sendAt?: Date) => {
+    e?.preventDefault();
     
     // CRITICAL: Use ref for synchronous double-click protection (state is async!)
     if (isSendingRef.current) {
@@ -617,6 +868,10 @@ export function MessageComposer({
     if (selectedImage && !groupId) {
       return handleImageSend();
     }
+
+    if (selectedFile && !groupId) {
+      return handleFileSend(selectedFile, selectedVoiceNote ?? undefined);
+    }
     
     if (!content.trim() || disabled) {
       return;
@@ -624,7 +879,7 @@ export function MessageComposer({
 
     // Route to group send if groupId is provided
     if (groupId) {
-      return handleGroupSend();
+      return handleGroupSend(sendAt);
     }
 
     // If no conversationId or recipientUsername, fall back to legacy onSend
@@ -650,6 +905,7 @@ export function MessageComposer({
     }
 
     const messageText = content.trim();
+    const replyToId = replyingTo?.id;
     
     // Set sending state NOW to block any further submissions (both ref and state)
     isSendingRef.current = true;
@@ -726,121 +982,45 @@ export function MessageComposer({
       return;
     }
 
+    if (sendAt) {
+      try {
+        await scheduleMessage({
+          kind: 'direct',
+          to: recipientUsername,
+          amount: sendAmount,
+          content: messageText,
+          replyTo: replyToId,
+          sendAt: sendAt.toISOString(),
+        });
+        handleScheduled(sendAt);
+      } catch (error) {
+        handleScheduleError(error);
+      } finally {
+        isSendingRef.current = false;
+        setIsSending(false);
+      }
+      return;
+    }
+
     // Clear the input immediately for instant feedback
     setContent('');
+    onCancelReply?.();
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto';
     }
 
     try {
       // OPTIMIZED: Single Keychain popup - encryption + transfer combined
-      // Prepare memo with # prefix for auto-encryption by Keychain
-      const memoToEncrypt = `#${messageText}`;
-      
-      console.log('[SEND] Broadcasting encrypted transfer to blockchain...', {
-        from: user.username,
-        to: recipientUsername,
-        amount: sendAmount + ' HBD'
-      });
-      
-      logger.info('[MessageComposer] Single-step send (# prefix auto-encrypts):', {
-        from: user.username,
-        to: recipientUsername,
-        amount: sendAmount
-      });
-      
-      // Single Keychain call - Keychain auto-encrypts memos starting with #
-      let txId: string | undefined;
+      // (the sent message is cached optimistically for instant display)
       try {
-        const transfer = await requestTransfer(
-          user.username,
-          recipientUsername,
-          sendAmount, // v2.0.0: Use custom amount instead of hardcoded 0.001
-          memoToEncrypt, // Keychain will encrypt this automatically
-          'HBD'
-        );
-        
-        console.log('[SEND] Transfer response received:', {
-          success: transfer.success,
-          hasTxId: !!transfer.result
-        });
-        
-        logger.info('[MessageComposer] Transfer response:', {
-          success: transfer.success,
-          message: transfer.message,
-          error: transfer.error
+        const txId = await sendDirectMessage({
+          from: user.username,
+          to: recipientUsername,
+          content: messageText,
+          amount: sendAmount, // v2.0.0: Use custom amount instead of hardcoded 0.001
+          replyTo: replyToId,
         });
-        
-        if (!transfer.success) {
-          throw new Error(transfer.message || 'Transfer failed');
-        }
-        
-        txId = extractTransactionId(transfer.result);
         console.log('[SEND] ✅ Message sent successfully! TxID:', txId);
-        
-        // OPTIMISTIC UPDATE: Cache sent message locally for instant display
-        if (txId) {
-          try {
-            const conversationKey = getConversationKey(user.username, recipientUsername);
-            const timestamp = new Date().toISOString();
-            
-            // Create optimistic message cache
-            // Note: Keychain encrypted the memo automatically (# prefix), so we store the # prefix
-            await cacheMessage({
-              id: txId,
-              conversationKey,
-              from: user.username,
-              to: recipientUsername,
-              content: messageText, // Store decrypted text for immediate display
-              encryptedContent: memoToEncrypt, // Store with # prefix (Keychain auto-encrypted)
-              timestamp,
-              txId,
-              confirmed: false, // Not yet confirmed on blockchain
-              isDecrypted: true, // We know the content (we just sent it)
-              amount: `${sendAmount} HBD`,
-            }, user.username);
-            
-            // Update conversation cache (safe field merging to preserve lastChecked)
-            const { getConversation: getConv } = await import('@/lib/messageCache');
-            const existingConv = await getConv(user.username, recipientUsername);
-            
-            // Build conversation update - ONLY touch lastMessage and lastTimestamp
-            // Preserve all other fields (especially lastChecked and unreadCount) from existing conversation
-            const conversationUpdate = existingConv ? {
-              // Existing conversation: spread all existing fields first (preserves lastChecked, unreadCount)
-              ...existingConv,
-              // Then override only the fields we want to update
-              lastMessage: messageText,
-              lastTimestamp: timestamp,
-            } : {
-              // New conversation: set all required fields
-              conversationKey,
-              partnerUsername: recipientUsername,
-              lastMessage: messageText,
-              lastTimestamp: timestamp,
-              unreadCount: 0,
-              lastChecked: timestamp, // First message = "seen" at send time
-            };
-            
-            await updateConversation(conversationUpdate, user.username);
-            
-            // Invalidate React Query caches to trigger re-render
-            queryClient.invalidateQueries({ 
-              queryKey: ['blockchain-messages', user.username, recipientUsername] 
-            });
-            queryClient.invalidateQueries({ 
-              queryKey: ['blockchain-conversations', user.username] 
-            });
-            
-            logger.info('[SEND] ✅ Optimistically cached sent message:', txId.substring(0, 16));
-          } catch (cacheError) {
-            // Don't fail the send if caching fails - polling will pick it up
-            logger.error('[SEND] Failed to cache optimistic message:', {
-              error: cacheError instanceof Error ? cacheError.message : String(cacheError),
-              stack: cacheError instanceof Error ? cacheError.stack : undefined
-            });
-          }
-        }
       } catch (transferError: any) {
         console.error('[SEND] ❌ Blockchain transfer failed:', transferError);
         logger.error('[MessageComposer] Transfer error caught:', transferError);
@@ -918,6 +1098,22 @@ export function MessageComposer({
     }
   };
 
+  const handleConfirmSchedule = () => {
+    const sendAt = new Date(scheduleAt);
+    if (isNaN(sendAt.getTime()) || sendAt.getTime() <= Date.now()) {
+      toast({
+        title: 'Invalid Time',
+        description: 'Pick a time in the future',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsScheduleOpen(false);
+    setScheduleAt('');
+    handleSubmit(undefined, sendAt);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -938,6 +1134,11 @@ export function MessageComposer({
     <div className="sticky bottom-0 border-t bg-background pb-[env(safe-area-inset-bottom)]">
       <div className="p-4 space-y-3">
         <form onSubmit={handleSubmit} className="space-y-3">
+        {/* Reply banner */}
+        {replyingTo && (
+          <ReplyQuote target={replyingTo} onCancel={onCancelReply} />
+        )}
+
         {/* Image Preview */}
         {imagePreview && (
           <div className="relative inline-block">
@@ -965,6 +1166,67 @@ export function MessageComposer({
           </div>
         )}
 
+        {/* Voice Recording */}
+        {voiceRecorder.isRecording && (
+          <div className="flex items-center gap-3 p-2 pr-1 rounded-lg border border-destructive/40" data-testid="voice-recording">
+            <span className="w-2.5 h-2.5 rounded-full bg-destructive animate-pulse flex-shrink-0" />
+            <span className="flex-1 text-body" data-testid="text-recording-time">
+              Recording {formatVoiceDuration(voiceRecorder.elapsed)} / {formatVoiceDuration(voiceRecorder.maxSeconds)}
+            </span>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              className="min-h-11 min-w-11"
+              onClick={voiceRecorder.cancel}
+              aria-label="Discard voice message"
+              data-testid="button-cancel-recording"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              size="icon"
+              className="min-h-11 min-w-11"
+              onClick={voiceRecorder.stop}
+              aria-label="Send voice message"
+              data-testid="button-send-recording"
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+
+        {/* File Preview */}
+        {selectedFile && (
+          <div className="flex items-center gap-3 p-2 pr-1 rounded-lg border max-w-sm" data-testid="file-preview">
+            {selectedVoiceNote ? (
+              <Mic className="w-5 h-5 text-muted-foreground flex-shrink-0" />
+            ) : (
+              <FileIcon className="w-5 h-5 text-muted-foreground flex-shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="text-body truncate">{selectedVoiceNote ? 'Voice message' : selectedFile.name}</p>
+              <p className="text-caption text-muted-foreground">
+                {selectedVoiceNote
+                  ? formatVoiceDuration(selectedVoiceNote.duration)
+                  : getFileTypeLabel(selectedFile.type || undefined, selectedFile.name)} · {formatFileSize(selectedFile.size)}
+              </p>
+            </div>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              className="min-h-11 min-w-11"
+              onClick={handleRemoveFile}
+              disabled={isSending}
+              data-testid="button-remove-file"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+
         {/* RC Warning */}
         {rcWarning && rcWarning.level !== 'ok' && (
           <Alert variant={rcWarning.level === 'critical' ? 'destructive' : 'default'} data-testid="alert-rc-warning">
@@ -974,6 +1236,53 @@ export function MessageComposer({
 
         {/* Batch Send Progress UI - Memoized to prevent lag */}
         <BatchProgressUI current={batchProgress.current} total={batchProgress.total} />
+        <BatchProgressUI current={uploadProgress.current} total={uploadProgress.total} label="Uploading chunks..." />
+
+        {/* Unfinished chunked uploads (resumable from the upload journal) */}
+        {pendingUploads.length > 0 && uploadProgress.total === 0 && (
+          <div className="space-y-2" data-testid="pending-uploads">
+            {pendingUploads.map(journal => (
+              <div key={journal.sessionId} className="flex items-center gap-3 p-2 pr-1 rounded-lg border" data-testid={`pending-upload-${journal.sessionId}`}>
+                {journal.message.kind === 'file' ? (
+                  <FileIcon className="w-5 h-5 text-muted-foreground flex-shrink-0" />
+                ) : (
+                  <ImageIcon className="w-5 h-5 text-muted-foreground flex-shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-body truncate">
+                    {journal.message.duration !== undefined ? 'Voice message' : journal.message.filename || 'Attachment'}
+                  </p>
+                  <p className="text-caption text-muted-foreground">
+                    Upload paused · {journal.confirmedChunks.length}/{journal.chunks.length} chunks sent
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleResumeUpload(journal)}
+                  disabled={isSending}
+                  data-testid={`button-resume-upload-${journal.sessionId}`}
+                >
+                  <RotateCw className="w-4 h-4 mr-1" />
+                  Resume
+                </Button>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="min-h-11 min-w-11"
+                  onClick={() => handleDiscardUpload(journal)}
+                  disabled={isSending}
+                  aria-label="Discard upload"
+                  data-testid={`button-discard-upload-${journal.sessionId}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
 
         {/* v2.0.0: Send Amount Input & Recipient Minimum */}
         {recipientUsername && (
@@ -1050,9 +1359,12 @@ export function MessageComposer({
               value={content}
               onChange={(e) => setContent(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder={selectedImage ? "Add a message (optional)..." : placeholder}
+              placeholder={selectedImage || selectedFile ? "Add a message (optional)..." : placeholder}
               disabled={disabled}
-              className="resize-none min-h-[44px] max-h-[120px] pr-20"
+              className={cn(
+                'resize-none min-h-[44px] max-h-[120px]',
+                voiceRecorder.isSupported && !groupId ? 'pr-32' : 'pr-20'
+              )}
               rows={1}
               data-testid="input-message-content"
             />
@@ -1070,8 +1382,7 @@ export function MessageComposer({
               <input
                 ref={fileInputRef}
                 type="file"
-                accept="image/*"
-                onChange={handleImageSelect}
+                onChange={handleAttachmentSelect}
                 className="hidden"
                 data-testid="input-file"
               />
@@ -1091,17 +1402,72 @@ export function MessageComposer({
                 </TooltipTrigger>
                 {groupId && (
                   <TooltipContent>
-                    <p>Image sending in groups coming soon</p>
+                    <p>Attachments in groups coming soon</p>
                   </TooltipContent>
                 )}
               </Tooltip>
+              {voiceRecorder.isSupported && !groupId && (
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="min-h-11 min-w-11"
+                  disabled={disabled || isSending || voiceRecorder.isRecording || !!selectedImage || !!selectedFile}
+                  onClick={handleStartRecording}
+                  aria-label="Record voice message"
+                  data-testid="button-record-voice"
+                >
+                  <Mic className="w-4 h-4" />
+                </Button>
+              )}
             </div>
           </div>
+          {(recipientUsername || groupId) && (
+            <Popover open={isScheduleOpen} onOpenChange={setIsScheduleOpen}>
+              <PopoverTrigger asChild>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="outline"
+                  className="h-11 w-11 flex-shrink-0"
+                  disabled={!content.trim() || !!selectedImage || !!selectedFile || disabled || isSending || (!!recipientUsername && !groupId && (isLoadingMinimum || !hasVerifiedMinimum))}
+                  aria-label="Schedule message"
+                  data-testid="button-schedule"
+                >
+                  <CalendarClock className="w-5 h-5" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-72 space-y-3">
+                <div className="space-y-1">
+                  <p className="text-body font-medium">Schedule message</p>
+                  <p className="text-caption text-muted-foreground">
+                    Sent from this device if Hive Messenger is open at that time.
+                  </p>
+                </div>
+                <Input
+                  type="datetime-local"
+                  value={scheduleAt}
+                  min={toDateTimeLocalValue(new Date())}
+                  onChange={(e) => setScheduleAt(e.target.value)}
+                  data-testid="input-schedule-time"
+                />
+                <Button
+                  type="button"
+                  className="w-full"
+                  onClick={handleConfirmSchedule}
+                  disabled={!scheduleAt}
+                  data-testid="button-confirm-schedule"
+                >
+                  Schedule
+                </Button>
+              </PopoverContent>
+            </Popover>
+          )}
           <Button
             type="submit"
             size="icon"
             className="h-11 w-11 flex-shrink-0"
-            disabled={(!content.trim() && !selectedImage) || disabled || isSending || (!!recipientUsername && (isLoadingMinimum || !hasVerifiedMinimum))}
+            disabled={(!content.trim() && !selectedImage && !selectedFile) || disabled || isSending || (!!recipientUsername && (isLoadingMinimum || !hasVerifiedMinimum))}
             data-testid="button-send"
           >
             <Send className="w-5 h-5" />
@@ -1110,6 +1476,17 @@ export function MessageComposer({
         <div className="flex items-center gap-2 text-caption text-muted-foreground">
           <Lock className="w-3 h-3" />
           <span>Messages are end-to-end encrypted</span>
+          {conversationScheduledCount > 0 && (
+            <button
+              type="button"
+              className="ml-auto flex items-center gap-1 hover:text-foreground"
+              onClick={() => setQueueOpen(true)}
+              data-testid="button-view-scheduled"
+            >
+              <CalendarClock className="w-3 h-3" />
+              {conversationScheduledCount} scheduled
+            </button>
+          )}
         </div>
         </form>
       </div>
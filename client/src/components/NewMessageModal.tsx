@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Search, UserPlus, AlertCircle, UserCheck } from 'lucide-react';
+import { Search, UserPlus, AlertCircle, UserCheck, Star } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -17,6 +17,7 @@ import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { useAuth } from '@/contexts/AuthContext';
 import { useQuery } from '@tanstack/react-query';
 import { preloadFollowingList } from '@/lib/hiveFollowing';
+import { useContacts } from '@/hooks/useContacts';
 
 interface NewMessageModalProps {
   open: boolean;
@@ -25,7 +26,7 @@ interface NewMessageModalProps {
 }
 
 export function NewMessageModal({ open, onOpenChange, onStartChat }: NewMessageModalProps) {
-  const { user } = useAuth();
+  const { user, sessionToken } = useAuth();
   const [username, setUsername] = useState('');
   const [isValidating, setIsValidating] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -44,6 +45,13 @@ export function NewMessageModal({ open, onOpenChange, onStartChat }: NewMessageM
     placeholderData: (previousData) => previousData,  // Retain previous data during refetch
   });
   
+  // Saved contacts (server API) - empty when no server session
+  const { activeContacts, blockedUsernames } = useContacts(sessionToken, open);
+  const contactUsernames = new Set(activeContacts.map(contact => contact.username));
+  const suggestedUsers = (followingList || []).filter(
+    (followedUser) => !blockedUsernames.has(followedUser) && !contactUsernames.has(followedUser)
+  );
+  
   const getInitials = (username: string) => {
     return username.slice(0, 2).toUpperCase();
   };
@@ -106,13 +114,46 @@ export function NewMessageModal({ open, onOpenChange, onStartChat }: NewMessageM
           </DialogDescription>
         </DialogHeader>
 
+        {/* Saved Contacts Section */}
+        {activeContacts.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-caption">Contacts</Label>
+            <ScrollArea className="max-h-[160px] border rounded-md">
+              <div className="p-2 space-y-1">
+                {activeContacts.map((contact) => (
+                  <button
+                    key={contact.username}
+                    type="button"
+                    onClick={() => handleSelectSuggested(contact.username)}
+                    className="w-full flex items-center gap-3 p-2 rounded-md hover-elevate text-left"
+                    data-testid={`contact-${contact.username}`}
+                  >
+                    <Avatar className="w-8 h-8 flex-shrink-0">
+                      <AvatarFallback className="bg-primary/10 text-primary font-medium text-caption">
+                        {getInitials(contact.username)}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-body font-medium truncate">{contact.nickname || `@${contact.username}`}</p>
+                      {contact.nickname && (
+                        <p className="text-caption text-muted-foreground truncate">@{contact.username}</p>
+                      )}
+                    </div>
+                    {contact.isFavorite && <Star className="w-4 h-4 text-primary fill-current flex-shrink-0" />}
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+
         {/* Suggested Contacts Section */}
-        {followingList && followingList.length > 0 ? (
+        {suggestedUsers.length > 0 ? (
           <div className="space-y-2">
             <Label className="text-caption">Suggested Contacts</Label>
             <ScrollArea className="h-[200px] border rounded-md">
               <div className="p-2 space-y-1">
-                {followingList.slice(0, 50).map((followedUser) => (
+                {suggestedUsers.slice(0, 50).map((followedUser) => (
                   <button
                     key={followedUser}
                     type="button"
@@ -6,14 +6,14 @@ import type { PinnedMessage } from '@shared/schema';
 
 interface PinnedMessagesBarProps {
   pinnedMessages: PinnedMessage[];
-  isCreator: boolean;
+  canUnpin: boolean;
   onUnpin: (messageId: string) => void;
   onScrollTo: (messageId: string) => void;
 }
 
 export function PinnedMessagesBar({
   pinnedMessages,
-  isCreator,
+  canUnpin,
   onUnpin,
   onScrollTo,
 }: PinnedMessagesBarProps) {
@@ -82,7 +82,7 @@ export function PinnedMessagesBar({
                 Pinned by {message.pinnedBy}
               </p>
             </div>
-            {isCreator && (
+            {canUnpin && (
               <Button
                 variant="ghost"
                 size="icon"
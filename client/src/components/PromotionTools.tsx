@@ -7,6 +7,8 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { 
   Share2, 
   Copy, 
@@ -19,11 +21,22 @@ import {
   Award,
   Megaphone,
   BarChart3,
-  MousePointerClick
+  MousePointerClick,
+  Ticket,
+  Trash2,
+  Loader2
 } from 'lucide-react';
 import { SiX, SiHive } from 'react-icons/si';
 import type { GroupConversationCache } from '@shared/schema';
 import { useToast } from '@/hooks/use-toast';
+import { useGroupInviteRedemptions } from '@/hooks/useGroupInvites';
+import {
+  getGroupInviteLink,
+  isGroupInviteExpired,
+  mintGroupInvite,
+  parseGroupInvite,
+  type SignedGroupInvite,
+} from '@/lib/groupInviteLinks';
 import { formatDistanceToNow, format, differenceInDays } from 'date-fns';
 
 interface PromotionToolsProps {
@@ -44,6 +57,68 @@ interface ReferralStore {
 }
 
 const REFERRAL_CLICKS_KEY = 'hive-messenger-referral-clicks';
+// Invite tokens minted on this device, by group (uses are counted on chain)
+const GROUP_INVITES_KEY = 'hive-messenger-group-invites';
+
+const INVITE_EXPIRY_OPTIONS = [
+  { days: '1', label: '1 day' },
+  { days: '7', label: '7 days' },
+  { days: '30', label: '30 days' },
+];
+
+interface InviteLinkRowProps {
+  signed: SignedGroupInvite;
+  group: GroupConversationCache;
+  onCopy: (link: string) => void;
+  onRemove: () => void;
+}
+
+function InviteLinkRow({ signed, group, onCopy, onRemove }: InviteLinkRowProps) {
+  const { invite } = signed;
+  const { data: redemptions, isPending, isError } = useGroupInviteRedemptions(invite, group);
+  const uses = Math.min(redemptions?.length || 0, invite.maxUses);
+  const expired = isGroupInviteExpired(invite);
+
+  return (
+    <div
+      className="flex items-center justify-between gap-2 p-2 bg-muted rounded-md"
+      data-testid={`invite-row-${invite.tokenId}`}
+    >
+      <div className="min-w-0">
+        <p className="text-sm font-medium flex items-center gap-2">
+          {isPending
+            ? <Loader2 className="w-3 h-3 animate-spin" />
+            : isError ? 'Uses unavailable' : `${uses} / ${invite.maxUses} used`}
+          {invite.freePass && <Badge variant="secondary" className="text-xs">Free pass</Badge>}
+          {expired && <Badge variant="outline" className="text-xs">Expired</Badge>}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {expired ? 'Expired' : 'Expires'} {formatDistanceToNow(new Date(invite.expiresAt), { addSuffix: true })}
+          {redemptions && redemptions.length > 0 && ` · ${redemptions.slice(0, invite.maxUses).map(r => `@${r.username}`).join(', ')}`}
+        </p>
+      </div>
+      <div className="flex items-center gap-1 flex-shrink-0">
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={() => onCopy(getGroupInviteLink(signed))}
+          disabled={expired}
+          data-testid={`button-copy-invite-${invite.tokenId}`}
+        >
+          <Copy className="w-4 h-4" />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={onRemove}
+          data-testid={`button-remove-invite-${invite.tokenId}`}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
 
 export function PromotionTools({
   open,
@@ -53,6 +128,11 @@ export function PromotionTools({
 }: PromotionToolsProps) {
   const [selectedGroupId, setSelectedGroupId] = useState<string>('');
   const [referralData, setReferralData] = useState<ReferralStore>({});
+  const [inviteTokens, setInviteTokens] = useState<Record<string, string[]>>({});
+  const [inviteExpiryDays, setInviteExpiryDays] = useState('7');
+  const [inviteMaxUses, setInviteMaxUses] = useState('10');
+  const [inviteFreePass, setInviteFreePass] = useState(false);
+  const [isMintingInvite, setIsMintingInvite] = useState(false);
   const { toast } = useToast();
 
   const creatorGroups = useMemo(() => {
@@ -76,11 +156,39 @@ export function PromotionTools({
     }
   }, []);
 
+  const loadInviteTokens = useCallback(() => {
+    if (typeof window === 'undefined') return;
+    try {
+      const stored = localStorage.getItem(GROUP_INVITES_KEY);
+      setInviteTokens(stored ? JSON.parse(stored) : {});
+    } catch {
+      setInviteTokens({});
+    }
+  }, []);
+
+  const saveInviteTokens = (tokens: Record<string, string[]>) => {
+    setInviteTokens(tokens);
+    try {
+      localStorage.setItem(GROUP_INVITES_KEY, JSON.stringify(tokens));
+    } catch {
+      // Storage full or unavailable - the links still work, they just won't be listed
+    }
+  };
+
   useEffect(() => {
     if (open) {
       loadReferralData();
+      loadInviteTokens();
     }
-  }, [open, loadReferralData]);
+  }, [open, loadReferralData, loadInviteTokens]);
+
+  const groupInvites = useMemo(() => {
+    if (!selectedGroup) return [];
+    return (inviteTokens[selectedGroup.groupId] || [])
+      .map(token => parseGroupInvite(token))
+      .filter((signed): signed is SignedGroupInvite => !!signed)
+      .reverse(); // Newest first
+  }, [selectedGroup, inviteTokens]);
 
   const generateShareableLink = (groupId: string, withRef = false) => {
     const baseUrl = `${window.location.origin}/#/join/${groupId}`;
@@ -114,6 +222,52 @@ export function PromotionTools({
     }
   };
 
+  const handleMintInvite = async () => {
+    if (!selectedGroup || !currentUsername) return;
+
+    const maxUses = parseInt(inviteMaxUses, 10);
+    if (!Number.isInteger(maxUses) || maxUses < 1) {
+      toast({
+        title: "Invalid Max Uses",
+        description: "Enter how many people can use the link (at least 1)",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsMintingInvite(true);
+    try {
+      const signed = await mintGroupInvite(currentUsername, {
+        groupId: selectedGroup.groupId,
+        expiresAt: new Date(Date.now() + parseInt(inviteExpiryDays, 10) * 24 * 60 * 60 * 1000).toISOString(),
+        maxUses,
+        freePass: !!selectedGroup.paymentSettings?.enabled && inviteFreePass,
+      });
+
+      saveInviteTokens({
+        ...inviteTokens,
+        [selectedGroup.groupId]: [...(inviteTokens[selectedGroup.groupId] || []), signed.token],
+      });
+      await copyToClipboard(getGroupInviteLink(signed), "Invite link");
+    } catch (error) {
+      toast({
+        title: "Invite Not Created",
+        description: error instanceof Error ? error.message : "Signing failed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsMintingInvite(false);
+    }
+  };
+
+  const removeInvite = (signed: SignedGroupInvite) => {
+    if (!selectedGroup) return;
+    saveInviteTokens({
+      ...inviteTokens,
+      [selectedGroup.groupId]: (inviteTokens[selectedGroup.groupId] || []).filter(token => token !== signed.token),
+    });
+  };
+
   const shareToTwitter = (group: GroupConversationCache) => {
     const link = generateShareableLink(group.groupId, true);
     const message = generateShareMessage(group, link);
@@ -265,11 +419,15 @@ export function PromotionTools({
 
         {selectedGroup && (
           <Tabs defaultValue="links" className="flex-1 flex flex-col overflow-hidden">
-            <TabsList className="grid w-full grid-cols-4" data-testid="tabs-promotion">
+            <TabsList className="grid w-full grid-cols-5" data-testid="tabs-promotion">
               <TabsTrigger value="links" data-testid="tab-links">
                 <Link className="w-4 h-4 mr-1" />
                 Links
               </TabsTrigger>
+              <TabsTrigger value="invites" data-testid="tab-invites">
+                <Ticket className="w-4 h-4 mr-1" />
+                Invites
+              </TabsTrigger>
               <TabsTrigger value="social" data-testid="tab-social">
                 <Share2 className="w-4 h-4 mr-1" />
                 Social
@@ -353,6 +511,111 @@ export function PromotionTools({
                 </Card>
               </TabsContent>
 
+              <TabsContent value="invites" className="space-y-4 m-0">
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium flex items-center gap-2">
+                      <Ticket className="w-4 h-4" />
+                      Create Invite Link
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1">
+                        <Label htmlFor="invite-expiry" className="text-xs">Expires after</Label>
+                        <Select value={inviteExpiryDays} onValueChange={setInviteExpiryDays}>
+                          <SelectTrigger id="invite-expiry" data-testid="select-invite-expiry">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {INVITE_EXPIRY_OPTIONS.map(option => (
+                              <SelectItem key={option.days} value={option.days}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="invite-max-uses" className="text-xs">Max uses</Label>
+                        <Input
+                          id="invite-max-uses"
+                          type="number"
+                          min={1}
+                          value={inviteMaxUses}
+                          onChange={(e) => setInviteMaxUses(e.target.value)}
+                          data-testid="input-invite-max-uses"
+                        />
+                      </div>
+                    </div>
+                    {selectedGroup.paymentSettings?.enabled && (
+                      <div className="flex items-center justify-between gap-2">
+                        <div>
+                          <Label htmlFor="invite-free-pass" className="text-sm">Free pass</Label>
+                          <p className="text-xs text-muted-foreground">
+                            Join without paying {selectedGroup.paymentSettings.amount} HBD (trial or comp access)
+                          </p>
+                        </div>
+                        <Switch
+                          id="invite-free-pass"
+                          checked={inviteFreePass}
+                          onCheckedChange={setInviteFreePass}
+                          data-testid="switch-invite-free-pass"
+                        />
+                      </div>
+                    )}
+                    <Button
+                      className="w-full"
+                      onClick={handleMintInvite}
+                      disabled={isMintingInvite}
+                      data-testid="button-create-invite"
+                    >
+                      {isMintingInvite ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Ticket className="w-4 h-4 mr-2" />
+                      )}
+                      Create &amp; Copy Invite Link
+                    </Button>
+                    <p className="text-xs text-muted-foreground">
+                      Signed with your posting key in Keychain. Anyone with the link can join without approval until it expires or runs out.
+                    </p>
+                  </CardContent>
+                </Card>
+
+                {groupInvites.length > 0 ? (
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm font-medium">Your Invite Links</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-2">
+                        {groupInvites.map(signed => (
+                          <InviteLinkRow
+                            key={signed.invite.tokenId}
+                            signed={signed}
+                            group={selectedGroup}
+                            onCopy={(link) => copyToClipboard(link, "Invite link")}
+                            onRemove={() => removeInvite(signed)}
+                          />
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-3">
+                        Removing a link only hides it here - it stays usable until it expires or runs out.
+                      </p>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <Card>
+                    <CardContent className="py-8 text-center">
+                      <Ticket className="w-10 h-10 mx-auto mb-3 opacity-30" />
+                      <p className="font-medium">No Invite Links Yet</p>
+                      <p className="text-sm text-muted-foreground">
+                        Create a link to let a limited number of people join
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
+              </TabsContent>
+
               <TabsContent value="social" className="space-y-4 m-0">
                 <Card>
                   <CardHeader className="pb-2">
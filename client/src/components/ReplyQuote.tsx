@@ -0,0 +1,70 @@
+import { CornerUpLeft, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+/**
+ * The message being replied to
+ * `id` is what goes on the wire: the txId for direct messages, the
+ * client message id (shared by every recipient's copy) for group messages
+ */
+export interface ReplyTarget {
+  id: string;
+  sender: string;
+  content: string;
+}
+
+// Quoted text shown for a reply target (encrypted placeholders aren't worth quoting)
+export function getReplyPreviewText(content: string): string {
+  if (content.includes('[Encrypted') || content.includes('[🔒 Encrypted')) {
+    return '🔒 Encrypted message';
+  }
+  const firstLine = content.split('\n')[0];
+  return firstLine.length > 80 ? firstLine.substring(0, 80).trim() + '...' : firstLine;
+}
+
+interface ReplyQuoteProps {
+  target: ReplyTarget | null;     // null when the original isn't loaded (older history, other client)
+  isSent?: boolean;
+  onClick?: () => void;
+  onCancel?: () => void;
+  className?: string;
+}
+
+export function ReplyQuote({ target, isSent, onClick, onCancel, className }: ReplyQuoteProps) {
+  return (
+    <div
+      className={cn(
+        'flex items-start gap-2 border-l-2 pl-2 py-1 rounded-sm text-caption',
+        isSent ? 'border-primary-foreground/50 bg-primary-foreground/10' : 'border-primary bg-muted/50',
+        onClick && target && 'cursor-pointer hover-elevate',
+        className
+      )}
+      onClick={target ? onClick : undefined}
+      data-testid="reply-quote"
+    >
+      <CornerUpLeft className="w-3 h-3 mt-0.5 flex-shrink-0 opacity-70" />
+      <div className="flex-1 min-w-0">
+        {target ? (
+          <>
+            <span className="font-semibold">@{target.sender}</span>
+            <p className="truncate opacity-80">{getReplyPreviewText(target.content)}</p>
+          </>
+        ) : (
+          <p className="italic opacity-70">Original message not available</p>
+        )}
+      </div>
+      {onCancel && (
+        <Button
+          type="button"
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6 flex-shrink-0"
+          onClick={onCancel}
+          data-testid="button-cancel-reply"
+        >
+          <X className="w-3 h-3" />
+        </Button>
+      )}
+    </div>
+  );
+}
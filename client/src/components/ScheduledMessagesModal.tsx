@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { CalendarClock, Pencil, Send, Trash2, AlertTriangle, Users, User } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useScheduledMessages } from '@/contexts/ScheduledMessagesContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  getScheduledTargetLabel,
+  toDateTimeLocalValue,
+  type ScheduledMessage,
+  type ScheduledMessageStatus,
+} from '@/lib/scheduledMessages';
+
+interface ScheduledMessagesModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_LABELS: Record<ScheduledMessageStatus, string> = {
+  scheduled: 'Scheduled',
+  sending: 'Sending...',
+  missed: 'Missed',
+  failed: 'Failed',
+};
+
+function formatSendAt(sendAt: string): string {
+  return new Date(sendAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export function ScheduledMessagesModal({ open, onOpenChange }: ScheduledMessagesModalProps) {
+  const { messages, updateScheduledMessage, cancelScheduledMessage, sendNow } = useScheduledMessages();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [editSendAt, setEditSendAt] = useState('');
+
+  const startEdit = (message: ScheduledMessage) => {
+    setEditingId(message.id);
+    setEditContent(message.content);
+    setEditSendAt(toDateTimeLocalValue(new Date(message.sendAt)));
+  };
+
+  const saveEdit = async () => {
+    if (!editingId || !editContent.trim() || !editSendAt) return;
+
+    const sendAt = new Date(editSendAt);
+    if (isNaN(sendAt.getTime()) || sendAt.getTime() <= Date.now()) {
+      toast({
+        title: 'Invalid Time',
+        description: 'Pick a time in the future',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    await updateScheduledMessage(editingId, { content: editContent.trim(), sendAt: sendAt.toISOString() });
+    setEditingId(null);
+    toast({ title: 'Scheduled Message Updated', description: `Will be sent ${formatSendAt(sendAt.toISOString())}` });
+  };
+
+  const handleCancel = async (message: ScheduledMessage) => {
+    await cancelScheduledMessage(message.id);
+    toast({ title: 'Scheduled Message Cancelled', description: `To ${getScheduledTargetLabel(message)}` });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg" data-testid="dialog-scheduled-messages">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" />
+            Scheduled Messages
+          </DialogTitle>
+          <DialogDescription>
+            Scheduled messages are sent from this device while Hive Messenger is open. Each send still needs Keychain approval.
+          </DialogDescription>
+        </DialogHeader>
+
+        {messages.length === 0 ? (
+          <div className="py-8 text-center">
+            <CalendarClock className="w-12 h-12 mx-auto mb-3 text-muted-foreground/50" />
+            <p className="text-body text-muted-foreground">No scheduled messages</p>
+            <p className="text-caption text-muted-foreground mt-1">
+              Use the clock button next to send to schedule one
+            </p>
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[450px] pr-4">
+            <div className="space-y-2">
+              {messages.map((message) => (
+                <div
+                  key={message.id}
+                  className="p-3 rounded-md border space-y-2"
+                  data-testid={`scheduled-message-${message.id}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      {message.kind === 'group' ? (
+                        <Users className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                      ) : (
+                        <User className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                      )}
+                      <span className="text-body font-medium truncate">{getScheduledTargetLabel(message)}</span>
+                    </div>
+                    <Badge
+                      variant={message.status === 'missed' || message.status === 'failed' ? 'destructive' : 'secondary'}
+                      data-testid={`badge-scheduled-status-${message.id}`}
+                    >
+                      {STATUS_LABELS[message.status]}
+                    </Badge>
+                  </div>
+
+                  {editingId === message.id ? (
+                    <div className="space-y-2">
+                      <Textarea
+                        value={editContent}
+                        onChange={(e) => setEditContent(e.target.value)}
+                        className="min-h-[80px] resize-none"
+                        data-testid={`textarea-edit-scheduled-${message.id}`}
+                      />
+                      <Input
+                        type="datetime-local"
+                        value={editSendAt}
+                        min={toDateTimeLocalValue(new Date())}
+                        onChange={(e) => setEditSendAt(e.target.value)}
+                        data-testid={`input-edit-scheduled-time-${message.id}`}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={saveEdit}
+                          disabled={!editContent.trim() || !editSendAt}
+                          data-testid={`button-save-scheduled-${message.id}`}
+                        >
+                          Save
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <>
+                      <p className="text-body whitespace-pre-wrap break-words line-clamp-3">{message.content}</p>
+                      <p className="text-caption text-muted-foreground">{formatSendAt(message.sendAt)}</p>
+                      {message.error && (
+                        <p className="text-caption text-destructive flex items-center gap-1">
+                          <AlertTriangle className="w-3 h-3" />
+                          {message.error}
+                        </p>
+                      )}
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => startEdit(message)}
+                          disabled={message.status === 'sending'}
+                          data-testid={`button-edit-scheduled-${message.id}`}
+                        >
+                          <Pencil className="w-4 h-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => sendNow(message.id)}
+                          disabled={message.status === 'sending'}
+                          data-testid={`button-send-scheduled-${message.id}`}
+                        >
+                          <Send className="w-4 h-4 mr-1" />
+                          Send now
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleCancel(message)}
+                          disabled={message.status === 'sending'}
+                          data-testid={`button-cancel-scheduled-${message.id}`}
+                        >
+                          <Trash2 className="w-4 h-4 mr-1" />
+                          Cancel
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
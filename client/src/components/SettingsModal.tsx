@@ -15,11 +15,13 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Input } from '@/components/ui/input';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
+import { usePresence } from '@/contexts/PresenceContext';
 import { requestHandshake } from '@/lib/hive';
 import { useToast } from '@/hooks/use-toast';
 import { useMinimumHBD } from '@/hooks/useMinimumHBD';
 import { useLightningAddress } from '@/hooks/useLightningAddress';
-import { formatHBDAmount, MIN_MINIMUM_HBD, MAX_MINIMUM_HBD, isValidLightningAddress, inferTipReceivePreference, type TipReceivePreference, type PrivacyMode, getMessagePrivacy, getGroupInvitePrivacy, updateMessagePrivacy, updateGroupInvitePrivacy } from '@/lib/accountMetadata';
+import { formatHBDAmount, MIN_MINIMUM_HBD, MAX_MINIMUM_HBD, isValidLightningAddress, inferTipReceivePreference, type TipReceivePreference, type PrivacyMode, getMessagePrivacy, getGroupInvitePrivacy, updateMessagePrivacy, updateGroupInvitePrivacy, getReadReceiptsEnabled, updateReadReceipts } from '@/lib/accountMetadata';
+import { useQueryClient } from '@tanstack/react-query';
 import { verifyLightningAddress } from '@/lib/lightning';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 
@@ -154,6 +156,10 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
   const [isLoadingPrivacy, setIsLoadingPrivacy] = useState(false);
   const [isUpdatingMessagePrivacy, setIsUpdatingMessagePrivacy] = useState(false);
   const [isUpdatingGroupPrivacy, setIsUpdatingGroupPrivacy] = useState(false);
+  const [readReceipts, setReadReceipts] = useState(false);
+  const [isUpdatingReadReceipts, setIsUpdatingReadReceipts] = useState(false);
+  const queryClient = useQueryClient();
+  const presence = usePresence();
   
   // Load privacy settings from metadata
   useEffect(() => {
@@ -164,15 +170,17 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
     const loadPrivacySettings = async () => {
       setIsLoadingPrivacy(true);
       try {
-        const [messagePref, groupPref] = await Promise.all([
+        const [messagePref, groupPref, readReceiptsPref] = await Promise.all([
           getMessagePrivacy(user.username),
           getGroupInvitePrivacy(user.username),
+          getReadReceiptsEnabled(user.username),
         ]);
         
         // Only update if component still mounted
         if (isMounted) {
           setMessagePrivacy(messagePref);
           setGroupInvitePrivacy(groupPref);
+          setReadReceipts(readReceiptsPref);
         }
       } catch (error) {
         console.error('[SETTINGS] Failed to load privacy settings:', error);
@@ -180,6 +188,7 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
           // Default fallbacks
           setMessagePrivacy('everyone');
           setGroupInvitePrivacy('everyone');
+          setReadReceipts(false);
         }
       } finally {
         if (isMounted) {
@@ -250,6 +259,8 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
       await updateMessagePrivacy(user.username, newPrivacy);
       
       setMessagePrivacy(newPrivacy);
+      // Presence follows message privacy
+      queryClient.invalidateQueries({ queryKey: ['message-privacy', user.username] });
       
       const labels = {
         everyone: 'everyone',
@@ -305,6 +316,35 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
     }
   };
   
+  // Update read receipt setting
+  const handleUpdateReadReceipts = async (enabled: boolean) => {
+    if (!user?.username) return;
+    
+    setIsUpdatingReadReceipts(true);
+    try {
+      await updateReadReceipts(user.username, enabled);
+      
+      setReadReceipts(enabled);
+      queryClient.invalidateQueries({ queryKey: ['read-receipts-enabled', user.username] });
+      
+      toast({
+        title: 'Read Receipts Updated',
+        description: enabled
+          ? 'Contacts can now see when you have read their messages'
+          : 'Read receipts are turned off',
+      });
+    } catch (error: any) {
+      console.error('[SETTINGS] Failed to update read receipts:', error);
+      toast({
+        title: 'Update Failed',
+        description: getKeychainErrorMessage(error, 'Failed to update read receipts'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUpdatingReadReceipts(false);
+    }
+  };
+  
   // Validate Lightning Address on input change (PERF-3: Add debouncing)
   const handleLightningInputChange = (value: string) => {
     setLightningInput(value);
@@ -596,6 +636,80 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
                   )}
                 </div>
 
+                <Separator />
+
+                {/* Read Receipts */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="space-y-1">
+                      <Label htmlFor="read-receipts" className="text-body">Read receipts</Label>
+                      <p className="text-caption text-muted-foreground">
+                        Let contacts see when you've read their direct messages. When off, you won't see theirs either.
+                      </p>
+                    </div>
+                    <Switch
+                      id="read-receipts"
+                      checked={readReceipts}
+                      onCheckedChange={handleUpdateReadReceipts}
+                      disabled={isLoadingPrivacy || isUpdatingReadReceipts}
+                      data-testid="switch-read-receipts"
+                    />
+                  </div>
+                  {isUpdatingReadReceipts && (
+                    <p className="text-caption text-muted-foreground flex items-center gap-2">
+                      <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                      Updating on blockchain...
+                    </p>
+                  )}
+                  {readReceipts && !isLoadingPrivacy && (
+                    <div className="flex items-start gap-2 text-caption text-muted-foreground bg-muted/30 p-3 rounded-md border border-border/40">
+                      <Info className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                      <p>
+                        Receipts are encrypted and batched into one Hive Keychain request every 15 seconds while you read.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                <Separator />
+
+                {/* Online Status & Typing */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="space-y-1">
+                      <Label htmlFor="presence-sharing" className="text-body">Online status & typing</Label>
+                      <p className="text-caption text-muted-foreground">
+                        Show when you're online or typing. When off, you won't see others' status either.
+                      </p>
+                    </div>
+                    <Switch
+                      id="presence-sharing"
+                      checked={presence.sharingPreference && !presence.isRestricted}
+                      onCheckedChange={presence.setSharingPreference}
+                      disabled={!presence.isAvailable || presence.isRestricted || messagePrivacy !== 'everyone'}
+                      data-testid="switch-presence-sharing"
+                    />
+                  </div>
+                  {(presence.isRestricted || messagePrivacy !== 'everyone') && (
+                    <p className="text-caption text-muted-foreground">
+                      Unavailable while messages are restricted to people you follow or disabled.
+                    </p>
+                  )}
+                  {!presence.isAvailable && (
+                    <p className="text-caption text-muted-foreground">
+                      Unavailable without a server session.
+                    </p>
+                  )}
+                  {presence.sharingPreference && presence.isSharing && (
+                    <div className="flex items-start gap-2 text-caption text-muted-foreground bg-muted/30 p-3 rounded-md border border-border/40">
+                      <Info className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                      <p>
+                        Status is relayed through the app server only while the app is open. Nothing is written to the blockchain.
+                      </p>
+                    </div>
+                  )}
+                </div>
+
                 <div className="flex items-start gap-2 text-caption text-muted-foreground">
                   <Lightbulb className="w-4 h-4 flex-shrink-0 mt-0.5" />
                   <p>
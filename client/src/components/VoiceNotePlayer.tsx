@@ -0,0 +1,126 @@
+import { useState, useRef, useEffect } from 'react';
+import { Play, Pause } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { base64ToBlob } from '@/lib/fileAttachments';
+import { formatVoiceDuration } from '@/lib/voiceNotes';
+import { logger } from '@/lib/logger';
+
+interface VoiceNotePlayerProps {
+  fileData: string;          // Decrypted audio (base64), read from the IndexedDB cache
+  contentType: string;
+  duration: number;
+  waveform?: number[];
+  isSent: boolean;
+  messageId: string;
+}
+
+/**
+ * Inline player for a decrypted voice note
+ * The waveform doubles as the progress bar and can be clicked to seek
+ */
+export function VoiceNotePlayer({ fileData, contentType, duration, waveform, isSent, messageId }: VoiceNotePlayerProps) {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    const audioUrl = URL.createObjectURL(base64ToBlob(fileData, contentType));
+    const audio = new Audio(audioUrl);
+    audioRef.current = audio;
+
+    const handleTimeUpdate = () => setPosition(audio.currentTime);
+    const handleEnded = () => {
+      setIsPlaying(false);
+      setPosition(0);
+    };
+
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    audio.addEventListener('ended', handleEnded);
+
+    return () => {
+      audio.pause();
+      audio.removeEventListener('timeupdate', handleTimeUpdate);
+      audio.removeEventListener('ended', handleEnded);
+      audioRef.current = null;
+      URL.revokeObjectURL(audioUrl);
+      setIsPlaying(false);
+    };
+  }, [fileData, contentType]);
+
+  const togglePlayback = async () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (isPlaying) {
+      audio.pause();
+      setIsPlaying(false);
+      return;
+    }
+
+    try {
+      await audio.play();
+      setIsPlaying(true);
+    } catch (error) {
+      logger.error('[VOICE] Playback failed:', error);
+      setIsPlaying(false);
+    }
+  };
+
+  const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    audio.currentTime = fraction * duration;
+    setPosition(audio.currentTime);
+  };
+
+  const bars = waveform && waveform.length > 0 ? waveform : new Array(40).fill(30);
+  const progress = duration > 0 ? position / duration : 0;
+
+  return (
+    <div className="flex items-center gap-3 min-w-[220px]" data-testid={`voice-note-${messageId}`}>
+      <Button
+        type="button"
+        size="icon"
+        variant={isSent ? 'secondary' : 'default'}
+        className="rounded-full flex-shrink-0"
+        onClick={togglePlayback}
+        aria-label={isPlaying ? 'Pause voice message' : 'Play voice message'}
+        data-testid={`button-play-voice-${messageId}`}
+      >
+        {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </Button>
+
+      <div className="flex-1 flex flex-col gap-1">
+        <div
+          className="flex items-center gap-[2px] h-8 cursor-pointer"
+          onClick={handleSeek}
+          role="slider"
+          aria-label="Seek"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(position)}
+        >
+          {bars.map((height, index) => (
+            <div
+              key={index}
+              className={cn(
+                'flex-1 rounded-full',
+                index / bars.length < progress
+                  ? isSent ? 'bg-primary-foreground' : 'bg-primary'
+                  : isSent ? 'bg-primary-foreground/40' : 'bg-muted-foreground/40'
+              )}
+              style={{ height: `${Math.max(8, height)}%` }}
+            />
+          ))}
+        </div>
+        <span className={cn('text-caption', isSent ? 'text-primary-foreground/70' : 'text-muted-foreground')}>
+          {formatVoiceDuration(isPlaying || position > 0 ? position : duration)}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,15 @@ import {
   type KeychainPlatform 
 } from '@/lib/keychainDetection';
 import { cleanupOrphanedMessages } from '@/lib/messageCache';
+import {
+  requestLoginChallenge,
+  completeServerLogin,
+  loadServerSession,
+  refreshServerSession,
+  logoutServerSession,
+  TOKEN_REFRESH_MARGIN_MS,
+  type ServerSession,
+} from '@/lib/serverSession';
 import { logger } from '@/lib/logger';
 
 interface AuthContextType {
@@ -20,6 +29,8 @@ interface AuthContextType {
   isLoading: boolean;
   platform: KeychainPlatform | null;
   needsKeychainRedirect: boolean;
+  // Bearer token for the optional Express API (null when no server is available)
+  sessionToken: string | null;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -30,6 +41,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<UserSession | null>(null);
   const [platform, setPlatform] = useState<KeychainPlatform | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [serverSession, setServerSession] = useState<ServerSession | null>(null);
 
   useEffect(() => {
     const initialize = async () => {
@@ -53,6 +65,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     
     initialize();
   }, []);
+
+  // Rotate the server access token shortly before it expires
+  useEffect(() => {
+    if (!serverSession) return;
+
+    const refreshIn = new Date(serverSession.tokenExpiresAt).getTime() - Date.now() - TOKEN_REFRESH_MARGIN_MS;
+    const timer = setTimeout(async () => {
+      setServerSession(await refreshServerSession(serverSession));
+    }, Math.max(refreshIn, 0));
+
+    return () => clearTimeout(timer);
+  }, [serverSession]);
   
   const restoreSession = async () => {
     try {
@@ -67,6 +91,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           const account = await getAccount(session.username);
           if (account) {
             setUser(session);
+            setServerSession(loadServerSession(session.username));
             logger.info('[Auth] Session restored for:', session.username);
             
             // EDGE CASE FIX #2: Cleanup orphaned messages after session restore
@@ -89,6 +114,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           // User can retry operations when network recovers
           logger.warn('[Auth] Failed to verify account (network error), restoring session anyway:', accountError.message);
           setUser(session);
+          setServerSession(loadServerSession(session.username));
         }
       }
     } catch (error) {
@@ -125,9 +151,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
 
     // 3. Authenticate with Keychain (works on desktop extension AND Keychain Mobile browser)
+    // If the Express API is available, sign its challenge so the same signature opens a server session
+    const challenge = await requestLoginChallenge(username);
+    let signature: string | undefined;
     try {
       await requestHandshake();
-      await requestLogin(username);
+      const loginResponse = await requestLogin(username, challenge?.message);
+      signature = typeof loginResponse.result === 'string' ? loginResponse.result : undefined;
       logger.info('[Auth] Keychain authentication successful');
     } catch (keychainError: any) {
       if (keychainError?.message?.includes('cancel') || keychainError?.error?.includes('cancel')) {
@@ -146,6 +176,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
     // 5. Store user session
     setUser(sessionData);
+
+    // Server session is optional - messaging works without it
+    if (challenge && signature) {
+      setServerSession(await completeServerLogin(username, challenge.nonce, signature));
+    }
     
     try {
       localStorage.setItem(SESSION_KEY, JSON.stringify(sessionData));
@@ -174,6 +209,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setUser(null);
     localStorage.removeItem(SESSION_KEY);
     
+    await logoutServerSession(serverSession);
+    setServerSession(null);
+    
     logger.info('[Auth] ✅ Logout complete');
   };
 
@@ -186,7 +224,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       logout, 
       isLoading, 
       platform,
-      needsKeychainRedirect
+      needsKeychainRedirect,
+      sessionToken: serverSession?.sessionToken ?? null
     }}>
       {children}
     </AuthContext.Provider>
@@ -0,0 +1,228 @@
+/**
+ * PresenceContext
+ *
+ * Opt-in online status and typing indicators relayed through the Express server
+ * Nothing is broadcast to the blockchain; events are ephemeral and only exchanged
+ * between users who both opted in. Presence is fully disabled when the user's
+ * message privacy is restrictive ('following' or 'disabled') or no server session exists.
+ *
+ * The provider also owns the app's realtime channel, which stays connected
+ * whenever a server session exists and pushes message/conversation events into
+ * the React Query caches; presence frames are only sent while sharing.
+ */
+
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import type { PresenceState } from '@shared/schema';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRealtimeEvents } from '@/hooks/useRealtimeEvents';
+import { getMessagePrivacy } from '@/lib/accountMetadata';
+import type { PresenceFrame } from '@/lib/realtimeChannel';
+import { logger } from '@/lib/logger';
+
+// Typing indicators expire if the "stopped typing" frame never arrives
+const TYPING_TIMEOUT_MS = 6000;
+
+/**
+ * Get localStorage key for user's presence opt-in
+ */
+function getPresencePreferenceKey(username: string): string {
+  return `hive_messenger_presence_${username}`;
+}
+
+interface TypingEntry {
+  from: string;
+  groupId?: string;
+  expiresAt: number;
+}
+
+/**
+ * Context value type
+ */
+export interface PresenceContextValue {
+  isAvailable: boolean;              // Server session exists
+  isRestricted: boolean;             // Message privacy is restrictive - presence is off
+  sharingPreference: boolean;        // User opted in
+  isSharing: boolean;                // Opted in and allowed
+  setSharingPreference: (enabled: boolean) => void;
+  getPresence: (username: string) => PresenceState | undefined;
+  getTypingUsers: (conversation: { partner?: string; groupId?: string }) => string[];
+  sendTyping: (to: string[], typing: boolean, groupId?: string) => void;
+  watch: (usernames: string[]) => () => void;
+}
+
+const PresenceContext = createContext<PresenceContextValue | undefined>(undefined);
+
+interface PresenceProviderProps {
+  children: ReactNode;
+}
+
+export function PresenceProvider({ children }: PresenceProviderProps) {
+  const { user, sessionToken } = useAuth();
+  const username = user?.username;
+  const [sharingPreference, setSharingPreferenceState] = useState(false);
+  const [presences, setPresences] = useState<Map<string, PresenceState>>(new Map());
+  const [typing, setTyping] = useState<TypingEntry[]>([]);
+  const watchCounts = useRef(new Map<string, number>());
+
+  // Load opt-in from localStorage on user change
+  useEffect(() => {
+    if (!username) {
+      setSharingPreferenceState(false);
+      return;
+    }
+    setSharingPreferenceState(localStorage.getItem(getPresencePreferenceKey(username)) === 'true');
+  }, [username]);
+
+  const { data: messagePrivacy } = useQuery({
+    queryKey: ['message-privacy', username],
+    queryFn: () => getMessagePrivacy(username!),
+    enabled: !!username,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const isAvailable = !!sessionToken;
+  const isRestricted = !!messagePrivacy && messagePrivacy !== 'everyone';
+  const isSharing = isAvailable && sharingPreference && messagePrivacy === 'everyone';
+
+  const handlePresence = useCallback((frame: PresenceFrame) => {
+    if (frame.type === 'presence') {
+      setPresences(prev => new Map(prev).set(frame.presence.username, frame.presence));
+      return;
+    }
+
+    setTyping(prev => {
+      const others = prev.filter(entry => !(entry.from === frame.from && entry.groupId === frame.groupId));
+      return frame.typing
+        ? [...others, { from: frame.from, groupId: frame.groupId, expiresAt: Date.now() + TYPING_TIMEOUT_MS }]
+        : others;
+    });
+  }, []);
+
+  const sendWatchList = () => {
+    send({ type: 'presence.watch', usernames: Array.from(watchCounts.current.keys()).slice(0, 200) });
+  };
+
+  const isSharingRef = useRef(isSharing);
+  isSharingRef.current = isSharing;
+
+  // Connected whenever a session exists (message events); presence goes through
+  // presence.share, and the server treats a new socket as not sharing
+  const { send } = useRealtimeEvents({
+    sessionToken,
+    onPresence: handlePresence,
+    onReady: () => {
+      if (!isSharingRef.current) return;
+      send({ type: 'presence.share', enabled: true });
+      sendWatchList();
+    },
+  });
+
+  // Go online / offline when sharing flips, and forget stale state when it stops
+  useEffect(() => {
+    send({ type: 'presence.share', enabled: isSharing });
+    if (isSharing) {
+      sendWatchList();
+    } else {
+      setPresences(new Map());
+      setTyping([]);
+    }
+  }, [isSharing, send]);
+
+  // Expire typing indicators
+  useEffect(() => {
+    if (typing.length === 0) return;
+
+    const timer = setInterval(() => {
+      setTyping(prev => {
+        const now = Date.now();
+        const current = prev.filter(entry => entry.expiresAt > now);
+        return current.length === prev.length ? prev : current;
+      });
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [typing.length]);
+
+  const setSharingPreference = useCallback((enabled: boolean) => {
+    if (!username) return;
+    localStorage.setItem(getPresencePreferenceKey(username), String(enabled));
+    setSharingPreferenceState(enabled);
+    logger.info('[PRESENCE] Sharing preference:', enabled);
+  }, [username]);
+
+  const watch = useCallback((usernames: string[]) => {
+    for (const name of usernames) {
+      watchCounts.current.set(name, (watchCounts.current.get(name) ?? 0) + 1);
+    }
+    sendWatchList();
+
+    return () => {
+      for (const name of usernames) {
+        const count = (watchCounts.current.get(name) ?? 1) - 1;
+        if (count > 0) {
+          watchCounts.current.set(name, count);
+        } else {
+          watchCounts.current.delete(name);
+        }
+      }
+      sendWatchList();
+    };
+  }, [send]);
+
+  const getPresence = useCallback((name: string) => presences.get(name), [presences]);
+
+  const getTypingUsers = useCallback(({ partner, groupId }: { partner?: string; groupId?: string }) => {
+    return typing
+      .filter(entry => groupId ? entry.groupId === groupId : !entry.groupId && entry.from === partner)
+      .map(entry => entry.from);
+  }, [typing]);
+
+  const sendTyping = useCallback((to: string[], isTyping: boolean, groupId?: string) => {
+    if (!isSharing || !username) return;
+
+    const recipients = to.filter(name => name !== username);
+    if (recipients.length === 0) return;
+
+    send({ type: 'typing', to: recipients, groupId, typing: isTyping });
+  }, [isSharing, username, send]);
+
+  const value: PresenceContextValue = {
+    isAvailable,
+    isRestricted,
+    sharingPreference,
+    isSharing,
+    setSharingPreference,
+    getPresence,
+    getTypingUsers,
+    sendTyping,
+    watch,
+  };
+
+  return (
+    <PresenceContext.Provider value={value}>
+      {children}
+    </PresenceContext.Provider>
+  );
+}
+
+export function usePresence() {
+  const context = useContext(PresenceContext);
+  if (context === undefined) {
+    throw new Error('usePresence must be used within a PresenceProvider');
+  }
+  return context;
+}
+
+/**
+ * Watch the presence of some users while the calling component is mounted
+ */
+export function useWatchPresence(usernames: string[]) {
+  const { watch } = usePresence();
+  const key = usernames.join(',');
+
+  useEffect(() => {
+    if (usernames.length === 0) return;
+    return watch(usernames);
+  }, [key, watch]);
+}
@@ -0,0 +1,245 @@
+/**
+ * ScheduledMessagesContext
+ *
+ * Local scheduler for direct and group messages. The queue is kept in IndexedDB so
+ * it survives reloads; due messages are sent one at a time while the app is open
+ * (each send still needs Keychain approval). Messages that came due while the app
+ * was closed are surfaced as missed on launch instead of being sent unannounced.
+ */
+
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import {
+  saveScheduledMessage,
+  getScheduledMessage,
+  getScheduledMessages,
+  deleteScheduledMessage,
+} from '@/lib/messageCache';
+import {
+  MISSED_GRACE_MS,
+  sendScheduledMessage,
+  getScheduledTargetLabel,
+  type ScheduledMessage,
+  type ScheduledMessageInput,
+} from '@/lib/scheduledMessages';
+import { triggerFastPolling } from '@/hooks/useBlockchainMessages';
+import { logger } from '@/lib/logger';
+
+// Re-check the queue at least this often (timers are throttled in background tabs)
+const MAX_TIMER_MS = 60 * 1000;
+
+/**
+ * Context value type
+ */
+export interface ScheduledMessagesContextValue {
+  messages: ScheduledMessage[];      // Soonest first
+  isQueueOpen: boolean;
+  setQueueOpen: (open: boolean) => void;
+  scheduleMessage: (input: ScheduledMessageInput) => Promise<void>;
+  updateScheduledMessage: (id: string, updates: { content: string; sendAt: string }) => Promise<void>;
+  cancelScheduledMessage: (id: string) => Promise<void>;
+  sendNow: (id: string) => Promise<void>;
+}
+
+const ScheduledMessagesContext = createContext<ScheduledMessagesContextValue | undefined>(undefined);
+
+interface ScheduledMessagesProviderProps {
+  children: ReactNode;
+}
+
+export function ScheduledMessagesProvider({ children }: ScheduledMessagesProviderProps) {
+  const { user } = useAuth();
+  const username = user?.username;
+  const [messages, setMessages] = useState<ScheduledMessage[]>([]);
+  const [isQueueOpen, setQueueOpen] = useState(false);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const isFiringRef = useRef(false);
+
+  const reload = useCallback(async () => {
+    if (!username) return;
+    setMessages(await getScheduledMessages(username));
+  }, [username]);
+
+  // Load the queue on login and mark what came due while the app was closed
+  useEffect(() => {
+    setMessages([]);
+    setIsLoaded(false);
+    if (!username) return;
+
+    let cancelled = false;
+
+    (async () => {
+      const stored = await getScheduledMessages(username);
+      const missedBefore = Date.now() - MISSED_GRACE_MS;
+      let missedCount = 0;
+
+      for (const message of stored) {
+        if (message.status === 'scheduled' && new Date(message.sendAt).getTime() < missedBefore) {
+          message.status = 'missed';
+          missedCount++;
+          await saveScheduledMessage(message, username);
+        } else if (message.status === 'sending') {
+          // The app closed mid-send - it may or may not have gone out
+          message.status = 'failed';
+          message.error = 'Sending was interrupted. Check the conversation before retrying.';
+          await saveScheduledMessage(message, username);
+        }
+      }
+
+      if (cancelled) return;
+      setMessages(stored);
+      setIsLoaded(true);
+
+      const missed = stored.filter(message => message.status === 'missed');
+      if (missed.length > 0) {
+        logger.info('[SCHEDULED] Missed while closed:', missedCount, 'new,', missed.length, 'total');
+        toast({
+          title: `${missed.length} scheduled message${missed.length !== 1 ? 's' : ''} not sent`,
+          description: 'They came due while Hive Messenger was closed. Send or cancel them from the scheduled queue.',
+          duration: 15000,
+          action: (
+            <ToastAction altText="Review scheduled messages" onClick={() => setQueueOpen(true)}>
+              Review
+            </ToastAction>
+          ),
+        });
+      }
+    })().catch(error => logger.error('[SCHEDULED] Failed to load queue:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [username]);
+
+  // Send every due message, one at a time
+  const fireDue = useCallback(async () => {
+    if (!username || isFiringRef.current) return;
+    isFiringRef.current = true;
+
+    try {
+      // Re-read the queue each round: messages may come due, be edited or be
+      // picked up by another tab while we wait for Keychain
+      while (true) {
+        const message = (await getScheduledMessages(username))
+          .find(candidate => candidate.status === 'scheduled' && new Date(candidate.sendAt).getTime() <= Date.now());
+        if (!message) break;
+
+        message.status = 'sending';
+        message.error = undefined;
+        await saveScheduledMessage(message, username);
+        await reload();
+
+        toast({
+          title: 'Sending scheduled message',
+          description: `To ${getScheduledTargetLabel(message)} - approve the transfer in Keychain`,
+        });
+
+        try {
+          const summary = await sendScheduledMessage(message);
+          await deleteScheduledMessage(message.id, username);
+          toast({ title: 'Scheduled message sent', description: summary });
+          triggerFastPolling();
+        } catch (error: any) {
+          logger.error('[SCHEDULED] Send failed:', error);
+          message.status = 'failed';
+          message.error = error?.message || 'Send failed';
+          await saveScheduledMessage(message, username);
+          toast({
+            title: 'Scheduled message failed',
+            description: `To ${getScheduledTargetLabel(message)}: ${message.error}`,
+            variant: 'destructive',
+          });
+        }
+
+        await reload();
+      }
+    } catch (error) {
+      logger.error('[SCHEDULED] Queue check failed:', error);
+    } finally {
+      isFiringRef.current = false;
+    }
+  }, [username, reload]);
+
+  // Wake up for the next due message
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const next = messages.find(message => message.status === 'scheduled');
+    if (!next) return;
+
+    const delay = Math.max(0, new Date(next.sendAt).getTime() - Date.now());
+    const timer = setTimeout(fireDue, Math.min(delay, MAX_TIMER_MS));
+    return () => clearTimeout(timer);
+  }, [messages, isLoaded, fireDue]);
+
+  const scheduleMessage = useCallback(async (input: ScheduledMessageInput) => {
+    if (!username) return;
+
+    await saveScheduledMessage({
+      ...input,
+      id: crypto.randomUUID(),
+      from: username,
+      createdAt: new Date().toISOString(),
+      status: 'scheduled',
+    }, username);
+    logger.info('[SCHEDULED] Scheduled message for', input.sendAt);
+    await reload();
+  }, [username, reload]);
+
+  const updateScheduledMessage = useCallback(async (id: string, updates: { content: string; sendAt: string }) => {
+    if (!username) return;
+
+    const message = await getScheduledMessage(id, username);
+    if (!message || message.status === 'sending') return;
+
+    await saveScheduledMessage({ ...message, ...updates, status: 'scheduled', error: undefined }, username);
+    await reload();
+  }, [username, reload]);
+
+  const cancelScheduledMessage = useCallback(async (id: string) => {
+    if (!username) return;
+
+    const message = await getScheduledMessage(id, username);
+    if (message?.status === 'sending') return;
+
+    await deleteScheduledMessage(id, username);
+    await reload();
+  }, [username, reload]);
+
+  const sendNow = useCallback(async (id: string) => {
+    if (!username) return;
+
+    const message = await getScheduledMessage(id, username);
+    if (!message || message.status === 'sending') return;
+
+    await saveScheduledMessage({ ...message, sendAt: new Date().toISOString(), status: 'scheduled', error: undefined }, username);
+    await reload();
+    await fireDue();
+  }, [username, reload, fireDue]);
+
+  const value: ScheduledMessagesContextValue = {
+    messages,
+    isQueueOpen,
+    setQueueOpen,
+    scheduleMessage,
+    updateScheduledMessage,
+    cancelScheduledMessage,
+    sendNow,
+  };
+
+  return (
+    <ScheduledMessagesContext.Provider value={value}>
+      {children}
+    </ScheduledMessagesContext.Provider>
+  );
+}
+
+export function useScheduledMessages() {
+  const context = useContext(ScheduledMessagesContext);
+  if (context === undefined) {
+    throw new Error('useScheduledMessages must be used within a ScheduledMessagesProvider');
+  }
+  return context;
+}
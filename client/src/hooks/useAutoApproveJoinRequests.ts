@@ -3,8 +3,10 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { scanAutoApprovalRequests } from '@/lib/joinRequestDiscovery';
 import { broadcastJoinApprove } from '@/lib/groupBlockchain';
-import { cacheGroupConversation, getGroupConversations, type GroupConversationCache } from '@/lib/messageCache';
+import { cacheGroupConversation, getGroupConversation, getGroupConversations, type GroupConversationCache } from '@/lib/messageCache';
 import { verifyPayment } from '@/lib/paymentVerification';
+import { GROUP_INVITE_STATUS_LABELS, validateGroupInvite } from '@/lib/groupInviteLinks';
+import { getCachedGroupModeration } from '@shared/groupModeration';
 import { useToast } from '@/hooks/use-toast';
 import { logger } from '@/lib/logger';
 import type { JoinRequest, MemberPayment } from '@shared/schema';
@@ -19,6 +21,9 @@ interface GroupInfo {
  * This hook runs ONLY for group creators and automatically approves requests with:
  * - status='approved_free' (free auto-approve groups)
  * - status='pending_payment_verification' (paid auto-approve groups, after payment verification)
+ * Requests that redeem an invite link are only approved if the invite verifies. On paid
+ * groups every request needs a verified payment unless its invite carries a free pass.
+ * Requests from users banned in the group (bans stored with the cached group) are skipped.
  * 
  * OPTIMIZED: Now handles ALL creator-owned groups in a single hook instance
  * 
@@ -97,18 +102,37 @@ export function useAutoApproveJoinRequests(
 
       logger.info('[AUTO APPROVE] Processing request:', request.requestId, 'status:', request.status, 'for group:', groupId);
 
-      // For pending_payment_verification, verify payment on blockchain first
-      if (request.status === 'pending_payment_verification' && request.memberPayment) {
+      // The creator's own record of the group says whether joining costs anything
+      let paymentSettings = (await getGroupConversation(groupId, user.username))?.paymentSettings;
+      let freePass = false;
+
+      // Invite redemptions: the token must be genuine and this request one of its counted uses
+      if (request.invite) {
+        const invite = await validateGroupInvite(request.invite, { groupId, creator: creatorUsername }, request.username);
+        if (!invite.redeemed) {
+          const reason = invite.status === 'valid' ? 'request is not one of its counted uses' : GROUP_INVITE_STATUS_LABELS[invite.status];
+          throw new Error(`Invite verification failed: ${reason}`);
+        }
+
+        paymentSettings = invite.group?.paymentSettings;
+        freePass = !!invite.invite?.freePass;
+        logger.info('[AUTO APPROVE] ✅ Invite verified:', invite.invite?.tokenId, freePass ? '(free pass)' : '');
+      }
+
+      // Paid groups: verify the payment on blockchain first, whatever status the request claims
+      const requiresPayment = !!paymentSettings?.enabled && parseFloat(paymentSettings.amount) > 0;
+      if (requiresPayment && !freePass) {
+        if (!request.memberPayment) {
+          throw new Error('Payment verification failed: request carries no payment');
+        }
+
         logger.info('[AUTO APPROVE] Verifying payment on blockchain:', request.memberPayment.txId);
-        
-        // Extract amount value from "5.000 HBD" format
-        const amountValue = request.memberPayment.amount.split(' ')[0];
-        
-        // Verify payment using the blockchain verifier
+
+        // Verify payment of the group's price using the blockchain verifier
         const paymentResult = await verifyPayment(
           request.username, // payer
           creatorUsername, // recipient (group creator)
-          amountValue, // expected amount (e.g., "5.000")
+          paymentSettings!.amount, // expected amount (e.g., "5.000")
           groupId, // memo should contain groupId
           24 // max age in hours
         );
@@ -156,9 +180,14 @@ export function useAutoApproveJoinRequests(
     onError: (error: Error, { request }) => {
       logger.error('[AUTO APPROVE] ❌ Failed to auto-approve request:', error);
 
+      // An invite that did not verify will not verify later either
+      if (error.message.includes('Invite verification failed')) {
+        processedRequestIds.current.add(request.requestId);
+      }
+
       // Don't show toast for verification failures (silent fail to avoid spam)
       // Manual approval is still available in ManageMembersModal
-      if (!error.message.includes('Payment verification failed')) {
+      if (!error.message.includes('verification failed')) {
         toast({
           title: 'Auto-Approval Failed',
           description: `Failed to auto-approve @${request.username}: ${error.message}`,
@@ -185,6 +214,7 @@ export function useAutoApproveJoinRequests(
       try {
         // Collect all requests from all groups first
         const allPendingRequests: Array<{ request: JoinRequest; groupId: string; creatorUsername: string }> = [];
+        const cachedGroups = await getGroupConversations(user.username);
         
         // Scan ALL creator-owned groups for pending auto-approval requests
         for (const { groupId, creator } of groups) {
@@ -195,7 +225,8 @@ export function useAutoApproveJoinRequests(
 
           try {
             // Scan for requests needing auto-approval for this group
-            const requests = await scanAutoApprovalRequests(groupId, creator);
+            const moderation = getCachedGroupModeration(cachedGroups.find(g => g.groupId === groupId));
+            const requests = await scanAutoApprovalRequests(groupId, creator, moderation);
 
             // Filter out already processed requests
             const unprocessedRequests = requests.filter(
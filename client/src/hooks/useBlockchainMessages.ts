@@ -11,6 +11,7 @@ import {
   updateConversation,
   getConversation,
   getConversationKey,
+  getMessagePreview,
   type MessageCache,
 } from '@/lib/messageCache';
 import { queryClient } from '@/lib/queryClient';
@@ -428,7 +429,7 @@ export function useBlockchainMessages({
         await updateConversation({
           conversationKey: getConversationKey(user.username, partnerUsername),
           partnerUsername,
-          lastMessage: lastMessage.content,
+          lastMessage: await getMessagePreview(lastMessage.txId || lastMessage.id, lastMessage.from, lastMessage.content, user.username),
           lastTimestamp: lastMessage.timestamp,
           unreadCount: 0,
           lastChecked: new Date().toISOString(),
@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Contact, CreateContactInput, UpdateContactInput } from '@shared/schema';
+import { serverFetch } from '@/lib/serverSession';
+import { logger } from '@/lib/logger';
+
+/**
+ * The user's server-side address book (nicknames, tags, favorites, blocklist)
+ *
+ * Disabled without a server session token; `contacts` is then empty and the
+ * pickers fall back to the Hive following list.
+ */
+export function useContacts(sessionToken: string | null | undefined, enabled: boolean = true) {
+  const queryClient = useQueryClient();
+  const queryKey = ['contacts', sessionToken];
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async () => {
+      logger.info('[CONTACTS] Fetching contacts');
+      return serverFetch<Contact[]>(sessionToken!, '/api/contacts');
+    },
+    enabled: enabled && !!sessionToken,
+    staleTime: 60000,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['contacts'] });
+
+  const addContact = useMutation({
+    mutationFn: (input: CreateContactInput) =>
+      serverFetch<Contact>(sessionToken!, '/api/contacts', {
+        method: 'POST',
+        body: JSON.stringify(input),
+      }),
+    onSuccess: invalidate,
+  });
+
+  const updateContact = useMutation({
+    mutationFn: ({ username, updates }: { username: string; updates: UpdateContactInput }) =>
+      serverFetch<Contact>(sessionToken!, `/api/contacts/${encodeURIComponent(username)}`, {
+        method: 'PATCH',
+        body: JSON.stringify(updates),
+      }),
+    onSuccess: invalidate,
+  });
+
+  const deleteContact = useMutation({
+    mutationFn: (username: string) =>
+      serverFetch<{ success: boolean }>(sessionToken!, `/api/contacts/${encodeURIComponent(username)}`, {
+        method: 'DELETE',
+      }),
+    onSuccess: invalidate,
+  });
+
+  const contacts = query.data ?? [];
+
+  return {
+    contacts,
+    // Pickable contacts: blocked users hidden, favorites first (server order)
+    activeContacts: contacts.filter(contact => !contact.isBlocked),
+    blockedUsernames: new Set(contacts.filter(contact => contact.isBlocked).map(contact => contact.username)),
+    isLoading: query.isLoading,
+    error: query.error,
+    addContact,
+    updateContact,
+    deleteContact,
+  };
+}
+
+export function getContactDisplayName(contact: Contact): string {
+  return contact.nickname ? `${contact.nickname} (@${contact.username})` : `@${contact.username}`;
+}
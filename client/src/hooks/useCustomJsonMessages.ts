@@ -83,12 +83,19 @@ export function useCustomJsonMessages({
 
         // Batch all new messages for single IndexedDB transaction
         const newMessagesToCache: CustomJsonMessage[] = [];
+        const cachedSessions = new Set(cachedMessages.map(msg => msg.sessionId).filter(Boolean));
 
         for (const op of blockchainOperations) {
           if (mergedMessages.has(op.txId)) {
             continue; // Already cached
           }
 
+          if (op.receivedChunks !== undefined) {
+            // Still arriving: shown as progress, never cached. Our own unfinished
+            // uploads are listed by the composer instead.
+            if (op.from === user.username || cachedSessions.has(op.sessionId)) continue;
+          }
+
           // Convert operation to CustomJsonMessage format
           const conversationKey = getConversationKey(user.username, partnerUsername);
           const customJsonMessage: CustomJsonMessage = {
@@ -97,15 +104,19 @@ export function useCustomJsonMessages({
             conversationKey,
             from: op.from,
             to: op.to,
+            kind: op.kind,
             timestamp: op.timestamp,
             encryptedPayload: op.encryptedPayload,
             hash: op.hash,
             chunks: op.chunks,
             isDecrypted: false,
             confirmed: true, // Blockchain operations are always confirmed
+            receivedChunks: op.receivedChunks,
           };
 
-          newMessagesToCache.push(customJsonMessage);
+          if (op.receivedChunks === undefined) {
+            newMessagesToCache.push(customJsonMessage);
+          }
           mergedMessages.set(op.txId, customJsonMessage);
         }
 
@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchGroupAuditLog } from '@/lib/groupBlockchain';
+import type { GroupConversationCache } from '@shared/schema';
+
+/**
+ * React Query hook for a group's membership audit log
+ * Used by GroupSettingsModal's history tab; rebuilt from chain on open
+ * 
+ * @param group - Group to rebuild the log for
+ * @param enabled - Whether to enable the query (default: true)
+ * @returns Query result with the reduced group state and its audit log
+ */
+export function useGroupAuditLog(
+  group: Pick<GroupConversationCache, 'groupId' | 'creator' | 'members' | 'roles'>,
+  enabled = true
+) {
+  return useQuery({
+    queryKey: ['groupAuditLog', group.groupId],
+    queryFn: () => fetchGroupAuditLog(group),
+    enabled: enabled && !!group.groupId,
+    staleTime: 60000, // Manifests change rarely
+    retry: 1,
+  });
+}
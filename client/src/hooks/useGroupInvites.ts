@@ -0,0 +1,51 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { scanGroupInviteRedemptions, validateGroupInvite, type GroupInvite } from '@/lib/groupInviteLinks';
+import { useGroupAuditLog } from '@/hooks/useGroupAuditLog';
+import type { Group, GroupConversationCache } from '@shared/schema';
+
+/**
+ * React Query hook for checking an invite link token
+ * Used by GroupPreview before offering to join with the invite
+ *
+ * @param token - Token from the link (null = no invite)
+ * @param group - Group the link points to (undefined until its creator is known)
+ * @returns Query result with the invite's status and remaining uses
+ */
+export function useGroupInviteValidation(token: string | null, group?: Pick<Group, 'groupId' | 'creator'>) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['groupInvite', group?.groupId, group?.creator, token, user?.username],
+    queryFn: () => validateGroupInvite(token!, group!, user?.username),
+    enabled: !!token && !!group,
+    staleTime: 60000,
+    retry: 1,
+  });
+}
+
+/**
+ * React Query hook for counting who redeemed an invite
+ * Used by PromotionTools to show uses of minted invites
+ *
+ * @param invite - Minted invite
+ * @param group - The invite's group (its creation block bounds what the index must cover)
+ * @param enabled - Whether to enable the query (default: true)
+ * @returns Query result with redemptions in chain order; an error if uses cannot be counted
+ */
+export function useGroupInviteRedemptions(
+  invite: GroupInvite,
+  group: Pick<GroupConversationCache, 'groupId' | 'creator' | 'members' | 'roles'>,
+  enabled = true
+) {
+  const auditLog = useGroupAuditLog(group, enabled);
+  const createdAtBlock = auditLog.data && !auditLog.data.partial ? auditLog.data.applied[0]?.op.block : undefined;
+
+  return useQuery({
+    queryKey: ['groupInviteRedemptions', invite.tokenId, createdAtBlock],
+    queryFn: () => scanGroupInviteRedemptions(invite, createdAtBlock),
+    enabled: enabled && !auditLog.isPending,
+    staleTime: 60000,
+    retry: 1,
+  });
+}
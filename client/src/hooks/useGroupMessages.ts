@@ -8,6 +8,7 @@ import {
   getAllGroupMessages,
   cacheGroupConversation,
   cacheGroupMessages,
+  getMessagePreview,
   type GroupConversationCache,
   type GroupMessageCache,
 } from '@/lib/messageCache';
@@ -16,6 +17,9 @@ import {
   parseGroupMessageMemo, 
   setGroupNegativeCache,
   discoverGroupMemberPayments,
+  parseGroupInviteMemo,
+  storeGroupKeyFromInvite,
+  discoverGroupKeyMessages,
   MAX_DEEP_BACKFILL_OPS,
   BACKFILL_CHUNK_SIZE 
 } from '@/lib/groupBlockchain';
@@ -118,6 +122,13 @@ async function processTransferOperation(
 
     logger.info('[GROUP MESSAGES] ✅ Successfully decrypted memo from:', transfer.from);
 
+    // Invite memos carry the shared key for a new group version - keep it, not a message
+    const invite = parseGroupInviteMemo(decryptedMemo);
+    if (invite) {
+      await storeGroupKeyFromInvite(invite, transfer.from, username);
+      return null;
+    }
+
     // Parse group message format
     const parsed = parseGroupMessageMemo(decryptedMemo);
     
@@ -153,6 +164,8 @@ async function processTransferOperation(
       txIds: [txId],
       confirmed: true,
       status: 'confirmed',
+      clientMessageId: parsed.clientMessageId,
+      replyTo: parsed.replyTo,
     };
 
     return messageCache;
@@ -298,6 +311,8 @@ export function useGroupMessagePreSync() {
               txIds: [txId],
               confirmed: true,
               status: 'confirmed',
+              clientMessageId: parsed.clientMessageId,
+              replyTo: parsed.replyTo,
             };
 
             newGroupMessages.push(groupMessage);
@@ -458,6 +473,7 @@ export function useGroupBackgroundSync() {
             name: displayName,
             members: blockchainGroup.members,
             creator: blockchainGroup.creator,
+            roles: blockchainGroup.roles,
             createdAt: blockchainGroup.createdAt,
             version: blockchainGroup.version,
             lastMessage: existing?.lastMessage || '',
@@ -613,6 +629,16 @@ export function useGroupMessages(groupId?: string, groupMembers?: string[]) {
           return cachedMessages;
         }
 
+        // Step 4.1: Shared-key messages are single custom_json ops on the senders' accounts
+        // (runs after the transfer scan so keys from new invite memos are already stored)
+        const keyMessageMembers = groupMembers?.length
+          ? groupMembers
+          : (await getGroupConversation(groupId, user.username))?.members || [];
+        const keyMessages = await discoverGroupKeyMessages(groupId, keyMessageMembers, user.username, seenTxIds);
+        newMessages.push(...keyMessages);
+
+        checkCancellation(signal, 'Group messages after shared-key fetch');
+
         // Log statistics after initial scan
         logger.info('[GROUP MESSAGES] 📊 Initial scan stats:', {
           operationsExamined: latestHistory.length,
@@ -639,7 +665,7 @@ export function useGroupMessages(groupId?: string, groupMembers?: string[]) {
             const groupConv = await getGroupConversation(groupId, user.username);
             
             if (groupConv) {
-              groupConv.lastMessage = latestMessage.content;
+              groupConv.lastMessage = await getMessagePreview(latestMessage.clientMessageId || latestMessage.id, latestMessage.sender, latestMessage.content, user.username);
               groupConv.lastTimestamp = latestMessage.timestamp;
               await cacheGroupConversation(groupConv, user.username);
               logger.info('[GROUP MESSAGES] ✅ Updated group conversation preview');
@@ -777,7 +803,7 @@ export function useGroupMessages(groupId?: string, groupMembers?: string[]) {
               const groupConv = await getGroupConversation(groupId, user.username);
               
               if (groupConv) {
-                groupConv.lastMessage = latestMessage.content;
+                groupConv.lastMessage = await getMessagePreview(latestMessage.clientMessageId || latestMessage.id, latestMessage.sender, latestMessage.content, user.username);
                 groupConv.lastTimestamp = latestMessage.timestamp;
                 await cacheGroupConversation(groupConv, user.username);
                 logger.info('[GROUP MESSAGES] ✅ Updated group conversation preview after backfill');
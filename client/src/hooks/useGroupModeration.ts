@@ -0,0 +1,62 @@
+import { useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchGroupAuditLog } from '@/lib/groupBlockchain';
+import { getCachedGroupModeration, type GroupModeration } from '@shared/groupModeration';
+import { cacheGroupConversation, getGroupConversation } from '@/lib/messageCache';
+import { logger } from '@/lib/logger';
+import type { GroupConversationCache } from '@shared/schema';
+
+/**
+ * React Query hook for a group's bans and mutes
+ * Shares the audit log query (same chain scan); until it has loaded, the bans and
+ * mutes stored with the cached group are used. Fresh results are written back to
+ * the cached group so the auto-approve hook and the next launch see them.
+ *
+ * @param group - Group to moderate (creator is enough for groups the user is not in)
+ * @param enabled - Whether to enable the query (default: true)
+ * @returns Current moderation state and whether it is still loading from chain
+ */
+export function useGroupModeration(
+  group: Pick<GroupConversationCache, 'groupId' | 'creator' | 'members' | 'roles' | 'bans' | 'mutes'> | undefined,
+  enabled = true
+): { moderation: GroupModeration; isLoading: boolean } {
+  const { user } = useAuth();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['groupAuditLog', group?.groupId],
+    queryFn: () => fetchGroupAuditLog(group!),
+    enabled: enabled && !!group?.groupId,
+    staleTime: 60000, // Moderation changes rarely
+    retry: 1,
+  });
+
+  const fetched = data?.moderation;
+  const groupId = group?.groupId;
+  const bans = group?.bans;
+  const mutes = group?.mutes;
+
+  // Stable identity, callers memoize on it
+  const cached = useMemo(() => getCachedGroupModeration({ bans, mutes }), [bans, mutes]);
+
+  useEffect(() => {
+    if (!fetched || !groupId || !user?.username) return;
+    const username = user.username;
+
+    (async () => {
+      const conversation = await getGroupConversation(groupId, username);
+      if (!conversation) return;
+
+      const current = getCachedGroupModeration(conversation);
+      if (JSON.stringify(current) === JSON.stringify(fetched)) return;
+
+      await cacheGroupConversation({ ...conversation, bans: fetched.bans, mutes: fetched.mutes }, username);
+      logger.info('[GROUP MODERATION] Updated cached bans / mutes for', groupId);
+    })().catch(error => logger.warn('[GROUP MODERATION] Failed to cache moderation:', error));
+  }, [fetched, groupId, user?.username]);
+
+  return {
+    moderation: fetched || cached,
+    isLoading: enabled && !!groupId && isLoading,
+  };
+}
@@ -1,6 +1,7 @@
 import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
 import { scanGroupJoinRequests, scanPendingJoinRequests } from '@/lib/joinRequestDiscovery';
+import { isGroupMemberBanned, type GroupModeration } from '@shared/groupModeration';
 import type { JoinRequest } from '@shared/schema';
 
 /**
@@ -10,16 +11,18 @@ import type { JoinRequest } from '@shared/schema';
  * @param groupId - Group identifier
  * @param creatorUsername - Username of the group creator
  * @param enabled - Whether to enable the query (default: true)
+ * @param moderation - Group bans (requests from banned users are dropped)
  * @returns Query result with pending join requests
  */
 export function useJoinRequests(
   groupId: string,
   creatorUsername: string,
-  enabled = true
+  enabled = true,
+  moderation?: GroupModeration
 ) {
   return useQuery({
-    queryKey: ['joinRequests', groupId],
-    queryFn: () => scanGroupJoinRequests(groupId, creatorUsername),
+    queryKey: ['joinRequests', groupId, moderation?.bans.map(ban => ban.username).join(',') || ''],
+    queryFn: () => scanGroupJoinRequests(groupId, creatorUsername, moderation),
     enabled: enabled && !!groupId && !!creatorUsername,
     refetchInterval: 30000, // Poll every 30 seconds for new requests
     staleTime: 20000, // Consider data stale after 20 seconds
@@ -34,21 +37,24 @@ export function useJoinRequests(
  * 
  * @param groupId - Group identifier
  * @param enabled - Whether to enable the query (default: true)
+ * @param moderation - Group bans, if known (a banned user has no pending requests)
  * @returns Query result with user's pending requests for this group
  */
 export function useUserPendingRequests(
   groupId: string,
-  enabled = true
+  enabled = true,
+  moderation?: GroupModeration
 ) {
   const { user } = useAuth();
+  const isBanned = !!user?.username && !!moderation && isGroupMemberBanned(moderation, user.username);
 
   return useQuery<JoinRequest[]>({
-    queryKey: ['userPendingRequests', groupId, user?.username],
+    queryKey: ['userPendingRequests', groupId, user?.username, isBanned],
     queryFn: async () => {
       if (!user?.username) {
         return [];
       }
-      return scanPendingJoinRequests(groupId, user.username);
+      return scanPendingJoinRequests(groupId, user.username, moderation);
     },
     enabled: enabled && !!groupId && !!user?.username,
     refetchInterval: 30000, // Poll every 30 seconds
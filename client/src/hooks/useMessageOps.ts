@@ -0,0 +1,157 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { subscribeToCustomJson } from '@/lib/blockStream';
+import { decryptMemo } from '@/lib/hive';
+import { cacheMessageOps, getGroupConversation, getMessageOp, getMessageOpsByTargets } from '@/lib/messageCache';
+import {
+  MESSAGE_OP_CUSTOM_JSON_ID,
+  broadcastMessageOp,
+  fetchMessageOpHistory,
+  isMessageOpForUser,
+  parseMessageOperation,
+  type MessageOpRecord,
+} from '@/lib/messageOps';
+import { logger } from '@/lib/logger';
+
+interface UseMessageOpsOptions {
+  targets: string[];               // Wire ids of the visible messages
+  accounts: string[];              // Accounts whose history may hold operations (partner / group members)
+  groupId?: string;                // Set for group chats
+  groupMembers?: string[];         // Edits are encrypted for every member
+  partnerUsername?: string;        // Set for direct chats
+  enabled?: boolean;
+}
+
+/**
+ * Edit and retract (delete-for-everyone) operations for the messages of one conversation
+ *
+ * Operations are loaded from the IndexedDB cache, backfilled from the senders'
+ * recent custom_json history and picked up live from the block stream. Callers
+ * resolve them per message with resolveMessageOps(), which checks the signer.
+ */
+export function useMessageOps({
+  targets,
+  accounts,
+  groupId,
+  groupMembers,
+  partnerUsername,
+  enabled = true,
+}: UseMessageOpsOptions) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const username = user?.username;
+  const targetsKey = targets.join(',');
+  const accountsKey = accounts.join(',');
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['message-ops', username] });
+    // Previews may have changed
+    queryClient.invalidateQueries({ queryKey: ['blockchain-conversations', username] });
+    queryClient.invalidateQueries({ queryKey: ['blockchain-group-conversations', username] });
+  };
+
+  // Backfill from the chain (separate query so new messages don't refetch history)
+  useQuery({
+    queryKey: ['message-op-history', username, accountsKey],
+    queryFn: async () => {
+      const records = await fetchMessageOpHistory(accounts, username!);
+      const written = await cacheMessageOps(records, username);
+      if (written > 0) {
+        invalidate();
+      }
+      return written;
+    },
+    enabled: enabled && !!username && accounts.length > 0,
+    staleTime: 60000,
+  });
+
+  const query = useQuery({
+    queryKey: ['message-ops', username, targetsKey],
+    queryFn: () => getMessageOpsByTargets(targets, username),
+    enabled: enabled && !!username && targets.length > 0,
+  });
+
+  // Live operations from the block stream
+  useEffect(() => {
+    if (!enabled || !username) return;
+
+    return subscribeToCustomJson(
+      username,
+      [MESSAGE_OP_CUSTOM_JSON_ID],
+      async (data, _blockNum, txId) => {
+        const record = parseMessageOperation(data, data.parsedJson, txId, new Date().toISOString(), username);
+        if (!record) return;
+
+        // Only keep group operations for groups we're in
+        if (record.groupId && !(await getGroupConversation(record.groupId, username))) return;
+
+        if (await cacheMessageOps([record], username)) {
+          logger.info('[MESSAGE OPS] Live', record.action, 'from', record.sender, 'on', record.target.substring(0, 20));
+          invalidate();
+        }
+      },
+      (op, json) => isMessageOpForUser(op, json, username)
+    );
+  }, [enabled, username]);
+
+  const broadcast = async (action: MessageOpRecord['action'], target: string, content?: string) => {
+    const txId = await broadcastMessageOp({
+      username: username!,
+      action,
+      target,
+      content,
+      to: groupId ? undefined : partnerUsername,
+      groupId,
+      groupMembers,
+    });
+
+    // We know our own edit text - cache it decrypted so the streamed copy is skipped
+    await cacheMessageOps([{
+      txId,
+      action,
+      target,
+      sender: username!,
+      counterparty: groupId ? undefined : partnerUsername,
+      groupId,
+      content,
+      timestamp: new Date().toISOString(),
+    }], username);
+  };
+
+  const editMessage = useMutation({
+    mutationFn: ({ target, content }: { target: string; content: string }) => broadcast('edit', target, content),
+    onSuccess: invalidate,
+  });
+
+  const retractMessage = useMutation({
+    mutationFn: (target: string) => broadcast('retract', target),
+    onSuccess: invalidate,
+  });
+
+  // Decrypt the latest edit of one message
+  const revealEdit = useMutation({
+    mutationFn: async (txId: string) => {
+      const record = await getMessageOp(txId, username);
+      if (!record?.encryptedContent) return;
+
+      const otherParty = record.groupId ? record.sender : record.counterparty;
+      const decrypted = await decryptMemo(username!, record.encryptedContent, otherParty, record.txId);
+      if (!decrypted) return;
+
+      await cacheMessageOps([{
+        ...record,
+        content: decrypted.startsWith('#') ? decrypted.substring(1) : decrypted,
+        encryptedContent: undefined,
+      }], username);
+    },
+    onSettled: invalidate,
+  });
+
+  return {
+    messageOps: query.data ?? new Map<string, MessageOpRecord[]>(),
+    editMessage,
+    retractMessage,
+    revealEdit,
+  };
+}
@@ -0,0 +1,146 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { subscribeToCustomJson } from '@/lib/blockStream';
+import { decryptMemo } from '@/lib/hive';
+import { cacheReactions, getEncryptedReactions, getGroupConversation, getReactionsByTargets } from '@/lib/messageCache';
+import {
+  REACTION_CUSTOM_JSON_ID,
+  broadcastReaction,
+  fetchReactionHistory,
+  getReactionRecordId,
+  isReactionForUser,
+  parseReactionOperation,
+  summarizeReactions,
+  type MessageReactions,
+} from '@/lib/reactions';
+import { logger } from '@/lib/logger';
+
+interface UseReactionsOptions {
+  targets: string[];               // Wire ids of the visible messages
+  accounts: string[];              // Accounts whose history may hold reactions (partner / group members)
+  groupId?: string;                // Set for group chats
+  partnerUsername?: string;        // Set for direct chats (reactions are encrypted for them)
+  enabled?: boolean;
+}
+
+/**
+ * Emoji reactions for the messages of one conversation
+ *
+ * Reactions are loaded from the IndexedDB cache, backfilled from the reactors'
+ * recent custom_json history and picked up live from the block stream.
+ */
+export function useReactions({ targets, accounts, groupId, partnerUsername, enabled = true }: UseReactionsOptions) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const username = user?.username;
+  const targetsKey = targets.join(',');
+  const accountsKey = accounts.join(',');
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['reactions', username] });
+
+  // Backfill from the chain (separate query so new messages don't refetch history)
+  useQuery({
+    queryKey: ['reaction-history', username, accountsKey],
+    queryFn: async () => {
+      const records = await fetchReactionHistory(accounts, username!);
+      const written = await cacheReactions(records, username);
+      if (written > 0) {
+        invalidate();
+      }
+      return written;
+    },
+    enabled: enabled && !!username && accounts.length > 0,
+    staleTime: 60000,
+  });
+
+  const query = useQuery({
+    queryKey: ['reactions', username, targetsKey],
+    queryFn: async () => {
+      const recordsByTarget = await getReactionsByTargets(targets, username);
+      const reactions = new Map<string, MessageReactions>();
+      recordsByTarget.forEach((records, target) => {
+        reactions.set(target, summarizeReactions(records, username!));
+      });
+      return reactions;
+    },
+    enabled: enabled && !!username && targets.length > 0,
+  });
+
+  // Live reactions from the block stream
+  useEffect(() => {
+    if (!enabled || !username) return;
+
+    return subscribeToCustomJson(
+      username,
+      [REACTION_CUSTOM_JSON_ID],
+      async (data, _blockNum, txId) => {
+        const record = parseReactionOperation(data, data.parsedJson, txId, new Date().toISOString(), username);
+        if (!record) return;
+
+        // Only keep group reactions for groups we're in
+        if (record.groupId && !(await getGroupConversation(record.groupId, username))) return;
+
+        if (await cacheReactions([record], username)) {
+          logger.info('[REACTIONS] Live reaction from', record.reactor, 'on', record.target.substring(0, 20));
+          invalidate();
+        }
+      },
+      (op, json) => isReactionForUser(op, json, username)
+    );
+  }, [enabled, username]);
+
+  const toggleReaction = useMutation({
+    mutationFn: async ({ target, emoji, remove }: { target: string; emoji: string; remove: boolean }) => {
+      const txId = await broadcastReaction({
+        username: username!,
+        target,
+        emoji,
+        remove,
+        to: groupId ? undefined : partnerUsername,
+        groupId,
+      });
+
+      // We know our own emoji - cache it decrypted so the streamed copy is skipped
+      await cacheReactions([{
+        id: getReactionRecordId(target, username!, emoji),
+        target,
+        reactor: username!,
+        emoji,
+        counterparty: groupId ? undefined : partnerUsername,
+        groupId,
+        active: !remove,
+        timestamp: new Date().toISOString(),
+        txId,
+      }], username);
+    },
+    onSuccess: invalidate,
+  });
+
+  // Decrypt the encrypted (direct chat) reactions of one message
+  const revealReactions = useMutation({
+    mutationFn: async (target: string) => {
+      const pending = await getEncryptedReactions(target, username);
+
+      for (const record of pending) {
+        const decrypted = await decryptMemo(username!, record.encryptedEmoji!, record.counterparty, record.txId);
+        if (!decrypted) continue;
+
+        const emoji = decrypted.startsWith('#') ? decrypted.substring(1) : decrypted;
+        await cacheReactions([{
+          ...record,
+          id: getReactionRecordId(record.target, record.reactor, emoji),
+          emoji,
+          encryptedEmoji: undefined,
+        }], username);
+      }
+    },
+    onSettled: invalidate,
+  });
+
+  return {
+    reactions: query.data ?? new Map<string, MessageReactions>(),
+    toggleReaction,
+    revealReactions,
+  };
+}
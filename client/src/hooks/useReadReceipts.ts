@@ -0,0 +1,105 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { getReadReceiptsEnabled } from '@/lib/accountMetadata';
+import { subscribeToCustomJson } from '@/lib/blockStream';
+import { decryptMemo } from '@/lib/hive';
+import { cacheReadReceipt, getMessageByTxId, getReadReceipt } from '@/lib/messageCache';
+import {
+  READ_RECEIPT_CUSTOM_JSON_ID,
+  fetchLatestReadReceipt,
+  isReadReceiptForUser,
+  parseReadReceiptOperation,
+  queueReadReceipt,
+} from '@/lib/readReceipts';
+import { logger } from '@/lib/logger';
+
+interface UseReadReceiptsOptions {
+  partnerUsername?: string;        // Direct chat partner
+  latestReceivedTxId?: string;     // Newest confirmed message from the partner on screen
+  enabled?: boolean;
+}
+
+/**
+ * Read receipts for one direct conversation
+ *
+ * Sends a (batched) receipt for the newest message we've seen from the partner and
+ * returns the timestamp up to which the partner has read our messages. Both
+ * directions only work while the user has opted in to read receipts.
+ */
+export function useReadReceipts({ partnerUsername, latestReceivedTxId, enabled = true }: UseReadReceiptsOptions) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const username = user?.username;
+
+  const { data: receiptsEnabled = false } = useQuery({
+    queryKey: ['read-receipts-enabled', username],
+    queryFn: () => getReadReceiptsEnabled(username!),
+    enabled: !!username,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const active = enabled && receiptsEnabled && !!username && !!partnerUsername;
+
+  // Outgoing: acknowledge the newest message while the conversation is visible
+  useEffect(() => {
+    if (!active || !latestReceivedTxId || document.visibilityState !== 'visible') return;
+
+    queueReadReceipt(username!, partnerUsername!, latestReceivedTxId).catch(error => {
+      logger.warn('[READ RECEIPTS] Failed to queue receipt:', error);
+    });
+  }, [active, username, partnerUsername, latestReceivedTxId]);
+
+  // Incoming: newest receipt from the partner, resolved to the read message's timestamp
+  const { data: readUpTo } = useQuery({
+    queryKey: ['read-receipt', username, partnerUsername],
+    queryFn: async () => {
+      const fetched = await fetchLatestReadReceipt(partnerUsername!, username!);
+      if (fetched) {
+        await cacheReadReceipt(fetched, username);
+      }
+
+      const record = await getReadReceipt(partnerUsername!, username);
+      if (!record) return null;
+
+      let readTxId = record.readTxId;
+      if (!readTxId && record.encryptedReadTxId) {
+        const decrypted = await decryptMemo(username!, record.encryptedReadTxId, partnerUsername, record.txId);
+        if (!decrypted) return null;
+
+        readTxId = decrypted.startsWith('#') ? decrypted.substring(1) : decrypted;
+        await cacheReadReceipt({ ...record, readTxId, encryptedReadTxId: undefined }, username);
+      }
+
+      const readMessage = readTxId ? await getMessageByTxId(readTxId, username) : undefined;
+      return readMessage?.timestamp ?? null;
+    },
+    enabled: active,
+    staleTime: 60000,
+  });
+
+  // Live receipts from the block stream
+  useEffect(() => {
+    if (!active) return;
+
+    return subscribeToCustomJson(
+      username!,
+      [READ_RECEIPT_CUSTOM_JSON_ID],
+      async (data, _blockNum, txId) => {
+        const record = parseReadReceiptOperation(data, data.parsedJson, txId, new Date().toISOString(), username!);
+        if (!record) return;
+
+        if (await cacheReadReceipt(record, username)) {
+          logger.info('[READ RECEIPTS] Live receipt from', record.reader);
+          queryClient.invalidateQueries({ queryKey: ['read-receipt', username, record.reader] });
+        }
+      },
+      (_op, json) => isReadReceiptForUser(json, username!)
+    );
+  }, [active, username]);
+
+  return {
+    receiptsEnabled,
+    readUpTo: active ? readUpTo ?? null : null,
+  };
+}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { RealtimeClientFrame, RealtimeEvent } from '@shared/schema';
+import { RealtimeChannel, type PresenceFrame, type RealtimeStatus } from '@/lib/realtimeChannel';
+import { logger } from '@/lib/logger';
+
+interface UseRealtimeEventsOptions {
+  /** Server session token - the channel stays closed without one */
+  sessionToken?: string | null;
+  onEvent?: (event: RealtimeEvent) => void;
+  onPresence?: (frame: PresenceFrame) => void;
+  onReady?: () => void;
+}
+
+/**
+ * Subscribe to server push events and keep React Query caches fresh
+ */
+export function useRealtimeEvents(options: UseRealtimeEventsOptions = {}) {
+  const { sessionToken, onEvent, onPresence, onReady } = options;
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<RealtimeStatus>('closed');
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const onPresenceRef = useRef(onPresence);
+  onPresenceRef.current = onPresence;
+  const onReadyRef = useRef(onReady);
+  onReadyRef.current = onReady;
+
+  useEffect(() => {
+    if (!sessionToken) {
+      setStatus('closed');
+      return;
+    }
+
+    const channel = new RealtimeChannel({
+      sessionToken,
+      onEvent: (event) => {
+        logger.info('[REALTIME HOOK] Event:', event.type);
+
+        queryClient.invalidateQueries({ queryKey: ['blockchain-conversations'] });
+
+        if (event.type !== 'conversation.updated') {
+          // Only the thread with the other party: key is ['blockchain-messages', user, partner]
+          const parties = [event.message.sender, event.message.recipient];
+          queryClient.invalidateQueries({
+            queryKey: ['blockchain-messages'],
+            predicate: (query) => parties.includes(query.queryKey[2] as string),
+          });
+          queryClient.invalidateQueries({ queryKey: ['server-messages', event.message.conversationId] });
+        }
+
+        onEventRef.current?.(event);
+      },
+      onResync: () => {
+        queryClient.invalidateQueries({ queryKey: ['blockchain-conversations'] });
+        queryClient.invalidateQueries({ queryKey: ['blockchain-messages'] });
+        queryClient.invalidateQueries({ queryKey: ['server-messages'] });
+      },
+      onStatusChange: setStatus,
+      onPresence: (frame) => onPresenceRef.current?.(frame),
+      onReady: () => onReadyRef.current?.(),
+    });
+
+    channelRef.current = channel;
+    channel.start();
+
+    return () => {
+      channel.stop();
+      channelRef.current = null;
+    };
+  }, [sessionToken, queryClient]);
+
+  const send = useCallback((frame: RealtimeClientFrame) => channelRef.current?.send(frame) ?? false, []);
+
+  return { status, send };
+}
@@ -0,0 +1,69 @@
+import { useMemo } from 'react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import type { Conversation, Message } from '@shared/schema';
+import { serverFetch } from '@/lib/serverSession';
+import { fetchMessagePage, flattenMessagePages, getOlderPageCursor } from '@/lib/messagePages';
+import { logger } from '@/lib/logger';
+
+interface UseServerMessagesOptions {
+  username?: string;
+  partnerUsername: string;
+  /** Server session token - the queries are disabled without one */
+  sessionToken?: string | null;
+  pageSize?: number;
+  status?: Message['status'][];
+  sender?: string;
+  enabled?: boolean;
+}
+
+/**
+ * Infinite-scroll message history from the server's cursor-paginated API
+ *
+ * Finds the server conversation with the partner, then loads the newest page;
+ * loadOlderMessages() fetches the page before the oldest one loaded (see
+ * messagePages.ts). `messages` is flattened oldest-first.
+ */
+export function useServerMessages({
+  username,
+  partnerUsername,
+  sessionToken,
+  pageSize = 50,
+  status,
+  sender,
+  enabled = true,
+}: UseServerMessagesOptions) {
+  const { data: conversationId } = useQuery({
+    queryKey: ['server-conversation', username, partnerUsername],
+    queryFn: async () => {
+      const conversations = await serverFetch<Conversation[]>(sessionToken!, `/api/conversations/${encodeURIComponent(username!)}`);
+      const partner = partnerUsername.toLowerCase();
+      return conversations.find(conversation => conversation.contactUsername.toLowerCase() === partner)?.id ?? null;
+    },
+    enabled: enabled && !!sessionToken && !!username && !!partnerUsername,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const query = useInfiniteQuery({
+    queryKey: ['server-messages', conversationId, { pageSize, status, sender }],
+    queryFn: ({ pageParam }) => {
+      logger.info('[SERVER MESSAGES] Fetching page for conversation:', conversationId, 'before:', pageParam);
+      return fetchMessagePage(sessionToken!, conversationId!, pageParam, { pageSize, status, sender });
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: getOlderPageCursor,
+    enabled: enabled && !!sessionToken && !!conversationId,
+    staleTime: 30000,
+  });
+
+  const messages = useMemo(() => flattenMessagePages(query.data?.pages ?? []), [query.data]);
+
+  return {
+    messages,
+    isLoading: query.isLoading,
+    error: query.error,
+    hasOlderMessages: query.hasNextPage,
+    isLoadingOlder: query.isFetchingNextPage,
+    loadOlderMessages: query.fetchNextPage,
+    refetch: query.refetch,
+  };
+}
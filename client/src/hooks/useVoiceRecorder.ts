@@ -0,0 +1,101 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { VOICE_NOTE_BITRATE, getSupportedVoiceMimeType } from '@/lib/voiceNotes';
+import { logger } from '@/lib/logger';
+
+export interface VoiceRecording {
+  blob: Blob;
+  mimeType: string;
+  duration: number;      // Seconds
+}
+
+/**
+ * MediaRecorder wrapper for voice notes
+ *
+ * Recording stops by itself once `maxSeconds` is reached; the finished recording
+ * is delivered to `onComplete` whether it was stopped manually or by the cap.
+ */
+export function useVoiceRecorder(onComplete: (recording: VoiceRecording) => void) {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [maxSeconds, setMaxSeconds] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+  const discardRef = useRef(false);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  const isSupported = getSupportedVoiceMimeType() !== null;
+
+  const start = useCallback(async (limitSeconds: number) => {
+    const mimeType = getSupportedVoiceMimeType();
+    if (!mimeType || recorderRef.current) return;
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const recorder = new MediaRecorder(stream, { mimeType, audioBitsPerSecond: VOICE_NOTE_BITRATE });
+
+    chunksRef.current = [];
+    discardRef.current = false;
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunksRef.current.push(event.data);
+    };
+
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      recorderRef.current = null;
+      setIsRecording(false);
+
+      const duration = Math.min(limitSeconds, (Date.now() - startedAtRef.current) / 1000);
+      if (discardRef.current) {
+        logger.info('[VOICE] Recording discarded');
+        return;
+      }
+
+      onCompleteRef.current({
+        blob: new Blob(chunksRef.current, { type: mimeType }),
+        mimeType,
+        duration,
+      });
+    };
+
+    recorderRef.current = recorder;
+    startedAtRef.current = Date.now();
+    setElapsed(0);
+    setMaxSeconds(limitSeconds);
+    setIsRecording(true);
+    recorder.start(1000);
+    logger.info('[VOICE] Recording started, cap:', limitSeconds, 's');
+  }, []);
+
+  const stop = useCallback(() => {
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    discardRef.current = true;
+    stop();
+  }, [stop]);
+
+  // Tick the timer and enforce the duration cap
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const timer = setInterval(() => {
+      const seconds = (Date.now() - startedAtRef.current) / 1000;
+      setElapsed(seconds);
+      if (seconds >= maxSeconds) {
+        stop();
+      }
+    }, 250);
+
+    return () => clearInterval(timer);
+  }, [isRecording, maxSeconds, stop]);
+
+  // Release the microphone if the composer unmounts mid-recording
+  useEffect(() => cancel, [cancel]);
+
+  return { isSupported, isRecording, elapsed, maxSeconds, start, stop, cancel };
+}
@@ -36,6 +36,7 @@ export interface HiveMessengerMetadata {
   tip_receive_preference?: TipReceivePreference;  // How user wants to receive tips - optional
   message_privacy?: PrivacyMode;             // Who can send you messages: 'everyone' | 'following' | 'disabled' - optional
   group_invite_privacy?: PrivacyMode;        // Who can add you to groups: 'everyone' | 'following' | 'disabled' - optional
+  read_receipts?: boolean;                   // Send (and see) read receipts - optional, off by default
   version?: string;                          // Metadata version for future compatibility - optional
 }
 
@@ -824,6 +825,84 @@ export async function updateGroupInvitePrivacy(
   }
 }
 
+/**
+ * Get read receipt setting for a user
+ * Read receipts are opt-in: users who haven't enabled them neither send nor see them
+ * 
+ * @param username - Hive account username
+ * @returns Promise<boolean> - true if read receipts are enabled
+ */
+export async function getReadReceiptsEnabled(username: string): Promise<boolean> {
+  try {
+    const metadata = await getAccountMetadata(username);
+    return metadata.profile?.hive_messenger?.read_receipts === true;
+  } catch (error) {
+    logger.error('[METADATA] Failed to get read receipt setting:', error);
+    return false; // Default fallback
+  }
+}
+
+/**
+ * Update read receipt setting
+ * 
+ * @param username - Hive account username
+ * @param enabled - Whether to send and see read receipts
+ * @returns Promise<boolean> - true if successful
+ */
+export async function updateReadReceipts(
+  username: string,
+  enabled: boolean
+): Promise<boolean> {
+  // Validate inputs
+  if (!username) {
+    throw new Error('Username is required');
+  }
+  
+  // Check Keychain availability
+  if (!isKeychainInstalled()) {
+    throw new Error('Hive Keychain not installed');
+  }
+  
+  try {
+    logger.debug('[METADATA] Updating read receipts for:', username, 'to:', enabled);
+    
+    // Fetch current metadata
+    const currentMetadata = await getAccountMetadata(username, true);
+    
+    // Get existing hive_messenger data
+    const existingMessengerData = currentMetadata.profile?.hive_messenger || {};
+    
+    // Merge with new setting (preserve all existing fields)
+    const updatedMetadata: AccountMetadata = {
+      ...currentMetadata,
+      profile: {
+        ...(currentMetadata.profile ?? {}),
+        hive_messenger: {
+          ...existingMessengerData,
+          read_receipts: enabled,
+          version: METADATA_VERSION,
+        },
+      },
+    };
+    
+    // Broadcast via Keychain
+    const success = await broadcastAccountUpdate(username, updatedMetadata);
+    
+    if (success) {
+      // Clear cache to force refresh
+      clearMetadataCache(username);
+      logger.info('[METADATA] Successfully updated read receipts');
+      return true;
+    }
+    
+    return false;
+    
+  } catch (error) {
+    logger.error('[METADATA] Failed to update read receipts:', error);
+    throw error;
+  }
+}
+
 // ============================================================================
 // Privacy Helper Functions (convenience utilities for DRY code)
 // ============================================================================
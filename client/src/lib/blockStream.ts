@@ -245,12 +245,18 @@ export function subscribeToTransfers(
   });
 }
 
+/**
+ * Subscribe to custom_json operations with the given ids
+ * By default only operations signed by `username` are delivered; pass `matches`
+ * to also receive operations addressed to the user (e.g. reactions)
+ */
 export function subscribeToCustomJson(
   username: string,
   jsonIds: string[],
-  onCustomJson: (data: any, blockNum: number, txId: string) => void
+  onCustomJson: (data: any, blockNum: number, txId: string) => void,
+  matches?: (op: any, parsedJson: any) => boolean
 ): () => void {
-  return blockStreamManager.subscribe(`custom_json-${username}`, {
+  return blockStreamManager.subscribe(`custom_json-${username}-${jsonIds.join(',')}`, {
     operationTypes: ['custom_json'],
     onOperation: (op, blockNum, txId) => {
       if (jsonIds.includes(op.id)) {
@@ -258,14 +264,19 @@ export function subscribeToCustomJson(
         const requiredPostingAuths = op.required_posting_auths || [];
         const allAuths = [...requiredAuths, ...requiredPostingAuths];
 
-        if (allAuths.includes(username)) {
-          try {
-            const parsedJson = JSON.parse(op.json);
-            logger.info('[BLOCK STREAM] Custom JSON detected:', op.id, 'for', username);
-            onCustomJson({ ...op, parsedJson }, blockNum, txId);
-          } catch (e) {
-            logger.warn('[BLOCK STREAM] Failed to parse custom_json:', e);
+        if (!matches && !allAuths.includes(username)) {
+          return;
+        }
+
+        try {
+          const parsedJson = JSON.parse(op.json);
+          if (matches && !matches(op, parsedJson)) {
+            return;
           }
+          logger.info('[BLOCK STREAM] Custom JSON detected:', op.id, 'for', username);
+          onCustomJson({ ...op, parsedJson }, blockNum, txId);
+        } catch (e) {
+          logger.warn('[BLOCK STREAM] Failed to parse custom_json:', e);
         }
       }
     },
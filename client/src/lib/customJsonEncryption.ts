@@ -2,7 +2,7 @@ import { gzipCompress, gzipDecompress } from './compression';
 import { logger } from './logger';
 
 /**
- * Custom JSON encryption module for Hive Messenger image messaging
+ * Custom JSON encryption module for Hive Messenger image and file messaging
  * Handles payload optimization, encryption, and integrity verification
  * 
  * @module customJsonEncryption
@@ -19,6 +19,7 @@ export interface ImagePayload {
   from: string;          // sender username
   to: string;            // recipient username
   timestamp: number;     // Unix timestamp
+  replyTo?: string;      // txId of the message being replied to
 }
 
 /**
@@ -32,6 +33,7 @@ interface OptimizedPayload {
   n: string;    // "name" (filename)
   c: string;    // "contentType"
   ts: number;   // "timestamp"
+  r?: string;   // "replyTo" (ignored by older clients)
 }
 
 /**
@@ -160,6 +162,10 @@ export async function encryptImagePayload(
     optimized.m = payload.message;
   }
 
+  if (payload.replyTo) {
+    optimized.r = payload.replyTo;
+  }
+
   // Step 2: Stringify with no whitespace
   const jsonStr = JSON.stringify(optimized);
   logger.info('[ENCRYPT] Optimized JSON size:', jsonStr.length, 'bytes');
@@ -266,7 +272,8 @@ export async function decryptImagePayload(
     message: optimized.m,
     filename: optimized.n,
     contentType: optimized.c,
-    timestamp: optimized.ts
+    timestamp: optimized.ts,
+    replyTo: optimized.r
   };
 
   logger.info('[DECRYPT] ✅ Decryption complete:', {
@@ -278,3 +285,167 @@ export async function decryptImagePayload(
 
   return payload;
 }
+
+// ============================================================================
+// FILE ATTACHMENTS: Generic files (PDF, audio, archives, ...)
+// ============================================================================
+
+/**
+ * File message payload structure (before encryption)
+ */
+export interface FilePayload {
+  fileData: string;       // base64 encoded file (gzipped if `compressed`)
+  compressed: boolean;    // fileData is gzipped
+  message?: string;       // optional text message
+  filename: string;       // original filename
+  contentType: string;    // sniffed MIME type
+  size: number;           // original size in bytes
+  from: string;           // sender username
+  to: string;             // recipient username
+  timestamp: number;      // Unix timestamp
+  replyTo?: string;       // txId of the message being replied to
+  duration?: number;      // Voice notes: length in seconds
+  waveform?: number[];    // Voice notes: bar heights 0-100
+}
+
+/**
+ * Optimized file payload structure using short keys
+ */
+interface OptimizedFilePayload {
+  t: string;    // "to"
+  f: string;    // "from"
+  d: string;    // "data" (file data)
+  z?: 1;        // data is gzipped
+  m?: string;   // "msg" (message)
+  n: string;    // "name" (filename)
+  c: string;    // "contentType"
+  s: number;    // "size"
+  ts: number;   // "timestamp"
+  r?: string;   // "replyTo"
+  du?: number;  // "duration" (voice notes)
+  w?: number[]; // "waveform" (voice notes)
+}
+
+/**
+ * Encrypt a file payload for blockchain storage
+ * Same process as encryptImagePayload: short keys, SHA-256 hash, memo encryption
+ * 
+ * @param payload - File payload to encrypt (fileData already gzipped if beneficial)
+ * @param senderUsername - Sender's username
+ * @returns Promise<{ encrypted: string; hash: string }>
+ */
+export async function encryptFilePayload(
+  payload: FilePayload,
+  senderUsername: string
+): Promise<{ encrypted: string; hash: string }> {
+  logger.info('[ENCRYPT] Starting file encryption:', {
+    from: payload.from,
+    to: payload.to,
+    contentType: payload.contentType,
+    size: payload.size,
+    dataSize: payload.fileData.length
+  });
+
+  const optimized: OptimizedFilePayload = {
+    t: payload.to,
+    f: payload.from,
+    d: payload.fileData,
+    n: payload.filename,
+    c: payload.contentType,
+    s: payload.size,
+    ts: payload.timestamp
+  };
+
+  if (payload.compressed) {
+    optimized.z = 1;
+  }
+
+  if (payload.message) {
+    optimized.m = payload.message;
+  }
+
+  if (payload.replyTo) {
+    optimized.r = payload.replyTo;
+  }
+
+  if (payload.duration !== undefined) {
+    optimized.du = Math.round(payload.duration * 10) / 10;
+    optimized.w = payload.waveform;
+  }
+
+  const jsonStr = JSON.stringify(optimized);
+  const hash = await generateSHA256(jsonStr);
+
+  const encrypted = await requestKeychainEncryption(
+    `#${jsonStr}`,
+    senderUsername,
+    payload.to
+  );
+
+  logger.info('[ENCRYPT] ✅ File encryption complete, final size:', encrypted.length, 'bytes');
+
+  return { encrypted, hash };
+}
+
+/**
+ * Decrypt an encrypted file payload
+ * The returned fileData is always the original (decompressed) file as base64
+ * 
+ * @param encryptedPayload - Encrypted payload from blockchain
+ * @param username - User's username for decryption
+ * @param expectedHash - Optional SHA-256 hash for verification
+ * @returns Promise<FilePayload>
+ * 
+ * @throws Error if integrity check fails
+ */
+export async function decryptFilePayload(
+  encryptedPayload: string,
+  username: string,
+  expectedHash?: string
+): Promise<FilePayload> {
+  const decrypted = await requestKeychainDecryption(encryptedPayload, username);
+  const jsonStr = decrypted.startsWith('#') ? decrypted.substring(1) : decrypted;
+
+  if (expectedHash) {
+    const actualHash = await generateSHA256(jsonStr);
+    if (actualHash !== expectedHash) {
+      console.error('[DECRYPT] ❌ File integrity check failed:', {
+        expected: expectedHash.substring(0, 16),
+        actual: actualHash.substring(0, 16)
+      });
+      throw new Error('Integrity check failed - data may be corrupted');
+    }
+  }
+
+  const optimized: OptimizedFilePayload = JSON.parse(jsonStr);
+
+  let fileData = optimized.d;
+  if (optimized.z) {
+    const { decompressBinaryFromBase64 } = await import('./imageUtils');
+    const bytes = decompressBinaryFromBase64(optimized.d);
+    fileData = btoa(Array.from(bytes).map(byte => String.fromCharCode(byte)).join(''));
+  }
+
+  const payload: FilePayload = {
+    to: optimized.t,
+    from: optimized.f,
+    fileData,
+    compressed: false,
+    message: optimized.m,
+    filename: optimized.n,
+    contentType: optimized.c,
+    size: optimized.s,
+    timestamp: optimized.ts,
+    replyTo: optimized.r,
+    duration: optimized.du,
+    waveform: optimized.w
+  };
+
+  logger.info('[DECRYPT] ✅ File decryption complete:', {
+    from: payload.from,
+    contentType: payload.contentType,
+    size: payload.size
+  });
+
+  return payload;
+}
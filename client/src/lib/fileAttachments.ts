@@ -0,0 +1,198 @@
+import pako from 'pako';
+import { blobToArrayBuffer } from './imageUtils';
+import { isCompressionBeneficial } from './compression';
+import { logger } from './logger';
+
+/**
+ * Generic file attachments for custom_json messaging (PDF, audio, archives, ...)
+ *
+ * Files take the same route as images - gzip, JSON payload, memo encryption,
+ * SHA-256 hash and chunked custom_json broadcast - but keep their original
+ * bytes instead of being re-encoded to WebP.
+ *
+ * @module fileAttachments
+ */
+
+/**
+ * Largest file accepted for sending (before compression)
+ * Every 7KB of encrypted payload is one custom_json operation, so this bounds RC cost
+ */
+export const MAX_ATTACHMENT_BYTES = 256 * 1024;
+
+const DEFAULT_CONTENT_TYPE = 'application/octet-stream';
+
+/**
+ * Magic numbers of common file types
+ * `offset` is where the signature starts; `extra` is a second signature (e.g. RIFF subtypes)
+ */
+const FILE_SIGNATURES: Array<{
+  type: string;
+  bytes: number[];
+  offset?: number;
+  extra?: { bytes: number[]; offset: number };
+}> = [
+  { type: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },                        // %PDF-
+  { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },                                    // GIF8
+  { type: 'image/webp', bytes: [0x52, 0x49, 0x46, 0x46], extra: { bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 } },
+  { type: 'audio/wav', bytes: [0x52, 0x49, 0x46, 0x46], extra: { bytes: [0x57, 0x41, 0x56, 0x45], offset: 8 } },
+  { type: 'audio/ogg', bytes: [0x4f, 0x67, 0x67, 0x53] },                                    // OggS
+  { type: 'audio/flac', bytes: [0x66, 0x4c, 0x61, 0x43] },                                   // fLaC
+  { type: 'audio/mpeg', bytes: [0x49, 0x44, 0x33] },                                         // ID3
+  { type: 'audio/mpeg', bytes: [0xff, 0xfb] },
+  { type: 'video/webm', bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { type: 'video/mp4', bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 },                         // ....ftyp
+  { type: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },                              // PK
+  { type: 'application/gzip', bytes: [0x1f, 0x8b] },
+  { type: 'application/x-7z-compressed', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { type: 'application/vnd.rar', bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] },              // Rar!
+];
+
+function matchesAt(bytes: Uint8Array, signature: number[], offset: number): boolean {
+  if (bytes.length < offset + signature.length) return false;
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+/**
+ * Detect a file's MIME type from its first bytes
+ * The browser's File.type is only derived from the extension, so it is the fallback
+ *
+ * @param bytes - File contents (only the first few bytes are read)
+ * @param fallback - Type to use when no signature matches
+ */
+export function sniffMimeType(bytes: Uint8Array, fallback?: string): string {
+  for (const signature of FILE_SIGNATURES) {
+    if (!matchesAt(bytes, signature.bytes, signature.offset ?? 0)) continue;
+    if (signature.extra && !matchesAt(bytes, signature.extra.bytes, signature.extra.offset)) continue;
+    return signature.type;
+  }
+  return fallback || DEFAULT_CONTENT_TYPE;
+}
+
+/**
+ * Format a byte count for display (e.g. "12.4 KB")
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Short label for a MIME type (e.g. "PDF", "MP3", "ZIP")
+ */
+export function getFileTypeLabel(contentType?: string, filename?: string): string {
+  const extension = filename?.includes('.') ? filename.split('.').pop()!.toUpperCase() : undefined;
+
+  switch (contentType) {
+    case 'application/pdf': return 'PDF';
+    case 'application/zip': return 'ZIP';
+    case 'audio/mpeg': return 'MP3';
+    case 'application/octet-stream':
+    case undefined:
+      return extension || 'File';
+    default:
+      return extension || contentType.split('/').pop()!.toUpperCase();
+  }
+}
+
+export function validateAttachmentFile(
+  file: File,
+  maxBytes: number = MAX_ATTACHMENT_BYTES
+): { valid: boolean; error?: string } {
+  if (file.size === 0) {
+    return { valid: false, error: 'File is empty' };
+  }
+
+  if (file.size > maxBytes) {
+    return { valid: false, error: `File must be smaller than ${formatFileSize(maxBytes)}` };
+  }
+
+  return { valid: true };
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  // Convert Uint8Array to binary string without spread operator
+  const binaryString = Array.from(bytes).map(byte => String.fromCharCode(byte)).join('');
+  return btoa(binaryString);
+}
+
+/**
+ * Read a file for sending
+ *
+ * @returns fileData - base64 payload (gzipped when that saves space)
+ * @returns fileDataUncompressed - base64 of the original bytes (for the local cache)
+ */
+export async function processFileForBlockchain(file: File): Promise<{
+  fileData: string;
+  fileDataUncompressed: string;
+  compressed: boolean;
+  contentType: string;
+  size: number;
+}> {
+  const bytes = new Uint8Array(await blobToArrayBuffer(file));
+  const contentType = sniffMimeType(bytes, file.type);
+
+  // Archives, audio and video are already compressed - only gzip when it helps
+  const gzipped = pako.gzip(bytes);
+  const compressed = isCompressionBeneficial(bytes.length, gzipped.length);
+
+  const fileDataUncompressed = bytesToBase64(bytes);
+  const fileData = compressed ? bytesToBase64(gzipped) : fileDataUncompressed;
+
+  logger.info('[FILE] Processed attachment:', {
+    contentType,
+    size: bytes.length,
+    compressedSize: compressed ? gzipped.length : bytes.length,
+    compressed,
+  });
+
+  return { fileData, fileDataUncompressed, compressed, contentType, size: bytes.length };
+}
+
+/**
+ * Turn a decrypted attachment back into a Blob (downloads, audio playback)
+ */
+export function base64ToBlob(fileData: string, contentType: string): Blob {
+  const binaryString = atob(fileData);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: contentType });
+}
+
+/**
+ * Start a browser download of a decrypted attachment
+ */
+export function downloadAttachment(fileData: string, filename: string, contentType: string): void {
+  const url = URL.createObjectURL(base64ToBlob(fileData, contentType));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * One-line text for an attachment (reply quotes, previews)
+ */
+export function getAttachmentPreview(attachment: {
+  isDecrypted: boolean;
+  kind?: 'image' | 'file';
+  filename?: string;
+  duration?: number;
+  chunks?: number;
+  receivedChunks?: number;
+}): string {
+  if (attachment.receivedChunks !== undefined) {
+    return `📎 Receiving ${attachment.receivedChunks}/${attachment.chunks} chunks`;
+  }
+  // Images cached before file attachments existed have no kind
+  if (attachment.kind !== 'file') return '🖼️ Image';
+  if (!attachment.isDecrypted) return '📎 Encrypted file';
+  return attachment.duration !== undefined ? '🎤 Voice message' : `📎 ${attachment.filename || 'Attachment'}`;
+}
@@ -1,7 +1,11 @@
 import { hiveClient as optimizedHiveClient } from './hiveClient';
-import { normalizeHiveTimestamp } from './hive';
 import { logger } from './logger';
-import type { Group, PaymentSettings, MemberPayment, JoinRequest, GroupCustomJson, GroupConversationCache } from '@shared/schema';
+import { decodeEnvelope, encodeEnvelope, isEnvelope } from './messageEnvelope';
+import { generateGroupKey, getGroupKeyId, decryptWithGroupKey, type GroupKeyCiphertext } from './groupKeys';
+import { saveGroupKey, getGroupKey, hasGroupKeys, getGroupConversation, type GroupMessageCache } from './messageCache';
+import { reduceGroupOps, type GroupOp, type GroupReduction } from '@shared/groupReducer';
+import { hasGroupPermission } from '@shared/groupRoles';
+import type { Group, PaymentSettings, MemberPayment, JoinRequest, GroupCustomJson, GroupConversationCache, GroupRole } from '@shared/schema';
 import { z } from 'zod';
 
 // ============================================================================
@@ -19,6 +23,7 @@ export const GROUP_CUSTOM_JSON_ID = 'hive_messenger_group';
 // ============================================================================
 // Schema for encrypted memos containing transaction pointers to group manifests
 // This solves the scalability problem for groups older than 5000 operations
+// Invites sent on create/update also carry the shared group key for that version
 
 export const GroupInviteMemoSchema = z.object({
   type: z.literal('group_invite'),
@@ -28,6 +33,8 @@ export const GroupInviteMemoSchema = z.object({
   manifest_op_idx: z.number().int().nonnegative(),
   version: z.number().int().positive().optional(),
   action: z.enum(['create', 'update']).optional(),
+  key: z.string().optional(),                      // base64 AES-256 group key
+  key_version: z.number().int().positive().optional(),
 });
 
 export type GroupInviteMemo = z.infer<typeof GroupInviteMemoSchema>;
@@ -179,6 +186,21 @@ async function decryptMemoWithRetry(
   throw lastError || new Error('Memo decryption failed after retries');
 }
 
+/**
+ * Group op from an account history entry, keeping its position on chain for the reducer
+ */
+function toGroupOp(json: GroupCustomJson, entry: any, fallbackAuthor: string): GroupOp {
+  return {
+    json,
+    author: entry.op[1].required_posting_auths?.[0] || fallbackAuthor,
+    trxId: entry.trx_id,
+    block: entry.block,
+    trxInBlock: entry.trx_in_block,
+    opInTrx: entry.op_in_trx,
+    timestamp: entry.timestamp,
+  };
+}
+
 /**
  * Generates a unique group ID using crypto.randomUUID()
  */
@@ -209,6 +231,7 @@ export async function broadcastGroupCreation(
     timestamp: new Date().toISOString(),
     paymentSettings,
     memberPayments: [], // Initialize empty payments array
+    roles: { [username]: 'owner' },
   };
 
   return new Promise((resolve, reject) => {
@@ -262,8 +285,9 @@ export async function broadcastGroupCreation(
                       op_idx: opIdx
                     };
                     
-                    const inviteResults = await sendGroupInviteMemos(
+                    const inviteResults = await sendInvitesWithNewGroupKey(
                       groupId,
+                      1,
                       members,
                       manifestPointer,
                       username,
@@ -300,16 +324,20 @@ export async function broadcastGroupCreation(
 }
 
 /**
- * Broadcasts a group update (membership change) custom_json operation
+ * Broadcasts a group update (membership, name or role change) custom_json operation
+ * Other clients only apply it if `username` holds the role the change needs (see groupRoles.ts)
+ *
+ * @param roles - Full role map after the change; omit to leave roles unchanged
  */
 export async function broadcastGroupUpdate(
   username: string,
   groupId: string,
   name: string,
   members: string[],
-  version: number
+  version: number,
+  roles?: Record<string, GroupRole>
 ): Promise<string> {
-  logger.info('[GROUP BLOCKCHAIN] Broadcasting group update:', { groupId, version });
+  logger.info('[GROUP BLOCKCHAIN] Broadcasting group update:', { groupId, version, roles });
 
   const customJson: GroupCustomJson = {
     action: 'update',
@@ -318,6 +346,7 @@ export async function broadcastGroupUpdate(
     members,
     version,
     timestamp: new Date().toISOString(),
+    roles,
   };
 
   return new Promise((resolve, reject) => {
@@ -371,8 +400,9 @@ export async function broadcastGroupUpdate(
                       op_idx: opIdx
                     };
                     
-                    const inviteResults = await sendGroupInviteMemos(
+                    const inviteResults = await sendInvitesWithNewGroupKey(
                       groupId,
+                      version,
                       members,
                       manifestPointer,
                       username,
@@ -658,6 +688,101 @@ export async function broadcastUnpinMessage(
   });
 }
 
+/**
+ * Broadcasts a "ban", "unban", "mute" or "unmute" custom_json operation
+ * Only applied by other clients if the author may moderate the target (see groupRoles.ts)
+ */
+export async function broadcastGroupModeration(
+  username: string,
+  groupId: string,
+  action: 'ban' | 'unban' | 'mute' | 'unmute',
+  target: string,
+  options: { reason?: string; until?: string } = {}
+): Promise<string> {
+  logger.info('[GROUP BLOCKCHAIN] Broadcasting moderation:', { groupId, action, target });
+
+  const customJson: GroupCustomJson = {
+    action,
+    groupId,
+    username: target,
+    ...(options.reason && { reason: options.reason }),
+    ...(action === 'mute' && options.until && { until: options.until }),
+    timestamp: new Date().toISOString(),
+  };
+
+  const labels = { ban: 'Ban Member', unban: 'Unban Member', mute: 'Mute Member', unmute: 'Unmute Member' };
+
+  return new Promise((resolve, reject) => {
+    if (!window.hive_keychain) {
+      reject(new Error('Hive Keychain not installed'));
+      return;
+    }
+
+    window.hive_keychain.requestCustomJson(
+      username,
+      GROUP_CUSTOM_JSON_ID,
+      'Posting',
+      JSON.stringify(customJson),
+      labels[action],
+      (response: any) => {
+        if (response.success) {
+          logger.info('[GROUP BLOCKCHAIN] ✅ Moderation broadcast:', action, target, response.result.id);
+          resolve(response.result.id);
+        } else {
+          logger.error('[GROUP BLOCKCHAIN] ❌ Failed to broadcast moderation:', response.error);
+          reject(new Error(response.error || `Failed to broadcast ${action}`));
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Broadcasts a shared-key group message as a single custom_json operation
+ * The message envelope is encrypted with the group key, so one broadcast reaches every member
+ */
+export async function broadcastGroupMessage(
+  username: string,
+  groupId: string,
+  keyVersion: number,
+  ciphertext: GroupKeyCiphertext
+): Promise<string> {
+  logger.info('[GROUP BLOCKCHAIN] Broadcasting shared-key group message:', { groupId, keyVersion });
+
+  const customJson: GroupCustomJson = {
+    action: 'message',
+    groupId,
+    key_version: keyVersion,
+    iv: ciphertext.iv,
+    ct: ciphertext.ct,
+    timestamp: new Date().toISOString(),
+  };
+
+  return new Promise((resolve, reject) => {
+    if (!window.hive_keychain) {
+      reject(new Error('Hive Keychain not installed'));
+      return;
+    }
+
+    window.hive_keychain.requestCustomJson(
+      username,
+      GROUP_CUSTOM_JSON_ID,
+      'Posting',
+      JSON.stringify(customJson),
+      'Send Group Message',
+      (response: any) => {
+        if (response.success) {
+          logger.info('[GROUP BLOCKCHAIN] ✅ Group message broadcast:', response.result.id);
+          resolve(response.result.id);
+        } else {
+          logger.error('[GROUP BLOCKCHAIN] ❌ Failed to broadcast group message:', response.error);
+          reject(new Error(response.message || response.error || 'Failed to broadcast group message'));
+        }
+      }
+    );
+  });
+}
+
 /**
  * Discovers memberPayments for a group by scanning:
  * 1. join_approve custom_json operations (for payments recorded in approval)
@@ -798,6 +923,28 @@ export async function discoverGroupMemberPayments(
   }
 }
 
+/**
+ * The group manifest op a pointer (trx id + op index) refers to, with its author and
+ * chain position, or null if the pointer doesn't lead to a create / update of this group
+ */
+function getPointedManifestOp(transaction: any, trxId: string, opIdx: number, groupId: string): GroupOp | null {
+  const operation = transaction?.operations?.[opIdx];
+  if (!operation || operation[0] !== 'custom_json' || operation[1].id !== GROUP_CUSTOM_JSON_ID) return null;
+
+  const author = operation[1].required_posting_auths?.[0];
+  const json: GroupCustomJson = JSON.parse(operation[1].json);
+  if (!author || json.groupId !== groupId || (json.action !== 'create' && json.action !== 'update')) return null;
+
+  return {
+    json,
+    author,
+    trxId,
+    block: transaction.block_num,
+    trxInBlock: transaction.transaction_num,
+    opInTrx: opIdx,
+  };
+}
+
 // In-memory caches for group metadata lookups to prevent repeated expensive RPC calls
 // Sender-level cache: `${groupId}:${knownMember}` → group metadata
 const metadataCache = new Map<string, { group: Group | null; timestamp: number }>();
@@ -811,9 +958,11 @@ const METADATA_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
  * Looks up group metadata by querying the blockchain for a specific groupId
  * Uses multi-tier discovery strategy:
  * 1. In-memory caches (instant)
- * 2. IndexedDB manifest pointer cache (instant)
+ * 2. IndexedDB manifest pointer cache
  * 3. Transfer scan for invite memos (scalable)
  * 4. Legacy custom_json deep backfill (5k ops max)
+ * Every path reduces the group's ops (see groupReducer.ts); results that don't start
+ * at the creator's create op are returned but never cached for the whole group.
  */
 export async function lookupGroupMetadata(groupId: string, knownMember: string): Promise<Group | null> {
   // Cache key used throughout the function
@@ -843,6 +992,26 @@ export async function lookupGroupMetadata(groupId: string, knownMember: string):
     
     logger.info('[GROUP BLOCKCHAIN] Looking up group metadata:', { groupId, knownMember });
     
+    // A group this user already holds pins the creator - a create op by anyone else is not this group
+    const trusted = await getGroupConversation(groupId);
+    
+    // A manifest found through a pointer proves nothing on its own - replay it with the
+    // creator's (and staff's) history through the reducer, like the history scan below
+    const resolveManifest = async (manifest: GroupOp): Promise<Group | null> => {
+      const creator = trusted?.creator || manifest.json.creator || manifest.author;
+      const reduction = await fetchGroupAuditLog({ groupId, creator, members: [], roles: {} }, [manifest]);
+      if (!reduction.group) return null;
+      
+      metadataCache.set(cacheKey, { group: reduction.group, timestamp: Date.now() });
+      if (reduction.partial) {
+        logger.warn('[GROUP BLOCKCHAIN] ⚠️ Unverified group metadata (no creator create op) for:', groupId, 'via pointer');
+      } else {
+        groupPositiveCache.set(groupId, { group: reduction.group, timestamp: Date.now() });
+        groupNegativeCache.delete(groupId);
+      }
+      return reduction.group;
+    };
+    
     // TIER 4: Check IndexedDB for cached manifest pointer
     const { getGroupManifestPointer } = await import('./messageCache');
     const pointer = await getGroupManifestPointer(groupId);
@@ -854,32 +1023,12 @@ export async function lookupGroupMetadata(groupId: string, knownMember: string):
         // Direct lookup via get_transaction - instant!
         const transaction = await optimizedHiveClient.getTransaction(pointer.manifest_trx_id);
         
-        if (transaction && transaction.operations) {
-          const operation = transaction.operations[pointer.manifest_op_idx];
-          
-          if (operation && operation[0] === 'custom_json' && operation[1].id === GROUP_CUSTOM_JSON_ID) {
-            const jsonData: GroupCustomJson = JSON.parse(operation[1].json);
-            
-            if (jsonData.groupId === groupId && jsonData.action !== 'leave') {
-              const groupData: Group = {
-                groupId,
-                name: jsonData.name || 'Unnamed Group',
-                members: jsonData.members || [],
-                creator: jsonData.creator || knownMember,
-                createdAt: normalizeHiveTimestamp(jsonData.timestamp),
-                version: jsonData.version || 1,
-              };
-              
-              // Cache in memory
-              groupPositiveCache.set(groupId, {
-                group: groupData,
-                timestamp: Date.now()
-              });
-              
-              logger.info('[GROUP BLOCKCHAIN] ✅ Resolved manifest via pointer (instant lookup):', groupData.name);
-              return groupData;
-            }
-          }
+        const manifest = getPointedManifestOp(transaction, pointer.manifest_trx_id, pointer.manifest_op_idx, groupId);
+        const groupData = manifest ? await resolveManifest(manifest) : null;
+        
+        if (groupData) {
+          logger.info('[GROUP BLOCKCHAIN] ✅ Resolved manifest via pointer:', groupData.name);
+          return groupData;
         }
       } catch (pointerError) {
         logger.warn('[GROUP BLOCKCHAIN] Failed to resolve manifest pointer, will try transfer scan:', pointerError);
@@ -952,26 +1101,12 @@ export async function lookupGroupMetadata(groupId: string, knownMember: string):
           // Now fetch the manifest using the pointer
           const transaction = await optimizedHiveClient.getTransaction(inviteMemo.manifest_trx_id);
           
-          if (transaction && transaction.operations) {
-            const operation = transaction.operations[inviteMemo.manifest_op_idx];
-            
-            if (operation && operation[0] === 'custom_json' && operation[1].id === GROUP_CUSTOM_JSON_ID) {
-              const jsonData: GroupCustomJson = JSON.parse(operation[1].json);
-              
-              if (jsonData.groupId === targetGroupId && jsonData.action !== 'leave') {
-                const groupData: Group = {
-                  groupId: targetGroupId,
-                  name: jsonData.name || 'Unnamed Group',
-                  members: jsonData.members || [],
-                  creator: jsonData.creator || recipientUsername,
-                  createdAt: normalizeHiveTimestamp(jsonData.timestamp),
-                  version: jsonData.version || 1,
-                };
-                
-                logger.info('[GROUP BLOCKCHAIN] ✅ Resolved manifest from pointer:', groupData.name);
-                return groupData; // IMMEDIATE RETURN
-              }
-            }
+          const manifest = getPointedManifestOp(transaction, inviteMemo.manifest_trx_id, inviteMemo.manifest_op_idx, targetGroupId);
+          const groupData = manifest ? await resolveManifest(manifest) : null;
+          
+          if (groupData) {
+            logger.info('[GROUP BLOCKCHAIN] ✅ Resolved manifest from pointer:', groupData.name);
+            return groupData; // IMMEDIATE RETURN
           }
         } catch (transferError: any) {
           const errorMsg = transferError.message?.toLowerCase() || '';
@@ -1032,11 +1167,7 @@ export async function lookupGroupMetadata(groupId: string, knownMember: string):
     totalScanned += transferHistory.length;
     
     if (initialResult) {
-      // Found and resolved - return immediately!
-      groupPositiveCache.set(groupId, {
-        group: initialResult,
-        timestamp: Date.now()
-      });
+      // Found and resolved (and cached if verified) - return immediately!
       logger.info('[GROUP BLOCKCHAIN] ✅ Resolved manifest via invite memo (initial chunk):', initialResult.name);
       return initialResult;
     }
@@ -1110,11 +1241,7 @@ export async function lookupGroupMetadata(groupId: string, knownMember: string):
           );
     
           if (chunkResult) {
-            // Found and resolved - return immediately!
-            groupPositiveCache.set(groupId, {
-              group: chunkResult,
-              timestamp: Date.now()
-            });
+            // Found and resolved (and cached if verified) - return immediately!
             logger.info('[GROUP BLOCKCHAIN] ✅ Resolved manifest via invite memo (chunk', chunkIdx, ', total scanned:', totalScanned, '):', chunkResult.name);
             return chunkResult;
           }
@@ -1156,10 +1283,11 @@ export async function lookupGroupMetadata(groupId: string, knownMember: string):
     // TIER 6: LEGACY FALLBACK - Scan custom_json operations (existing 5k deep backfill logic)
     logger.info('[GROUP BLOCKCHAIN] No manifest pointer found, falling back to custom_json scan (legacy)');
     
-    // DEEP BACKFILL: Scan the known member's account history for custom_json operations about this group
-    // Start with initial chunk of 1000 operations
+    // DEEP BACKFILL: Scan the creator's account history (the known member's if we don't know the group yet)
+    // for custom_json operations about this group - a verified state has to start at the create op
+    const historyAccount = trusted?.creator || knownMember;
     let history = await optimizedHiveClient.getAccountHistory(
-      knownMember,
+      historyAccount,
       BACKFILL_CHUNK_SIZE,      // 1000 operations per chunk
       'custom_json',  // filter only custom_json operations (10-100x faster than unfiltered)
       -1         // start = -1 (latest)
@@ -1178,13 +1306,13 @@ export async function lookupGroupMetadata(groupId: string, knownMember: string):
     const chunksToFetch = Math.ceil((totalOpsTarget - allOps.length) / BACKFILL_CHUNK_SIZE);
 
     if (oldestSeqNum > 0 && chunksToFetch > 0 && allOps.length < totalOpsTarget) {
-      logger.info('[GROUP BLOCKCHAIN] Metadata lookup - starting deep backfill for:', knownMember, 'target:', totalOpsTarget, 'ops');
+      logger.info('[GROUP BLOCKCHAIN] Metadata lookup - starting deep backfill for:', historyAccount, 'target:', totalOpsTarget, 'ops');
 
       for (let chunkIdx = 0; chunkIdx < chunksToFetch; chunkIdx++) {
         const nextStart = oldestSeqNum - 1;
 
         if (nextStart < 0) {
-          logger.info('[GROUP BLOCKCHAIN] Metadata lookup - reached beginning of history for:', knownMember);
+          logger.info('[GROUP BLOCKCHAIN] Metadata lookup - reached beginning of history for:', historyAccount);
           break;
         }
         
@@ -1197,20 +1325,20 @@ export async function lookupGroupMetadata(groupId: string, knownMember: string):
         }
 
         const olderHistory = await optimizedHiveClient.getAccountHistory(
-          knownMember,
+          historyAccount,
           BACKFILL_CHUNK_SIZE,
           'custom_json',
           nextStart
         );
 
         if (olderHistory.length === 0) {
-          logger.info('[GROUP BLOCKCHAIN] Metadata lookup - no more operations for:', knownMember);
+          logger.info('[GROUP BLOCKCHAIN] Metadata lookup - no more operations for:', historyAccount);
           break;
         }
 
         const chunkOldest = Math.min(...olderHistory.map(([idx]) => idx));
         if (!Number.isFinite(chunkOldest)) {
-          logger.error('[GROUP BLOCKCHAIN] Metadata lookup - invalid sequence number for:', knownMember);
+          logger.error('[GROUP BLOCKCHAIN] Metadata lookup - invalid sequence number for:', historyAccount);
           break;
         }
 
@@ -1219,7 +1347,7 @@ export async function lookupGroupMetadata(groupId: string, knownMember: string):
 
         logger.info('[GROUP BLOCKCHAIN] Metadata lookup - chunk', chunkIdx + 1, ':', olderHistory.length, 'ops, total:', allOps.length);
 
-        // Early exit: Check if we found the group in this chunk
+        // Early exit: Check if we reached the group's create op in this chunk
         let foundInChunk = false;
         for (const [, operation] of olderHistory) {
           try {
@@ -1227,9 +1355,9 @@ export async function lookupGroupMetadata(groupId: string, knownMember: string):
             const op = operation.op;
             if (op[0] !== 'custom_json' || op[1].id !== GROUP_CUSTOM_JSON_ID) continue;
             const jsonData: GroupCustomJson = JSON.parse(op[1].json);
-            if (jsonData.groupId === groupId && jsonData.action !== 'leave') {
+            if (jsonData.groupId === groupId && jsonData.action === 'create') {
               foundInChunk = true;
-              logger.info('[GROUP BLOCKCHAIN] Metadata lookup - found group in chunk', chunkIdx + 1, '- stopping backfill');
+              logger.info('[GROUP BLOCKCHAIN] Metadata lookup - found group creation in chunk', chunkIdx + 1, '- stopping backfill');
               break;
             }
           } catch (e) {
@@ -1242,16 +1370,15 @@ export async function lookupGroupMetadata(groupId: string, knownMember: string):
         }
 
         if (allOps.length >= totalOpsTarget) {
-          logger.info('[GROUP BLOCKCHAIN] Metadata lookup - reached target of', totalOpsTarget, 'ops for:', knownMember);
+          logger.info('[GROUP BLOCKCHAIN] Metadata lookup - reached target of', totalOpsTarget, 'ops for:', historyAccount);
           break;
         }
       }
     }
 
-    logger.info('[GROUP BLOCKCHAIN] Metadata lookup - completed scan of', allOps.length, 'operations for:', knownMember);
+    logger.info('[GROUP BLOCKCHAIN] Metadata lookup - completed scan of', allOps.length, 'operations for:', historyAccount);
 
-    let latestGroupData: Group | null = null;
-    let latestVersion = 0;
+    const groupOps: GroupOp[] = [];
 
     for (const [, operation] of allOps) {
       try {
@@ -1272,29 +1399,21 @@ export async function lookupGroupMetadata(groupId: string, knownMember: string):
           continue;
         }
 
-        // Skip leave actions
-        if (jsonData.action === 'leave') {
+        // Skip leave actions and messages (not manifests)
+        if (jsonData.action === 'leave' || jsonData.action === 'message') {
           continue;
         }
 
-        // Use the latest version
-        const version = jsonData.version || 1;
-        if (version > latestVersion) {
-          latestVersion = version;
-          latestGroupData = {
-            groupId,
-            name: jsonData.name || 'Unnamed Group',
-            members: jsonData.members || [],
-            creator: jsonData.creator || knownMember,
-            createdAt: normalizeHiveTimestamp(jsonData.timestamp),
-            version,
-          };
-        }
+        groupOps.push(toGroupOp(jsonData, operation, historyAccount));
       } catch (parseError) {
         continue;
       }
     }
 
+    // Reduce instead of taking the latest version, so stale, conflicting and unauthorized updates are ignored
+    const reduction = reduceGroupOps(groupOps, { creator: trusted?.creator });
+    const latestGroupData = reduction.group;
+
     // Cache the result at sender level
     metadataCache.set(cacheKey, {
       group: latestGroupData,
@@ -1302,7 +1421,10 @@ export async function lookupGroupMetadata(groupId: string, knownMember: string):
     });
 
     // Cache at group level (positive or negative)
-    if (latestGroupData) {
+    if (latestGroupData && reduction.partial) {
+      // Not built from the creator's create op - usable for display, but never shared as the group's state
+      logger.warn('[GROUP BLOCKCHAIN] ⚠️ Unverified group metadata (no creator create op) for:', groupId, 'from:', historyAccount);
+    } else if (latestGroupData) {
       logger.info('[GROUP BLOCKCHAIN] ✅ Found group metadata:', latestGroupData.name);
       
       // Positive cache: Store for this groupId (shared across all senders)
@@ -1333,6 +1455,87 @@ export async function lookupGroupMetadata(groupId: string, knownMember: string):
   }
 }
 
+/**
+ * Rebuilds a group's audit log and moderation state from chain
+ *
+ * Manifests and moderation ops can only be authored by the owner, admins and
+ * moderators, so it is enough to scan the creator, the current staff, plus anyone
+ * who held one of those roles at some point (found while reducing). Scans up to
+ * MAX_DEEP_BACKFILL_OPS custom_json ops per account.
+ *
+ * @param knownOps - Ops already found elsewhere (e.g. through a manifest pointer) to replay with the scanned ones
+ */
+export async function fetchGroupAuditLog(
+  group: Pick<Group, 'groupId' | 'creator' | 'members' | 'roles'>,
+  knownOps: GroupOp[] = []
+): Promise<GroupReduction> {
+  const ops: GroupOp[] = [...knownOps];
+  const scanned = new Set<string>();
+  const isStaff = (role: GroupRole | undefined) => role === 'owner' || role === 'admin' || role === 'moderator';
+  let toScan = [
+    group.creator,
+    ...Object.entries(group.roles || {})
+      .filter(([, role]) => isStaff(role))
+      .map(([username]) => username),
+  ];
+  let reduction = reduceGroupOps(ops, { creator: group.creator });
+
+  // A few rounds at most: each round only adds accounts that held authority in the ops found so far
+  for (let round = 0; round < 3 && toScan.length > 0; round++) {
+    for (const account of toScan) {
+      scanned.add(account);
+
+      try {
+        let start = -1;
+        for (let fetched = 0; fetched < MAX_DEEP_BACKFILL_OPS; fetched += BACKFILL_CHUNK_SIZE) {
+          const history = await optimizedHiveClient.getAccountHistory(account, BACKFILL_CHUNK_SIZE, 'custom_json', start);
+          if (history.length === 0) break;
+
+          for (const [, entry] of history) {
+            if (!entry?.op || entry.op[0] !== 'custom_json' || entry.op[1].id !== GROUP_CUSTOM_JSON_ID) continue;
+
+            try {
+              const jsonData: GroupCustomJson = JSON.parse(entry.op[1].json);
+              if (jsonData.groupId === group.groupId) {
+                ops.push(toGroupOp(jsonData, entry, account));
+              }
+            } catch (parseError) {
+              continue;
+            }
+          }
+
+          const oldest = Math.min(...history.map(([idx]: [number, unknown]) => idx));
+          // Hive API constraint: for filtered queries, start must be >= limit - 1
+          if (!Number.isFinite(oldest) || oldest - 1 < BACKFILL_CHUNK_SIZE - 1) break;
+          start = oldest - 1;
+        }
+      } catch (error) {
+        logger.warn('[GROUP BLOCKCHAIN] Audit log scan failed for', account, ':', error);
+      }
+    }
+
+    reduction = reduceGroupOps(ops, { creator: group.creator });
+
+    const authorities = new Set<string>();
+    for (const entry of reduction.audit) {
+      if (entry.action === 'created') {
+        authorities.add(entry.actor);
+      }
+      if (entry.action === 'ownership_transferred' ||
+          (entry.action === 'role_changed' && (isStaff(entry.role) || isStaff(entry.previousRole)))) {
+        entry.targets.forEach(username => authorities.add(username));
+      }
+    }
+    Object.entries(reduction.group?.roles || {})
+      .filter(([, role]) => isStaff(role))
+      .forEach(([username]) => authorities.add(username));
+    toScan = Array.from(authorities).filter(username => !scanned.has(username));
+  }
+
+  logger.info('[GROUP BLOCKCHAIN] Audit log for', group.groupId, ':', reduction.audit.length, 'entries from', scanned.size, 'accounts');
+  return reduction;
+}
+
 /**
  * Sets the negative cache for a groupId to prevent repeated failed lookups
  * Call this when all known senders have been tried and none had metadata
@@ -1356,6 +1559,7 @@ export function setGroupNegativeCache(groupId: string): void {
  * @param manifestPointer - Transaction details of the group manifest custom_json
  * @param currentUsername - Username sending the invites
  * @param action - 'create' or 'update' to indicate the type of invite
+ * @param groupKey - Optional shared group key to hand out with the invite
  * @returns Promise<{ successful: string[], failed: string[] }>
  */
 export async function sendGroupInviteMemos(
@@ -1367,7 +1571,8 @@ export async function sendGroupInviteMemos(
     op_idx: number;
   },
   currentUsername: string,
-  action: 'create' | 'update' = 'create'
+  action: 'create' | 'update' = 'create',
+  groupKey?: { key: string; version: number }
 ): Promise<{ successful: string[], failed: string[] }> {
   logger.info('[GROUP INVITE] Sending invite memos to', members.length, 'members (batched)');
   
@@ -1406,6 +1611,8 @@ export async function sendGroupInviteMemos(
         manifest_block: manifestPointer.block,
         manifest_op_idx: manifestPointer.op_idx,
         action,
+        key: groupKey?.key,
+        key_version: groupKey?.version,
       };
       
       const memoJson = JSON.stringify(inviteMemo);
@@ -1484,10 +1691,215 @@ export async function sendGroupInviteMemos(
   });
 }
 
+/**
+ * Sends invite memos carrying a freshly generated group key for this version
+ * The key is stored locally with the members that actually received it, so the
+ * sender only uses it while that matches the member list
+ */
+async function sendInvitesWithNewGroupKey(
+  groupId: string,
+  version: number,
+  members: string[],
+  manifestPointer: { trx_id: string; block: number; op_idx: number },
+  currentUsername: string,
+  action: 'create' | 'update'
+): Promise<{ successful: string[], failed: string[] }> {
+  const key = await generateGroupKey();
+  const inviteResults = await sendGroupInviteMemos(
+    groupId,
+    members,
+    manifestPointer,
+    currentUsername,
+    action,
+    { key, version }
+  );
+
+  await saveGroupKey({
+    id: getGroupKeyId(groupId, version),
+    groupId,
+    version,
+    key,
+    members: inviteResults.successful,
+    distributor: currentUsername,
+    createdAt: new Date().toISOString(),
+  }, currentUsername);
+
+  if (inviteResults.failed.length > 0) {
+    logger.warn('[GROUP KEYS] Key for', groupId, 'v' + version, 'missing for:', inviteResults.failed,
+      '- group messages will use per-member transfers');
+  }
+
+  return inviteResults;
+}
+
+/**
+ * Stores the group key carried by a received invite memo
+ *
+ * The key is only accepted from whoever broadcast the manifest it points to, and
+ * only for that manifest's version. The manifest must be part of the group's
+ * verified history (replayed from the creator's create op) and its author must
+ * have been allowed to manage members at that point; the member list of that
+ * version is recorded as the key's recipients.
+ *
+ * @returns true if a new key was stored
+ */
+export async function storeGroupKeyFromInvite(
+  invite: GroupInviteMemo,
+  from: string,
+  username: string
+): Promise<boolean> {
+  if (!invite.key || !invite.key_version) return false;
+
+  const id = getGroupKeyId(invite.groupId, invite.key_version);
+  if (await getGroupKey(id, username)) return false;
+
+  const transaction = await optimizedHiveClient.getTransaction(invite.manifest_trx_id);
+  const manifest = getPointedManifestOp(transaction, invite.manifest_trx_id, invite.manifest_op_idx, invite.groupId);
+  if (!manifest) {
+    logger.warn('[GROUP KEYS] Invite key points to a missing manifest:', invite.manifest_trx_id);
+    return false;
+  }
+
+  if (manifest.author !== from || (manifest.json.version || 1) !== invite.key_version) {
+    logger.warn('[GROUP KEYS] Ignoring invite key that does not match its manifest, from:', from);
+    return false;
+  }
+
+  const trusted = await getGroupConversation(invite.groupId, username);
+  const reduction = await fetchGroupAuditLog({
+    groupId: invite.groupId,
+    creator: trusted?.creator || manifest.json.creator || from,
+    members: [],
+    roles: {},
+  }, [manifest]);
+  const index = reduction.applied.findIndex(step =>
+    step.op.trxId === manifest.trxId && (step.op.opInTrx ?? 0) === manifest.opInTrx
+  );
+  // The create op is authorized by being the creator's; an update needs manage_members in the state before it
+  const authorized = !reduction.partial && index >= 0 &&
+    (index === 0 || hasGroupPermission(reduction.applied[index - 1].group, from, 'manage_members'));
+
+  if (!authorized) {
+    logger.warn('[GROUP KEYS] Ignoring invite key from a manifest the group history does not accept, from:', from);
+    return false;
+  }
+
+  await saveGroupKey({
+    id,
+    groupId: invite.groupId,
+    version: invite.key_version,
+    key: invite.key,
+    members: reduction.applied[index].group.members,
+    distributor: from,
+    createdAt: new Date().toISOString(),
+  }, username);
+
+  logger.info('[GROUP KEYS] ✅ Received key for group:', invite.groupId, 'v' + invite.key_version, 'from:', from);
+  return true;
+}
+
+/**
+ * Fetches shared-key group messages from the members' custom_json history
+ *
+ * Only messages encrypted with a key we hold, from a member that key was given
+ * to, are returned. Members' accounts are scanned in parallel.
+ *
+ * @param seenTxIds - Transaction IDs to skip (already cached)
+ */
+export async function discoverGroupKeyMessages(
+  groupId: string,
+  members: string[],
+  username: string,
+  seenTxIds: Set<string>,
+  limit: number = 200
+): Promise<GroupMessageCache[]> {
+  // Nothing to decrypt with - skip the per-member history fetches
+  if (!(await hasGroupKeys(groupId, username))) return [];
+
+  const histories = await Promise.all(members.map(member =>
+    optimizedHiveClient.getAccountHistory(member, limit, 'custom_json', -1).catch(error => {
+      logger.warn('[GROUP KEYS] Failed to fetch custom_json history for:', member, error);
+      return [] as any[];
+    })
+  ));
+
+  const messages: GroupMessageCache[] = [];
+
+  for (const [, operation] of histories.flat()) {
+    try {
+      if (!operation || !operation.op) continue;
+      const [opType, opData] = operation.op;
+      if (opType !== 'custom_json' || opData.id !== GROUP_CUSTOM_JSON_ID) continue;
+
+      const txId = operation.trx_id;
+      if (seenTxIds.has(txId)) continue;
+
+      const jsonData: GroupCustomJson = JSON.parse(opData.json);
+      if (jsonData.action !== 'message' || jsonData.groupId !== groupId) continue;
+      if (!jsonData.key_version || !jsonData.iv || !jsonData.ct) continue;
+
+      const sender = opData.required_posting_auths?.[0];
+      const groupKey = await getGroupKey(getGroupKeyId(groupId, jsonData.key_version), username);
+      if (!groupKey) {
+        logger.debug('[GROUP KEYS] No key v' + jsonData.key_version, 'for message:', txId.substring(0, 8));
+        continue;
+      }
+      if (!sender || !groupKey.members.includes(sender)) {
+        logger.warn('[GROUP KEYS] Ignoring message from non-member:', sender);
+        continue;
+      }
+
+      const decrypted = await decryptWithGroupKey(groupKey.key, { iv: jsonData.iv, ct: jsonData.ct });
+      if (!decrypted) continue;
+
+      const parsed = parseGroupMessageMemo(decrypted);
+      if (!parsed?.isGroupMessage || parsed.groupId !== groupId) continue;
+
+      seenTxIds.add(txId);
+      messages.push({
+        id: txId,
+        groupId,
+        sender,
+        creator: parsed.creator,
+        content: parsed.content || '',
+        encryptedContent: jsonData.ct,
+        timestamp: operation.timestamp + 'Z', // Normalize to UTC
+        recipients: groupKey.members.filter(m => m !== sender),
+        txIds: [txId],
+        confirmed: true,
+        status: 'confirmed',
+        clientMessageId: parsed.clientMessageId,
+        replyTo: parsed.replyTo,
+      });
+    } catch (error) {
+      logger.debug('[GROUP KEYS] Skipping malformed group message op:', error);
+    }
+  }
+
+  logger.info('[GROUP KEYS] Found', messages.length, 'shared-key messages for group:', groupId);
+  return messages;
+}
+
+/**
+ * Parses a decrypted memo as a group invite
+ * Returns null for anything that is not a valid invite memo
+ */
+export function parseGroupInviteMemo(memo: string): GroupInviteMemo | null {
+  try {
+    const jsonStr = memo.startsWith('#') ? memo.substring(1) : memo;
+    if (!jsonStr.startsWith('{')) return null;
+
+    const parseResult = GroupInviteMemoSchema.safeParse(JSON.parse(jsonStr));
+    return parseResult.success ? parseResult.data : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Discovers all groups where the user is a member by scanning account history
  * Now also discovers groups from incoming group messages
- * Returns the most recent version of each group
+ * Returns each group as reduced from the manifests found (see groupReducer.ts)
  */
 export async function discoverUserGroups(username: string): Promise<Group[]> {
   logger.info('[GROUP BLOCKCHAIN] Discovering groups for user:', username);
@@ -1495,6 +1907,21 @@ export async function discoverUserGroups(username: string): Promise<Group[]> {
   try {
     const groupMap = new Map<string, Group>();
     const leftGroups = new Set<string>(); // Track groups user has left
+    const manifestOps = new Map<string, GroupOp[]>(); // Manifests found per group, reduced into groupMap
+
+    const addManifestOp = (groupOp: GroupOp) => {
+      const ops = manifestOps.get(groupOp.json.groupId) || [];
+      ops.push(groupOp);
+      manifestOps.set(groupOp.json.groupId, ops);
+    };
+
+    const reduceGroup = (groupId: string) => {
+      if (leftGroups.has(groupId)) return;
+      const { group } = reduceGroupOps(manifestOps.get(groupId) || []);
+      if (group) {
+        groupMap.set(groupId, group);
+      }
+    };
 
     // STEP 1: Scan user's own custom_json operations for groups they created/updated
     logger.info('[GROUP BLOCKCHAIN] STEP 1: Scanning user\'s custom_json for group metadata');
@@ -1608,30 +2035,15 @@ export async function discoverUserGroups(username: string): Promise<Group[]> {
           continue;
         }
 
-        // Check if we already have this group with a newer version
-        const existing = groupMap.get(groupId);
-        if (existing && existing.version >= (jsonData.version || 1)) {
-          continue; // Skip older versions
-        }
-
-        // Create or update group entry
-        const group: Group = {
-          groupId,
-          name: jsonData.name || 'Unnamed Group',
-          members: jsonData.members || [],
-          creator: jsonData.creator || username,
-          createdAt: normalizeHiveTimestamp(jsonData.timestamp),
-          version: jsonData.version || 1,
-          paymentSettings: jsonData.paymentSettings,  // Preserve payment settings for paid groups
-        };
-
-        groupMap.set(groupId, group);
+        addManifestOp(toGroupOp(jsonData, operation, username));
       } catch (parseError) {
         logger.warn('[GROUP BLOCKCHAIN] Failed to parse group operation:', parseError);
         continue;
       }
     }
 
+    Array.from(manifestOps.keys()).forEach(reduceGroup);
+
     logger.info('[GROUP BLOCKCHAIN] Found', groupMap.size, 'groups from custom_json operations');
 
     // STEP 2: Tiered transfer scanning to find potential group senders
@@ -1741,7 +2153,7 @@ export async function discoverUserGroups(username: string): Promise<Group[]> {
     // Use batched parallel scanning to avoid overwhelming RPC nodes
     const BATCH_SIZE = 10; // Process 10 senders at a time to avoid RPC overload
     const senders = Array.from(potentialGroupSenders);
-    const allFoundGroups: Group[] = [];
+    const allFoundOps: GroupOp[] = [];
     
     // Process senders in batches
     for (let i = 0; i < senders.length; i += BATCH_SIZE) {
@@ -1815,7 +2227,7 @@ export async function discoverUserGroups(username: string): Promise<Group[]> {
 
           logger.info('[GROUP BLOCKCHAIN] Sender', sender, '- completed scan of', allSenderOps.length, 'operations');
 
-          const foundGroups: Group[] = [];
+          const foundOps: GroupOp[] = [];
 
           // Process all fetched operations
           for (const [, operation] of allSenderOps) {
@@ -1843,24 +2255,8 @@ export async function discoverUserGroups(username: string): Promise<Group[]> {
                 continue;
               }
 
-              // Check if we already have this group with a newer version
-              const existing = groupMap.get(groupId);
-              if (existing && existing.version >= (jsonData.version || 1)) {
-                continue;
-              }
-
-              // Create or update group entry
-              const group: Group = {
-                groupId,
-                name: jsonData.name || 'Unnamed Group',
-                members: jsonData.members || [],
-                creator: jsonData.creator || sender,
-                createdAt: normalizeHiveTimestamp(jsonData.timestamp),
-                version: jsonData.version || 1,
-              };
-
-              foundGroups.push(group);
-              logger.info('[GROUP BLOCKCHAIN] Discovered group from', sender, ':', group.name, 'v' + group.version, 'with', group.members.length, 'members');
+              foundOps.push(toGroupOp(jsonData, operation, sender));
+              logger.info('[GROUP BLOCKCHAIN] Discovered group from', sender, ':', jsonData.name, 'v' + (jsonData.version || 1), 'with', jsonData.members.length, 'members');
 
             } catch (parseError) {
               logger.warn('[GROUP BLOCKCHAIN] Failed to parse group operation from', sender, ':', parseError);
@@ -1868,8 +2264,8 @@ export async function discoverUserGroups(username: string): Promise<Group[]> {
             }
           }
 
-          logger.info('[GROUP BLOCKCHAIN] Sender', sender, '- found', foundGroups.length, 'groups');
-          return foundGroups;
+          logger.info('[GROUP BLOCKCHAIN] Sender', sender, '- found', foundOps.length, 'group manifests');
+          return foundOps;
         } catch (error) {
           logger.warn('[GROUP BLOCKCHAIN] Failed to scan', sender, 'history:', error);
           return [];
@@ -1880,28 +2276,23 @@ export async function discoverUserGroups(username: string): Promise<Group[]> {
       const batchResults = await Promise.all(batchScans);
       
       // Merge batch results
-      for (const foundGroups of batchResults) {
-        allFoundGroups.push(...foundGroups);
+      for (const foundOps of batchResults) {
+        allFoundOps.push(...foundOps);
       }
     }
 
-    // Now merge all discovered groups into groupMap (respecting leftGroups and versions)
-    for (const group of allFoundGroups) {
-      // Skip groups the user has left
-      if (leftGroups.has(group.groupId)) {
-        logger.info('[GROUP BLOCKCHAIN] Skipping left group:', group.name);
-        continue;
-      }
-      
-      // Check if we already have a newer version
-      const existing = groupMap.get(group.groupId);
-      if (existing && existing.version >= group.version) {
-        logger.info('[GROUP BLOCKCHAIN] Skipping older version of', group.name, '(have v', existing.version, ', found v', group.version, ')');
+    // Now reduce every group that got new manifests (groups the user has left stay out)
+    const sendersGroupIds = new Set<string>();
+    for (const groupOp of allFoundOps) {
+      if (leftGroups.has(groupOp.json.groupId)) {
+        logger.info('[GROUP BLOCKCHAIN] Skipping left group:', groupOp.json.name);
         continue;
       }
-      
-      groupMap.set(group.groupId, group);
+
+      addManifestOp(groupOp);
+      sendersGroupIds.add(groupOp.json.groupId);
     }
+    Array.from(sendersGroupIds).forEach(reduceGroup);
 
     logger.info('[GROUP BLOCKCHAIN] Scanned', potentialGroupSenders.size, 'senders, found', groupMap.size - initialGroupCount, 'new groups');
 
@@ -1990,7 +2381,7 @@ export async function discoverUserGroups(username: string): Promise<Group[]> {
           logger.info('[GROUP BLOCKCHAIN] Chain member', member, '- scanned', allMemberOps.length, 'ops');
           totalScanned++;
           
-          const foundGroups: Group[] = [];
+          const foundOps: GroupOp[] = [];
           const newMembersFound = new Set<string>();
           
           // Process all operations
@@ -2025,36 +2416,26 @@ export async function discoverUserGroups(username: string): Promise<Group[]> {
               const existingVersion = existing?.version || 0;
               
               if (newVersion > existingVersion) {
-                // Create group entry
-                const group: Group = {
-                  groupId,
-                  name: jsonData.name || 'Unnamed Group',
-                  members: jsonData.members || [],
-                  creator: jsonData.creator || member,
-                  createdAt: normalizeHiveTimestamp(jsonData.timestamp),
-                  version: newVersion,
-                };
-                
-                foundGroups.push(group);
+                foundOps.push(toGroupOp(jsonData, operation, member));
                 
                 // Track new members to add to queue
-                for (const m of group.members) {
+                for (const m of jsonData.members) {
                   if (!visitedMembers.has(m) && m !== username) {
                     newMembersFound.add(m);
                   }
                 }
                 
-                logger.info('[GROUP BLOCKCHAIN] Chain found:', group.name, 'v' + group.version, 'with', group.members.length, 'members from', member);
+                logger.info('[GROUP BLOCKCHAIN] Chain found:', jsonData.name, 'v' + newVersion, 'with', jsonData.members.length, 'members from', member);
               }
             } catch (parseError) {
               continue;
             }
           }
           
-          return { foundGroups, newMembersFound: Array.from(newMembersFound) };
+          return { foundOps, newMembersFound: Array.from(newMembersFound) };
         } catch (error) {
           logger.warn('[GROUP BLOCKCHAIN] Chain scan failed for', member, ':', error);
-          return { foundGroups: [], newMembersFound: [] };
+          return { foundOps: [] as GroupOp[], newMembersFound: [] as string[] };
         }
       });
       
@@ -2062,19 +2443,22 @@ export async function discoverUserGroups(username: string): Promise<Group[]> {
       const batchResults = await Promise.all(batchScans);
       
       // Merge results and enqueue newly discovered members
-      for (const { foundGroups, newMembersFound } of batchResults) {
-        // Update groupMap with newer versions
-        for (const group of foundGroups) {
+      for (const { foundOps, newMembersFound } of batchResults) {
+        // Reduce groups with newer manifests (unauthorized updates are dropped by the reducer)
+        const chainGroupIds = new Set<string>();
+        for (const groupOp of foundOps) {
           // Skip groups the user has left
-          if (leftGroups.has(group.groupId)) {
+          if (leftGroups.has(groupOp.json.groupId)) {
             continue;
           }
-          
-          const existing = groupMap.get(group.groupId);
-          if (!existing || existing.version < group.version) {
-            groupMap.set(group.groupId, group);
-            logger.info('[GROUP BLOCKCHAIN] Chain: Updated', group.name, 'to v' + group.version);
-          }
+
+          addManifestOp(groupOp);
+          chainGroupIds.add(groupOp.json.groupId);
+        }
+
+        for (const groupId of Array.from(chainGroupIds)) {
+          reduceGroup(groupId);
+          logger.info('[GROUP BLOCKCHAIN] Chain: Updated', groupMap.get(groupId)?.name, 'to v' + groupMap.get(groupId)?.version);
         }
         
         // Add new members to queue (BFS expansion)
@@ -2105,9 +2489,11 @@ export async function discoverUserGroups(username: string): Promise<Group[]> {
 }
 
 /**
- * Checks if a message memo contains a group prefix
- * New format: "group:{groupId}:{creator}:{encryptedContent}"
- * Legacy format: "group:{groupId}:{encryptedContent}" (backwards compatible)
+ * Checks if a message memo is a group message
+ * Envelope format: "hm:{json}" (see messageEnvelope.ts)
+ * Legacy format: "group:{groupId}:{creator}:{encryptedContent}"
+ * Oldest format: "group:{groupId}:{encryptedContent}" (backwards compatible)
+ * Non-group envelopes return isGroupMessage: false with their content unwrapped
  * Returns null if malformed (instead of throwing) to prevent crashes
  */
 export function parseGroupMessageMemo(memo: string): { 
@@ -2115,6 +2501,8 @@ export function parseGroupMessageMemo(memo: string): {
   groupId?: string; 
   creator?: string;
   content?: string;
+  replyTo?: string;
+  clientMessageId?: string;
 } | null {
   try {
     // CRITICAL FIX: Strip leading # if present (Keychain bug workaround)
@@ -2124,6 +2512,23 @@ export function parseGroupMessageMemo(memo: string): {
       cleanMemo = cleanMemo.substring(1);
       logger.warn('[GROUP BLOCKCHAIN] Stripped # prefix from decrypted memo (Keychain bug)');
     }
+
+    if (isEnvelope(cleanMemo)) {
+      const envelope = decodeEnvelope(cleanMemo);
+      if (!envelope) {
+        logger.warn('[GROUP BLOCKCHAIN] Malformed message envelope:', memo.substring(0, 50));
+        return null;
+      }
+
+      return {
+        isGroupMessage: envelope.type === 'group',
+        groupId: envelope.groupId,
+        creator: envelope.creator,
+        content: envelope.content,
+        replyTo: envelope.replyTo,
+        clientMessageId: envelope.clientMessageId,
+      };
+    }
     
     const groupPrefix = 'group:';
     
@@ -2143,17 +2548,19 @@ export function parseGroupMessageMemo(memo: string): {
     let creator: string | undefined;
     let content: string;
     
-    // Check if this is new format (4+ parts) with creator or legacy format (3 parts)
-    if (parts.length >= 4) {
-      // New format: group:{groupId}:{creator}:{content}
+    // Check if this is the format with creator (4+ parts) or the oldest format (3 parts)
+    // A 3-part memo whose content contains ":" also has 4+ parts, so the creator
+    // slot must look like a Hive username
+    if (parts.length >= 4 && /^[a-z][a-z0-9.-]{2,15}$/.test(parts[2])) {
+      // Legacy format: group:{groupId}:{creator}:{content}
       creator = parts[2];
       content = parts.slice(3).join(':'); // Rejoin in case content contains ":"
-      logger.info('[GROUP BLOCKCHAIN] Parsed new format group message with creator:', creator);
+      logger.info('[GROUP BLOCKCHAIN] Parsed legacy format group message with creator:', creator);
     } else {
-      // Legacy format: group:{groupId}:{content}
+      // Oldest format: group:{groupId}:{content}
       creator = undefined;
       content = parts.slice(2).join(':');
-      logger.info('[GROUP BLOCKCHAIN] Parsed legacy format group message (no creator)');
+      logger.info('[GROUP BLOCKCHAIN] Parsed oldest format group message (no creator)');
     }
 
     // Basic validation
@@ -2176,9 +2583,22 @@ export function parseGroupMessageMemo(memo: string): {
 
 /**
  * Formats a message for group sending
- * New format includes the group creator to enable metadata discovery
- * Returns the prefixed memo that will be encrypted
+ * Wraps the message in a versioned envelope carrying the group creator
+ * (enables metadata discovery) and optional reply / client message ids
+ * Returns the memo that will be encrypted
  */
-export function formatGroupMessageMemo(groupId: string, creator: string, message: string): string {
-  return `group:${groupId}:${creator}:${message}`;
+export function formatGroupMessageMemo(
+  groupId: string,
+  creator: string,
+  message: string,
+  options: { replyTo?: string; clientMessageId?: string } = {}
+): string {
+  return encodeEnvelope({
+    type: 'group',
+    groupId,
+    creator,
+    content: message,
+    replyTo: options.replyTo,
+    clientMessageId: options.clientMessageId,
+  });
 }
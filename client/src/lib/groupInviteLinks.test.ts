@@ -0,0 +1,60 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { scanGroupInviteRedemptions, type GroupInvite } from './groupInviteLinks';
+
+const invite: GroupInvite = {
+  v: 1,
+  groupId: 'g1',
+  issuer: 'alice',
+  tokenId: 'token-1',
+  expiresAt: '2030-01-01T00:00:00.000Z',
+  maxUses: 1,
+};
+const token = `${Buffer.from(JSON.stringify(invite)).toString('base64url')}.sig`;
+
+function joinRequest(account: string, blockNum: number) {
+  return {
+    blockNum,
+    txId: `tx-${blockNum}`,
+    opIndex: 0,
+    action: 'join_request',
+    account,
+    payload: { action: 'join_request', groupId: 'g1', username: account, requestId: `r-${account}`, invite: token },
+    timestamp: '2025-01-01T00:00:00',
+  };
+}
+
+/**
+ * Stands in for GET /api/index/groups/:groupId/ops
+ */
+function serveIndex(status: number, body: unknown = {}) {
+  mock.method(globalThis, 'fetch', async () => new Response(JSON.stringify(body), { status }));
+}
+
+describe('scanGroupInviteRedemptions', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('counts redemptions when the index reaches back to the group\'s creation', async () => {
+    serveIndex(200, { ops: [joinRequest('bob', 12), joinRequest('carol', 13)], startBlockNum: 10 });
+
+    const redemptions = await scanGroupInviteRedemptions(invite, 10);
+
+    assert.deepEqual(redemptions.map(r => r.username), ['bob', 'carol']);
+  });
+
+  it('refuses to count from an index that started after the group was created', async () => {
+    // Looks like an unused invite, but the ops before block 20 were never indexed
+    serveIndex(200, { ops: [], startBlockNum: 20 });
+
+    await assert.rejects(scanGroupInviteRedemptions(invite, 10), /after group g1 was created/);
+    await assert.rejects(scanGroupInviteRedemptions(invite, undefined));
+  });
+
+  it('refuses to count when the indexer is off or behind', async () => {
+    serveIndex(503, { error: 'Index unavailable' });
+
+    await assert.rejects(scanGroupInviteRedemptions(invite, 10), /503/);
+  });
+});
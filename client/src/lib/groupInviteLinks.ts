@@ -0,0 +1,339 @@
+import { Signature, cryptoUtils } from '@hiveio/dhive';
+import { z } from 'zod';
+import type { Group } from '@shared/schema';
+import { getAccount, normalizeHiveTimestamp, requestSignMessage } from './hive';
+import { fetchGroupAuditLog } from './groupBlockchain';
+import { getGroupConversation } from './messageCache';
+import { hasGroupPermission } from '@shared/groupRoles';
+import { logger } from './logger';
+
+/**
+ * Signed group invite links
+ *
+ * An invite link carries a token `<payload>.<signature>`: the payload is base64url
+ * JSON (group, issuer, expiry, max uses, free pass) and the signature is the
+ * issuer's Keychain posting-key signature over it. Anyone can check a token
+ * offline against the issuer's posting keys; the issuer must be able to manage
+ * members of the group.
+ *
+ * Redeeming an invite means broadcasting a join_request that carries the token.
+ * Uses are counted from the join_request ops the server indexed for the group, in
+ * chain order (one per account, only ops broadcast before the expiry), so the
+ * creator's auto-approval and the preview page arrive at the same count. If the
+ * index is off, behind, or started after the group was created, uses cannot be
+ * counted and invites are 'unavailable' rather than unused.
+ *
+ * @module groupInviteLinks
+ */
+
+const INVITE_SIGN_PREFIX = 'Hive Messenger group invite:';
+
+// Page size for the server's indexed group ops (the route's maximum)
+const INDEXED_OPS_PAGE_SIZE = 1000;
+
+export const GroupInviteSchema = z.object({
+  v: z.literal(1),
+  groupId: z.string(),
+  issuer: z.string(),
+  tokenId: z.string(),
+  expiresAt: z.string(),                           // ISO timestamp
+  maxUses: z.number().int().positive(),
+  freePass: z.boolean().optional(),                // Join paid groups without paying
+});
+
+export type GroupInvite = z.infer<typeof GroupInviteSchema>;
+
+export interface SignedGroupInvite {
+  invite: GroupInvite;
+  payload: string;                 // base64url JSON, the signed part
+  signature: string;               // Hex-encoded compact signature from Keychain
+  token: string;                   // `${payload}.${signature}`
+}
+
+export type GroupInviteStatus =
+  | 'valid'
+  | 'malformed'
+  | 'wrong_group'
+  | 'bad_signature'
+  | 'unverified'
+  | 'unauthorized'
+  | 'expired'
+  | 'used_up'
+  | 'unavailable';
+
+export const GROUP_INVITE_STATUS_LABELS: Record<GroupInviteStatus, string> = {
+  valid: 'Valid invite',
+  malformed: 'This invite link is damaged',
+  wrong_group: 'This invite is for a different group',
+  bad_signature: 'This invite was not signed by its issuer',
+  unverified: "This group's history could not be verified",
+  unauthorized: 'The issuer can no longer invite to this group',
+  expired: 'This invite has expired',
+  used_up: 'This invite has been used up',
+  unavailable: 'Uses of this invite could not be counted, try again later',
+};
+
+/**
+ * A join_request that redeemed an invite
+ */
+export interface GroupInviteRedemption {
+  username: string;
+  requestId: string;
+  trxId: string;
+  block: number;
+  timestamp: string;               // ISO timestamp (chain time)
+}
+
+export interface GroupInviteValidation {
+  status: GroupInviteStatus;
+  invite?: GroupInvite;
+  group?: Group;                   // Group state reduced from the creator's history
+  redemptions: GroupInviteRedemption[];   // Counted redemptions, chain order
+  remainingUses: number;
+  redeemed: boolean;               // The given user's join_request is one of the counted redemptions
+}
+
+function toBase64Url(text: string): string {
+  return btoa(text).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(base64url: string): string {
+  const base64 = base64url.replace(/-/g, '+').replace(/_/g, '/');
+  return atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+}
+
+function sameUser(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Parse an invite token (no signature check)
+ *
+ * @returns The invite, or null if the token is not a well-formed invite
+ */
+export function parseGroupInvite(token: string): SignedGroupInvite | null {
+  const [payload, signature, ...rest] = token.trim().split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  try {
+    const result = GroupInviteSchema.safeParse(JSON.parse(fromBase64Url(payload)));
+    if (!result.success) return null;
+    return { invite: result.data, payload, signature, token: `${payload}.${signature}` };
+  } catch {
+    return null;
+  }
+}
+
+export function isGroupInviteExpired(invite: GroupInvite, at: Date = new Date()): boolean {
+  return at.getTime() > new Date(invite.expiresAt).getTime();
+}
+
+/**
+ * Shareable link that opens the group preview with the invite
+ */
+export function getGroupInviteLink(signed: SignedGroupInvite): string {
+  return `${window.location.origin}/#/join/${signed.invite.groupId}?invite=${encodeURIComponent(signed.token)}`;
+}
+
+/**
+ * Create and sign an invite (Keychain prompts the issuer to sign)
+ *
+ * @throws Error if Keychain refuses or returns no signature
+ */
+export async function mintGroupInvite(
+  issuer: string,
+  options: { groupId: string; expiresAt: string; maxUses: number; freePass?: boolean }
+): Promise<SignedGroupInvite> {
+  const invite: GroupInvite = {
+    v: 1,
+    groupId: options.groupId,
+    issuer,
+    tokenId: crypto.randomUUID(),
+    expiresAt: options.expiresAt,
+    maxUses: options.maxUses,
+    ...(options.freePass && { freePass: true }),
+  };
+  const payload = toBase64Url(JSON.stringify(invite));
+
+  let response;
+  try {
+    response = await requestSignMessage(issuer, `${INVITE_SIGN_PREFIX}${payload}`);
+  } catch (error: any) {
+    // Keychain rejects with plain objects as well as Errors
+    throw new Error(error?.message || error?.error || 'Signing failed');
+  }
+
+  if (typeof response.result !== 'string') {
+    throw new Error('Keychain returned no signature');
+  }
+
+  logger.info('[GROUP INVITES] Minted invite', invite.tokenId, 'for group', invite.groupId);
+  return { invite, payload, signature: response.result, token: `${payload}.${response.result}` };
+}
+
+/**
+ * Whether the token was signed with one of the issuer's posting keys
+ */
+export async function verifyGroupInviteSignature(signed: SignedGroupInvite): Promise<boolean> {
+  try {
+    const account = await getAccount(signed.invite.issuer);
+    if (!account) return false;
+
+    // Keychain signs the SHA-256 digest of the message
+    const digest = cryptoUtils.sha256(`${INVITE_SIGN_PREFIX}${signed.payload}`);
+    const recoveredKey = Signature.fromString(signed.signature).recover(digest).toString();
+
+    return account.posting.key_auths.some(([key]) => String(key) === recoveredKey);
+  } catch (error) {
+    logger.warn('[GROUP INVITES] Failed to verify invite signature:', error);
+    return false;
+  }
+}
+
+/**
+ * Row of GET /api/index/groups/:groupId/ops
+ */
+interface IndexedGroupOpRow {
+  blockNum: number;
+  txId: string;
+  opIndex: number;                 // Position within the block
+  action: string;
+  account: string;                 // Posting authority that broadcast the op
+  payload: any;
+  timestamp: string;
+}
+
+/**
+ * Every op the server indexed for a group, in chain order
+ *
+ * @param createdAtBlock - Block of the group's create op; the index must reach back to it
+ * @throws Error if the index cannot be reached, is disabled or behind (503), or
+ *   started after the group was created (its ops would be missing)
+ */
+async function fetchIndexedGroupOps(groupId: string, createdAtBlock: number | undefined): Promise<IndexedGroupOpRow[]> {
+  const rows: IndexedGroupOpRow[] = [];
+  let cursor = '';
+
+  for (;;) {
+    const response = await fetch(`/api/index/groups/${encodeURIComponent(groupId)}/ops?limit=${INDEXED_OPS_PAGE_SIZE}${cursor}`);
+    if (!response.ok) {
+      throw new Error(`Group op index returned ${response.status}`);
+    }
+
+    const { ops, startBlockNum } = (await response.json()) as { ops: IndexedGroupOpRow[]; startBlockNum: number | null };
+    if (createdAtBlock === undefined || startBlockNum === null || startBlockNum > createdAtBlock) {
+      throw new Error(`Group op index starts at block ${startBlockNum}, after group ${groupId} was created`);
+    }
+
+    rows.push(...ops);
+    if (ops.length < INDEXED_OPS_PAGE_SIZE) return rows;
+
+    const last = ops[ops.length - 1];
+    cursor = `&after=${last.blockNum}&afterOp=${last.opIndex}`;
+  }
+}
+
+/**
+ * Join requests that redeemed an invite, in chain order
+ *
+ * Reads every join_request addressed to the group from the server's op index, so
+ * no redeemer is missed however large the group. Only counts the first
+ * join_request per account, broadcast by that account and before the invite expired.
+ *
+ * @param createdAtBlock - Block of the group's create op (undefined if unknown)
+ * @throws Error if the index cannot be reached or does not cover the group (uses cannot be counted)
+ */
+export async function scanGroupInviteRedemptions(
+  invite: GroupInvite,
+  createdAtBlock: number | undefined
+): Promise<GroupInviteRedemption[]> {
+  const ops = await fetchIndexedGroupOps(invite.groupId, createdAtBlock);
+  const redemptions: GroupInviteRedemption[] = [];
+
+  for (const op of ops) {
+    const jsonData = op.payload;
+    if (op.action !== 'join_request' || typeof jsonData?.invite !== 'string') continue;
+
+    const redeemed = parseGroupInvite(jsonData.invite);
+    if (redeemed?.invite.tokenId !== invite.tokenId || !sameUser(op.account, jsonData.username || '')) continue;
+
+    const timestamp = normalizeHiveTimestamp(op.timestamp);
+    if (isGroupInviteExpired(invite, new Date(timestamp))) continue;
+    if (redemptions.some(r => sameUser(r.username, op.account))) continue;
+
+    redemptions.push({
+      username: op.account,
+      requestId: jsonData.requestId,
+      trxId: op.txId,
+      block: op.blockNum,
+      timestamp,
+    });
+  }
+
+  return redemptions;
+}
+
+/**
+ * Full check of an invite token for a group
+ *
+ * Signature, issuer authority (manage_members in the group state reduced from the
+ * creator's history - never the issuer's), expiry and remaining uses. With
+ * `username`, an invite that user already redeemed stays valid for them even after
+ * it expired or ran out (their request was in time).
+ *
+ * @param group - Group the invite should be for; a locally held group's creator takes precedence
+ * @param username - Requester whose redemption should be looked up
+ */
+export async function validateGroupInvite(
+  token: string,
+  group: Pick<Group, 'groupId' | 'creator'>,
+  username?: string
+): Promise<GroupInviteValidation> {
+  const result = (status: GroupInviteStatus, invite?: GroupInvite, state?: Group): GroupInviteValidation => ({
+    status,
+    invite,
+    group: state,
+    redemptions: [],
+    remainingUses: 0,
+    redeemed: false,
+  });
+
+  const signed = parseGroupInvite(token);
+  if (!signed) return result('malformed');
+
+  const { invite } = signed;
+  if (invite.groupId !== group.groupId) return result('wrong_group', invite);
+  if (!(await verifyGroupInviteSignature(signed))) return result('bad_signature', invite);
+
+  const creator = (await getGroupConversation(group.groupId))?.creator || group.creator;
+  const reduction = await fetchGroupAuditLog({ groupId: group.groupId, creator, members: [], roles: {} });
+  if (!reduction.group || reduction.partial) return result('unverified', invite);
+
+  const state = reduction.group;
+  if (!hasGroupPermission(state, invite.issuer, 'manage_members')) {
+    return result('unauthorized', invite, state);
+  }
+
+  let redemptions: GroupInviteRedemption[];
+  try {
+    const createdAtBlock = reduction.applied[0].op.block;
+    redemptions = (await scanGroupInviteRedemptions(invite, createdAtBlock)).slice(0, invite.maxUses);
+  } catch (error) {
+    logger.warn('[GROUP INVITES] Failed to count redemptions of', invite.tokenId, ':', error);
+    return result('unavailable', invite, state);
+  }
+
+  const redeemed = !!username && redemptions.some(r => sameUser(r.username, username));
+  const validation: GroupInviteValidation = {
+    status: 'valid',
+    invite,
+    group: state,
+    redemptions,
+    remainingUses: invite.maxUses - redemptions.length,
+    redeemed,
+  };
+
+  if (!redeemed && isGroupInviteExpired(invite)) return { ...validation, status: 'expired' };
+  if (!redeemed && validation.remainingUses === 0) return { ...validation, status: 'used_up' };
+  return validation;
+}
@@ -0,0 +1,117 @@
+import { logger } from './logger';
+
+/**
+ * Shared symmetric keys for group chats
+ *
+ * Whoever creates or updates a group generates a fresh AES-256-GCM key for the new
+ * group version and hands it to every member inside the (memo-key encrypted) group
+ * invite memo. With a current key, a group message is encrypted once and broadcast
+ * as a single `hive_messenger_group` custom_json instead of one transfer per member.
+ *
+ * Keys rotate on every membership change, so removed members never receive the key
+ * for messages sent after they left. Each key remembers who it was given to; a key
+ * is only used for sending while that list matches the current member list -
+ * otherwise the sender falls back to per-member transfers.
+ *
+ * @module groupKeys
+ */
+
+/**
+ * Group key, as stored in IndexedDB (keyed by id)
+ */
+export interface GroupKeyRecord {
+  id: string;                      // `${groupId}:${version}`
+  groupId: string;
+  version: number;                 // Group version the key was issued for
+  key: string;                     // base64 raw AES-256 key
+  members: string[];               // Members the key was distributed to (including the distributor)
+  distributor: string;             // Who generated and sent the key
+  createdAt: string;
+}
+
+/**
+ * Encrypted group message body (the iv / ct fields of the custom_json)
+ */
+export interface GroupKeyCiphertext {
+  iv: string;                      // base64 96-bit nonce
+  ct: string;                      // base64 ciphertext + GCM tag
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(Array.from(bytes).map(byte => String.fromCharCode(byte)).join(''));
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function importGroupKey(key: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', base64ToBytes(key), 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+export function getGroupKeyId(groupId: string, version: number): string {
+  return `${groupId}:${version}`;
+}
+
+/**
+ * Generate a new random group key
+ *
+ * @returns base64 raw AES-256 key
+ */
+export async function generateGroupKey(): Promise<string> {
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  const raw = await crypto.subtle.exportKey('raw', key);
+  return bytesToBase64(new Uint8Array(raw));
+}
+
+/**
+ * Encrypt a group message body with a group key
+ */
+export async function encryptWithGroupKey(key: string, plaintext: string): Promise<GroupKeyCiphertext> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await importGroupKey(key),
+    new TextEncoder().encode(plaintext)
+  );
+
+  return { iv: bytesToBase64(iv), ct: bytesToBase64(new Uint8Array(ciphertext)) };
+}
+
+/**
+ * Decrypt a group message body
+ *
+ * @returns Plaintext, or null if the key does not match or the data was tampered with
+ */
+export async function decryptWithGroupKey(key: string, { iv, ct }: GroupKeyCiphertext): Promise<string | null> {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(iv) },
+      await importGroupKey(key),
+      base64ToBytes(ct)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch (error) {
+    logger.warn('[GROUP KEYS] Failed to decrypt group message:', error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
+
+/**
+ * Whether a key was handed to exactly the current members
+ *
+ * A key given to fewer people would leave someone unable to read; a key given to
+ * more people would let a removed member read along.
+ */
+export function isGroupKeyCurrent(record: GroupKeyRecord, members: string[]): boolean {
+  const keyMembers = new Set(record.members.map(m => m.toLowerCase()));
+  const currentMembers = new Set(members.map(m => m.toLowerCase()));
+
+  if (keyMembers.size !== currentMembers.size) return false;
+  return Array.from(currentMembers).every(m => keyMembers.has(m));
+}
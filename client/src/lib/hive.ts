@@ -2,6 +2,7 @@ import { Client, PrivateKey, PublicKey, Memo } from '@hiveio/dhive';
 import { KeychainSDK, KeychainKeyTypes } from 'keychain-sdk';
 import { hiveClient as optimizedHiveClient } from './hiveClient';
 import { logger } from '@/lib/logger';
+import { normalizeHiveTimestamp } from '@shared/hiveTimestamp';
 
 // Initialize Hive client with public node (for direct access)
 // Best Hive RPC nodes ordered by reliability (from beacon.peakd.com monitoring)
@@ -15,28 +16,7 @@ export const hiveClient = new Client([
   'https://api.syncad.com',        // 100% score
 ]);
 
-/**
- * Normalizes Hive blockchain timestamps to proper UTC format
- * Hive returns timestamps like "2025-02-27T23:27:00" or "2024-11-18T22:11:54+00:00"
- * JavaScript interprets timestamps without timezone as local time, so we append "Z" to mark them as UTC
- * 
- * @param timestamp - Raw timestamp from Hive blockchain
- * @returns ISO 8601 timestamp with UTC indicator
- */
-export const normalizeHiveTimestamp = (timestamp: string | null | undefined): string => {
-  if (!timestamp) return new Date().toISOString();
-  
-  // Check if timestamp already ends with a timezone indicator
-  // Match: Z at end, or +/-HH:MM at end, or +/-HHMM at end, or +/-HH at end
-  const hasTimezone = /[Z]$|[+-]\d{2}:\d{2}$|[+-]\d{4}$|[+-]\d{2}$/.test(timestamp);
-  
-  if (hasTimezone) {
-    return timestamp;
-  }
-  
-  // No timezone found at end - append Z to mark as UTC
-  return timestamp + 'Z';
-};
+export { normalizeHiveTimestamp };
 
 // Hive Keychain integration
 export interface KeychainResponse {
@@ -71,7 +51,31 @@ export const requestHandshake = (): Promise<boolean> => {
   });
 };
 
-export const requestLogin = (username: string): Promise<KeychainResponse> => {
+// `message` is the server's login challenge when a server is available
+export const requestLogin = (username: string, message?: string): Promise<KeychainResponse> => {
+  return new Promise((resolve, reject) => {
+    if (!isKeychainInstalled()) {
+      reject({ success: false, error: 'Hive Keychain not installed' });
+      return;
+    }
+
+    window.hive_keychain.requestSignBuffer(
+      username,
+      message || `Login to Hive Messenger at ${new Date().toISOString()}`,
+      'Posting',
+      (response: KeychainResponse) => {
+        if (response.success) {
+          resolve(response);
+        } else {
+          reject(response);
+        }
+      }
+    );
+  });
+};
+
+// Signs an arbitrary message with the posting key (verifiable with the account's posting key_auths)
+export const requestSignMessage = (username: string, message: string): Promise<KeychainResponse> => {
   return new Promise((resolve, reject) => {
     if (!isKeychainInstalled()) {
       reject({ success: false, error: 'Hive Keychain not installed' });
@@ -80,7 +84,7 @@ export const requestLogin = (username: string): Promise<KeychainResponse> => {
 
     window.hive_keychain.requestSignBuffer(
       username,
-      `Login to Hive Messenger at ${new Date().toISOString()}`,
+      message,
       'Posting',
       (response: KeychainResponse) => {
         if (response.success) {
@@ -657,27 +661,36 @@ export const decryptMemosInParallel = async (
 };
 
 // ============================================================================
-// CUSTOM JSON: Image Message Fetching & Reassembly
+// CUSTOM JSON: Image & File Message Fetching & Reassembly
 // ============================================================================
 
+const IMAGE_CUSTOM_JSON_ID = 'hive-messenger-img';
+const FILE_CUSTOM_JSON_ID = 'hive-messenger-file';
+
 export interface CustomJsonOperation {
   txId: string;
   timestamp: string;
   from: string;
   to: string;
+  kind: 'image' | 'file';
   encryptedPayload: string;
   hash?: string;
   sessionId?: string;
   chunks?: number;
+  receivedChunks?: number;  // Set (with an empty payload) while a chunked upload is incomplete
 }
 
 /**
- * Fetch custom_json operations for image messaging
+ * Fetch custom_json operations for image and file messaging
+ * 
+ * custom_json only shows up in the signer's history, so messages from the
+ * partner are read from the partner's history (they name the recipient in `to`).
+ * Chunked uploads that are still missing chunks are returned as progress entries.
  * 
  * @param username - User's Hive username
  * @param partnerUsername - Conversation partner's username
- * @param limit - Maximum operations to fetch (default: 200)
- * @returns Array of custom_json image messages
+ * @param limit - Maximum operations to fetch per account (default: 200)
+ * @returns Array of custom_json image and file messages
  */
 export async function getCustomJsonMessages(
   username: string,
@@ -690,12 +703,14 @@ export async function getCustomJsonMessages(
     // Use direct client for database.call (optimizedHiveClient doesn't expose this)
     // Fetch account history with operation filter
     // custom_json is operation type 18, so bit 18 = 2^18 = 262144
-    const history = await hiveClient.database.call('get_account_history', [
-      username,
-      -1,
-      limit,
-      262144  // Filter for custom_json operations only (2^18)
-    ]);
+    const [history, partnerHistory] = await Promise.all([username, partnerUsername].map(account =>
+      hiveClient.database.call('get_account_history', [
+        account,
+        -1,
+        limit,
+        262144  // Filter for custom_json operations only (2^18)
+      ])
+    ));
     
     if (!history || !Array.isArray(history)) {
       logger.warn('[CUSTOM JSON] No history returned');
@@ -704,25 +719,34 @@ export async function getCustomJsonMessages(
     
     logger.info('[CUSTOM JSON] Retrieved', history.length, 'operations from blockchain');
     
+    // Partner history only contributes image and file messages addressed to us
+    const partnerOps = Array.isArray(partnerHistory)
+      ? partnerHistory.filter(([, op]: [number, any]) =>
+          op.op[1]?.id === IMAGE_CUSTOM_JSON_ID || op.op[1]?.id === FILE_CUSTOM_JSON_ID)
+      : [];
+    
     // Track chunks by session ID for reassembly
     const sessionChunks = new Map<string, Array<{
       idx: number;
+      total?: number;
       data: string;
       hash?: string;
       timestamp: string;
       from: string;
       to: string;
+      kind: 'image' | 'file';
       txId: string;
     }>>();
     
     // Track single-operation messages
     const singleMessages: CustomJsonOperation[] = [];
     
-    for (const [index, op] of history) {
+    for (const [index, op] of [...history, ...partnerOps]) {
       const [opType, opData] = op.op;
       
       if (opType !== 'custom_json') continue;
-      if (opData.id !== 'hive-messenger-img') continue;
+      if (opData.id !== IMAGE_CUSTOM_JSON_ID && opData.id !== FILE_CUSTOM_JSON_ID) continue;
+      const kind = opData.id === FILE_CUSTOM_JSON_ID ? 'file' : 'image';
       
       let jsonData: any;
       try {
@@ -742,9 +766,10 @@ export async function getCustomJsonMessages(
       
       // Determine the "from" and "to" for this operation
       const from = sender;
-      // For custom_json, we need to extract recipient from encrypted payload later
-      // For now, assume partner is the "to" if sender is us, and vice versa
+      // File messages and partner images name their recipient; our own older
+      // images assume partner is the "to"
       const to = sender === username ? partnerUsername : username;
+      if ((kind === 'file' || sender === partnerUsername) && jsonData.to !== to) continue;
       
       if (jsonData.sid) {
         // Multi-chunk message
@@ -752,13 +777,18 @@ export async function getCustomJsonMessages(
           sessionChunks.set(jsonData.sid, []);
         }
         
+        // A resumed upload may have re-sent a batch that actually went through
+        if (sessionChunks.get(jsonData.sid)!.some(chunk => chunk.idx === jsonData.idx)) continue;
+        
         sessionChunks.get(jsonData.sid)!.push({
           idx: jsonData.idx,
+          total: jsonData.tot,
           data: jsonData.e,
           hash: jsonData.h,
           timestamp: normalizeHiveTimestamp(op.timestamp),
           from,
           to,
+          kind,
           txId: op.trx_id
         });
       } else {
@@ -768,6 +798,7 @@ export async function getCustomJsonMessages(
           timestamp: normalizeHiveTimestamp(op.timestamp),
           from,
           to,
+          kind,
           encryptedPayload: jsonData.e,
           hash: jsonData.h
         });
@@ -779,19 +810,37 @@ export async function getCustomJsonMessages(
     
     // Use Array.from to avoid downlevelIteration requirement
     Array.from(sessionChunks.entries()).forEach(([sessionId, chunks]) => {
-      type ChunkType = { idx: number; data: string; hash?: string; timestamp: string; from: string; to: string; txId: string };
+      type ChunkType = { idx: number; total?: number; data: string; hash?: string; timestamp: string; from: string; to: string; kind: 'image' | 'file'; txId: string };
       
       // Sort by index with explicit types
       chunks.sort((a: ChunkType, b: ChunkType) => a.idx - b.idx);
       
       // Check if we have all chunks with explicit types
       const expectedChunks = chunks.length;
-      const hasAllChunks = chunks.every((c: ChunkType, i: number) => c.idx === i);
+      // File uploads span several transactions, so a session may be partially sent
+      const hasAllChunks = chunks.every((c: ChunkType, i: number) => c.idx === i) &&
+        (chunks[0].total === undefined || chunks[0].total === chunks.length);
       
       if (!hasAllChunks) {
         logger.warn('[CUSTOM JSON] Incomplete chunks for session:', sessionId, 
           'expected:', expectedChunks, 'have indices:', chunks.map((c: ChunkType) => c.idx));
-        return; // Skip this session
+        
+        // Uploads that announce their size are shown as "receiving x/y" until complete
+        const total = chunks.find((c: ChunkType) => c.total !== undefined)?.total;
+        if (total !== undefined) {
+          reassembledMessages.push({
+            txId: `partial-${sessionId}`,
+            timestamp: chunks[0].timestamp,
+            from: chunks[0].from,
+            to: chunks[0].to,
+            kind: chunks[0].kind,
+            encryptedPayload: '',
+            sessionId,
+            chunks: total,
+            receivedChunks: chunks.length
+          });
+        }
+        return;
       }
       
       // Concatenate chunks with explicit types
@@ -803,6 +852,7 @@ export async function getCustomJsonMessages(
         timestamp: chunks[0].timestamp,
         from: chunks[0].from,
         to: chunks[0].to,
+        kind: chunks[0].kind,
         encryptedPayload: fullPayload,
         hash,
         sessionId,
@@ -1,5 +1,5 @@
 /**
- * Image chunking and broadcasting module for Hive custom_json operations
+ * Image and file chunking and broadcasting module for Hive custom_json operations
  * Handles splitting large payloads into 8KB-compliant chunks and batched broadcasting
  * 
  * @module imageChunking
@@ -7,6 +7,15 @@
 
 const CHUNK_SIZE = 7000; // Conservative limit for 8KB after JSON overhead
 
+export const IMAGE_CUSTOM_JSON_ID = 'hive-messenger-img';
+export const FILE_CUSTOM_JSON_ID = 'hive-messenger-file';
+
+// Resumable uploads split chunks over several transactions to stay under the 64KB transaction limit
+const CHUNKS_PER_TRANSACTION = 5;
+
+// Attempts per batch before an upload is left for resuming later
+const BATCH_ATTEMPTS = 2;
+
 /**
  * Chunk metadata for multi-operation messages
  */
@@ -66,6 +75,7 @@ export function chunkEncryptedPayload(
  * @param username - Sender's username
  * @param encrypted - Encrypted payload
  * @param hash - SHA-256 integrity hash
+ * @param to - Recipient username (lets their client find single-operation images)
  * @returns Promise<string> - Transaction ID
  * 
  * @throws Error if broadcast fails or RC insufficient
@@ -73,7 +83,8 @@ export function chunkEncryptedPayload(
 export async function broadcastImageMessage(
   username: string,
   encrypted: string,
-  hash: string
+  hash: string,
+  to?: string
 ): Promise<string> {
   // Estimate JSON size with metadata
   const estimatedJsonSize = JSON.stringify({
@@ -91,7 +102,7 @@ export async function broadcastImageMessage(
   if (estimatedJsonSize <= 7500) {
     // Single operation - simple path
     console.log('[BROADCAST] Using single operation (under threshold)');
-    return await broadcastSingleOperation(username, encrypted, hash);
+    return await broadcastSingleOperation(username, encrypted, hash, to);
   } else {
     // Multi-chunk - batched transaction
     console.log('[BROADCAST] Using chunked operations (over threshold)');
@@ -105,12 +116,14 @@ export async function broadcastImageMessage(
  * @param username - Sender's username
  * @param encrypted - Encrypted payload
  * @param hash - SHA-256 integrity hash
+ * @param to - Recipient username
  * @returns Promise<string> - Transaction ID
  */
 async function broadcastSingleOperation(
   username: string,
   encrypted: string,
-  hash: string
+  hash: string,
+  to?: string
 ): Promise<string> {
   return new Promise((resolve, reject) => {
     if (!window.hive_keychain) {
@@ -120,6 +133,7 @@ async function broadcastSingleOperation(
 
     const payload = JSON.stringify({
       v: 1,     // Version
+      to,
       e: encrypted,
       h: hash   // Integrity hash
     });
@@ -128,7 +142,7 @@ async function broadcastSingleOperation(
 
     window.hive_keychain.requestCustomJson(
       username,
-      'hive-messenger-img',
+      IMAGE_CUSTOM_JSON_ID,
       'Posting',
       payload,
       'Send encrypted image',
@@ -167,7 +181,7 @@ async function broadcastChunkedOperation(
     {
       required_auths: [],
       required_posting_auths: [username],
-      id: 'hive-messenger-img',
+      id: IMAGE_CUSTOM_JSON_ID,
       json: JSON.stringify({
         v: 1,
         sid: sessionId,
@@ -210,6 +224,137 @@ async function broadcastChunkedOperation(
   });
 }
 
+/**
+ * In-progress chunked upload (image or file)
+ * Persisted as an upload journal so a failed upload can be resumed without re-encrypting
+ */
+export interface ChunkedUpload {
+  sessionId: string;
+  customJsonId: string;    // IMAGE_CUSTOM_JSON_ID or FILE_CUSTOM_JSON_ID
+  hash: string;
+  to: string;              // Recipient (plaintext so their client can find the chunks)
+  chunks: Chunk[];
+  confirmedChunks: number[];  // Chunk indexes Keychain confirmed as broadcast
+  txId?: string;           // Transaction carrying chunk 0 (the message id)
+}
+
+/**
+ * Whether an encrypted payload is too large for a single custom_json operation
+ */
+export function needsChunking(encrypted: string, hash: string): boolean {
+  return JSON.stringify({ v: 1, e: encrypted, h: hash }).length > 7500;
+}
+
+/**
+ * Prepare an encrypted payload for a chunked, resumable broadcast
+ * 
+ * @param customJsonId - custom_json id the chunks are broadcast under
+ * @param encrypted - Encrypted payload
+ * @param hash - SHA-256 integrity hash
+ * @param to - Recipient username
+ */
+export function createChunkedUpload(customJsonId: string, encrypted: string, hash: string, to: string): ChunkedUpload {
+  const { sessionId, chunks } = chunkEncryptedPayload(encrypted, hash);
+  return { sessionId, customJsonId, hash, to, chunks, confirmedChunks: [] };
+}
+
+/**
+ * Broadcast one batch of chunks in a single transaction
+ */
+function broadcastChunkBatch(username: string, upload: ChunkedUpload, batch: Chunk[]): Promise<string> {
+  const operations = batch.map((chunk) => [
+    'custom_json',
+    {
+      required_auths: [],
+      required_posting_auths: [username],
+      id: upload.customJsonId,
+      json: JSON.stringify({
+        v: 1,
+        sid: upload.sessionId,
+        idx: chunk.idx,
+        tot: upload.chunks.length,
+        to: upload.to,
+        h: chunk.idx === 0 ? upload.hash : undefined,
+        e: chunk.data
+      })
+    }
+  ]);
+
+  return new Promise((resolve, reject) => {
+    if (!window.hive_keychain) {
+      reject(new Error('Hive Keychain not installed'));
+      return;
+    }
+
+    window.hive_keychain.requestBroadcast(
+      username,
+      operations,
+      'Posting',
+      (response: any) => {
+        if (response.success) {
+          resolve(response.result.id);
+        } else {
+          reject(new Error(response.message || 'Chunk broadcast failed'));
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Broadcast the unconfirmed chunks of an upload, one Keychain request per batch
+ * 
+ * A failed batch is retried once (unless the user cancelled in Keychain). Confirmed
+ * indexes are recorded on the upload and reported through `onBatchConfirmed` so the
+ * caller can persist them; if the upload still fails the error is rethrown and
+ * calling this again with the same upload only sends what is missing.
+ * 
+ * @param username - Sender's username
+ * @param upload - Upload from createChunkedUpload() or a stored journal
+ * @param callbacks.onProgress - Called with (confirmedChunks, totalChunks)
+ * @param callbacks.onBatchConfirmed - Called after each confirmed batch
+ * @returns Promise<string> - Transaction ID of the first chunk
+ */
+export async function broadcastChunkedUpload(
+  username: string,
+  upload: ChunkedUpload,
+  callbacks: {
+    onProgress?: (confirmed: number, total: number) => void;
+    onBatchConfirmed?: (upload: ChunkedUpload) => Promise<void> | void;
+  } = {}
+): Promise<string> {
+  const total = upload.chunks.length;
+  callbacks.onProgress?.(upload.confirmedChunks.length, total);
+
+  while (true) {
+    const confirmed = new Set(upload.confirmedChunks);
+    const batch = upload.chunks.filter(chunk => !confirmed.has(chunk.idx)).slice(0, CHUNKS_PER_TRANSACTION);
+    if (batch.length === 0) break;
+
+    let txId: string | undefined;
+    for (let attempt = 1; !txId; attempt++) {
+      try {
+        txId = await broadcastChunkBatch(username, upload, batch);
+      } catch (error: any) {
+        const cancelled = error?.message?.toLowerCase().includes('cancel');
+        if (cancelled || attempt >= BATCH_ATTEMPTS) throw error;
+        console.warn(`[BROADCAST] Chunk batch failed (attempt ${attempt}), retrying:`, error?.message);
+      }
+    }
+
+    if (batch.some(chunk => chunk.idx === 0)) {
+      upload.txId = txId;
+    }
+    upload.confirmedChunks = [...upload.confirmedChunks, ...batch.map(chunk => chunk.idx)];
+
+    console.log(`[BROADCAST] Chunks ${upload.confirmedChunks.length}/${total} confirmed (session: ${upload.sessionId})`);
+    await callbacks.onBatchConfirmed?.(upload);
+    callbacks.onProgress?.(upload.confirmedChunks.length, total);
+  }
+
+  return upload.txId!;
+}
+
 /**
  * Reassemble chunked messages from blockchain data
  * 
@@ -1,6 +1,7 @@
 import { hiveClient as optimizedHiveClient } from './hiveClient';
 import { GROUP_CUSTOM_JSON_ID } from './groupBlockchain';
 import { normalizeHiveTimestamp } from './hive';
+import { isGroupMemberBanned, type GroupModeration } from '@shared/groupModeration';
 import { logger } from './logger';
 import type { JoinRequest } from '@shared/schema';
 
@@ -10,14 +11,21 @@ import type { JoinRequest } from '@shared/schema';
  * 
  * @param groupId - Group identifier to filter requests
  * @param username - Username who made the join request
+ * @param moderation - Group bans, if known (a banned user has no pending requests)
  * @returns Array of pending join requests (newest first)
  */
 export async function scanPendingJoinRequests(
   groupId: string,
-  username: string
+  username: string,
+  moderation?: GroupModeration
 ): Promise<JoinRequest[]> {
   logger.info('[JOIN REQUEST DISCOVERY] Scanning for pending requests:', { groupId, username });
 
+  if (moderation && isGroupMemberBanned(moderation, username)) {
+    logger.info('[JOIN REQUEST DISCOVERY] User is banned from the group, requests are void');
+    return [];
+  }
+
   // Define all pre-approval statuses that should be considered "pending"
   const pendingStatuses = ['pending', 'pending_payment_verification', 'approved_free'];
 
@@ -155,11 +163,13 @@ export async function scanPendingJoinRequests(
  * 
  * @param groupId - Group identifier to filter requests
  * @param creatorUsername - Username of the group creator (used for optimized scanning)
+ * @param moderation - Group bans, if known (requests from banned users are dropped)
  * @returns Array of pending join requests for the group (newest first)
  */
 export async function scanGroupJoinRequests(
   groupId: string,
-  creatorUsername: string
+  creatorUsername: string,
+  moderation?: GroupModeration
 ): Promise<JoinRequest[]> {
   logger.info('[JOIN REQUEST DISCOVERY] Scanning group join requests:', { groupId, creatorUsername });
 
@@ -242,6 +252,11 @@ export async function scanGroupJoinRequests(
           requestUsers.add(jsonData.username);
         }
 
+        // Banned users cannot rejoin
+        if (moderation && isGroupMemberBanned(moderation, jsonData.username || '')) {
+          continue;
+        }
+
         // Skip if this request was later approved or rejected
         if (approvedRequestIds.has(jsonData.requestId) || 
             rejectedRequestIds.has(jsonData.requestId)) {
@@ -262,7 +277,8 @@ export async function scanGroupJoinRequests(
           message: jsonData.message,
           txId: operation.trx_id,
           // Only include memberPayment if it exists in the blockchain data
-          ...(jsonData.memberPayment && { memberPayment: jsonData.memberPayment })
+          ...(jsonData.memberPayment && { memberPayment: jsonData.memberPayment }),
+          ...(jsonData.invite && { invite: jsonData.invite })
         };
 
         // Deduplicate: keep newest request per requestId
@@ -302,13 +318,15 @@ export async function scanGroupJoinRequests(
  * 
  * @param groupId - Group identifier
  * @param username - Username to check
+ * @param moderation - Group bans, if known
  * @returns True if user has a pending request
  */
 export async function hasPendingJoinRequest(
   groupId: string,
-  username: string
+  username: string,
+  moderation?: GroupModeration
 ): Promise<boolean> {
-  const requests = await scanPendingJoinRequests(groupId, username);
+  const requests = await scanPendingJoinRequests(groupId, username, moderation);
   return requests.length > 0;
 }
 
@@ -319,11 +337,13 @@ export async function hasPendingJoinRequest(
  * 
  * @param groupId - Group identifier
  * @param creatorUsername - Username of the group creator (for security - only creator can auto-approve)
+ * @param moderation - Group bans (requests from banned users are never approved)
  * @returns Array of join requests needing auto-approval
  */
 export async function scanAutoApprovalRequests(
   groupId: string,
-  creatorUsername: string
+  creatorUsername: string,
+  moderation?: GroupModeration
 ): Promise<JoinRequest[]> {
   logger.info('[AUTO APPROVAL] Scanning for auto-approval requests:', { groupId, creatorUsername });
 
@@ -393,6 +413,12 @@ export async function scanAutoApprovalRequests(
           continue;
         }
 
+        // Banned users cannot rejoin
+        if (moderation && isGroupMemberBanned(moderation, jsonData.username || '')) {
+          logger.info('[AUTO APPROVAL] Skipping request from banned user:', jsonData.username);
+          continue;
+        }
+
         // Only include requests with auto-approval statuses
         if (jsonData.status !== 'approved_free' && 
             jsonData.status !== 'pending_payment_verification') {
@@ -407,7 +433,8 @@ export async function scanAutoApprovalRequests(
           message: jsonData.message,
           txId: operation.trx_id,
           // Only include memberPayment if it exists in the blockchain data
-          ...(jsonData.memberPayment && { memberPayment: jsonData.memberPayment })
+          ...(jsonData.memberPayment && { memberPayment: jsonData.memberPayment }),
+          ...(jsonData.invite && { invite: jsonData.invite })
         };
 
         autoApprovalRequests.push(joinRequest);
@@ -2,6 +2,12 @@ import { openDB, DBSchema, IDBPDatabase } from 'idb';
 import { normalizeHiveTimestamp } from './hive';
 import type { PaymentSettings, MemberPayment, JoinRequest, GroupConversationCache } from '@shared/schema';
 import { logger } from './logger';
+import type { ReactionRecord } from './reactions';
+import { resolveMessageOps, RETRACTED_MESSAGE_PREVIEW, type MessageOpRecord } from './messageOps';
+import type { ReadReceiptRecord } from './readReceipts';
+import type { ChunkedUpload } from './imageChunking';
+import type { ScheduledMessage } from './scheduledMessages';
+import type { GroupKeyRecord } from './groupKeys';
 
 interface MessageCache {
   id: string;
@@ -16,6 +22,7 @@ interface MessageCache {
   isDecrypted?: boolean; // Flag to indicate manual decryption
   amount?: string; // HBD transfer amount (e.g., "0.001 HBD")
   hidden?: boolean; // Flag for messages filtered by minimum HBD threshold
+  replyTo?: string; // txId of the message this one replies to
 }
 
 interface ConversationCache {
@@ -34,14 +41,19 @@ interface DecryptedMemoCache {
   cachedAt: string;
 }
 
-// CUSTOM JSON: Image message storage (separate from memo-based messages)
+// CUSTOM JSON: Image and file message storage (separate from memo-based messages)
 interface CustomJsonMessage {
   txId: string;                    // Primary key (transaction ID)
   sessionId?: string;              // For multi-chunk messages
   conversationKey: string;
   from: string;
   to: string;
+  kind?: 'image' | 'file';         // Missing on messages cached before file attachments (images)
   imageData?: string;              // base64 image (after decryption)
+  fileData?: string;               // base64 file (after decryption)
+  size?: number;                   // Original file size in bytes
+  duration?: number;               // Voice notes: length in seconds
+  waveform?: number[];             // Voice notes: bar heights 0-100
   message?: string;                // optional text message
   filename?: string;
   contentType?: string;
@@ -51,6 +63,16 @@ interface CustomJsonMessage {
   chunks?: number;                 // Total chunks (if multi-chunk)
   isDecrypted: boolean;
   confirmed: boolean;
+  replyTo?: string;                // txId of the message this one replies to
+  receivedChunks?: number;         // Set while chunks are still arriving (never cached)
+}
+
+// CHUNK UPLOADS: Journal of outgoing chunked uploads, so they survive failures and reloads
+interface ChunkUploadJournal extends ChunkedUpload {
+  conversationKey: string;
+  message: Omit<CustomJsonMessage, 'txId' | 'conversationKey' | 'timestamp' | 'encryptedPayload' | 'confirmed'>;  // Cached once all chunks are confirmed
+  createdAt: string;
+  updatedAt: string;
 }
 
 // ============================================================================
@@ -72,6 +94,8 @@ interface GroupMessageCache {
   confirmed: boolean;              // All sends confirmed
   status: 'sending' | 'partial' | 'sent' | 'confirmed' | 'failed';
   failedRecipients?: string[];     // Failed recipient usernames
+  clientMessageId?: string;        // Sender's tempId - identical across every recipient's copy
+  replyTo?: string;                // clientMessageId (or txId) of the message this one replies to
 }
 
 interface GroupManifestPointer {
@@ -144,6 +168,52 @@ interface HiveMessengerDB extends DBSchema {
     key: string;
     value: GroupManifestPointer;
   };
+  // REACTIONS: Emoji reactions from custom_json operations
+  reactions: {
+    key: string;
+    value: ReactionRecord;
+    indexes: {
+      'by-target': string;
+      'by-txId': string;
+    };
+  };
+  // MESSAGE OPS: Edit/retract operations from custom_json
+  messageOps: {
+    key: string;
+    value: MessageOpRecord;
+    indexes: {
+      'by-target': string;
+    };
+  };
+  // READ RECEIPTS: Newest receipt per reader
+  readReceipts: {
+    key: string;
+    value: ReadReceiptRecord;
+  };
+  // CHUNK UPLOADS: Resumable outgoing uploads
+  chunkUploads: {
+    key: string;
+    value: ChunkUploadJournal;
+    indexes: {
+      'by-conversation': string;
+    };
+  };
+  // SCHEDULED MESSAGES: Local send queue
+  scheduledMessages: {
+    key: string;
+    value: ScheduledMessage;
+    indexes: {
+      'by-send-at': string;
+    };
+  };
+  // GROUP KEYS: Shared symmetric keys per group version
+  groupKeys: {
+    key: string;
+    value: GroupKeyRecord;
+    indexes: {
+      'by-group': string;
+    };
+  };
 }
 
 let dbInstance: IDBPDatabase<HiveMessengerDB> | null = null;
@@ -168,7 +238,13 @@ async function getDB(username?: string): Promise<IDBPDatabase<HiveMessengerDB>>
   // v7: Add groupManifestPointers object store for memo-pointer protocol
   const dbName = username ? `hive-messenger-${username}-v7` : 'hive-messenger-v7';
   
-  dbInstance = await openDB<HiveMessengerDB>(dbName, 2, {
+  // DB version 3: reactions object store
+  // DB version 4: messageOps object store
+  // DB version 5: readReceipts object store
+  // DB version 6: chunkUploads object store
+  // DB version 7: scheduledMessages object store
+  // DB version 8: groupKeys object store
+  dbInstance = await openDB<HiveMessengerDB>(dbName, 8, {
     upgrade(db: IDBPDatabase<HiveMessengerDB>) {
       if (!db.objectStoreNames.contains('messages')) {
         const messageStore = db.createObjectStore('messages', { keyPath: 'id' });
@@ -218,6 +294,42 @@ async function getDB(username?: string): Promise<IDBPDatabase<HiveMessengerDB>>
       if (!db.objectStoreNames.contains('groupManifestPointers')) {
         db.createObjectStore('groupManifestPointers', { keyPath: 'groupId' });
       }
+
+      // REACTIONS: Add reactions table
+      if (!db.objectStoreNames.contains('reactions')) {
+        const reactionStore = db.createObjectStore('reactions', { keyPath: 'id' });
+        reactionStore.createIndex('by-target', 'target');
+        reactionStore.createIndex('by-txId', 'txId');
+      }
+
+      // MESSAGE OPS: Add edit/retract operations table
+      if (!db.objectStoreNames.contains('messageOps')) {
+        const messageOpStore = db.createObjectStore('messageOps', { keyPath: 'txId' });
+        messageOpStore.createIndex('by-target', 'target');
+      }
+
+      // READ RECEIPTS: Add read receipts table
+      if (!db.objectStoreNames.contains('readReceipts')) {
+        db.createObjectStore('readReceipts', { keyPath: 'reader' });
+      }
+
+      // CHUNK UPLOADS: Add upload journal table
+      if (!db.objectStoreNames.contains('chunkUploads')) {
+        const chunkUploadStore = db.createObjectStore('chunkUploads', { keyPath: 'sessionId' });
+        chunkUploadStore.createIndex('by-conversation', 'conversationKey');
+      }
+
+      // SCHEDULED MESSAGES: Add send queue table
+      if (!db.objectStoreNames.contains('scheduledMessages')) {
+        const scheduledStore = db.createObjectStore('scheduledMessages', { keyPath: 'id' });
+        scheduledStore.createIndex('by-send-at', 'sendAt');
+      }
+
+      // GROUP KEYS: Add shared group key table
+      if (!db.objectStoreNames.contains('groupKeys')) {
+        const groupKeyStore = db.createObjectStore('groupKeys', { keyPath: 'id' });
+        groupKeyStore.createIndex('by-group', 'groupId');
+      }
     },
   });
 
@@ -541,13 +653,16 @@ export async function confirmMessage(tempId: string, txId: string, encryptedCont
   }
 }
 
-export async function updateMessageContent(messageId: string, decryptedContent: string, username?: string): Promise<void> {
+export async function updateMessageContent(messageId: string, decryptedContent: string, username?: string, replyTo?: string): Promise<void> {
   const db = await getDB(username);
   const message = await db.get('messages', messageId);
   
   if (message) {
     message.content = decryptedContent;
     message.isDecrypted = true; // Mark as manually decrypted - don't touch it!
+    if (replyTo) {
+      message.replyTo = replyTo;
+    }
     await db.put('messages', message);
   }
 }
@@ -711,6 +826,279 @@ export async function deleteCustomJsonConversation(
   logger.debug('[CUSTOM JSON] ✅ Image conversation deleted from local storage');
 }
 
+// ============================================================================
+// REACTIONS: Emoji reaction caching
+// ============================================================================
+
+/**
+ * Store reactions, keeping only the latest operation per target/reactor/emoji
+ * Encrypted reactions are skipped when their txId is already cached (e.g. our own,
+ * stored decrypted when sent)
+ * @returns number of records written
+ */
+export async function cacheReactions(records: ReactionRecord[], username?: string): Promise<number> {
+  const db = await getDB(username);
+  const tx = db.transaction('reactions', 'readwrite');
+  let written = 0;
+
+  for (const record of records) {
+    if (!record.emoji) {
+      const known = await tx.store.index('by-txId').getKey(record.txId);
+      if (known) continue;
+    } else {
+      // Replaces the pending encrypted copy of the same operation
+      const pending = await tx.store.get(record.txId);
+      if (pending && !pending.emoji) {
+        await tx.store.delete(record.txId);
+      }
+
+      const existing = await tx.store.get(record.id);
+      if (existing && (
+        existing.txId === record.txId ||
+        new Date(existing.timestamp).getTime() > new Date(record.timestamp).getTime()
+      )) continue;
+    }
+
+    await tx.store.put(record);
+    written++;
+  }
+
+  await tx.done;
+  return written;
+}
+
+export async function getReactionsByTargets(
+  targets: string[],
+  username?: string
+): Promise<Map<string, ReactionRecord[]>> {
+  const db = await getDB(username);
+  const result = new Map<string, ReactionRecord[]>();
+
+  for (const target of targets) {
+    const records = await db.getAllFromIndex('reactions', 'by-target', target);
+    if (records.length > 0) {
+      result.set(target, records);
+    }
+  }
+
+  return result;
+}
+
+export async function getEncryptedReactions(target: string, username?: string): Promise<ReactionRecord[]> {
+  const db = await getDB(username);
+  const records = await db.getAllFromIndex('reactions', 'by-target', target);
+  return records.filter(record => !record.emoji);
+}
+
+// ============================================================================
+// MESSAGE OPS: Edit and retract (delete-for-everyone) caching
+// ============================================================================
+
+/**
+ * Store edit/retract operations and refresh the conversation previews they affect
+ * An operation already cached is only replaced by its decrypted copy
+ * @returns number of records written
+ */
+export async function cacheMessageOps(records: MessageOpRecord[], username?: string): Promise<number> {
+  const db = await getDB(username);
+  const tx = db.transaction('messageOps', 'readwrite');
+  const written: MessageOpRecord[] = [];
+
+  for (const record of records) {
+    const existing = await tx.store.get(record.txId);
+    if (existing && (existing.content !== undefined || record.content === undefined)) continue;
+
+    await tx.store.put(record);
+    written.push(record);
+  }
+
+  await tx.done;
+
+  for (const record of written) {
+    await refreshPreviewForMessageOp(record, username);
+  }
+
+  return written.length;
+}
+
+export async function getMessageOpsByTargets(
+  targets: string[],
+  username?: string
+): Promise<Map<string, MessageOpRecord[]>> {
+  const db = await getDB(username);
+  const result = new Map<string, MessageOpRecord[]>();
+
+  for (const target of targets) {
+    const records = await db.getAllFromIndex('messageOps', 'by-target', target);
+    if (records.length > 0) {
+      result.set(target, records);
+    }
+  }
+
+  return result;
+}
+
+export async function getMessageOp(txId: string, username?: string): Promise<MessageOpRecord | undefined> {
+  const db = await getDB(username);
+  return await db.get('messageOps', txId);
+}
+
+/**
+ * Conversation preview text for a message, after its verified edit/retract operations
+ * @param target - Wire id of the message (txId, or client message id for groups)
+ */
+export async function getMessagePreview(
+  target: string,
+  sender: string,
+  content: string,
+  username?: string
+): Promise<string> {
+  const db = await getDB(username);
+  const ops = await db.getAllFromIndex('messageOps', 'by-target', target);
+  const state = resolveMessageOps(sender, ops);
+
+  if (state.retracted) {
+    return RETRACTED_MESSAGE_PREVIEW;
+  }
+  return state.content ?? content;
+}
+
+// Update the direct/group conversation preview when the operation targets its latest message
+async function refreshPreviewForMessageOp(record: MessageOpRecord, username?: string): Promise<void> {
+  if (record.groupId) {
+    const group = await getGroupConversation(record.groupId, username);
+    const latest = (await getGroupMessages(record.groupId, username)).pop();
+    if (!group || !latest || (latest.clientMessageId || latest.id) !== record.target) return;
+
+    group.lastMessage = await getMessagePreview(record.target, latest.sender, latest.content, username);
+    await cacheGroupConversation(group, username);
+    return;
+  }
+
+  if (!username || !record.counterparty) return;
+
+  const conversation = await getConversation(username, record.counterparty);
+  const latest = (await getMessagesByConversation(username, record.counterparty))
+    .filter(msg => !msg.hidden)
+    .pop();
+  if (!conversation || !latest || (latest.txId || latest.id) !== record.target) return;
+
+  await updateConversation({
+    ...conversation,
+    lastMessage: await getMessagePreview(record.target, latest.from, latest.content, username),
+  }, username);
+}
+
+// ============================================================================
+// READ RECEIPTS: Receipt caching
+// ============================================================================
+
+/**
+ * Store a read receipt unless a newer one (or the decrypted copy of it) is cached
+ * @returns true if the record was written
+ */
+export async function cacheReadReceipt(record: ReadReceiptRecord, username?: string): Promise<boolean> {
+  const db = await getDB(username);
+  const existing = await db.get('readReceipts', record.reader);
+
+  if (existing) {
+    if (existing.txId === record.txId && (existing.readTxId || !record.readTxId)) return false;
+    if (new Date(existing.timestamp).getTime() > new Date(record.timestamp).getTime()) return false;
+  }
+
+  await db.put('readReceipts', record);
+  return true;
+}
+
+export async function getReadReceipt(reader: string, username?: string): Promise<ReadReceiptRecord | undefined> {
+  const db = await getDB(username);
+  return await db.get('readReceipts', reader);
+}
+
+// ============================================================================
+// CHUNK UPLOADS: Upload journal
+// ============================================================================
+
+export async function saveChunkUpload(journal: ChunkUploadJournal, username?: string): Promise<void> {
+  const db = await getDB(username);
+  await db.put('chunkUploads', { ...journal, updatedAt: new Date().toISOString() });
+}
+
+export async function getChunkUploadsByConversation(
+  currentUser: string,
+  partnerUsername: string
+): Promise<ChunkUploadJournal[]> {
+  const db = await getDB(currentUser);
+  const uploads = await db.getAllFromIndex('chunkUploads', 'by-conversation', getConversationKey(currentUser, partnerUsername));
+  return uploads.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function deleteChunkUpload(sessionId: string, username?: string): Promise<void> {
+  const db = await getDB(username);
+  await db.delete('chunkUploads', sessionId);
+  logger.debug('[CHUNK UPLOAD] Removed journal:', sessionId);
+}
+
+// ============================================================================
+// SCHEDULED MESSAGES: Send queue
+// ============================================================================
+
+export async function saveScheduledMessage(message: ScheduledMessage, username?: string): Promise<void> {
+  const db = await getDB(username);
+  await db.put('scheduledMessages', message);
+}
+
+export async function getScheduledMessage(id: string, username?: string): Promise<ScheduledMessage | undefined> {
+  const db = await getDB(username);
+  return await db.get('scheduledMessages', id);
+}
+
+/**
+ * All scheduled messages, soonest first
+ */
+export async function getScheduledMessages(username?: string): Promise<ScheduledMessage[]> {
+  const db = await getDB(username);
+  return await db.getAllFromIndex('scheduledMessages', 'by-send-at');
+}
+
+export async function deleteScheduledMessage(id: string, username?: string): Promise<void> {
+  const db = await getDB(username);
+  await db.delete('scheduledMessages', id);
+  logger.debug('[SCHEDULED] Removed scheduled message:', id);
+}
+
+// ============================================================================
+// GROUP KEYS: Shared symmetric keys
+// ============================================================================
+
+export async function saveGroupKey(record: GroupKeyRecord, username?: string): Promise<void> {
+  const db = await getDB(username);
+  await db.put('groupKeys', record);
+  logger.debug('[GROUP KEYS] Stored key for group:', record.groupId, 'version:', record.version);
+}
+
+export async function getGroupKey(id: string, username?: string): Promise<GroupKeyRecord | undefined> {
+  const db = await getDB(username);
+  return await db.get('groupKeys', id);
+}
+
+/**
+ * Key for a group at its current version: the most recently issued one at or below
+ * `groupVersion` (the group's reduced version - never trust a stored key's version alone)
+ */
+export async function getLatestGroupKey(groupId: string, groupVersion: number, username?: string): Promise<GroupKeyRecord | undefined> {
+  const db = await getDB(username);
+  const keys = await db.getAllFromIndex('groupKeys', 'by-group', groupId);
+  return keys
+    .filter(key => key.version <= groupVersion)
+    .sort((a, b) => b.version - a.version || b.createdAt.localeCompare(a.createdAt))[0];
+}
+
+export async function hasGroupKeys(groupId: string, username?: string): Promise<boolean> {
+  const db = await getDB(username);
+  return (await db.countFromIndex('groupKeys', 'by-group', groupId)) > 0;
+}
+
 // ============================================================================
 // GROUP CHAT: Cache Management Functions
 // ============================================================================
@@ -805,7 +1193,8 @@ export async function addOptimisticGroupMessage(
   content: string,
   encryptedContent: string,
   tempId: string,
-  username?: string
+  username?: string,
+  replyTo?: string
 ): Promise<void> {
   const timestamp = new Date().toISOString();
   
@@ -820,6 +1209,8 @@ export async function addOptimisticGroupMessage(
     txIds: [],
     confirmed: false,
     status: 'sending',
+    clientMessageId: tempId,
+    replyTo,
   };
 
   await cacheGroupMessage(message, username);
@@ -1006,6 +1397,7 @@ export async function migrateGroupMessages(username: string): Promise<number> {
   
   const db = await getDB(username);
   const { parseGroupMessageMemo } = await import('./groupBlockchain');
+  const { isEnvelope } = await import('./messageEnvelope');
   const { lookupGroupMetadata } = await import('./groupBlockchain');
   
   // Get all messages from the messages table
@@ -1018,14 +1410,14 @@ export async function migrateGroupMessages(username: string): Promise<number> {
   const groupsToUpdate = new Map<string, { name: string; members: string[]; creator: string; lastMessage: string; lastTimestamp: string }>();
   
   for (const msg of allMessages) {
-    // Check if content or encryptedContent starts with group: or #group:
+    // Check if content or encryptedContent starts with group:, #group: or is an envelope
     let isGroupMessage = false;
     let parsed: any = null;
     
     // Normalize and check content field (might have decrypted group message)
     if (msg.content) {
       const normalizedContent = msg.content.trim();
-      if (normalizedContent.startsWith('group:') || normalizedContent.startsWith('#group:')) {
+      if (normalizedContent.startsWith('group:') || normalizedContent.startsWith('#group:') || isEnvelope(normalizedContent)) {
         logger.debug('[MIGRATION] Found potential group message in content:', msg.id.substring(0, 20), 'content preview:', normalizedContent.substring(0, 50));
         parsed = parseGroupMessageMemo(normalizedContent);
         isGroupMessage = parsed?.isGroupMessage ?? false;
@@ -1035,7 +1427,7 @@ export async function migrateGroupMessages(username: string): Promise<number> {
     // Check encrypted content field if not found yet
     if (!isGroupMessage && msg.encryptedContent) {
       const normalizedEncrypted = msg.encryptedContent.trim();
-      if (normalizedEncrypted.startsWith('group:') || normalizedEncrypted.startsWith('#group:')) {
+      if (normalizedEncrypted.startsWith('group:') || normalizedEncrypted.startsWith('#group:') || isEnvelope(normalizedEncrypted)) {
         logger.debug('[MIGRATION] Found potential group message in encryptedContent:', msg.id.substring(0, 20), 'encrypted preview:', normalizedEncrypted.substring(0, 50));
         parsed = parseGroupMessageMemo(normalizedEncrypted);
         isGroupMessage = parsed?.isGroupMessage ?? false;
@@ -1063,6 +1455,8 @@ export async function migrateGroupMessages(username: string): Promise<number> {
         txIds: [msg.txId],
         confirmed: msg.confirmed ?? true,
         status: 'confirmed',
+        clientMessageId: parsed.clientMessageId,
+        replyTo: parsed.replyTo,
       };
       
       groupMessagesToAdd.push(groupMessage);
@@ -1200,6 +1594,7 @@ export type {
   ConversationCache, 
   DecryptedMemoCache, 
   CustomJsonMessage,
+  ChunkUploadJournal,
   GroupConversationCache,
   GroupMessageCache,
   GroupManifestPointer
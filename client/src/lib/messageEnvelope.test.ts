@@ -0,0 +1,169 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeEnvelope, encodeReplyMemo, decodeEnvelope, isEnvelope, ENVELOPE_PREFIX, ENVELOPE_VERSION } from './messageEnvelope';
+import { parseGroupMessageMemo } from './groupBlockchain';
+
+describe('message envelopes', () => {
+  it('round-trips a text envelope', () => {
+    const memo = encodeEnvelope({ type: 'text', content: 'hello', replyTo: 'abc123', clientMessageId: 'c-1' });
+
+    assert.ok(memo.startsWith(ENVELOPE_PREFIX));
+    assert.deepEqual(decodeEnvelope(memo), {
+      type: 'text',
+      version: ENVELOPE_VERSION,
+      content: 'hello',
+      groupId: undefined,
+      creator: undefined,
+      replyTo: 'abc123',
+      clientMessageId: 'c-1',
+    });
+  });
+
+  it('round-trips group envelopes whose fields contain delimiters', () => {
+    const input = {
+      type: 'group' as const,
+      groupId: 'team:alpha',
+      creator: 'alice',
+      content: 'group:fake:mallory:hi: "quoted" \n and # more',
+    };
+
+    const decoded = decodeEnvelope(encodeEnvelope(input));
+    assert.equal(decoded?.type, 'group');
+    assert.equal(decoded?.groupId, input.groupId);
+    assert.equal(decoded?.creator, input.creator);
+    assert.equal(decoded?.content, input.content);
+  });
+
+  it('accepts the # Keychain leaves on decrypted memos', () => {
+    const memo = `#${encodeEnvelope({ type: 'text', content: 'hi' })}`;
+
+    assert.equal(isEnvelope(memo), true);
+    assert.equal(decodeEnvelope(memo)?.content, 'hi');
+  });
+
+  it('refuses to encode a group envelope without a groupId', () => {
+    assert.throws(() => encodeEnvelope({ type: 'group', content: 'hi' }), /groupId/);
+  });
+
+  it('does not treat legacy or plain memos as envelopes', () => {
+    for (const memo of ['group:g1:alice:hello', '#group:g1:hello', 'just text', '']) {
+      assert.equal(isEnvelope(memo), false);
+      assert.equal(decodeEnvelope(memo), null);
+    }
+  });
+
+  it('returns null for malformed envelopes', () => {
+    const malformed = [
+      'hm:',
+      'hm:{not json',
+      'hm:null',
+      'hm:"text"',
+      'hm:{"t":"x","m":"no version"}',
+      'hm:{"v":1,"t":"x"}',
+      'hm:{"v":1,"t":"x","m":42}',
+      'hm:{"v":1,"t":"?","m":"unknown type"}',
+      'hm:{"v":1,"t":"g","m":"group without id"}',
+      'hm:{"v":1,"t":"g","g":"","m":"empty group id"}',
+    ];
+
+    for (const memo of malformed) {
+      assert.equal(decodeEnvelope(memo), null, memo);
+    }
+  });
+
+  it('reads the reply link trailing a reply memo', () => {
+    const memo = `#${encodeReplyMemo('sounds good\nsee you at 5', 'abc123')}`;
+
+    assert.equal(isEnvelope(memo), true);
+    assert.equal(decodeEnvelope(memo)?.content, 'sounds good\nsee you at 5');
+    assert.equal(decodeEnvelope(memo)?.replyTo, 'abc123');
+  });
+
+  it('leaves text ending in something envelope-like alone', () => {
+    for (const memo of ['look:\nhm:', 'ok\nhm:{"v":1,"t":"x","m":"not a reply suffix"}', 'ok\nhm:{"v":1,"t":"g","g":"g1","m":""}']) {
+      assert.equal(isEnvelope(memo), false, memo);
+      assert.equal(decodeEnvelope(memo), null, memo);
+    }
+  });
+
+  it('ignores unknown fields and empty optional values', () => {
+    const decoded = decodeEnvelope('hm:{"v":2,"t":"x","m":"hi","r":"","z":"future"}');
+
+    assert.equal(decoded?.version, 2);
+    assert.equal(decoded?.replyTo, undefined);
+    assert.equal('z' in (decoded ?? {}), false);
+  });
+});
+
+describe('parseGroupMessageMemo', () => {
+  before(() => {
+    // The parser logs which format it saw; keep test output readable
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it('reads group envelopes and unwraps text envelopes', () => {
+    const group = parseGroupMessageMemo(encodeEnvelope({ type: 'group', groupId: 'g1', creator: 'alice', content: 'hi', replyTo: 'tx1' }));
+    assert.deepEqual(group, {
+      isGroupMessage: true,
+      groupId: 'g1',
+      creator: 'alice',
+      content: 'hi',
+      replyTo: 'tx1',
+      clientMessageId: undefined,
+    });
+
+    const text = parseGroupMessageMemo(encodeEnvelope({ type: 'text', content: 'direct' }));
+    assert.equal(text?.isGroupMessage, false);
+    assert.equal(text?.content, 'direct');
+  });
+
+  it('reads legacy group: memos with and without a creator', () => {
+    assert.deepEqual(parseGroupMessageMemo('#group:g1:alice:hello: world'), {
+      isGroupMessage: true,
+      groupId: 'g1',
+      creator: 'alice',
+      content: 'hello: world',
+    });
+
+    // The oldest format has no creator slot; content with ":" must not be mistaken for one
+    assert.deepEqual(parseGroupMessageMemo('group:g1:Note: see above'), {
+      isGroupMessage: true,
+      groupId: 'g1',
+      creator: undefined,
+      content: 'Note: see above',
+    });
+  });
+
+  it('returns null for malformed group memos instead of throwing', () => {
+    assert.equal(parseGroupMessageMemo('group:g1'), null);
+    assert.equal(parseGroupMessageMemo('group::hello'), null);
+    assert.equal(parseGroupMessageMemo('group:g1:alice:'), null);
+    assert.equal(parseGroupMessageMemo('hm:{"v":1,"t":"g","m":"no group"}'), null);
+  });
+
+  it('reads reply memos as direct messages with their reply link', () => {
+    const parsed = parseGroupMessageMemo(`#${encodeReplyMemo('sounds good', 'abc123')}`);
+
+    assert.equal(parsed?.isGroupMessage, false);
+    assert.equal(parsed?.content, 'sounds good');
+    assert.equal(parsed?.replyTo, 'abc123');
+  });
+
+  it('shows the reply text on clients without the envelope parser', () => {
+    // What clients before envelopes render: the decrypted memo minus Keychain's #
+    const legacyDisplay = (decrypted: string) => decrypted.startsWith('#') ? decrypted.substring(1) : decrypted;
+    const shown = legacyDisplay(`#${encodeReplyMemo('sounds good', 'abc123')}`);
+
+    assert.equal(shown.split('\n')[0], 'sounds good');
+    assert.equal(shown.startsWith(ENVELOPE_PREFIX), false);
+  });
+
+  it('passes plain memos through as direct messages', () => {
+    assert.deepEqual(parseGroupMessageMemo('hello there'), { isGroupMessage: false });
+  });
+});
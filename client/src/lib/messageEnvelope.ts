@@ -0,0 +1,152 @@
+/**
+ * Versioned envelope for memo payloads
+ *
+ * Wire format: `hm:` followed by compact JSON with short keys, e.g.
+ *   hm:{"v":1,"t":"g","g":"<groupId>","c":"alice","i":"<clientId>","m":"hello: world"}
+ *
+ * Unlike the legacy `group:{groupId}:{creator}:{content}` strings, fields are
+ * never split on delimiters, so content (and IDs) may contain any characters.
+ *
+ * Direct replies put the plain text first and an envelope holding only the reply
+ * link on the last line (see encodeReplyMemo), so clients without this parser
+ * still show the text.
+ * Kept dependency-free so the server can import it too.
+ *
+ * @module messageEnvelope
+ */
+
+export const ENVELOPE_PREFIX = 'hm:';
+export const ENVELOPE_VERSION = 1;
+
+// Separates plain text from a trailing envelope
+const SUFFIX_SEPARATOR = '\n';
+
+export type EnvelopeType = 'text' | 'group';
+
+export interface MessageEnvelope {
+  type: EnvelopeType;
+  version: number;
+  content: string;
+  groupId?: string;          // Required for type "group"
+  creator?: string;          // Group creator (enables group metadata discovery)
+  replyTo?: string;          // txId (or client id) of the message being replied to
+  clientMessageId?: string;  // Sender-generated id for optimistic updates / dedup
+}
+
+export type EnvelopeInput = Omit<MessageEnvelope, 'version'>;
+
+// Compact wire representation - keep keys short, memos are limited to ~2KB
+interface WireEnvelope {
+  v: number;
+  t: string;
+  m: string;
+  g?: string;
+  c?: string;
+  r?: string;
+  i?: string;
+}
+
+const TYPE_CODES: Record<EnvelopeType, string> = {
+  text: 'x',
+  group: 'g',
+};
+
+const TYPES_BY_CODE: Record<string, EnvelopeType> = Object.fromEntries(
+  Object.entries(TYPE_CODES).map(([type, code]) => [code, type as EnvelopeType])
+);
+
+/**
+ * Serialize an envelope to a memo string (before encryption)
+ */
+export function encodeEnvelope(envelope: EnvelopeInput): string {
+  if (envelope.type === 'group' && !envelope.groupId) {
+    throw new Error('Group envelopes require a groupId');
+  }
+
+  const wire: WireEnvelope = {
+    v: ENVELOPE_VERSION,
+    t: TYPE_CODES[envelope.type],
+    m: envelope.content,
+  };
+  if (envelope.groupId) wire.g = envelope.groupId;
+  if (envelope.creator) wire.c = envelope.creator;
+  if (envelope.replyTo) wire.r = envelope.replyTo;
+  if (envelope.clientMessageId) wire.i = envelope.clientMessageId;
+
+  return ENVELOPE_PREFIX + JSON.stringify(wire);
+}
+
+/**
+ * Memo for a reply: the text, then an envelope carrying only the reply link
+ */
+export function encodeReplyMemo(content: string, replyTo: string): string {
+  return content + SUFFIX_SEPARATOR + encodeEnvelope({ type: 'text', content: '', replyTo });
+}
+
+/**
+ * Strip the leading # Keychain sometimes leaves on decrypted memos
+ */
+function stripMemoPrefix(memo: string): string {
+  const trimmed = memo.trim();
+  return trimmed.startsWith('#') ? trimmed.substring(1) : trimmed;
+}
+
+/**
+ * Envelope trailing plain text (a reply memo), with the text as its content
+ */
+function decodeEnvelopeSuffix(memo: string): MessageEnvelope | null {
+  const separatorIndex = memo.lastIndexOf(SUFFIX_SEPARATOR + ENVELOPE_PREFIX);
+  if (separatorIndex < 0) return null;
+
+  const suffix = parseEnvelope(memo.substring(separatorIndex + SUFFIX_SEPARATOR.length));
+  if (!suffix || suffix.type !== 'text' || suffix.content !== '') return null;
+
+  return { ...suffix, content: memo.substring(0, separatorIndex) };
+}
+
+export function isEnvelope(memo: string): boolean {
+  const clean = stripMemoPrefix(memo);
+  return clean.startsWith(ENVELOPE_PREFIX) || decodeEnvelopeSuffix(clean) !== null;
+}
+
+/**
+ * Parse a decrypted memo: a whole-memo envelope or text with a trailing one
+ * @returns null if the memo is not an envelope or is malformed
+ */
+export function decodeEnvelope(memo: string): MessageEnvelope | null {
+  const clean = stripMemoPrefix(memo);
+  return clean.startsWith(ENVELOPE_PREFIX) ? parseEnvelope(clean) : decodeEnvelopeSuffix(clean);
+}
+
+function parseEnvelope(clean: string): MessageEnvelope | null {
+  let wire: Partial<WireEnvelope>;
+  try {
+    wire = JSON.parse(clean.substring(ENVELOPE_PREFIX.length));
+  } catch {
+    return null;
+  }
+
+  if (!wire || typeof wire !== 'object' || typeof wire.v !== 'number' || typeof wire.m !== 'string') {
+    return null;
+  }
+
+  // Newer minor additions are ignored; unknown types can't be rendered safely
+  const type = typeof wire.t === 'string' ? TYPES_BY_CODE[wire.t] : undefined;
+  if (!type) return null;
+
+  const optionalString = (value: unknown) => (typeof value === 'string' && value.length > 0 ? value : undefined);
+
+  const envelope: MessageEnvelope = {
+    type,
+    version: wire.v,
+    content: wire.m,
+    groupId: optionalString(wire.g),
+    creator: optionalString(wire.c),
+    replyTo: optionalString(wire.r),
+    clientMessageId: optionalString(wire.i),
+  };
+
+  if (type === 'group' && !envelope.groupId) return null;
+
+  return envelope;
+}
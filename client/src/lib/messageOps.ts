@@ -0,0 +1,248 @@
+import { getAccountHistory, normalizeHiveTimestamp, requestEncode, extractTransactionId } from './hive';
+import { logger } from './logger';
+
+/**
+ * Sender-signed edit and retract (delete-for-everyone) operations
+ *
+ * Memos are permanent on chain; these custom_json operations ask clients to show
+ * a newer version of a message, or a "message deleted" tombstone instead.
+ * Wire format:
+ *   { v: 1, a: "edit" | "retract", t: targetId, to?: recipient, g?: groupId, c?: content }
+ *
+ * - `t` is the message's txId (direct chats) or client message id (groups)
+ * - `c` (edits only) is the new text memo-encrypted for `to`, or for groups a
+ *   map of member -> encrypted text
+ * - Operations only apply when signed by the original sender (checked against the
+ *   cached message in messageCache.ts)
+ *
+ * @module messageOps
+ */
+
+export const MESSAGE_OP_CUSTOM_JSON_ID = 'hive-messenger-msgop';
+
+export type MessageOpAction = 'edit' | 'retract';
+
+interface MessageOpPayload {
+  v: number;
+  a: MessageOpAction;
+  t: string;
+  to?: string;
+  g?: string;
+  c?: string | Record<string, string>;
+}
+
+/**
+ * An edit/retract operation as cached in IndexedDB (keyed by txId)
+ */
+export interface MessageOpRecord {
+  txId: string;
+  action: MessageOpAction;
+  target: string;
+  sender: string;                  // Signer - must match the original message's sender
+  counterparty?: string;           // Other party of a direct chat (for decryption)
+  groupId?: string;
+  content?: string;                // Decrypted edit text
+  encryptedContent?: string;       // Edit text encrypted for the current user
+  timestamp: string;
+}
+
+/**
+ * Effective state of a message after its (verified) operations
+ */
+export interface MessageOpState {
+  retracted: boolean;
+  edited: boolean;
+  content?: string;                // Latest edit text, if decrypted
+  pendingEditTxId?: string;        // Latest edit still encrypted
+  editedAt?: string;
+}
+
+export const RETRACTED_MESSAGE_PREVIEW = 'Message deleted';
+
+/**
+ * Turn a custom_json operation into a cache record
+ * @returns null if malformed or not readable by the current user
+ */
+export function parseMessageOperation(
+  op: { required_posting_auths?: string[]; required_auths?: string[] },
+  json: unknown,
+  txId: string,
+  timestamp: string,
+  currentUser: string
+): MessageOpRecord | null {
+  const payload = json as Partial<MessageOpPayload>;
+  const sender = op.required_posting_auths?.[0] || op.required_auths?.[0];
+
+  if (!sender || !payload || payload.v !== 1 || typeof payload.t !== 'string') {
+    return null;
+  }
+  if (payload.a !== 'edit' && payload.a !== 'retract') {
+    return null;
+  }
+  if (!payload.to && !payload.g) {
+    return null;
+  }
+
+  const record: MessageOpRecord = {
+    txId,
+    action: payload.a,
+    target: payload.t,
+    sender,
+    counterparty: payload.to ? (sender === currentUser ? payload.to : sender) : undefined,
+    groupId: payload.g,
+    timestamp,
+  };
+
+  if (payload.a === 'edit') {
+    const content = typeof payload.c === 'string'
+      ? payload.c
+      : payload.c?.[currentUser];
+    if (typeof content !== 'string') {
+      return null;
+    }
+    record.encryptedContent = content;
+  }
+
+  return record;
+}
+
+/**
+ * Whether a streamed operation concerns the current user
+ * Group operations are checked against the cached groups by the caller
+ */
+export function isMessageOpForUser(op: any, json: any, username: string): boolean {
+  const auths = [...(op.required_auths || []), ...(op.required_posting_auths || [])];
+  return auths.includes(username) || json?.to === username || !!json?.g;
+}
+
+/**
+ * Broadcast an edit or retract operation for one of our messages
+ * Edit text is encrypted for every recipient (one Keychain prompt each)
+ * @returns the operation's txId
+ */
+export async function broadcastMessageOp(params: {
+  username: string;
+  action: MessageOpAction;
+  target: string;
+  content?: string;
+  to?: string;
+  groupId?: string;
+  groupMembers?: string[];
+}): Promise<string> {
+  const { username, action, target, content, to, groupId, groupMembers } = params;
+
+  const payload: MessageOpPayload = { v: 1, a: action, t: target };
+  if (to) payload.to = to;
+  if (groupId) payload.g = groupId;
+
+  if (action === 'edit') {
+    if (!content) {
+      throw new Error('Edit requires the new message text');
+    }
+
+    if (to) {
+      payload.c = (await requestEncode(username, to, `#${content}`, 'Memo')).result;
+    } else {
+      const encrypted: Record<string, string> = {};
+      for (const member of groupMembers || []) {
+        encrypted[member] = (await requestEncode(username, member, `#${content}`, 'Memo')).result;
+      }
+      payload.c = encrypted;
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    if (!window.hive_keychain) {
+      reject(new Error('Hive Keychain not installed'));
+      return;
+    }
+
+    window.hive_keychain.requestCustomJson(
+      username,
+      MESSAGE_OP_CUSTOM_JSON_ID,
+      'Posting',
+      JSON.stringify(payload),
+      action === 'edit' ? 'Edit message' : 'Delete message for everyone',
+      (response: any) => {
+        if (response.success) {
+          const txId = extractTransactionId(response.result);
+          logger.info('[MESSAGE OPS] ✅', action, 'broadcast:', txId);
+          resolve(txId);
+        } else {
+          logger.error('[MESSAGE OPS] ❌', action, 'broadcast failed:', response.message);
+          reject(new Error(response.message || `Failed to broadcast ${action}`));
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Fetch edit/retract operations from the recent custom_json history of the given accounts
+ */
+export async function fetchMessageOpHistory(
+  accounts: string[],
+  currentUser: string,
+  limit: number = 200
+): Promise<MessageOpRecord[]> {
+  const histories = await Promise.all(
+    accounts.map(account => getAccountHistory(account, limit, 'custom_json'))
+  );
+
+  const records: MessageOpRecord[] = [];
+
+  for (const history of histories) {
+    for (const [, entry] of history) {
+      const [opType, opData] = entry.op;
+      if (opType !== 'custom_json' || opData.id !== MESSAGE_OP_CUSTOM_JSON_ID) continue;
+
+      let json: unknown;
+      try {
+        json = typeof opData.json === 'string' ? JSON.parse(opData.json) : opData.json;
+      } catch {
+        continue;
+      }
+
+      const record = parseMessageOperation(
+        opData,
+        json,
+        entry.trx_id,
+        normalizeHiveTimestamp(entry.timestamp),
+        currentUser
+      );
+      if (record) {
+        records.push(record);
+      }
+    }
+  }
+
+  logger.info('[MESSAGE OPS] Fetched', records.length, 'operations from', accounts.length, 'accounts');
+  return records;
+}
+
+/**
+ * Fold the operations of one message into its effective state
+ * Operations not signed by the original sender are ignored; a retraction wins over any edit
+ */
+export function resolveMessageOps(originalSender: string, ops: MessageOpRecord[]): MessageOpState {
+  const verified = ops
+    .filter(op => op.sender === originalSender)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  if (verified.some(op => op.action === 'retract')) {
+    return { retracted: true, edited: false };
+  }
+
+  const latestEdit = verified.filter(op => op.action === 'edit').pop();
+  if (!latestEdit) {
+    return { retracted: false, edited: false };
+  }
+
+  return {
+    retracted: false,
+    edited: true,
+    content: latestEdit.content,
+    pendingEditTxId: latestEdit.content === undefined ? latestEdit.txId : undefined,
+    editedAt: latestEdit.timestamp,
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Message, MessagePage } from '@shared/schema';
+import { fetchMessagePage, flattenMessagePages, getOlderPageCursor, getOlderServerMessages } from './messagePages';
+
+function message(index: number, overrides: Partial<Message> = {}): Message {
+  return {
+    id: String(index),
+    conversationId: '7',
+    sender: 'alice',
+    recipient: 'bob',
+    content: `#encrypted-${index}`,
+    encryptedMemo: `#encrypted-${index}`,
+    timestamp: new Date(Date.UTC(2025, 0, 1, 0, index)).toISOString(),
+    status: 'confirmed',
+    trxId: `tx-${index}`,
+    isEncrypted: true,
+    ...overrides,
+  };
+}
+
+/**
+ * Stands in for the messages route: newest page first, cursors are message indexes
+ */
+function serveHistory(history: Message[]) {
+  const requests: URL[] = [];
+
+  mock.method(globalThis, 'fetch', async (input: string) => {
+    const url = new URL(input, 'http://localhost');
+    requests.push(url);
+
+    const limit = Number(url.searchParams.get('limit'));
+    const before = url.searchParams.get('before');
+    const end = before === null ? history.length : Number(before.replace('cursor-', ''));
+    const start = Math.max(0, end - limit);
+    const messages = history.slice(start, end);
+
+    const page: MessagePage = {
+      messages,
+      startCursor: messages.length > 0 ? `cursor-${start}` : null,
+      endCursor: messages.length > 0 ? `cursor-${end - 1}` : null,
+      hasMore: start > 0,
+    };
+    return new Response(JSON.stringify(page), { status: 200 });
+  });
+
+  return requests;
+}
+
+describe('message pages', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('hands each page\'s start cursor to the request for the page before it', async () => {
+    const history = Array.from({ length: 5 }, (_, i) => message(i));
+    const requests = serveHistory(history);
+
+    // What useInfiniteQuery does: start without a cursor, stop when there is no older page
+    const pages: MessagePage[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await fetchMessagePage('token', '7', cursor, { pageSize: 2 });
+      pages.push(page);
+      cursor = getOlderPageCursor(page);
+    } while (cursor);
+
+    assert.deepEqual(requests.map(url => url.searchParams.get('before')), [null, 'cursor-3', 'cursor-1']);
+    assert.deepEqual(flattenMessagePages(pages).map(m => m.id), ['0', '1', '2', '3', '4']);
+  });
+
+  it('sends filters and the bearer token', async () => {
+    const requests = serveHistory([message(0)]);
+
+    await fetchMessagePage('token', 'a/b', null, { pageSize: 10, status: ['sent', 'confirmed'], sender: 'alice' });
+
+    assert.equal(requests[0].pathname, '/api/conversations/a%2Fb/messages');
+    assert.equal(requests[0].searchParams.get('status'), 'sent,confirmed');
+    assert.equal(requests[0].searchParams.get('sender'), 'alice');
+    const [, init] = (globalThis.fetch as any).mock.calls[0].arguments;
+    assert.equal(init.headers.Authorization, 'Bearer token');
+  });
+
+  it('surfaces the server error message', async () => {
+    mock.method(globalThis, 'fetch', async () =>
+      new Response(JSON.stringify({ message: 'before must be a cursor returned by a previous page' }), { status: 400 })
+    );
+
+    await assert.rejects(fetchMessagePage('token', '7', 'bogus', { pageSize: 2 }), /before must be a cursor/);
+  });
+
+  it('only adds server messages the chain query has not shown', () => {
+    const shown = [{ ...message(2), id: 'tx-2' }];
+    const older = getOlderServerMessages(shown, [
+      message(1, { decryptedContent: 'sent by me' }),
+      message(2),
+      message(3, { trxId: undefined }),
+    ]);
+
+    assert.deepEqual(older.map(m => [m.id, m.content]), [
+      ['tx-1', 'sent by me'],
+      ['3', '[🔒 Encrypted - Click to decrypt]'],
+    ]);
+  });
+});
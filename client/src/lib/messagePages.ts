@@ -0,0 +1,73 @@
+import type { Message, MessagePage } from '@shared/schema';
+import { serverFetch } from './serverSession';
+
+/**
+ * Client side of the server's cursor-paginated message history
+ *
+ * GET /api/conversations/:conversationId/messages returns pages in ascending
+ * (timestamp, id) order. The first page is the newest messages; each older page
+ * is requested with `before` set to the previous page's startCursor.
+ *
+ * @module messagePages
+ */
+
+export interface MessagePageFilters {
+  pageSize: number;
+  status?: Message['status'][];
+  sender?: string;
+}
+
+/**
+ * Fetch one page, older than `before` (the newest page without it)
+ *
+ * @throws Error with the server's message on non-2xx responses
+ */
+export function fetchMessagePage(
+  sessionToken: string,
+  conversationId: string,
+  before: string | null,
+  filters: MessagePageFilters
+): Promise<MessagePage> {
+  const params = new URLSearchParams({ limit: String(filters.pageSize) });
+  if (before) params.set('before', before);
+  if (filters.status && filters.status.length > 0) params.set('status', filters.status.join(','));
+  if (filters.sender) params.set('sender', filters.sender);
+
+  return serverFetch<MessagePage>(
+    sessionToken,
+    `/api/conversations/${encodeURIComponent(conversationId)}/messages?${params.toString()}`
+  );
+}
+
+/**
+ * Cursor for the page before this one, or null when history is exhausted
+ */
+export function getOlderPageCursor(page: MessagePage): string | null {
+  return page.hasMore ? page.startCursor : null;
+}
+
+/**
+ * Pages in load order (newest page first) flattened oldest-first
+ */
+export function flattenMessagePages(pages: MessagePage[]): Message[] {
+  return pages.slice().reverse().flatMap(page => page.messages);
+}
+
+/**
+ * Server history the chain query has not loaded, ready for display
+ *
+ * Messages already shown (matched by txId) are dropped. The server stores the
+ * encrypted memo, so the rest show the decrypt placeholder unless the server kept
+ * the sender's plaintext.
+ */
+export function getOlderServerMessages(shown: Message[], serverMessages: Message[]): Message[] {
+  const shownIds = new Set(shown.flatMap(message => [message.id, message.trxId].filter(Boolean)));
+
+  return serverMessages
+    .filter(message => !shownIds.has(message.trxId || message.id))
+    .map(message => ({
+      ...message,
+      id: message.trxId || message.id,
+      content: message.decryptedContent || '[🔒 Encrypted - Click to decrypt]',
+    }));
+}
@@ -0,0 +1,321 @@
+import { requestTransfer, extractTransactionId } from './hive';
+import {
+  cacheMessage,
+  getConversation,
+  updateConversation,
+  getConversationKey,
+  addOptimisticGroupMessage,
+  confirmGroupMessage,
+  removeOptimisticGroupMessage,
+  getGroupConversation,
+  cacheGroupConversation,
+  getLatestGroupKey,
+} from './messageCache';
+import { formatGroupMessageMemo, broadcastGroupMessage, lookupGroupMetadata } from './groupBlockchain';
+import { encryptWithGroupKey, isGroupKeyCurrent } from './groupKeys';
+import { encodeReplyMemo } from './messageEnvelope';
+import { checkSufficientRC } from './rcEstimation';
+import { DEFAULT_MINIMUM_HBD } from './accountMetadata';
+import { queryClient } from './queryClient';
+import { logger } from './logger';
+
+/**
+ * Text message send paths shared by the composer and the message scheduler
+ *
+ * A direct message is one encrypted transfer to the partner; a group message is
+ * a single custom_json encrypted with the shared group key when the sender holds
+ * a current one (see groupKeys.ts), and one encrypted transfer per member
+ * otherwise. Both cache the sent message optimistically
+ * so it shows up before the blockchain poll picks it up. Toasts and other UI
+ * feedback are left to the caller.
+ *
+ * @module messageSending
+ */
+
+// Rough RC cost of one memo transfer
+export const ESTIMATED_RC_PER_TRANSFER = 200000000;
+
+export interface DirectMessageRequest {
+  from: string;
+  to: string;
+  content: string;
+  amount: string;                  // HBD, e.g. "0.001"
+  replyTo?: string;
+}
+
+/**
+ * Send a direct message as an encrypted transfer
+ *
+ * @returns Transaction ID
+ * @throws Whatever Keychain rejected with (cancel, RC, balance, ...)
+ */
+export async function sendDirectMessage({ from, to, content, amount, replyTo }: DirectMessageRequest): Promise<string> {
+  // Replies keep the text first so older clients still show it; the reply link trails it
+  const memoBody = replyTo ? encodeReplyMemo(content, replyTo) : content;
+  // Keychain auto-encrypts memos starting with #
+  const memoToEncrypt = `#${memoBody}`;
+
+  logger.info('[SEND] Single-step send (# prefix auto-encrypts):', { from, to, amount });
+
+  const transfer = await requestTransfer(from, to, amount, memoToEncrypt, 'HBD');
+
+  logger.info('[SEND] Transfer response:', {
+    success: transfer.success,
+    message: transfer.message,
+    error: transfer.error
+  });
+
+  if (!transfer.success) {
+    throw new Error(transfer.message || 'Transfer failed');
+  }
+
+  const txId = extractTransactionId(transfer.result);
+  logger.info('[SEND] ✅ Message sent, txId:', txId);
+
+  // OPTIMISTIC UPDATE: Cache sent message locally for instant display
+  try {
+    const conversationKey = getConversationKey(from, to);
+    const timestamp = new Date().toISOString();
+
+    await cacheMessage({
+      id: txId,
+      conversationKey,
+      from,
+      to,
+      content, // Store decrypted text for immediate display
+      encryptedContent: memoToEncrypt, // Store with # prefix (Keychain auto-encrypted)
+      timestamp,
+      txId,
+      confirmed: false, // Not yet confirmed on blockchain
+      isDecrypted: true, // We know the content (we just sent it)
+      amount: `${amount} HBD`,
+      replyTo,
+    }, from);
+
+    // Only touch lastMessage and lastTimestamp - preserve lastChecked and unreadCount
+    const existingConv = await getConversation(from, to);
+    const conversationUpdate = existingConv ? {
+      ...existingConv,
+      lastMessage: content,
+      lastTimestamp: timestamp,
+    } : {
+      conversationKey,
+      partnerUsername: to,
+      lastMessage: content,
+      lastTimestamp: timestamp,
+      unreadCount: 0,
+      lastChecked: timestamp, // First message = "seen" at send time
+    };
+
+    await updateConversation(conversationUpdate, from);
+
+    queryClient.invalidateQueries({
+      queryKey: ['blockchain-messages', from, to]
+    });
+    queryClient.invalidateQueries({
+      queryKey: ['blockchain-conversations', from]
+    });
+
+    logger.info('[SEND] ✅ Optimistically cached sent message:', txId.substring(0, 16));
+  } catch (cacheError) {
+    // Don't fail the send if caching fails - polling will pick it up
+    logger.error('[SEND] Failed to cache optimistic message:', {
+      error: cacheError instanceof Error ? cacheError.message : String(cacheError),
+      stack: cacheError instanceof Error ? cacheError.stack : undefined
+    });
+  }
+
+  return txId;
+}
+
+export interface GroupMessageRequest {
+  from: string;
+  groupId: string;
+  groupCreator?: string;           // Included for metadata discovery (defaults to sender)
+  members: string[];
+  content: string;
+  replyTo?: string;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface GroupSendResult {
+  txIds: string[];
+  failedRecipients: string[];      // Attempted but failed (RC likely consumed)
+  remainingRecipients: string[];   // Never attempted because RC ran out
+  attemptedCount: number;
+  rcDepleted: boolean;
+  cancelled: boolean;              // User cancelled in Keychain - the message was rolled back
+  sharedKey: boolean;              // Sent once with the group key - txIds holds the single broadcast
+  recipientCount: number;          // Members the message was meant for (excluding the sender)
+}
+
+/**
+ * Send a group message - once with the shared group key when possible, otherwise
+ * as one encrypted transfer per member
+ *
+ * Per-member sends stop early when RC drops below 10%. The optimistic message is
+ * rolled back if the user cancels in Keychain or nothing could be attempted.
+ */
+export async function sendGroupMessage({
+  from,
+  groupId,
+  groupCreator,
+  members,
+  content,
+  replyTo,
+  onProgress,
+}: GroupMessageRequest): Promise<GroupSendResult> {
+  // Step 1: Generate tempId and wrap message in a group envelope (includes creator for discovery)
+  const tempId = crypto.randomUUID();
+  const creator = groupCreator || from; // Fallback to sender if creator unknown
+  const formattedMessage = formatGroupMessageMemo(groupId, creator, content, { clientMessageId: tempId, replyTo });
+
+  logger.info('[GROUP SEND] Starting batch send:', {
+    groupId,
+    creator,
+    memberCount: members.length,
+    tempId,
+  });
+
+  // Step 2: Add optimistic message to cache
+  await addOptimisticGroupMessage(groupId, from, members, content, formattedMessage, tempId, from, replyTo);
+
+  // Step 3: Encrypt and send to each member
+  const result: GroupSendResult = {
+    txIds: [],
+    failedRecipients: [],
+    remainingRecipients: [],
+    attemptedCount: 0,
+    rcDepleted: false,
+    cancelled: false,
+    sharedKey: false,
+    recipientCount: members.filter(m => m !== from).length,
+  };
+  let completedAttempts = 0; // Track actual completed attempts (success or failure)
+  const totalRecipients = result.recipientCount;
+
+  // Step 3a: A key every current member holds (and nobody else) needs just one broadcast
+  // The key is picked by the group's reduced version, so a stored key claiming a newer version is never used
+  const group = await lookupGroupMetadata(groupId, creator);
+  const groupKey = group ? await getLatestGroupKey(groupId, group.version, from) : undefined;
+  if (groupKey && totalRecipients > 0 && isGroupKeyCurrent(groupKey, members)) {
+    logger.info('[GROUP SEND] Using shared group key v' + groupKey.version);
+    result.sharedKey = true;
+    result.attemptedCount = 1;
+
+    try {
+      const ciphertext = await encryptWithGroupKey(groupKey.key, formattedMessage);
+      const txId = await broadcastGroupMessage(from, groupId, groupKey.version, ciphertext);
+      result.txIds.push(txId);
+      onProgress?.(totalRecipients, totalRecipients);
+      logger.info('[GROUP SEND] ✅ Broadcast to', totalRecipients, 'members - txId:', txId);
+    } catch (error: any) {
+      const errorMessage = (error?.message || String(error)).toLowerCase();
+
+      if (errorMessage.includes('cancel') || errorMessage.includes('denied') || errorMessage.includes('abort')) {
+        logger.warn('[GROUP SEND] User cancelled shared-key broadcast, rolling back');
+        await removeOptimisticGroupMessage(tempId, from);
+        result.cancelled = true;
+        return result;
+      }
+
+      result.failedRecipients = members.filter(m => m !== from);
+      logger.error('[GROUP SEND] ❌ Shared-key broadcast failed:', error);
+    }
+  }
+
+  for (let i = 0; i < members.length && !result.sharedKey; i++) {
+    const member = members[i];
+
+    // Skip sending to yourself
+    if (member === from) {
+      continue;
+    }
+
+    // Per-send RC validation: Check RC before EACH individual send
+    try {
+      const { percentage } = await checkSufficientRC(from, ESTIMATED_RC_PER_TRANSFER);
+
+      // If RC drops below 10% during batch, stop sending
+      if (percentage < 10) {
+        logger.warn('[GROUP SEND] RC critically low mid-batch, stopping sends');
+        result.rcDepleted = true;
+
+        // Remaining members were not attempted (no RC consumed)
+        result.remainingRecipients = members.slice(i).filter(m => m !== from);
+        break;
+      }
+
+      if (percentage < 30) {
+        logger.warn('[GROUP SEND] Low RC mid-batch:', percentage.toFixed(1) + '%');
+      }
+    } catch (rcError) {
+      logger.warn('[GROUP SEND] Could not check RC for member:', member, rcError);
+      // Don't block if RC check fails
+    }
+
+    // Mark as attempted (transfer will be attempted, RC may be consumed)
+    result.attemptedCount++;
+
+    try {
+      // Single Keychain call - Keychain auto-encrypts memos starting with #
+      const transfer = await requestTransfer(from, member, DEFAULT_MINIMUM_HBD, `#${formattedMessage}`, 'HBD');
+
+      if (transfer.success && transfer.result) {
+        const txId = extractTransactionId(transfer.result);
+        result.txIds.push(txId);
+        logger.info('[GROUP SEND] ✅ Sent to', member, '- txId:', txId);
+      } else {
+        result.failedRecipients.push(member);
+        logger.error('[GROUP SEND] ❌ Failed to send to', member);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      // User abort/cancellation rolls back the entire batch
+      const isUserAbort = errorMessage.toLowerCase().includes('cancel') ||
+                          errorMessage.toLowerCase().includes('denied') ||
+                          errorMessage.toLowerCase().includes('abort');
+
+      if (isUserAbort) {
+        logger.warn('[GROUP SEND] User cancelled, rolling back entire batch');
+        await removeOptimisticGroupMessage(tempId, from);
+        result.cancelled = true;
+        return result;
+      }
+
+      result.failedRecipients.push(member);
+      logger.error('[GROUP SEND] ❌ Error sending to', member, ':', error);
+    }
+
+    completedAttempts++;
+    onProgress?.(completedAttempts, totalRecipients);
+  }
+
+  // Step 4: Only rollback if NO attempts were made (no RC consumed)
+  if (result.attemptedCount === 0) {
+    logger.warn('[GROUP SEND] No attempts made, rolling back optimistic message');
+    await removeOptimisticGroupMessage(tempId, from);
+    return result;
+  }
+
+  // Step 5: Confirm the group message with results (all, some or none succeeded)
+  await confirmGroupMessage(tempId, result.txIds, result.failedRecipients, from);
+
+  // Step 6: Update group conversation cache with last message
+  const groupConv = await getGroupConversation(groupId, from);
+  if (groupConv) {
+    groupConv.lastMessage = content;
+    groupConv.lastTimestamp = new Date().toISOString();
+    await cacheGroupConversation(groupConv, from);
+  }
+
+  queryClient.invalidateQueries({
+    queryKey: ['blockchain-group-messages', from, groupId],
+  });
+  queryClient.invalidateQueries({
+    queryKey: ['blockchain-group-conversations', from],
+  });
+
+  return result;
+}
@@ -0,0 +1,250 @@
+import { getAccountHistory, normalizeHiveTimestamp, requestEncode, extractTransactionId } from './hive';
+import { logger } from './logger';
+
+/**
+ * Emoji reactions broadcast as custom_json operations
+ *
+ * Reacting costs only RC: no HBD transfer is involved. Wire format:
+ *   { v: 1, t: targetId, e: emoji, to?: recipient, g?: groupId, r?: 1 }
+ *
+ * - `t` is the reacted message's txId (direct chats) or client message id (groups)
+ * - Direct-chat reactions set `to` and carry the emoji memo-encrypted ("#...")
+ * - Group reactions set `g` and carry the emoji in plaintext
+ * - `r: 1` removes a previous reaction; the latest operation per reactor/emoji wins
+ *
+ * @module reactions
+ */
+
+export const REACTION_CUSTOM_JSON_ID = 'hive-messenger-react';
+
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+interface ReactionPayload {
+  v: number;
+  t: string;
+  e: string;
+  to?: string;
+  g?: string;
+  r?: 1;
+}
+
+/**
+ * A reaction as cached in IndexedDB
+ * Decrypted/plaintext reactions are keyed by target|reactor|emoji so later
+ * operations overwrite earlier ones; encrypted ones are keyed by txId until decrypted
+ */
+export interface ReactionRecord {
+  id: string;
+  target: string;
+  reactor: string;
+  emoji?: string;                  // Unset while still encrypted
+  encryptedEmoji?: string;         // Memo-encrypted emoji (direct chats)
+  counterparty?: string;           // Other party of a direct chat (for decryption)
+  groupId?: string;
+  active: boolean;                 // false once removed
+  timestamp: string;
+  txId: string;
+}
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reactors: string[];
+  reactedByMe: boolean;
+}
+
+export interface MessageReactions {
+  summaries: ReactionSummary[];
+  encryptedCount: number;          // Reactions not decrypted yet
+}
+
+export function getReactionRecordId(target: string, reactor: string, emoji: string): string {
+  return `${target}|${reactor}|${emoji}`;
+}
+
+/**
+ * Turn a custom_json operation into a cache record
+ * @returns null if the operation isn't a well-formed reaction
+ */
+export function parseReactionOperation(
+  op: { required_posting_auths?: string[]; required_auths?: string[] },
+  json: unknown,
+  txId: string,
+  timestamp: string,
+  currentUser: string
+): ReactionRecord | null {
+  const payload = json as Partial<ReactionPayload>;
+  const reactor = op.required_posting_auths?.[0] || op.required_auths?.[0];
+
+  if (!reactor || !payload || payload.v !== 1 || typeof payload.t !== 'string' || typeof payload.e !== 'string') {
+    return null;
+  }
+  if (!payload.to && !payload.g) {
+    return null;
+  }
+
+  const active = payload.r !== 1;
+  const counterparty = payload.to ? (reactor === currentUser ? payload.to : reactor) : undefined;
+
+  if (payload.e.startsWith('#')) {
+    return {
+      id: txId,
+      target: payload.t,
+      reactor,
+      encryptedEmoji: payload.e,
+      counterparty,
+      groupId: payload.g,
+      active,
+      timestamp,
+      txId,
+    };
+  }
+
+  return {
+    id: getReactionRecordId(payload.t, reactor, payload.e),
+    target: payload.t,
+    reactor,
+    emoji: payload.e,
+    counterparty,
+    groupId: payload.g,
+    active,
+    timestamp,
+    txId,
+  };
+}
+
+/**
+ * Whether a streamed reaction operation concerns the current user
+ * Group reactions are checked against the cached groups by the caller
+ */
+export function isReactionForUser(op: any, json: any, username: string): boolean {
+  const auths = [...(op.required_auths || []), ...(op.required_posting_auths || [])];
+  return auths.includes(username) || json?.to === username || !!json?.g;
+}
+
+/**
+ * Broadcast a reaction (or its removal)
+ * Direct-chat reactions are encrypted for `to` with the memo key first
+ * @returns the reaction operation's txId
+ */
+export async function broadcastReaction(params: {
+  username: string;
+  target: string;
+  emoji: string;
+  remove?: boolean;
+  to?: string;
+  groupId?: string;
+}): Promise<string> {
+  const { username, target, emoji, remove, to, groupId } = params;
+
+  let encodedEmoji = emoji;
+  if (to) {
+    const encoded = await requestEncode(username, to, `#${emoji}`, 'Memo');
+    encodedEmoji = encoded.result;
+  }
+
+  const payload: ReactionPayload = { v: 1, t: target, e: encodedEmoji };
+  if (to) payload.to = to;
+  if (groupId) payload.g = groupId;
+  if (remove) payload.r = 1;
+
+  return new Promise((resolve, reject) => {
+    if (!window.hive_keychain) {
+      reject(new Error('Hive Keychain not installed'));
+      return;
+    }
+
+    window.hive_keychain.requestCustomJson(
+      username,
+      REACTION_CUSTOM_JSON_ID,
+      'Posting',
+      JSON.stringify(payload),
+      remove ? 'Remove reaction' : 'React to message',
+      (response: any) => {
+        if (response.success) {
+          const txId = extractTransactionId(response.result);
+          logger.info('[REACTIONS] ✅ Reaction broadcast:', txId);
+          resolve(txId);
+        } else {
+          logger.error('[REACTIONS] ❌ Reaction broadcast failed:', response.message);
+          reject(new Error(response.message || 'Failed to broadcast reaction'));
+        }
+      }
+    );
+  });
+}
+
+/**
+ * Fetch reaction operations from the recent custom_json history of the given accounts
+ * Reactions live in the reactor's history, so pass the conversation partner / group members
+ */
+export async function fetchReactionHistory(
+  accounts: string[],
+  currentUser: string,
+  limit: number = 200
+): Promise<ReactionRecord[]> {
+  const histories = await Promise.all(
+    accounts.map(account => getAccountHistory(account, limit, 'custom_json'))
+  );
+
+  const records: ReactionRecord[] = [];
+
+  for (const history of histories) {
+    for (const [, entry] of history) {
+      const [opType, opData] = entry.op;
+      if (opType !== 'custom_json' || opData.id !== REACTION_CUSTOM_JSON_ID) continue;
+
+      let json: unknown;
+      try {
+        json = typeof opData.json === 'string' ? JSON.parse(opData.json) : opData.json;
+      } catch {
+        continue;
+      }
+
+      const record = parseReactionOperation(
+        opData,
+        json,
+        entry.trx_id,
+        normalizeHiveTimestamp(entry.timestamp),
+        currentUser
+      );
+      if (record) {
+        records.push(record);
+      }
+    }
+  }
+
+  logger.info('[REACTIONS] Fetched', records.length, 'reactions from', accounts.length, 'accounts');
+  return records;
+}
+
+/**
+ * Aggregate the cached reactions of one message
+ */
+export function summarizeReactions(records: ReactionRecord[], currentUser: string): MessageReactions {
+  const byEmoji = new Map<string, Set<string>>();
+  let encryptedCount = 0;
+
+  for (const record of records) {
+    if (!record.emoji) {
+      if (record.active) encryptedCount++;
+      continue;
+    }
+    if (!record.active) continue;
+
+    const reactors = byEmoji.get(record.emoji) ?? new Set<string>();
+    reactors.add(record.reactor);
+    byEmoji.set(record.emoji, reactors);
+  }
+
+  const summaries = Array.from(byEmoji.entries())
+    .map(([emoji, reactors]) => ({
+      emoji,
+      count: reactors.size,
+      reactors: Array.from(reactors),
+      reactedByMe: reactors.has(currentUser),
+    }))
+    .sort((a, b) => b.count - a.count);
+
+  return { summaries, encryptedCount };
+}
@@ -0,0 +1,187 @@
+import { getAccountHistory, normalizeHiveTimestamp, requestEncode, extractTransactionId } from './hive';
+import { getMetadata, setMetadata } from './messageCache';
+import { logger } from './logger';
+
+/**
+ * Opt-in read receipts broadcast as custom_json operations
+ *
+ * A receipt tells a conversation partner the newest of their messages we've read.
+ * Receipts for several conversations are batched into one operation:
+ *   { v: 1, a: { [partner]: "#<memo-encrypted txId>" } }
+ *
+ * Only direct conversations carry receipts. Whether receipts are sent at all is
+ * the `read_receipts` flag in the account's hive_messenger metadata.
+ *
+ * @module readReceipts
+ */
+
+export const READ_RECEIPT_CUSTOM_JSON_ID = 'hive-messenger-read';
+
+// Receipts queued within this window share one broadcast
+const FLUSH_DELAY_MS = 15000;
+
+interface ReadReceiptPayload {
+  v: number;
+  a: Record<string, string>;
+}
+
+/**
+ * Newest receipt from one reader, as cached in IndexedDB (keyed by reader)
+ */
+export interface ReadReceiptRecord {
+  reader: string;                  // Partner who read our messages
+  txId: string;                    // Receipt operation txId
+  readTxId?: string;               // Newest message read (once decrypted)
+  encryptedReadTxId?: string;      // Memo-encrypted message txId
+  timestamp: string;
+}
+
+/**
+ * Turn a custom_json operation into a cache record
+ * @returns null if malformed or it carries no receipt for the current user
+ */
+export function parseReadReceiptOperation(
+  op: { required_posting_auths?: string[]; required_auths?: string[] },
+  json: unknown,
+  txId: string,
+  timestamp: string,
+  currentUser: string
+): ReadReceiptRecord | null {
+  const payload = json as Partial<ReadReceiptPayload>;
+  const reader = op.required_posting_auths?.[0] || op.required_auths?.[0];
+
+  if (!reader || reader === currentUser || !payload || payload.v !== 1 || !payload.a) {
+    return null;
+  }
+
+  const encrypted = payload.a[currentUser];
+  if (typeof encrypted !== 'string') {
+    return null;
+  }
+
+  return { reader, txId, encryptedReadTxId: encrypted, timestamp };
+}
+
+export function isReadReceiptForUser(json: any, username: string): boolean {
+  return typeof json?.a?.[username] === 'string';
+}
+
+/**
+ * Newest receipt for the current user in a reader's recent custom_json history
+ */
+export async function fetchLatestReadReceipt(
+  reader: string,
+  currentUser: string,
+  limit: number = 100
+): Promise<ReadReceiptRecord | null> {
+  const history = await getAccountHistory(reader, limit, 'custom_json');
+  let latest: ReadReceiptRecord | null = null;
+
+  for (const [, entry] of history) {
+    const [opType, opData] = entry.op;
+    if (opType !== 'custom_json' || opData.id !== READ_RECEIPT_CUSTOM_JSON_ID) continue;
+
+    let json: unknown;
+    try {
+      json = typeof opData.json === 'string' ? JSON.parse(opData.json) : opData.json;
+    } catch {
+      continue;
+    }
+
+    const record = parseReadReceiptOperation(
+      opData,
+      json,
+      entry.trx_id,
+      normalizeHiveTimestamp(entry.timestamp),
+      currentUser
+    );
+    if (record && (!latest || new Date(record.timestamp).getTime() > new Date(latest.timestamp).getTime())) {
+      latest = record;
+    }
+  }
+
+  return latest;
+}
+
+// ============================================================================
+// Outgoing receipts (batched)
+// ============================================================================
+
+const pendingReceipts = new Map<string, Map<string, string>>();  // username -> partner -> txId
+const flushTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+function getSentMetadataKey(partner: string): string {
+  return `read-receipt-sent-${partner}`;
+}
+
+/**
+ * Queue a receipt for the newest message read in a conversation
+ * Receipts already sent for the same message are dropped
+ */
+export async function queueReadReceipt(username: string, partner: string, readTxId: string): Promise<void> {
+  if (await getMetadata(getSentMetadataKey(partner), username) === readTxId) {
+    return;
+  }
+
+  const pending = pendingReceipts.get(username) ?? new Map<string, string>();
+  pending.set(partner, readTxId);
+  pendingReceipts.set(username, pending);
+
+  if (!flushTimers.has(username)) {
+    flushTimers.set(username, setTimeout(() => {
+      flushReadReceipts(username).catch(error => {
+        logger.warn('[READ RECEIPTS] Failed to send receipts:', error?.message || error);
+      });
+    }, FLUSH_DELAY_MS));
+  }
+}
+
+/**
+ * Broadcast all queued receipts of a user as one operation
+ * Failed receipts are not retried; the next read queues them again
+ */
+export async function flushReadReceipts(username: string): Promise<void> {
+  const timer = flushTimers.get(username);
+  if (timer) {
+    clearTimeout(timer);
+    flushTimers.delete(username);
+  }
+
+  const pending = pendingReceipts.get(username);
+  pendingReceipts.delete(username);
+  if (!pending || pending.size === 0) return;
+
+  const payload: ReadReceiptPayload = { v: 1, a: {} };
+  const entries = Array.from(pending.entries());
+  for (const [partner, readTxId] of entries) {
+    payload.a[partner] = (await requestEncode(username, partner, `#${readTxId}`, 'Memo')).result;
+  }
+
+  await new Promise<string>((resolve, reject) => {
+    if (!window.hive_keychain) {
+      reject(new Error('Hive Keychain not installed'));
+      return;
+    }
+
+    window.hive_keychain.requestCustomJson(
+      username,
+      READ_RECEIPT_CUSTOM_JSON_ID,
+      'Posting',
+      JSON.stringify(payload),
+      'Send read receipts',
+      (response: any) => {
+        if (response.success) {
+          resolve(extractTransactionId(response.result));
+        } else {
+          reject(new Error(response.message || 'Failed to broadcast read receipts'));
+        }
+      }
+    );
+  });
+
+  for (const [partner, readTxId] of entries) {
+    await setMetadata(getSentMetadataKey(partner), readTxId, username);
+  }
+
+  logger.info('[READ RECEIPTS] ✅ Sent receipts for', entries.length, 'conversations');
+}
@@ -0,0 +1,234 @@
+import type { RealtimeClientFrame, RealtimeEvent, RealtimeServerFrame } from '@shared/schema';
+import { logger } from './logger';
+
+type EventHandler = (event: RealtimeEvent) => void;
+type ResyncHandler = () => void;
+
+export type PresenceFrame = Extract<RealtimeServerFrame, { type: 'presence' | 'typing' }>;
+
+interface RealtimeChannelConfig {
+  sessionToken: string;
+  onEvent: EventHandler;
+  onResync?: ResyncHandler;
+  onStatusChange?: (status: RealtimeStatus) => void;
+  onPresence?: (frame: PresenceFrame) => void;  // Ephemeral presence/typing frames
+  onReady?: () => void;                          // Socket (re)connected - resend presence state
+}
+
+export type RealtimeStatus = 'connecting' | 'open' | 'polling' | 'closed';
+
+// Close code the server uses for revoked or expired sessions
+const SESSION_CLOSED_CODE = 4001;
+
+interface EventsResponse {
+  events: RealtimeEvent[];
+  cursor: string;
+  resync: boolean;
+}
+
+/**
+ * Push channel to the Express server's /api/ws endpoint
+ *
+ * Keeps a cursor of the last event seen. When the socket drops it polls
+ * /api/events with that cursor until the socket reconnects, and the reconnect
+ * itself replays anything missed since the cursor.
+ */
+export class RealtimeChannel {
+  private config: RealtimeChannelConfig;
+  private socket: WebSocket | null = null;
+  private cursor: string | null = null;
+  private status: RealtimeStatus = 'closed';
+  private isRunning: boolean = false;
+  private reconnectAttempts: number = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly RECONNECT_DELAY_BASE = 1000;
+  private readonly MAX_RECONNECT_DELAY = 30000;
+  private readonly POLL_INTERVAL = 10000;
+
+  constructor(config: RealtimeChannelConfig) {
+    this.config = config;
+  }
+
+  start(): void {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    this.connect();
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    this.stopPolling();
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.socket) {
+      this.socket.onclose = null;
+      this.socket.close();
+      this.socket = null;
+    }
+
+    this.setStatus('closed');
+  }
+
+  getStatus(): RealtimeStatus {
+    return this.status;
+  }
+
+  /**
+   * Send a frame over the socket
+   * @returns false when the socket isn't open (frames are not queued)
+   */
+  send(frame: RealtimeClientFrame): boolean {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    this.socket.send(JSON.stringify(frame));
+    return true;
+  }
+
+  private setStatus(status: RealtimeStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.config.onStatusChange?.(status);
+  }
+
+  private buildSocketUrl(): string {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const params = new URLSearchParams({ token: this.config.sessionToken });
+    if (this.cursor) {
+      params.set('cursor', this.cursor);
+    }
+    return `${protocol}//${window.location.host}/api/ws?${params.toString()}`;
+  }
+
+  private connect(): void {
+    if (!this.isRunning) return;
+
+    if (this.status !== 'polling') {
+      this.setStatus('connecting');
+    }
+
+    const socket = new WebSocket(this.buildSocketUrl());
+    this.socket = socket;
+
+    socket.onmessage = (message) => {
+      try {
+        this.handleFrame(JSON.parse(message.data) as RealtimeServerFrame);
+      } catch (error) {
+        logger.warn('[REALTIME] Failed to parse frame:', error);
+      }
+    };
+
+    socket.onclose = (event) => {
+      this.socket = null;
+      if (!this.isRunning) return;
+
+      // Session revoked or expired: reconnecting with this token cannot succeed
+      if (event.code === SESSION_CLOSED_CODE) {
+        logger.info('[REALTIME] Session closed by server');
+        this.stop();
+        return;
+      }
+
+      logger.info('[REALTIME] Socket closed, falling back to polling');
+      this.startPolling();
+      this.scheduleReconnect();
+    };
+
+    socket.onerror = () => {
+      logger.debug('[REALTIME] Socket error');
+    };
+  }
+
+  private handleFrame(frame: RealtimeServerFrame): void {
+    switch (frame.type) {
+      case 'ready':
+        this.cursor = frame.cursor;
+        this.reconnectAttempts = 0;
+        this.stopPolling();
+        this.setStatus('open');
+        logger.info('[REALTIME] Connected');
+        this.config.onReady?.();
+        break;
+      case 'event':
+        this.cursor = frame.event.cursor;
+        this.config.onEvent(frame.event);
+        break;
+      case 'resync':
+        this.cursor = frame.cursor;
+        logger.info('[REALTIME] Cursor expired, resyncing');
+        this.config.onResync?.();
+        break;
+      case 'presence':
+      case 'typing':
+        this.config.onPresence?.(frame);
+        break;
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.isRunning || this.reconnectTimer) return;
+
+    this.reconnectAttempts++;
+    const delay = Math.min(
+      this.RECONNECT_DELAY_BASE * Math.pow(2, this.reconnectAttempts - 1),
+      this.MAX_RECONNECT_DELAY
+    );
+
+    logger.info(`[REALTIME] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private startPolling(): void {
+    if (this.pollTimer) return;
+
+    this.setStatus('polling');
+    this.poll();
+    this.pollTimer = setInterval(() => this.poll(), this.POLL_INTERVAL);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      const query = this.cursor ? `?cursor=${encodeURIComponent(this.cursor)}` : '';
+      const response = await fetch(`/api/events${query}`, {
+        headers: { Authorization: `Bearer ${this.config.sessionToken}` },
+      });
+
+      if (!response.ok) {
+        logger.warn('[REALTIME] Poll failed with status', response.status);
+        return;
+      }
+
+      const data = (await response.json()) as EventsResponse;
+
+      // Socket may have reconnected while this request was in flight
+      if (this.status !== 'polling') return;
+
+      for (const event of data.events) {
+        this.config.onEvent(event);
+      }
+
+      this.cursor = data.cursor;
+
+      if (data.resync) {
+        this.config.onResync?.();
+      }
+    } catch (error) {
+      logger.debug('[REALTIME] Poll error:', error);
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { sendDirectMessage, sendGroupMessage } from './messageSending';
+import { getGroupConversation } from './messageCache';
+import { logger } from './logger';
+
+/**
+ * Scheduled text messages (direct and group)
+ *
+ * Scheduled messages live in the `scheduledMessages` IndexedDB store and are sent
+ * by the app itself - through the normal transfer / group send paths - once they
+ * are due. Nothing is sent while the app is closed: messages that came due in the
+ * meantime are marked missed on the next launch so the user can send or cancel them.
+ *
+ * @module scheduledMessages
+ */
+
+// A message that came due less than this long before launch is still sent automatically
+export const MISSED_GRACE_MS = 2 * 60 * 1000;
+
+export type ScheduledMessageStatus = 'scheduled' | 'sending' | 'missed' | 'failed';
+
+/**
+ * Scheduled message, as stored in IndexedDB (keyed by id)
+ */
+export interface ScheduledMessage {
+  id: string;
+  kind: 'direct' | 'group';
+  from: string;
+  to?: string;                     // Direct: recipient
+  amount?: string;                 // Direct: HBD sent with the memo
+  groupId?: string;                // Group: members are read from the group cache when sending
+  groupName?: string;
+  groupCreator?: string;
+  members?: string[];              // Group: members when scheduled (fallback)
+  content: string;
+  replyTo?: string;
+  sendAt: string;                  // ISO timestamp
+  createdAt: string;
+  status: ScheduledMessageStatus;
+  error?: string;                  // Why the last attempt failed
+}
+
+export type ScheduledMessageInput = Omit<ScheduledMessage, 'id' | 'from' | 'createdAt' | 'status' | 'error'>;
+
+/**
+ * Short label for where a scheduled message goes ("@alice", "Book Club")
+ */
+export function getScheduledTargetLabel(message: ScheduledMessage): string {
+  return message.kind === 'direct' ? `@${message.to}` : message.groupName || 'Group';
+}
+
+/**
+ * Format a date for an <input type="datetime-local"> (local time, minute precision)
+ */
+export function toDateTimeLocalValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Send a scheduled message through the regular send path
+ *
+ * @returns Short description of the result (for the toast)
+ * @throws Error if nothing was sent
+ */
+export async function sendScheduledMessage(message: ScheduledMessage): Promise<string> {
+  if (message.kind === 'direct') {
+    if (!message.to || !message.amount) {
+      throw new Error('Scheduled message has no recipient');
+    }
+
+    try {
+      await sendDirectMessage({
+        from: message.from,
+        to: message.to,
+        content: message.content,
+        amount: message.amount,
+        replyTo: message.replyTo,
+      });
+    } catch (error: any) {
+      // Keychain rejects with plain objects as well as Errors
+      throw new Error(error?.message || error?.error || 'Transfer failed');
+    }
+
+    return `Sent to @${message.to}`;
+  }
+
+  if (!message.groupId) {
+    throw new Error('Scheduled message has no group');
+  }
+
+  // Membership may have changed since the message was scheduled
+  const group = await getGroupConversation(message.groupId, message.from);
+  const members = group?.members || message.members || [];
+
+  const result = await sendGroupMessage({
+    from: message.from,
+    groupId: message.groupId,
+    groupCreator: group?.creator || message.groupCreator,
+    members,
+    content: message.content,
+    replyTo: message.replyTo,
+  });
+
+  if (result.cancelled) {
+    throw new Error('Cancelled in Keychain');
+  }
+  if (result.attemptedCount === 0) {
+    throw new Error(result.rcDepleted ? 'Not enough Resource Credits' : 'No members to send to');
+  }
+
+  logger.info('[SCHEDULED] Group send result:', {
+    sharedKey: result.sharedKey,
+    sent: result.txIds.length,
+    failed: result.failedRecipients.length,
+    remaining: result.remainingRecipients.length,
+  });
+
+  if (result.sharedKey && result.txIds.length > 0) {
+    return `Sent to ${result.recipientCount} member${result.recipientCount !== 1 ? 's' : ''}`;
+  }
+
+  const unsent = result.failedRecipients.length + result.remainingRecipients.length;
+  return unsent > 0
+    ? `Sent to ${result.txIds.length} of ${result.txIds.length + unsent} members`
+    : `Sent to ${result.txIds.length} member${result.txIds.length !== 1 ? 's' : ''}`;
+}
@@ -0,0 +1,188 @@
+import { logger } from './logger';
+
+/**
+ * Optional session with the Express API
+ *
+ * Messaging never needs a server. When the app is served by the Express backend,
+ * login also signs the server's challenge so server-backed features (contacts,
+ * multi-device sync, realtime push) get a bearer token. Every helper here
+ * returns null when no server is reachable.
+ */
+
+const SERVER_SESSION_KEY = 'hive_messenger_server_session';
+const REQUEST_TIMEOUT_MS = 5000;
+
+// Refresh this long before the access token expires
+export const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface ServerSession {
+  username: string;
+  sessionToken: string;
+  refreshToken: string;
+  tokenExpiresAt: string;
+  expiresAt: string;
+}
+
+export interface ServerLoginChallenge {
+  nonce: string;
+  message: string;
+}
+
+async function postJson<T>(path: string, body: unknown): Promise<T | null> {
+  try {
+    const response = await fetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    // Static hosting answers API paths with 404/HTML - treat as "no server"
+    if (!response.ok || !response.headers.get('content-type')?.includes('application/json')) {
+      logger.info('[SERVER SESSION] Request failed:', path, response.status);
+      return null;
+    }
+
+    return await response.json();
+  } catch (error) {
+    logger.info('[SERVER SESSION] Server unreachable:', path, error);
+    return null;
+  }
+}
+
+/**
+ * Ask the server for a single-use login challenge
+ * @returns null when no server is available
+ */
+export async function requestLoginChallenge(username: string): Promise<ServerLoginChallenge | null> {
+  const challenge = await postJson<ServerLoginChallenge>('/api/auth/challenge', { username });
+  return challenge?.nonce && challenge?.message ? challenge : null;
+}
+
+/**
+ * Exchange a Keychain signature of the challenge for server tokens
+ */
+export async function completeServerLogin(
+  username: string,
+  nonce: string,
+  signature: string
+): Promise<ServerSession | null> {
+  const result = await postJson<Omit<ServerSession, 'username'>>('/api/auth/login', {
+    username,
+    keychainProof: { nonce, signature },
+    deviceName: navigator.userAgent.slice(0, 100),
+  });
+
+  if (!result?.sessionToken) return null;
+
+  const session: ServerSession = {
+    username,
+    sessionToken: result.sessionToken,
+    refreshToken: result.refreshToken,
+    tokenExpiresAt: result.tokenExpiresAt,
+    expiresAt: result.expiresAt,
+  };
+  saveServerSession(session);
+
+  logger.info('[SERVER SESSION] Server session created for:', username);
+  return session;
+}
+
+export function loadServerSession(username: string): ServerSession | null {
+  try {
+    const stored = localStorage.getItem(SERVER_SESSION_KEY);
+    if (!stored) return null;
+
+    const session: ServerSession = JSON.parse(stored);
+    if (session.username !== username || new Date(session.expiresAt).getTime() <= Date.now()) {
+      localStorage.removeItem(SERVER_SESSION_KEY);
+      return null;
+    }
+
+    return session;
+  } catch {
+    localStorage.removeItem(SERVER_SESSION_KEY);
+    return null;
+  }
+}
+
+function saveServerSession(session: ServerSession): void {
+  try {
+    localStorage.setItem(SERVER_SESSION_KEY, JSON.stringify(session));
+  } catch (error) {
+    logger.warn('[SERVER SESSION] Failed to persist server session:', error);
+  }
+}
+
+let refreshInFlight: Promise<ServerSession | null> | null = null;
+
+/**
+ * Rotate the session's tokens
+ *
+ * Single-flight: the server revokes a session whose old refresh token is
+ * reused, so concurrent callers must share one refresh request.
+ */
+export function refreshServerSession(session: ServerSession): Promise<ServerSession | null> {
+  if (refreshInFlight) return refreshInFlight;
+
+  refreshInFlight = (async () => {
+    const result = await postJson<Omit<ServerSession, 'username'>>('/api/auth/refresh', {
+      refreshToken: session.refreshToken,
+    });
+
+    if (!result?.sessionToken) {
+      logger.warn('[SERVER SESSION] Refresh failed, dropping server session');
+      localStorage.removeItem(SERVER_SESSION_KEY);
+      return null;
+    }
+
+    const refreshed: ServerSession = { ...session, ...result, username: session.username };
+    saveServerSession(refreshed);
+    return refreshed;
+  })().finally(() => {
+    refreshInFlight = null;
+  });
+
+  return refreshInFlight;
+}
+
+export async function logoutServerSession(session: ServerSession | null): Promise<void> {
+  localStorage.removeItem(SERVER_SESSION_KEY);
+  if (!session) return;
+
+  try {
+    await fetch('/api/auth/logout', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${session.sessionToken}` },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    logger.warn('[SERVER SESSION] Logout request failed:', error);
+  }
+}
+
+/**
+ * fetch() against the Express API with the session's bearer token
+ * Throws with the server's error message on non-2xx responses
+ */
+export async function serverFetch<T>(
+  sessionToken: string,
+  path: string,
+  init: RequestInit = {}
+): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      ...init.headers,
+      Authorization: `Bearer ${sessionToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.message || `Request failed (HTTP ${response.status})`);
+  }
+
+  return response.json();
+}
@@ -0,0 +1,104 @@
+import { createChunkedUpload, broadcastChunkedUpload } from './imageChunking';
+import {
+  cacheCustomJsonMessage,
+  saveChunkUpload,
+  deleteChunkUpload,
+  getConversationKey,
+  type ChunkUploadJournal,
+} from './messageCache';
+import { logger } from './logger';
+
+/**
+ * Resumable chunked uploads for images, files and voice notes
+ *
+ * Every chunked upload is written to the `chunkUploads` IndexedDB store before the
+ * first Keychain request and updated after each confirmed batch. If Keychain is
+ * rejected, RC runs out or the tab is closed midway, the journal keeps the
+ * encrypted chunks and the confirmed indexes, so the upload can be resumed later
+ * without re-encrypting and without re-sending what already went through.
+ *
+ * Once every chunk is confirmed the message is cached like any sent message and
+ * the journal entry is removed.
+ *
+ * @module uploadJournal
+ */
+
+type JournalMessage = ChunkUploadJournal['message'];
+
+/**
+ * Encrypted payload ready to be broadcast in chunks
+ */
+export interface JournaledUploadRequest {
+  username: string;
+  customJsonId: string;            // IMAGE_CUSTOM_JSON_ID or FILE_CUSTOM_JSON_ID
+  encrypted: string;
+  hash: string;
+  message: JournalMessage;         // Decrypted copy to cache once the upload completes
+}
+
+/**
+ * Journal a new upload and broadcast it
+ *
+ * @returns Transaction ID of the first chunk
+ * @throws The broadcast error; the journal is kept so the upload can be resumed
+ */
+export async function startJournaledUpload(
+  request: JournaledUploadRequest,
+  onProgress?: (confirmed: number, total: number) => void
+): Promise<string> {
+  const { username, customJsonId, encrypted, hash, message } = request;
+  const upload = createChunkedUpload(customJsonId, encrypted, hash, message.to);
+  const now = new Date().toISOString();
+
+  const journal: ChunkUploadJournal = {
+    ...upload,
+    conversationKey: getConversationKey(username, message.to),
+    message,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await saveChunkUpload(journal, username);
+  logger.info('[CHUNK UPLOAD] Journaled upload:', journal.sessionId, 'chunks:', journal.chunks.length);
+
+  return resumeJournaledUpload(username, journal, onProgress);
+}
+
+/**
+ * Send the chunks of a journaled upload that were not confirmed yet
+ *
+ * @returns Transaction ID of the first chunk
+ * @throws The broadcast error; confirmed progress is already saved
+ */
+export async function resumeJournaledUpload(
+  username: string,
+  journal: ChunkUploadJournal,
+  onProgress?: (confirmed: number, total: number) => void
+): Promise<string> {
+  if (journal.confirmedChunks.length > 0) {
+    logger.info('[CHUNK UPLOAD] Resuming', journal.sessionId, 'at',
+      journal.confirmedChunks.length, 'of', journal.chunks.length, 'chunks');
+  }
+
+  const txId = await broadcastChunkedUpload(username, journal, {
+    onProgress,
+    onBatchConfirmed: () => saveChunkUpload(journal, username),
+  });
+
+  await cacheCustomJsonMessage({
+    ...journal.message,
+    txId,
+    sessionId: journal.sessionId,
+    conversationKey: journal.conversationKey,
+    timestamp: new Date().toISOString(),
+    encryptedPayload: journal.chunks.map(chunk => chunk.data).join(''),
+    hash: journal.hash,
+    chunks: journal.chunks.length,
+    confirmed: true,
+  }, username);
+
+  await deleteChunkUpload(journal.sessionId, username);
+  logger.info('[CHUNK UPLOAD] Completed upload:', journal.sessionId, 'txId:', txId);
+
+  return txId;
+}
@@ -0,0 +1,119 @@
+import { estimateCustomJsonRC } from './rcEstimation';
+import { MAX_ATTACHMENT_BYTES } from './fileAttachments';
+import { logger } from './logger';
+
+/**
+ * Voice notes: short Opus recordings sent as encrypted file attachments
+ *
+ * A voice note is a file message whose payload also carries its duration and a
+ * waveform (bar heights) so the player can draw it without decoding the audio.
+ *
+ * @module voiceNotes
+ */
+
+// Opus at 16 kbps is plenty for speech and keeps notes to ~2KB per second
+export const VOICE_NOTE_BITRATE = 16000;
+
+// Hard cap regardless of RC
+export const VOICE_NOTE_MAX_SECONDS = 120;
+
+// Voice notes shorter than this are treated as accidental taps
+export const VOICE_NOTE_MIN_SECONDS = 1;
+
+// Never let one voice note spend more than this share of the account's current RC
+const VOICE_NOTE_RC_SHARE = 0.25;
+
+// Base64 (+33%) and memo encryption (~+40%) on top of the raw audio
+const ENCRYPTED_BYTES_PER_SECOND = Math.ceil((VOICE_NOTE_BITRATE / 8) * 1.33 * 1.4);
+
+const WAVEFORM_BARS = 40;
+
+const PREFERRED_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/mp4',
+];
+
+export interface VoiceNoteInfo {
+  duration: number;      // Seconds
+  waveform: number[];    // Bar heights 0-100
+}
+
+/**
+ * First recording format the browser supports
+ * @returns null if MediaRecorder is unavailable
+ */
+export function getSupportedVoiceMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+/**
+ * Estimated RC cost of a voice note of the given length
+ */
+export function estimateVoiceNoteRC(seconds: number): number {
+  const size = Math.ceil(seconds * ENCRYPTED_BYTES_PER_SECOND);
+  return estimateCustomJsonRC(size, Math.ceil(size / 7000));
+}
+
+/**
+ * Longest voice note the account can afford right now
+ *
+ * @param availableRC - Current RC of the account
+ * @returns Whole seconds (0 if not even a minimal note fits)
+ */
+export function getVoiceNoteDurationCap(availableRC: number): number {
+  const budget = availableRC * VOICE_NOTE_RC_SHARE;
+  const maxBySize = Math.floor(MAX_ATTACHMENT_BYTES / (VOICE_NOTE_BITRATE / 8));
+
+  let seconds = Math.min(VOICE_NOTE_MAX_SECONDS, maxBySize);
+  while (seconds > 0 && estimateVoiceNoteRC(seconds) > budget) {
+    seconds--;
+  }
+
+  return seconds;
+}
+
+/**
+ * Compute waveform bars from recorded audio
+ * Falls back to a flat waveform if the browser cannot decode the recording
+ */
+export async function computeWaveform(blob: Blob, bars: number = WAVEFORM_BARS): Promise<number[]> {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  if (!AudioContextClass) {
+    return new Array(bars).fill(30);
+  }
+
+  const context: AudioContext = new AudioContextClass();
+  try {
+    const audioBuffer = await context.decodeAudioData(await blob.arrayBuffer());
+    const samples = audioBuffer.getChannelData(0);
+    const samplesPerBar = Math.max(1, Math.floor(samples.length / bars));
+
+    const peaks: number[] = [];
+    for (let bar = 0; bar < bars; bar++) {
+      let peak = 0;
+      const start = bar * samplesPerBar;
+      for (let i = start; i < start + samplesPerBar && i < samples.length; i++) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      peaks.push(peak);
+    }
+
+    const loudest = Math.max(...peaks) || 1;
+    return peaks.map(peak => Math.max(5, Math.round((peak / loudest) * 100)));
+  } catch (error) {
+    logger.warn('[VOICE] Could not decode recording for waveform:', error);
+    return new Array(bars).fill(30);
+  } finally {
+    context.close().catch(() => {});
+  }
+}
+
+/**
+ * Format seconds as m:ss
+ */
+export function formatVoiceDuration(seconds: number): string {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
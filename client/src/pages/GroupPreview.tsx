@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useParams, useLocation, useSearch } from 'wouter';
-import { ArrowLeft, Users, DollarSign, Calendar, User, Loader2, ExternalLink, Clock, CheckCircle } from 'lucide-react';
+import { ArrowLeft, Users, DollarSign, Calendar, User, Loader2, ExternalLink, Clock, CheckCircle, Ticket, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -12,6 +12,9 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useQuery } from '@tanstack/react-query';
 import { fetchDiscoverableGroups, type DiscoverableGroup } from '@/lib/groupDiscovery';
 import { useGroupDiscovery } from '@/hooks/useGroupMessages';
+import { useGroupInviteValidation } from '@/hooks/useGroupInvites';
+import { useGroupModeration } from '@/hooks/useGroupModeration';
+import { GROUP_INVITE_STATUS_LABELS } from '@/lib/groupInviteLinks';
 import { formatDistanceToNow } from 'date-fns';
 import { logger } from '@/lib/logger';
 
@@ -90,6 +93,7 @@ export default function GroupPreview() {
   const { user } = useAuth();
 
   const [refCode, setRefCode] = useState<string | null>(null);
+  const inviteToken = new URLSearchParams(searchString).get('invite');
 
   useEffect(() => {
     const urlParams = new URLSearchParams(searchString);
@@ -113,6 +117,16 @@ export default function GroupPreview() {
 
   const group = allGroups?.find(g => g.groupId === groupId);
 
+  // The invite is checked against the creator's history, so it waits for the listing
+  const { data: inviteValidation, isLoading: isLoadingInvite } = useGroupInviteValidation(inviteToken, group);
+  const validInvite = inviteValidation?.status === 'valid' ? inviteValidation.invite : undefined;
+
+  // Bans decide whether the user may request to join at all
+  const { moderation } = useGroupModeration(
+    group ? { groupId: group.groupId, creator: group.creator, members: [] } : undefined,
+    !!user && !isMember
+  );
+
   const getInitials = (name: string) => {
     return name.slice(0, 2).toUpperCase();
   };
@@ -383,6 +397,36 @@ export default function GroupPreview() {
               </div>
             )}
 
+            {inviteToken && (
+              isLoadingInvite ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground" data-testid="text-invite-checking">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Checking invite...
+                </div>
+              ) : validInvite && inviteValidation ? (
+                <div className="flex items-start gap-3 p-4 rounded-lg bg-primary/10 border border-primary/20" data-testid="card-invite-info">
+                  <Ticket className="w-5 h-5 text-primary flex-shrink-0" />
+                  <div className="text-sm">
+                    <p className="font-medium">
+                      Invited by @{validInvite.issuer}
+                      {validInvite.freePass && group.paymentRequired && ' - free pass, no payment needed'}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {inviteValidation.remainingUses} of {validInvite.maxUses} use{validInvite.maxUses !== 1 ? 's' : ''} left
+                      {' · '}expires {formatDistanceToNow(new Date(validInvite.expiresAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+              ) : (
+                <Alert variant="destructive" data-testid="alert-invite-invalid">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    {GROUP_INVITE_STATUS_LABELS[inviteValidation?.status || 'malformed']}. You can still join the regular way.
+                  </AlertDescription>
+                </Alert>
+              )
+            )}
+
             {refCode && (
               <div className="text-sm text-muted-foreground" data-testid="text-referral-info">
                 Referred by: <span className="font-medium">@{refCode}</span>
@@ -420,6 +464,8 @@ export default function GroupPreview() {
                 } : undefined}
                 onJoinSuccess={handleJoinSuccess}
                 className="w-full"
+                inviteToken={validInvite && inviteToken ? inviteToken : undefined}
+                moderation={moderation}
               />
             ) : (
               <div className="w-full space-y-3">
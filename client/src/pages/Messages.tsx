@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef, useMemo } from 'react';
 import { useLocation } from 'wouter';
-import { Settings, Moon, Sun, Info, Filter, EyeOff, Clock, ArrowLeft, TrendingUp, BarChart3, Megaphone, Bell, Radio } from 'lucide-react';
+import { Settings, Moon, Sun, Info, Filter, EyeOff, Clock, ArrowLeft, TrendingUp, BarChart3, Megaphone, Bell, Radio, CalendarClock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -31,6 +31,7 @@ import { ChatHeader } from '@/components/ChatHeader';
 import { GroupChatHeader } from '@/components/GroupChatHeader';
 import { MessageBubble, SystemMessage } from '@/components/MessageBubble';
 import { MessageComposer } from '@/components/MessageComposer';
+import type { ReplyTarget } from '@/components/ReplyQuote';
 import { NewMessageModal } from '@/components/NewMessageModal';
 import { GroupCreationModal } from '@/components/GroupCreationModal';
 import { ManageMembersModal } from '@/components/ManageMembersModal';
@@ -48,6 +49,8 @@ import { useAutoRemoveExpired } from '@/hooks/useAutoRemoveExpired';
 import { ProfileDrawer } from '@/components/ProfileDrawer';
 import { SettingsModal } from '@/components/SettingsModal';
 import { HiddenChatsModal } from '@/components/HiddenChatsModal';
+import { ScheduledMessagesModal } from '@/components/ScheduledMessagesModal';
+import { useScheduledMessages } from '@/contexts/ScheduledMessagesContext';
 import { EmptyState, NoConversationSelected } from '@/components/EmptyState';
 import { BlockchainSyncIndicator } from '@/components/BlockchainSyncIndicator';
 import { JoinGroupButton } from '@/components/JoinGroupButton';
@@ -58,13 +61,24 @@ import type { Conversation, Message, Contact, BlockchainSyncStatus } from '@shar
 import { useToast } from '@/hooks/use-toast';
 import { useQueryClient, useQuery } from '@tanstack/react-query';
 import { useBlockchainMessages, useConversationDiscovery } from '@/hooks/useBlockchainMessages';
+import { useServerMessages } from '@/hooks/useServerMessages';
+import { getOlderServerMessages } from '@/lib/messagePages';
 import { useGroupDiscovery, useGroupBackgroundSync, useGroupMessages } from '@/hooks/useGroupMessages';
+import { useGroupModeration } from '@/hooks/useGroupModeration';
+import { useReactions } from '@/hooks/useReactions';
+import { useMessageOps } from '@/hooks/useMessageOps';
+import { useReadReceipts } from '@/hooks/useReadReceipts';
+import { useCustomJsonMessages } from '@/hooks/useCustomJsonMessages';
+import { getAttachmentPreview } from '@/lib/fileAttachments';
+import { resolveMessageOps, RETRACTED_MESSAGE_PREVIEW, type MessageOpState } from '@/lib/messageOps';
 import { useAutoApproveJoinRequests } from '@/hooks/useAutoApproveJoinRequests';
 import { getConversationKey, getConversation, updateConversation, fixCorruptedMessages, deleteConversation, deleteGroupConversation, cacheGroupConversation, getPendingGroups, removePendingGroup } from '@/lib/messageCache';
 import { getHiveMemoKey } from '@/lib/hive';
-import type { MessageCache, ConversationCache, GroupConversationCache, PendingGroup } from '@/lib/messageCache';
-import type { PaymentSettings } from '@shared/schema';
+import type { MessageCache, ConversationCache, GroupConversationCache, PendingGroup, CustomJsonMessage } from '@/lib/messageCache';
+import type { PaymentSettings, GroupRole } from '@shared/schema';
 import { generateGroupId, broadcastGroupCreation, broadcastGroupUpdate, broadcastLeaveGroup } from '@/lib/groupBlockchain';
+import { hasGroupPermission, normalizeGroupRoles, getGroupOwner } from '@shared/groupRoles';
+import { isGroupMessageHidden } from '@shared/groupModeration';
 import { setCustomGroupName } from '@/lib/customGroupNames';
 import { isGroupPublished } from '@/lib/groupDiscovery';
 import { useMobileLayout } from '@/hooks/useMobileLayout';
@@ -82,6 +96,7 @@ const mapMessageCacheToMessage = (msg: MessageCache, conversationId: string): Me
   timestamp: msg.timestamp,
   status: msg.confirmed ? 'confirmed' : 'sending',
   trxId: msg.txId,
+  replyTo: msg.replyTo,
   isEncrypted: true,
 });
 
@@ -105,16 +120,18 @@ const mapGroupCacheToConversation = (group: GroupConversationCache): Conversatio
 });
 
 export default function Messages() {
-  const { user } = useAuth();
+  const { user, sessionToken } = useAuth();
   const { theme, toggleTheme } = useTheme();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { isMobile, showChat, setShowChat } = useMobileLayout();
   const { isHidden, hideConversation, hiddenConversations } = useHiddenConversations();
+  const { messages: scheduledMessages, isQueueOpen, setQueueOpen, scheduleMessage } = useScheduledMessages();
   const [location, setLocation] = useLocation();
   
   const [selectedPartner, setSelectedPartner] = useState<string>('');
   const [selectedGroupId, setSelectedGroupId] = useState<string>('');
+  const [replyingTo, setReplyingTo] = useState<ReplyTarget | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [isNewMessageOpen, setIsNewMessageOpen] = useState(false);
   const [isGroupCreationOpen, setIsGroupCreationOpen] = useState(false);
@@ -239,6 +256,15 @@ export default function Messages() {
     partnerUsername: selectedPartner,
     enabled: !!selectedPartner && !selectedGroupId,
   });
+
+  // Older direct-message history from the server, a page at a time as the user scrolls up
+  const serverHistory = useServerMessages({
+    username: user?.username,
+    partnerUsername: selectedPartner,
+    sessionToken,
+    enabled: !!selectedPartner && !selectedGroupId,
+  });
+  const olderHistoryRef = useRef<HTMLDivElement>(null);
   
   // Group messages (when a group is selected)
   // Get group members from cache early to filter which memos to decrypt (prevents Keychain spam)
@@ -254,6 +280,20 @@ export default function Messages() {
   const messageCaches = messageData?.messages || [];
   const hiddenCount = messageData?.hiddenCount || 0;
 
+  // Image and file attachments (custom_json) of the selected direct conversation
+  const { data: customJsonMessages } = useCustomJsonMessages({
+    partnerUsername: selectedPartner || '',
+    enabled: !!selectedPartner && !selectedGroupId,
+  });
+
+  const fileAttachments = useMemo(() => {
+    const attachments = new Map<string, CustomJsonMessage>();
+    if (!selectedGroupId) {
+      (customJsonMessages || []).forEach(msg => attachments.set(msg.txId, msg));
+    }
+    return attachments;
+  }, [selectedGroupId, customJsonMessages]);
+
   // Merge 1:1 conversations and group conversations (memoized to prevent infinite renders)
   const directConversations = useMemo<Conversation[]>(() => 
     conversationCaches
@@ -350,6 +390,15 @@ export default function Messages() {
       : undefined;
   
   const selectedGroup = selectedGroupId ? groupCaches.find(g => g.groupId === selectedGroupId) : undefined;
+
+  // Messages from banned members, and from muted members while muted, are hidden (own messages never are)
+  const { moderation: groupModeration } = useGroupModeration(selectedGroup);
+  const visibleGroupMessageCaches = useMemo(
+    () => groupMessageCaches.filter(msg =>
+      msg.sender === user?.username || !isGroupMessageHidden(groupModeration, msg.sender, msg.timestamp)
+    ),
+    [groupMessageCaches, groupModeration, user?.username]
+  );
   
   // Check if the selected group is published (for showing "View Public Post" vs "Make Public")
   const { data: publishStatus } = useQuery({
@@ -365,9 +414,9 @@ export default function Messages() {
   });
   
   // Map messages based on type (group or direct) - memoized to prevent infinite renders
-  const currentMessages = useMemo<Message[]>(() => 
-    selectedGroupId
-      ? groupMessageCaches.map(msg => ({
+  const currentMessages = useMemo<Message[]>(() => {
+    if (selectedGroupId) {
+      return visibleGroupMessageCaches.map<Message>(msg => ({
           id: msg.id,
           conversationId: msg.groupId,
           sender: msg.sender,
@@ -377,13 +426,140 @@ export default function Messages() {
           decryptedContent: msg.content,
           timestamp: msg.timestamp,
           status: msg.confirmed ? 'confirmed' : 'sending',
+          replyTo: msg.replyTo,
           isEncrypted: true,
-        }))
-      : messageCaches.map(msg => 
-          mapMessageCacheToMessage(msg, selectedConversationId || '')
-        ),
-    [selectedGroupId, groupMessageCaches, messageCaches, selectedConversationId]
-  );
+        }));
+    }
+
+    const chainMessages = [
+      ...messageCaches.map(msg => 
+        mapMessageCacheToMessage(msg, selectedConversationId || '')
+      ),
+      ...Array.from(fileAttachments.values()).map<Message>(attachment => ({
+        id: attachment.txId,
+        conversationId: selectedConversationId || '',
+        sender: attachment.from,
+        recipient: attachment.to,
+        content: getAttachmentPreview(attachment),
+        encryptedMemo: '',
+        timestamp: attachment.timestamp,
+        status: attachment.confirmed ? 'confirmed' : 'sending',
+        trxId: attachment.txId,
+        replyTo: attachment.replyTo,
+        isEncrypted: true,
+      })),
+    ];
+
+    return [...chainMessages, ...getOlderServerMessages(chainMessages, serverHistory.messages)]
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }, [selectedGroupId, visibleGroupMessageCaches, messageCaches, fileAttachments, selectedConversationId, serverHistory.messages]);
+
+  // Wire ids for replies and reactions: group messages are referenced by the sender's
+  // client message id (every recipient has a different txId), direct messages by txId
+  const { replyLookup, messageRefs } = useMemo(() => {
+    const replyLookup = new Map<string, Message>();
+    const messageRefs = new Map<string, string>();
+
+    if (selectedGroupId) {
+      visibleGroupMessageCaches.forEach((cache, index) => {
+        const message = currentMessages[index];
+        for (const key of [cache.id, cache.clientMessageId, ...cache.txIds]) {
+          if (key) replyLookup.set(key, message);
+        }
+        messageRefs.set(message.id, cache.clientMessageId || cache.id);
+      });
+    } else {
+      currentMessages.forEach(message => {
+        replyLookup.set(message.id, message);
+        messageRefs.set(message.id, message.trxId || message.id);
+      });
+    }
+
+    return { replyLookup, messageRefs };
+  }, [selectedGroupId, visibleGroupMessageCaches, currentMessages]);
+
+  const reactionTargets = useMemo(() => Array.from(new Set(messageRefs.values())), [messageRefs]);
+  const reactionAccounts = useMemo(() => {
+    if (!user?.username) return [];
+    const accounts = selectedGroupId ? (selectedGroupMembers || []) : (selectedPartner ? [selectedPartner] : []);
+    return Array.from(new Set([...accounts, user.username]));
+  }, [user?.username, selectedGroupId, selectedGroupMembers, selectedPartner]);
+
+  const { reactions, toggleReaction, revealReactions } = useReactions({
+    targets: reactionTargets,
+    accounts: reactionAccounts,
+    groupId: selectedGroupId || undefined,
+    partnerUsername: selectedPartner || undefined,
+    enabled: !!selectedGroupId || !!selectedPartner,
+  });
+
+  const { messageOps, editMessage, retractMessage, revealEdit } = useMessageOps({
+    targets: reactionTargets,
+    accounts: reactionAccounts,
+    groupId: selectedGroupId || undefined,
+    groupMembers: selectedGroupMembers,
+    partnerUsername: selectedPartner || undefined,
+    enabled: !!selectedGroupId || !!selectedPartner,
+  });
+
+  // Read receipts (direct chats only): acknowledge the partner's newest message
+  const latestReceivedTxId = useMemo(() => {
+    if (selectedGroupId || !selectedPartner) return undefined;
+    const received = messageCaches.filter(msg => msg.from === selectedPartner && msg.confirmed && msg.txId);
+    return received[received.length - 1]?.txId;
+  }, [selectedGroupId, selectedPartner, messageCaches]);
+
+  const { readUpTo } = useReadReceipts({
+    partnerUsername: selectedPartner || undefined,
+    latestReceivedTxId,
+    enabled: !!selectedPartner && !selectedGroupId,
+  });
+
+  // Edits/retractions only count when signed by the message's sender
+  const messageOpStates = useMemo(() => {
+    const states = new Map<string, MessageOpState>();
+    currentMessages.forEach(message => {
+      const ops = messageOps.get(messageRefs.get(message.id) || message.id);
+      if (ops) {
+        states.set(message.id, resolveMessageOps(message.sender, ops));
+      }
+    });
+    return states;
+  }, [currentMessages, messageOps, messageRefs]);
+
+  const handleMessageOpError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error?.message || 'Could not broadcast to the blockchain',
+      variant: 'destructive',
+    });
+  };
+
+  const handleToggleReaction = (target: string, emoji: string, remove: boolean) => {
+    toggleReaction.mutate({ target, emoji, remove }, {
+      onError: (error: any) => {
+        toast({
+          title: 'Reaction Failed',
+          description: error?.message || 'Could not broadcast reaction',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  // Drop a pending reply when switching conversations
+  useEffect(() => {
+    setReplyingTo(null);
+  }, [selectedPartner, selectedGroupId]);
+
+  const scrollToMessage = (messageId: string) => {
+    const element = document.querySelector(`[data-message-id="${messageId}"]`);
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      element.classList.add('bg-primary/10');
+      setTimeout(() => element.classList.remove('bg-primary/10'), 2000);
+    }
+  };
 
   // Run timestamp migration and fix corrupted cached messages on mount
   useEffect(() => {
@@ -452,9 +628,26 @@ export default function Messages() {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  // Follow new messages, but stay put when older history is prepended
+  const newestMessageId = currentMessages[currentMessages.length - 1]?.id;
   useEffect(() => {
     scrollToBottom();
-  }, [currentMessages]);
+  }, [newestMessageId]);
+
+  // Infinite scroll: load the next older server page when the top of the thread comes into view
+  const { hasOlderMessages, isLoadingOlder, loadOlderMessages } = serverHistory;
+  useEffect(() => {
+    const sentinel = olderHistoryRef.current;
+    if (!sentinel || !hasOlderMessages) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting && !isLoadingOlder) {
+        loadOlderMessages();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasOlderMessages, isLoadingOlder, loadOlderMessages]);
 
   // Shareable group link system - handle ?groupId=xxx URL parameter
   useEffect(() => {
@@ -630,6 +823,7 @@ export default function Messages() {
         lastChecked: timestamp,
         paymentSettings,
         memberPayments: [], // Initialize empty payments array
+        roles: { [user.username]: 'owner' },
       };
 
       // Save to IndexedDB
@@ -716,11 +910,14 @@ export default function Messages() {
         newVersion
       );
 
-      // Update group cache entry
+      // Update group cache entry (removed members lose their roles)
       const updatedGroupCache: GroupConversationCache = {
         ...selectedGroup,
         members: newMembers,
         version: newVersion,
+        roles: selectedGroup.roles
+          ? normalizeGroupRoles({ ...selectedGroup, members: newMembers })
+          : undefined,
       };
 
       // Save to IndexedDB
@@ -775,6 +972,69 @@ export default function Messages() {
     }
   };
 
+  const handleUpdateRoles = async (roles: Record<string, GroupRole>) => {
+    try {
+      if (!user?.username || !selectedGroup) {
+        throw new Error('No group selected');
+      }
+
+      logger.info('[GROUP UPDATE] Updating group roles:', { groupId: selectedGroup.groupId, roles });
+
+      const newVersion = selectedGroup.version + 1;
+
+      // Same members - only the role map changes
+      await broadcastGroupUpdate(
+        user.username,
+        selectedGroup.groupId,
+        selectedGroup.name,
+        selectedGroup.members,
+        newVersion,
+        roles
+      );
+
+      const updatedGroupCache: GroupConversationCache = {
+        ...selectedGroup,
+        roles,
+        version: newVersion,
+      };
+
+      await cacheGroupConversation(updatedGroupCache, user.username);
+
+      queryClient.setQueryData(
+        ['blockchain-group-conversations', user.username],
+        (oldData: GroupConversationCache[] | undefined) => {
+          if (!oldData) return [updatedGroupCache];
+          return oldData.map(g => 
+            g.groupId === selectedGroup.groupId ? updatedGroupCache : g
+          );
+        }
+      );
+
+      const previousOwner = getGroupOwner(selectedGroup);
+      const newOwner = getGroupOwner(updatedGroupCache);
+
+      toast({
+        title: previousOwner !== newOwner ? 'Ownership Transferred' : 'Roles Updated',
+        description: previousOwner !== newOwner
+          ? `@${newOwner} now owns "${selectedGroup.name}"`
+          : 'Member roles saved to the group',
+      });
+
+      logger.info('[GROUP UPDATE] ✅ Group roles updated:', selectedGroup.groupId);
+    } catch (error) {
+      logger.error('[GROUP UPDATE] ❌ Failed to update group roles:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to update group roles';
+      
+      toast({
+        title: 'Error',
+        description: errorMessage,
+        variant: 'destructive',
+      });
+      
+      throw error;
+    }
+  };
+
   const handleMessageSent = async () => {
     // Force immediate refetch to show the sent message instantly
     await queryClient.invalidateQueries({ 
@@ -1066,6 +1326,20 @@ export default function Messages() {
               </span>
             )}
           </Button>
+          {scheduledMessages.length > 0 && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setQueueOpen(true)}
+              data-testid="button-scheduled-messages"
+              className="min-h-11 min-w-11 relative"
+            >
+              <CalendarClock className="w-5 h-5" />
+              <span className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-primary text-primary-foreground text-xs flex items-center justify-center font-medium">
+                {scheduledMessages.length}
+              </span>
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="icon"
@@ -1244,6 +1518,7 @@ export default function Messages() {
         <>
           {selectedGroup ? (
             <GroupChatHeader
+              groupId={selectedGroup.groupId}
               groupName={selectedGroup.name}
               members={selectedGroup.members}
               creator={selectedGroup.creator}
@@ -1258,6 +1533,8 @@ export default function Messages() {
               onOpenSettings={() => setIsGroupSettingsOpen(true)}
               onOpenBroadcast={() => setIsBroadcastOpen(true)}
               isCreator={selectedGroup.creator === user?.username}
+              canEditSettings={hasGroupPermission(selectedGroup, user?.username, 'edit_settings')}
+              canBroadcast={hasGroupPermission(selectedGroup, user?.username, 'broadcast')}
               isPublished={publishStatus?.published}
               publishedPermlink={publishStatus?.permlink}
               onBackClick={isMobile ? () => setShowChat(false) : undefined}
@@ -1278,7 +1555,7 @@ export default function Messages() {
           {selectedGroup && selectedGroup.pinnedMessages && selectedGroup.pinnedMessages.length > 0 && (
             <PinnedMessagesBar
               pinnedMessages={selectedGroup.pinnedMessages}
-              isCreator={selectedGroup.creator === user?.username}
+              canUnpin={hasGroupPermission(selectedGroup, user?.username, 'pin_messages')}
               onUnpin={async (messageId) => {
                 if (!user?.username) return;
                 const { broadcastUnpinMessage } = await import('@/lib/groupBlockchain');
@@ -1291,15 +1568,7 @@ export default function Messages() {
                 queryClient.invalidateQueries({ queryKey: ['group-discovery'] });
                 toast({ title: 'Message unpinned', description: 'The pinned message has been removed' });
               }}
-              onScrollTo={(messageId) => {
-                // Scroll to message in chat
-                const element = document.querySelector(`[data-message-id="${messageId}"]`);
-                if (element) {
-                  element.scrollIntoView({ behavior: 'smooth', block: 'center' });
-                  element.classList.add('bg-primary/10');
-                  setTimeout(() => element.classList.remove('bg-primary/10'), 2000);
-                }
-              }}
+              onScrollTo={scrollToMessage}
             />
           )}
 
@@ -1370,6 +1639,20 @@ export default function Messages() {
           <ScrollArea className="flex-1 p-4 pb-[env(safe-area-inset-bottom)]">
             <div className="max-w-3xl mx-auto space-y-3">
               <SystemMessage text="Encryption keys exchanged. Messages are end-to-end encrypted." />
+
+              {!selectedGroupId && hasOlderMessages && (
+                <div ref={olderHistoryRef} className="flex justify-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => loadOlderMessages()}
+                    disabled={isLoadingOlder}
+                    data-testid="button-load-older-messages"
+                  >
+                    {isLoadingOlder ? 'Loading older messages...' : 'Load older messages'}
+                  </Button>
+                </div>
+              )}
               
               {isLoadingMessages ? (
                 <div className="space-y-4" data-testid="loading-messages">
@@ -1417,14 +1700,50 @@ export default function Messages() {
 
                   const isSent = message.sender === user?.username;
                   const isGroupMessage = !!selectedGroupId;
+                  const repliedMessage = message.replyTo ? replyLookup.get(message.replyTo) : undefined;
+                  const repliedState = repliedMessage ? messageOpStates.get(repliedMessage.id) : undefined;
+                  const messageRef = messageRefs.get(message.id) || message.id;
+                  const opState = messageOpStates.get(message.id);
+                  const canModify = isSent && message.status === 'confirmed';
+                  const attachment = fileAttachments.get(message.id);
                   return (
                     <MessageBubble
                       key={message.id}
-                      message={message}
+                      message={isSent && readUpTo && message.status === 'confirmed' &&
+                        new Date(message.timestamp).getTime() <= new Date(readUpTo).getTime()
+                        ? { ...message, status: 'read' }
+                        : message}
                       isSent={isSent}
                       showTimestamp={showTimestamp}
                       isGroupMessage={isGroupMessage}
                       senderName={message.sender}
+                      replyTarget={repliedMessage ? {
+                        id: message.replyTo!,
+                        sender: repliedMessage.sender,
+                        content: repliedState?.retracted
+                          ? RETRACTED_MESSAGE_PREVIEW
+                          : repliedState?.content ?? repliedMessage.content,
+                      } : null}
+                      onJumpToReply={repliedMessage ? () => scrollToMessage(repliedMessage.id) : undefined}
+                      onReply={() => setReplyingTo({
+                        id: messageRef,
+                        sender: message.sender,
+                        content: opState?.content ?? message.content,
+                      })}
+                      reactions={reactions.get(messageRef)}
+                      onToggleReaction={(emoji, remove) => handleToggleReaction(messageRef, emoji, remove)}
+                      onRevealReactions={() => revealReactions.mutate(messageRef)}
+                      opState={opState}
+                      onEdit={canModify && !attachment ? (content) => editMessage.mutate(
+                        { target: messageRef, content },
+                        { onError: handleMessageOpError('Edit Failed') }
+                      ) : undefined}
+                      onRetract={canModify ? () => retractMessage.mutate(
+                        messageRef,
+                        { onError: handleMessageOpError('Delete Failed') }
+                      ) : undefined}
+                      onRevealEdit={opState?.pendingEditTxId ? () => revealEdit.mutate(opState.pendingEditTxId!) : undefined}
+                      attachment={attachment}
                     />
                   );
                 })
@@ -1440,6 +1759,8 @@ export default function Messages() {
             groupMembers={selectedGroup?.members}
             groupCreator={selectedGroup?.creator}
             onMessageSent={handleMessageSent}
+            replyingTo={replyingTo}
+            onCancelReply={() => setReplyingTo(null)}
           />
         </>
       )}
@@ -1514,7 +1835,10 @@ export default function Messages() {
             currentUsername={user?.username}
             paymentSettings={selectedGroup.paymentSettings}
             memberPayments={selectedGroup.memberPayments}
+            roles={selectedGroup.roles}
             onUpdateMembers={handleUpdateMembers}
+            onUpdateRoles={handleUpdateRoles}
+            moderation={groupModeration}
           />
           <PublishGroupModal
             open={isPublishGroupOpen}
@@ -1620,6 +1944,21 @@ export default function Messages() {
               description: 'Your message will be sent to all group members',
             });
           }}
+          onScheduleMessage={async (content, sendAt) => {
+            await scheduleMessage({
+              kind: 'group',
+              groupId: selectedGroup.groupId,
+              groupName: selectedGroup.name,
+              groupCreator: selectedGroup.creator,
+              members: selectedGroup.members,
+              content,
+              sendAt: sendAt.toISOString(),
+            });
+            toast({
+              title: 'Broadcast scheduled',
+              description: `Will be sent ${sendAt.toLocaleString()}`,
+            });
+          }}
         />
       )}
 
@@ -1628,6 +1967,11 @@ export default function Messages() {
         onOpenChange={setIsHiddenChatsOpen}
       />
 
+      <ScheduledMessagesModal
+        open={isQueueOpen}
+        onOpenChange={setQueueOpen}
+      />
+
       <Dialog open={isEditNameOpen} onOpenChange={setIsEditNameOpen}>
         <DialogContent data-testid="dialog-edit-group-name">
           <DialogHeader>
@@ -0,0 +1,141 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { PrivateKey } from '@hiveio/dhive';
+import {
+  verifyKeychainSignature,
+  createLoginChallenge,
+  consumeLoginChallenge,
+  isLoginRateLimited,
+  recordLoginFailure,
+  checkChallengeRateLimit,
+} from './auth';
+
+// Keychain signs the SHA-256 digest of the message with the account key
+function signLikeKeychain(key: PrivateKey, message: string): string {
+  const digest = crypto.createHash('sha256').update(message).digest();
+  return key.sign(digest).toString();
+}
+
+const postingKey = PrivateKey.fromSeed('auth-test-posting');
+const otherKey = PrivateKey.fromSeed('auth-test-other');
+
+describe('verifyKeychainSignature', () => {
+  it('accepts a signature from an authorized key', () => {
+    const { message } = createLoginChallenge('alice');
+    const signature = signLikeKeychain(postingKey, message);
+
+    assert.equal(verifyKeychainSignature(message, signature, [postingKey.createPublic().toString()]), true);
+  });
+
+  it('rejects a signature from a key the account does not hold', () => {
+    const { message } = createLoginChallenge('alice');
+    const signature = signLikeKeychain(otherKey, message);
+
+    assert.equal(verifyKeychainSignature(message, signature, [postingKey.createPublic().toString()]), false);
+  });
+
+  it('rejects a signature over a different message', () => {
+    const signature = signLikeKeychain(postingKey, createLoginChallenge('alice').message);
+    const { message } = createLoginChallenge('alice');
+
+    assert.equal(verifyKeychainSignature(message, signature, [postingKey.createPublic().toString()]), false);
+  });
+
+  it('rejects malformed signatures without throwing', () => {
+    mock.method(console, 'error', () => {});
+    assert.equal(verifyKeychainSignature('hello', 'not-a-signature', [postingKey.createPublic().toString()]), false);
+    mock.restoreAll();
+  });
+});
+
+describe('login challenges', () => {
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('can be consumed once by the user it was issued to', () => {
+    const challenge = createLoginChallenge('bob');
+
+    assert.deepEqual(consumeLoginChallenge('bob', challenge.nonce), challenge);
+    assert.equal(consumeLoginChallenge('bob', challenge.nonce), null);
+  });
+
+  it('is burned when presented for the wrong user', () => {
+    const challenge = createLoginChallenge('bob');
+
+    assert.equal(consumeLoginChallenge('mallory', challenge.nonce), null);
+    assert.equal(consumeLoginChallenge('bob', challenge.nonce), null);
+  });
+
+  it('rejects unknown nonces', () => {
+    assert.equal(consumeLoginChallenge('bob', crypto.randomBytes(16).toString('hex')), null);
+  });
+
+  it('expires after five minutes', () => {
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2025-01-01T00:00:00Z') });
+
+    const fresh = createLoginChallenge('carol');
+    const stale = createLoginChallenge('carol');
+
+    mock.timers.tick(4 * 60 * 1000);
+    assert.ok(consumeLoginChallenge('carol', fresh.nonce));
+
+    mock.timers.tick(60 * 1000 + 1);
+    assert.equal(consumeLoginChallenge('carol', stale.nonce), null);
+  });
+
+  it('embeds the nonce and expiry in the signed message', () => {
+    const challenge = createLoginChallenge('dave');
+
+    assert.match(challenge.message, /@dave/);
+    assert.ok(challenge.message.includes(challenge.nonce));
+    assert.ok(challenge.message.includes(challenge.expiresAt.toISOString()));
+  });
+});
+
+describe('rate limiting', () => {
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('allows five failed signatures per client and username per minute', () => {
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2025-01-01T00:00:00Z') });
+
+    for (let i = 0; i < 5; i++) {
+      assert.equal(isLoginRateLimited('203.0.113.7', 'erin'), false);
+      recordLoginFailure('203.0.113.7', 'erin');
+    }
+    assert.equal(isLoginRateLimited('203.0.113.7', 'erin'), true);
+    assert.equal(isLoginRateLimited('203.0.113.7', 'ERIN'), true);
+    assert.equal(isLoginRateLimited('203.0.113.7', 'frank'), false);
+
+    // Someone else failing in erin's name does not lock erin out
+    assert.equal(isLoginRateLimited('198.51.100.2', 'erin'), false);
+
+    mock.timers.tick(60 * 1000);
+    assert.equal(isLoginRateLimited('203.0.113.7', 'erin'), false);
+  });
+
+  it('does not count checks that were not failures', () => {
+    for (let i = 0; i < 10; i++) {
+      assert.equal(isLoginRateLimited('192.0.2.1', 'heidi'), false);
+    }
+  });
+
+  it('limits challenge requests per client, not per username', () => {
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2025-01-01T00:00:00Z') });
+
+    let allowed = 0;
+    while (checkChallengeRateLimit('203.0.113.7')) {
+      allowed++;
+      assert.ok(allowed <= 100, 'challenge rate limit never kicked in');
+    }
+
+    assert.ok(allowed > 0);
+    assert.equal(checkChallengeRateLimit('198.51.100.2'), true);
+
+    // Spamming challenges in someone's name does not use up their login attempts
+    assert.equal(isLoginRateLimited('203.0.113.7', 'grace'), false);
+  });
+});
@@ -1,21 +1,66 @@
 import crypto from 'crypto';
 import { PublicKey, Signature } from '@hiveio/dhive';
+import type { DeviceSession, SessionWithUser } from '@shared/schema';
+import { storage } from './storage';
 
 // Session interface
 export interface Session {
+  id: string;
   username: string;
   publicMemoKey: string;
   createdAt: Date;
   expiresAt: Date;
 }
 
-// In-memory session storage
-const sessions = new Map<string, Session>();
+// Tokens handed to the client after login or refresh
+export interface SessionTokens {
+  sessionToken: string;
+  refreshToken: string;
+  tokenExpiresAt: Date;
+  expiresAt: Date;
+}
+
+// Per-device metadata recorded with a session
+export interface SessionDeviceInfo {
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// Login challenge interface
+export interface LoginChallenge {
+  username: string;
+  nonce: string;
+  message: string;
+  expiresAt: Date;
+}
+
+// Outstanding login challenges, keyed by nonce
+const loginChallenges = new Map<string, LoginChallenge>();
+
+// Recent failed signature checks per client IP + username (for rate limiting)
+const loginFailures = new Map<string, number[]>();
+
+// Recent challenge request timestamps per client IP (for rate limiting)
+const challengeRequests = new Map<string, number[]>();
+
+// Told about every revoked session (the realtime channel closes its sockets)
+const revocationListeners = new Set<(sessionId: string) => void>();
 
 // Session configuration
-const SESSION_EXPIRY_DAYS = 7;
+const SESSION_IDLE_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days of inactivity
+const SESSION_MAX_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000; // 30 days absolute
+const ACCESS_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour, then rotate via refresh token
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000; // Throttle lastUsedAt writes
 const TOKEN_BYTES = 32; // 256 bits
 
+// Challenge configuration
+const CHALLENGE_EXPIRY_MS = 5 * 60 * 1000; // 5 minutes
+const NONCE_BYTES = 16; // 128 bits
+const MAX_LOGIN_FAILURES = 5;
+const LOGIN_ATTEMPT_WINDOW_MS = 60 * 1000; // 1 minute
+const MAX_CHALLENGE_REQUESTS = 20; // Per client IP per window
+
 /**
  * Generate a secure random session token
  */
@@ -23,135 +68,429 @@ export function generateSessionToken(): string {
   return crypto.randomBytes(TOKEN_BYTES).toString('hex');
 }
 
+/**
+ * Hash a token for storage - raw tokens are never persisted
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Compute the sliding expiry for a session, capped at its absolute lifetime
+ */
+function slidingExpiry(createdAt: Date, now: Date = new Date()): Date {
+  const idleExpiry = now.getTime() + SESSION_IDLE_EXPIRY_MS;
+  const maxExpiry = createdAt.getTime() + SESSION_MAX_LIFETIME_MS;
+  return new Date(Math.min(idleExpiry, maxExpiry));
+}
+
+function toSession(record: SessionWithUser): Session {
+  return {
+    id: record.id.toString(),
+    username: record.username,
+    publicMemoKey: record.publicMemoKey,
+    createdAt: record.createdAt,
+    expiresAt: record.expiresAt,
+  };
+}
+
+function toDeviceSession(record: SessionWithUser): DeviceSession {
+  return {
+    id: record.id.toString(),
+    username: record.username,
+    publicMemoKey: record.publicMemoKey,
+    deviceName: record.deviceName || undefined,
+    userAgent: record.userAgent || undefined,
+    ipAddress: record.ipAddress || undefined,
+    createdAt: record.createdAt.toISOString(),
+    lastUsedAt: record.lastUsedAt.toISOString(),
+    expiresAt: record.expiresAt.toISOString(),
+  };
+}
+
+/**
+ * Build the exact message the user signs with Keychain for a challenge
+ */
+function buildChallengeMessage(username: string, nonce: string, expiresAt: Date): string {
+  return `Login to Hive Messenger as @${username}\nNonce: ${nonce}\nExpires: ${expiresAt.toISOString()}`;
+}
+
+/**
+ * Attempts for a key within the current window (older ones are dropped)
+ */
+function recentAttempts(attempts: Map<string, number[]>, key: string): number[] {
+  const now = Date.now();
+  const recent = (attempts.get(key) || []).filter(
+    (attemptedAt) => now - attemptedAt < LOGIN_ATTEMPT_WINDOW_MS
+  );
+  attempts.set(key, recent);
+  return recent;
+}
+
+/**
+ * Record an attempt in a sliding-window rate limiter
+ * @returns true if the attempt is allowed, false if the key is rate limited
+ */
+function checkRateLimit(attempts: Map<string, number[]>, key: string, max: number): boolean {
+  const recent = recentAttempts(attempts, key);
+  if (recent.length >= max) {
+    return false;
+  }
+
+  recent.push(Date.now());
+  return true;
+}
+
+function loginFailureKey(clientIp: string, username: string): string {
+  return `${clientIp}:${username.toLowerCase()}`;
+}
+
+/**
+ * Whether a client has failed too many signature checks for a username
+ * Only failed signatures count, and per client, so junk logins sent in someone
+ * else's name cannot lock them out.
+ * @returns true if the client must wait before trying this username again
+ */
+export function isLoginRateLimited(clientIp: string, username: string): boolean {
+  return recentAttempts(loginFailures, loginFailureKey(clientIp, username)).length >= MAX_LOGIN_FAILURES;
+}
+
+/**
+ * Record a login whose signature did not verify
+ */
+export function recordLoginFailure(clientIp: string, username: string): void {
+  recentAttempts(loginFailures, loginFailureKey(clientIp, username)).push(Date.now());
+}
+
+/**
+ * Record a challenge request and check the per-IP rate limit
+ * Challenges are limited by client rather than username so that nobody can lock
+ * another user out by requesting challenges in their name.
+ * @returns true if the request is allowed, false if the client is rate limited
+ */
+export function checkChallengeRateLimit(clientIp: string): boolean {
+  return checkRateLimit(challengeRequests, clientIp, MAX_CHALLENGE_REQUESTS);
+}
+
+/**
+ * Issue a single-use login challenge for a username
+ */
+export function createLoginChallenge(username: string): LoginChallenge {
+  const nonce = crypto.randomBytes(NONCE_BYTES).toString('hex');
+  const expiresAt = new Date(Date.now() + CHALLENGE_EXPIRY_MS);
+
+  const challenge: LoginChallenge = {
+    username,
+    nonce,
+    message: buildChallengeMessage(username, nonce, expiresAt),
+    expiresAt,
+  };
+
+  loginChallenges.set(nonce, challenge);
+
+  return challenge;
+}
+
+/**
+ * Consume a login challenge
+ * The challenge is removed whether or not it is still valid, so a nonce can never be replayed
+ */
+export function consumeLoginChallenge(username: string, nonce: string): LoginChallenge | null {
+  const challenge = loginChallenges.get(nonce);
+
+  if (!challenge) {
+    return null;
+  }
+
+  loginChallenges.delete(nonce);
+
+  if (challenge.username !== username || new Date() > challenge.expiresAt) {
+    return null;
+  }
+
+  return challenge;
+}
+
 /**
  * Verify a Keychain signature
- * @param username - Hive username
+ * Recovers the signing public key (secp256k1) from the signature and checks it
+ * against the keys authorized for the account on chain.
  * @param message - Message that was signed
- * @param signature - Signature from Keychain
- * @param publicKey - Public key (posting key) from Keychain response
+ * @param signature - Hex-encoded compact signature from Keychain
+ * @param authorizedKeys - Public keys (posting/memo) from the blockchain account
  * @returns boolean indicating if signature is valid
  */
 export function verifyKeychainSignature(
-  username: string,
   message: string,
   signature: string,
-  publicKey: string
+  authorizedKeys: string[]
 ): boolean {
   try {
-    // Parse the public key
-    const pubKey = PublicKey.fromString(publicKey);
-    
     // Parse the signature
     const sig = Signature.fromString(signature);
-    
-    // Verify the signature
+
+    // Keychain signs the SHA-256 digest of the message buffer
     const messageHash = crypto.createHash('sha256').update(message).digest();
-    
-    return pubKey.verify(messageHash, sig);
+
+    // Recover the public key that produced this signature
+    const recoveredKey = sig.recover(messageHash);
+
+    return authorizedKeys.some((key) => PublicKey.fromString(key).toString() === recoveredKey.toString());
   } catch (error) {
     console.error('Error verifying Keychain signature:', error);
     return false;
   }
 }
 
+/**
+ * Subscribe to session revocations
+ * @returns unsubscribe function
+ */
+export function onSessionRevoked(listener: (sessionId: string) => void): () => void {
+  revocationListeners.add(listener);
+  return () => {
+    revocationListeners.delete(listener);
+  };
+}
+
+/**
+ * Revoke a session and tell revocation listeners
+ */
+async function revokeSession(sessionId: string): Promise<boolean> {
+  const revoked = await storage.revokeSession(sessionId);
+
+  if (revoked) {
+    revocationListeners.forEach(listener => listener(sessionId));
+  }
+
+  return revoked;
+}
+
 /**
  * Create a new session
  */
-export function createSession(username: string, publicMemoKey: string): string {
-  const token = generateSessionToken();
-  const createdAt = new Date();
-  const expiresAt = new Date();
-  expiresAt.setDate(expiresAt.getDate() + SESSION_EXPIRY_DAYS);
+export async function createSession(
+  username: string,
+  publicMemoKey: string,
+  device: SessionDeviceInfo = {}
+): Promise<SessionTokens> {
+  const sessionToken = generateSessionToken();
+  const refreshToken = generateSessionToken();
+  const now = new Date();
+  const tokenExpiresAt = new Date(now.getTime() + ACCESS_TOKEN_TTL_MS);
+  const expiresAt = slidingExpiry(now, now);
 
-  sessions.set(token, {
-    username,
+  await storage.createSession(username, {
+    tokenHash: hashToken(sessionToken),
+    refreshTokenHash: hashToken(refreshToken),
+    previousRefreshTokenHash: null,
     publicMemoKey,
-    createdAt,
+    deviceName: device.deviceName || null,
+    userAgent: device.userAgent || null,
+    ipAddress: device.ipAddress || null,
+    tokenExpiresAt,
     expiresAt,
   });
 
-  return token;
+  return { sessionToken, refreshToken, tokenExpiresAt, expiresAt };
 }
 
 /**
  * Get session by token
+ * Slides the session expiry forward on use
  */
-export function getSession(token: string): Session | null {
-  const session = sessions.get(token);
-  
-  if (!session) {
+export async function getSession(token: string): Promise<Session | null> {
+  const record = await storage.getSessionByTokenHash(hashToken(token));
+
+  if (!record || record.revokedAt) {
     return null;
   }
 
-  // Check if session has expired
-  if (new Date() > session.expiresAt) {
-    sessions.delete(token);
+  const now = new Date();
+
+  // Check if session or access token has expired
+  if (now > record.expiresAt || now > record.tokenExpiresAt) {
     return null;
   }
 
-  return session;
+  if (now.getTime() - record.lastUsedAt.getTime() > SESSION_TOUCH_INTERVAL_MS) {
+    const touched = await storage.updateSession(record.id.toString(), {
+      lastUsedAt: now,
+      expiresAt: slidingExpiry(record.createdAt, now),
+    });
+    if (touched) {
+      return toSession(touched);
+    }
+  }
+
+  return toSession(record);
+}
+
+/**
+ * Rotate a session's tokens using its refresh token
+ * Presenting an already-rotated refresh token revokes the session (token theft detection)
+ */
+export async function refreshSession(refreshToken: string): Promise<SessionTokens | null> {
+  const refreshTokenHash = hashToken(refreshToken);
+  const record = await storage.getSessionByRefreshTokenHash(refreshTokenHash);
+
+  if (!record) {
+    const reused = await storage.getSessionByPreviousRefreshTokenHash(refreshTokenHash);
+    if (reused) {
+      console.warn(`Refresh token reuse detected for session ${reused.id}, revoking`);
+      await revokeSession(reused.id.toString());
+    }
+    return null;
+  }
+
+  const now = new Date();
+
+  if (record.revokedAt || now > record.expiresAt) {
+    return null;
+  }
+
+  const sessionToken = generateSessionToken();
+  const nextRefreshToken = generateSessionToken();
+  const tokenExpiresAt = new Date(now.getTime() + ACCESS_TOKEN_TTL_MS);
+  const expiresAt = slidingExpiry(record.createdAt, now);
+
+  await storage.updateSession(record.id.toString(), {
+    tokenHash: hashToken(sessionToken),
+    refreshTokenHash: hashToken(nextRefreshToken),
+    previousRefreshTokenHash: refreshTokenHash,
+    tokenExpiresAt,
+    expiresAt,
+    lastUsedAt: now,
+  });
+
+  return { sessionToken, refreshToken: nextRefreshToken, tokenExpiresAt, expiresAt };
 }
 
 /**
  * Invalidate a session
  */
-export function invalidateSession(token: string): boolean {
-  return sessions.delete(token);
+export async function invalidateSession(token: string): Promise<boolean> {
+  const record = await storage.getSessionByTokenHash(hashToken(token));
+
+  if (!record) {
+    return false;
+  }
+
+  return revokeSession(record.id.toString());
+}
+
+/**
+ * List a user's active sessions (one per device)
+ */
+export async function listSessions(username: string): Promise<DeviceSession[]> {
+  const records = await storage.getActiveSessions(username);
+  return records.map(toDeviceSession);
 }
 
 /**
- * Clean up expired sessions (run periodically)
+ * Revoke one of a user's sessions
+ * @returns false if the session does not exist or belongs to another user
  */
-export function cleanupExpiredSessions(): number {
+export async function revokeUserSession(username: string, sessionId: string): Promise<boolean> {
+  const records = await storage.getActiveSessions(username);
+
+  if (!records.some(record => record.id.toString() === sessionId)) {
+    return false;
+  }
+
+  return revokeSession(sessionId);
+}
+
+/**
+ * Clean up expired login challenges and rate limit entries (run periodically)
+ */
+export function cleanupExpiredChallenges(): void {
   const now = new Date();
-  let removedCount = 0;
 
-  for (const [token, session] of Array.from(sessions.entries())) {
-    if (now > session.expiresAt) {
-      sessions.delete(token);
-      removedCount++;
+  for (const [nonce, challenge] of Array.from(loginChallenges.entries())) {
+    if (now > challenge.expiresAt) {
+      loginChallenges.delete(nonce);
     }
   }
 
-  return removedCount;
+  for (const attemptMap of [loginFailures, challengeRequests]) {
+    for (const [key, attempts] of Array.from(attemptMap.entries())) {
+      if (attempts.every((attemptedAt) => now.getTime() - attemptedAt >= LOGIN_ATTEMPT_WINDOW_MS)) {
+        attemptMap.delete(key);
+      }
+    }
+  }
 }
 
-// Run cleanup every hour
-setInterval(() => {
-  const removed = cleanupExpiredSessions();
-  if (removed > 0) {
-    console.log(`Cleaned up ${removed} expired session(s)`);
+/**
+ * Clean up expired and revoked sessions (run periodically)
+ */
+export async function cleanupExpiredSessions(): Promise<number> {
+  return storage.deleteExpiredSessions();
+}
+
+// Run cleanup every hour (unref'd so it never keeps the process alive on its own)
+setInterval(async () => {
+  cleanupExpiredChallenges();
+
+  try {
+    const removed = await cleanupExpiredSessions();
+    if (removed > 0) {
+      console.log(`Cleaned up ${removed} expired session(s)`);
+    }
+  } catch (error) {
+    console.error('Error cleaning up expired sessions:', error);
   }
-}, 60 * 60 * 1000);
+}, 60 * 60 * 1000).unref();
 
 /**
- * Express middleware to require authentication
+ * Read the bearer token from a request's Authorization header
  */
-export function requireAuth(req: any, res: any, next: any) {
+export function getBearerToken(req: any): string | null {
   const authHeader = req.headers.authorization;
-  
+
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return res.status(401).json({ 
-      error: 'Unauthorized',
-      message: 'No authentication token provided'
-    });
+    return null;
   }
 
-  const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-  const session = getSession(token);
+  return authHeader.substring(7); // Remove 'Bearer ' prefix
+}
 
-  if (!session) {
+/**
+ * Express middleware to require authentication
+ */
+export function requireAuth(req: any, res: any, next: any) {
+  const token = getBearerToken(req);
+  
+  if (!token) {
     return res.status(401).json({ 
       error: 'Unauthorized',
-      message: 'Invalid or expired session token'
+      message: 'No authentication token provided'
     });
   }
 
-  // Attach session data to request
-  req.session = session;
-  req.sessionToken = token;
+  getSession(token)
+    .then((session) => {
+      if (!session) {
+        return res.status(401).json({ 
+          error: 'Unauthorized',
+          message: 'Invalid or expired session token'
+        });
+      }
 
-  next();
+      // Attach session data to request
+      req.session = session;
+      req.sessionToken = token;
+
+      next();
+    })
+    .catch((error) => {
+      console.error('Error checking session:', error);
+      res.status(500).json({
+        error: 'Authentication failed',
+        message: 'Failed to verify session'
+      });
+    });
 }
 
 /**
@@ -159,17 +498,22 @@ export function requireAuth(req: any, res: any, next: any) {
  * Sets req.session if valid token is provided, but doesn't reject if missing
  */
 export function optionalAuth(req: any, res: any, next: any) {
-  const authHeader = req.headers.authorization;
+  const token = getBearerToken(req);
   
-  if (authHeader && authHeader.startsWith('Bearer ')) {
-    const token = authHeader.substring(7);
-    const session = getSession(token);
-    
-    if (session) {
-      req.session = session;
-      req.sessionToken = token;
-    }
+  if (!token) {
+    return next();
   }
 
-  next();
+  getSession(token)
+    .then((session) => {
+      if (session) {
+        req.session = session;
+        req.sessionToken = token;
+      }
+      next();
+    })
+    .catch((error) => {
+      console.error('Error checking session:', error);
+      next();
+    });
 }
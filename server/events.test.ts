@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Conversation, RealtimeEvent } from '@shared/schema';
+import { publishConversationUpdated, subscribeToEvents, getEventsSince, getLatestCursor } from './events';
+
+const conversation = { id: 'c1', participants: ['alice', 'bob'] } as unknown as Conversation;
+
+describe('realtime events', () => {
+  it('delivers events to subscribers of that user only', () => {
+    const alice: RealtimeEvent[] = [];
+    const bob: RealtimeEvent[] = [];
+    const stopAlice = subscribeToEvents('alice', event => alice.push(event));
+    const stopBob = subscribeToEvents('bob', event => bob.push(event));
+
+    publishConversationUpdated('alice', conversation);
+    stopAlice();
+    publishConversationUpdated('alice', conversation);
+    stopBob();
+
+    assert.equal(alice.length, 1);
+    assert.equal(bob.length, 0);
+  });
+
+  it('treats account names that are EventEmitter event names like any other', () => {
+    // No listener: must not throw the way emit('error') does
+    assert.doesNotThrow(() => publishConversationUpdated('error', conversation));
+
+    const received: RealtimeEvent[] = [];
+    const stop = subscribeToEvents('newlistener', event => received.push(event));
+    subscribeToEvents('removelistener', () => {})();
+    publishConversationUpdated('newlistener', conversation);
+    stop();
+
+    assert.equal(received.length, 1);
+  });
+
+  it('replays a user\'s missed events after a cursor', () => {
+    const cursor = getLatestCursor();
+    publishConversationUpdated('carol', conversation);
+    publishConversationUpdated('dave', conversation);
+
+    assert.deepEqual(getEventsSince('carol', cursor)?.map(event => event.type), ['conversation.updated']);
+    assert.equal(getEventsSince('carol', 'stale:1'), null);
+  });
+});
@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import type { Conversation, Message, RealtimeEvent } from '@shared/schema';
+
+// Distributive Omit so each event variant keeps its own payload field
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+type EventPayload = DistributiveOmit<RealtimeEvent, 'cursor' | 'timestamp'>;
+
+interface LoggedEvent {
+  seq: number;
+  usernames: string[];
+  event: RealtimeEvent;
+}
+
+// Event log configuration
+const MAX_LOGGED_EVENTS = 5000;
+
+// Identifies this server process - cursors from a previous process force a resync
+const EPOCH = crypto.randomBytes(4).toString('hex');
+
+// Live listeners per username (a plain map: account names like "error" are not special here)
+type EventListener = (event: RealtimeEvent) => void;
+const listeners = new Map<string, Set<EventListener>>();
+
+// Ring of recent events for replay on reconnect
+const eventLog: LoggedEvent[] = [];
+let nextSeq = 1;
+
+function formatCursor(seq: number): string {
+  return `${EPOCH}:${seq}`;
+}
+
+/**
+ * Parse a client-supplied cursor
+ * @returns the sequence number, or null if the cursor is from another server process or malformed
+ */
+function parseCursor(cursor: string): number | null {
+  const [epoch, seqStr] = cursor.split(':');
+  const seq = parseInt(seqStr, 10);
+
+  if (epoch !== EPOCH || isNaN(seq) || seq < 0 || seq >= nextSeq) {
+    return null;
+  }
+
+  return seq;
+}
+
+/**
+ * Cursor pointing at the most recent event
+ */
+export function getLatestCursor(): string {
+  return formatCursor(nextSeq - 1);
+}
+
+/**
+ * Record an event and push it to every subscriber for the given users
+ */
+export function publishEvent(usernames: string[], payload: EventPayload): RealtimeEvent {
+  const seq = nextSeq++;
+  const event = {
+    ...payload,
+    cursor: formatCursor(seq),
+    timestamp: new Date().toISOString(),
+  } as RealtimeEvent;
+
+  const uniqueUsernames = Array.from(new Set(usernames.filter(Boolean)));
+
+  eventLog.push({ seq, usernames: uniqueUsernames, event });
+  if (eventLog.length > MAX_LOGGED_EVENTS) {
+    eventLog.shift();
+  }
+
+  for (const username of uniqueUsernames) {
+    listeners.get(username)?.forEach(listener => listener(event));
+  }
+
+  return event;
+}
+
+export function publishMessageCreated(message: Message): void {
+  publishEvent([message.sender, message.recipient], { type: 'message.created', message });
+}
+
+export function publishMessageStatus(message: Message): void {
+  publishEvent([message.sender, message.recipient], { type: 'message.status', message });
+}
+
+export function publishConversationUpdated(ownerUsername: string, conversation: Conversation): void {
+  publishEvent([ownerUsername], { type: 'conversation.updated', conversation });
+}
+
+/**
+ * Get a user's events after a cursor
+ * @returns the missed events, or null if they are no longer in the log and the client must resync
+ */
+export function getEventsSince(username: string, cursor: string): RealtimeEvent[] | null {
+  const seq = parseCursor(cursor);
+
+  if (seq === null) {
+    return null;
+  }
+
+  const oldestSeq = eventLog.length > 0 ? eventLog[0].seq : nextSeq;
+  if (seq < oldestSeq - 1) {
+    return null;
+  }
+
+  return eventLog
+    .filter(entry => entry.seq > seq && entry.usernames.includes(username))
+    .map(entry => entry.event);
+}
+
+/**
+ * Subscribe to a user's live events
+ * @returns unsubscribe function
+ */
+export function subscribeToEvents(username: string, listener: EventListener): () => void {
+  let userListeners = listeners.get(username);
+  if (!userListeners) {
+    userListeners = new Set();
+    listeners.set(username, userListeners);
+  }
+  userListeners.add(listener);
+
+  return () => {
+    userListeners.delete(listener);
+    if (userListeners.size === 0 && listeners.get(username) === userListeners) {
+      listeners.delete(username);
+    }
+  };
+}
@@ -0,0 +1,192 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { HiveRpcProxy, type HiveRpcTransport } from './hiveProxy';
+
+type NodeHealthStats = ReturnType<HiveRpcTransport['getNodeHealthStats']>;
+
+/**
+ * Stand-in for HiveBlockchainClient: records every upstream call and answers
+ * from a handler, optionally holding responses until released
+ */
+class MockRpc implements HiveRpcTransport {
+  calls: { api: string; method: string; params: any[] }[] = [];
+  handler: (api: string, method: string, params: any[]) => unknown = (_api, method, params) => ({ method, params });
+  private held: (() => void)[] = [];
+  holdResponses = false;
+
+  async call(api: string, method: string, params: any[] = []): Promise<any> {
+    this.calls.push({ api, method, params });
+    if (this.holdResponses) {
+      await new Promise<void>(resolve => this.held.push(resolve));
+    }
+    return this.handler(api, method, params);
+  }
+
+  release(): void {
+    this.held.splice(0).forEach(resolve => resolve());
+  }
+
+  getNodeHealthStats(): NodeHealthStats {
+    return new Map([
+      ['https://api.hive.blog', {
+        url: 'https://api.hive.blog',
+        latencies: [120, 131],
+        avgLatency: 125.6,
+        successCount: 9,
+        errorCount: 1,
+        successRate: 0.9,
+        headBlock: 1,
+        lastChecked: new Date(),
+        isHealthy: true,
+      }],
+    ]);
+  }
+}
+
+const ttls = {
+  'condenser_api.get_accounts': 30_000,
+  'condenser_api.get_dynamic_global_properties': 3_000,
+  'lookup.memo_key': 60_000,
+};
+
+describe('HiveRpcProxy', () => {
+  let rpc: MockRpc;
+  let proxy: HiveRpcProxy;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2025-01-01T00:00:00Z') });
+    rpc = new MockRpc();
+    proxy = new HiveRpcProxy(rpc, { ttls });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('only allows read-only RPC methods that have a TTL', () => {
+    assert.equal(proxy.isAllowed('condenser_api', 'get_accounts'), true);
+    assert.equal(proxy.isAllowed('condenser_api', 'broadcast_transaction'), false);
+    // Composite lookups are cached but never reachable through the passthrough
+    assert.equal(proxy.isAllowed('lookup', 'memo_key'), false);
+  });
+
+  it('serves repeat calls from the cache until the method TTL expires', async () => {
+    await proxy.call('condenser_api', 'get_accounts', [['alice']]);
+    await proxy.call('condenser_api', 'get_accounts', [['alice']]);
+    assert.equal(rpc.calls.length, 1);
+
+    mock.timers.tick(29_999);
+    await proxy.call('condenser_api', 'get_accounts', [['alice']]);
+    assert.equal(rpc.calls.length, 1);
+
+    mock.timers.tick(1);
+    await proxy.call('condenser_api', 'get_accounts', [['alice']]);
+    assert.equal(rpc.calls.length, 2);
+  });
+
+  it('keys the cache by params and gives each method its own TTL', async () => {
+    await proxy.call('condenser_api', 'get_accounts', [['alice']]);
+    await proxy.call('condenser_api', 'get_accounts', [['bob']]);
+    await proxy.call('condenser_api', 'get_dynamic_global_properties', []);
+    assert.equal(rpc.calls.length, 3);
+
+    mock.timers.tick(3_000);
+    await proxy.call('condenser_api', 'get_dynamic_global_properties', []);
+    await proxy.call('condenser_api', 'get_accounts', [['alice']]);
+    assert.equal(rpc.calls.length, 4);
+  });
+
+  it('never caches methods without a TTL', async () => {
+    await proxy.call('condenser_api', 'get_block', [1]);
+    await proxy.call('condenser_api', 'get_block', [1]);
+
+    assert.equal(rpc.calls.length, 2);
+    assert.equal(proxy.getStats().entries, 0);
+  });
+
+  it('coalesces identical calls that are already in flight', async () => {
+    rpc.holdResponses = true;
+
+    const requests = [
+      proxy.call('condenser_api', 'get_accounts', [['alice']]),
+      proxy.call('condenser_api', 'get_accounts', [['alice']]),
+      proxy.call('condenser_api', 'get_accounts', [['alice']]),
+    ];
+    const other = proxy.call('condenser_api', 'get_accounts', [['bob']]);
+    assert.equal(proxy.getStats().inFlight, 2);
+
+    rpc.release();
+    const results = await Promise.all(requests);
+    await other;
+
+    assert.equal(rpc.calls.length, 2);
+    assert.ok(results.every(result => result === results[0]));
+    assert.equal(proxy.getStats().inFlight, 0);
+  });
+
+  it('shares a failure with coalesced callers and does not cache it', async () => {
+    rpc.holdResponses = true;
+    rpc.handler = () => { throw new Error('node down'); };
+
+    const first = proxy.call('condenser_api', 'get_accounts', [['alice']]);
+    const second = proxy.call('condenser_api', 'get_accounts', [['alice']]);
+    rpc.release();
+
+    await assert.rejects(first, /node down/);
+    await assert.rejects(second, /node down/);
+
+    rpc.holdResponses = false;
+    rpc.handler = () => [{ name: 'alice' }];
+    assert.deepEqual(await proxy.call('condenser_api', 'get_accounts', [['alice']]), [{ name: 'alice' }]);
+    assert.equal(rpc.calls.length, 2);
+  });
+
+  it('reports hits, misses, coalesced calls and errors per method', async () => {
+    rpc.holdResponses = true;
+    const inFlight = [
+      proxy.call('condenser_api', 'get_accounts', [['alice']]),
+      proxy.call('condenser_api', 'get_accounts', [['alice']]),
+    ];
+    rpc.release();
+    await Promise.all(inFlight);
+    rpc.holdResponses = false;
+
+    await proxy.call('condenser_api', 'get_accounts', [['alice']]);
+    await proxy.cached('lookup.memo_key', 'alice', async () => 'STM-memo');
+    await assert.rejects(proxy.cached('lookup.memo_key', 'bob', async () => { throw new Error('missing'); }));
+
+    const stats = proxy.getStats();
+    assert.deepEqual(stats.methods['condenser_api.get_accounts'], { hits: 1, misses: 1, coalesced: 1, errors: 0 });
+    assert.deepEqual(stats.methods['lookup.memo_key'], { hits: 0, misses: 2, coalesced: 0, errors: 1 });
+    assert.equal(stats.hits, 1);
+    assert.equal(stats.misses, 3);
+    assert.equal(stats.coalesced, 1);
+    assert.equal(stats.errors, 1);
+    assert.equal(stats.hitRate, 2 / 5);
+    assert.equal(stats.entries, 2);
+    assert.deepEqual(stats.nodes, [{ url: 'https://api.hive.blog', avgLatency: 126, successRate: 0.9, isHealthy: true }]);
+  });
+
+  it('evicts the oldest entries beyond maxEntries', async () => {
+    proxy = new HiveRpcProxy(rpc, { ttls, maxEntries: 2 });
+
+    await proxy.call('condenser_api', 'get_accounts', [['alice']]);
+    await proxy.call('condenser_api', 'get_accounts', [['bob']]);
+    await proxy.call('condenser_api', 'get_accounts', [['carol']]);
+    assert.equal(proxy.getStats().evictions, 1);
+
+    await proxy.call('condenser_api', 'get_accounts', [['alice']]);
+    assert.equal(rpc.calls.length, 4);
+  });
+
+  it('invalidates one method or the whole cache', async () => {
+    await proxy.call('condenser_api', 'get_accounts', [['alice']]);
+    await proxy.call('condenser_api', 'get_dynamic_global_properties', []);
+
+    proxy.invalidate('condenser_api.get_accounts');
+    assert.equal(proxy.getStats().entries, 1);
+
+    proxy.invalidate();
+    assert.equal(proxy.getStats().entries, 0);
+  });
+});
@@ -0,0 +1,208 @@
+import { hiveClient, type HiveBlockchainClient } from "../client/src/lib/hiveClient";
+
+/**
+ * Cache lifetime per method in milliseconds
+ * `*_api.*` entries are raw RPC methods and the only ones the passthrough endpoint accepts (all read-only);
+ * `lookup.*` entries are composite lookups used by the /api/hive/* routes.
+ */
+export const DEFAULT_METHOD_TTLS: Record<string, number> = {
+  'lookup.account': 30_000,
+  'lookup.memo_key': 60_000,
+  'lookup.account_history': 10_000,
+  'condenser_api.get_accounts': 30_000,
+  'condenser_api.get_account_history': 10_000,
+  'condenser_api.get_dynamic_global_properties': 3_000,
+  'condenser_api.get_block': 60_000,
+  'condenser_api.get_transaction': 300_000,
+  'condenser_api.get_following': 60_000,
+  'condenser_api.get_followers': 60_000,
+  'condenser_api.get_content': 30_000,
+  'rc_api.find_rc_accounts': 30_000,
+};
+
+const DEFAULT_MAX_ENTRIES = 5000;
+
+// The parts of HiveBlockchainClient the proxy relies on (node selection, retries, health)
+export type HiveRpcTransport = Pick<HiveBlockchainClient, 'call' | 'getNodeHealthStats'>;
+
+export interface HiveProxyOptions {
+  ttls?: Record<string, number>;
+  maxEntries?: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+interface MethodStats {
+  hits: number;
+  misses: number;
+  coalesced: number;
+  errors: number;
+}
+
+export interface HiveProxyStats {
+  entries: number;
+  inFlight: number;
+  hits: number;
+  misses: number;
+  coalesced: number;
+  errors: number;
+  evictions: number;
+  hitRate: number;
+  methods: Record<string, MethodStats>;
+  nodes: {
+    url: string;
+    avgLatency: number;
+    successRate: number;
+    isHealthy: boolean;
+  }[];
+}
+
+/**
+ * Caching layer in front of the Hive RPC nodes for the /api/hive/* routes
+ *
+ * - Responses are cached per method with their own TTL (methods without a TTL are never cached)
+ * - Identical calls already in flight share one upstream request
+ * - Node selection, retries and failover are delegated to HiveBlockchainClient
+ */
+export class HiveRpcProxy {
+  private transport: HiveRpcTransport;
+  private ttls: Record<string, number>;
+  private maxEntries: number;
+  private cache = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  private methodStats = new Map<string, MethodStats>();
+  private evictions = 0;
+
+  constructor(transport: HiveRpcTransport = hiveClient, options: HiveProxyOptions = {}) {
+    this.transport = transport;
+    this.ttls = options.ttls || DEFAULT_METHOD_TTLS;
+    this.maxEntries = options.maxEntries || DEFAULT_MAX_ENTRIES;
+  }
+
+  isAllowed(api: string, method: string): boolean {
+    return api.endsWith('_api') && `${api}.${method}` in this.ttls;
+  }
+
+  /**
+   * Raw JSON-RPC call through the cache
+   */
+  call<T>(api: string, method: string, params: unknown[]): Promise<T> {
+    return this.cached(`${api}.${method}`, params, () => this.transport.call(api, method, params as any[]));
+  }
+
+  /**
+   * Cache an arbitrary fetcher under a method name + params key
+   * Used for composite lookups (e.g. filtered account history) built on top of several RPC calls
+   */
+  async cached<T>(method: string, params: unknown, fetcher: () => Promise<T>): Promise<T> {
+    const key = `${method}:${JSON.stringify(params)}`;
+    const stats = this.getMethodStats(method);
+    const now = Date.now();
+
+    const entry = this.cache.get(key);
+    if (entry && entry.expiresAt > now) {
+      stats.hits++;
+      return entry.value as T;
+    }
+    if (entry) {
+      this.cache.delete(key);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      stats.coalesced++;
+      return pending as Promise<T>;
+    }
+
+    stats.misses++;
+    const request = (async () => {
+      try {
+        const value = await fetcher();
+        this.store(key, value, this.ttls[method] || 0);
+        return value;
+      } catch (error) {
+        stats.errors++;
+        throw error;
+      } finally {
+        this.inFlight.delete(key);
+      }
+    })();
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Drop cached responses, optionally only those for one method
+   */
+  invalidate(method?: string): void {
+    if (!method) {
+      this.cache.clear();
+      return;
+    }
+
+    for (const key of Array.from(this.cache.keys())) {
+      if (key.startsWith(`${method}:`)) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  getStats(): HiveProxyStats {
+    const totals = { hits: 0, misses: 0, coalesced: 0, errors: 0 };
+    const methods: Record<string, MethodStats> = {};
+
+    this.methodStats.forEach((stats, method) => {
+      methods[method] = { ...stats };
+      totals.hits += stats.hits;
+      totals.misses += stats.misses;
+      totals.coalesced += stats.coalesced;
+      totals.errors += stats.errors;
+    });
+
+    const served = totals.hits + totals.misses + totals.coalesced;
+
+    return {
+      entries: this.cache.size,
+      inFlight: this.inFlight.size,
+      ...totals,
+      evictions: this.evictions,
+      hitRate: served > 0 ? (totals.hits + totals.coalesced) / served : 0,
+      methods,
+      nodes: Array.from(this.transport.getNodeHealthStats().values()).map(node => ({
+        url: node.url,
+        avgLatency: Math.round(node.avgLatency),
+        successRate: node.successRate,
+        isHealthy: node.isHealthy,
+      })),
+    };
+  }
+
+  private store(key: string, value: unknown, ttl: number): void {
+    if (ttl <= 0) return;
+
+    // Map keeps insertion order - the first key is the oldest entry
+    while (this.cache.size >= this.maxEntries) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest === undefined) break;
+      this.cache.delete(oldest);
+      this.evictions++;
+    }
+
+    this.cache.set(key, { value, expiresAt: Date.now() + ttl });
+  }
+
+  private getMethodStats(method: string): MethodStats {
+    let stats = this.methodStats.get(method);
+    if (!stats) {
+      stats = { hits: 0, misses: 0, coalesced: 0, errors: 0 };
+      this.methodStats.set(method, stats);
+    }
+    return stats;
+  }
+}
+
+export const hiveProxy = new HiveRpcProxy();
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startIndexerFromEnv } from "./indexer";
+import { transferReconciler } from "./transferReconciler";
 
 const app = express();
 
@@ -77,5 +79,9 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Optional blockchain indexer worker (INDEXER_ENABLED=true)
+    startIndexerFromEnv();
+    transferReconciler.start();
   });
 })();
@@ -0,0 +1,273 @@
+import { describe, it, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { reduceGroupOps } from '@shared/groupReducer';
+import { BlockIndexer, toGroupOp, type BlockSource, type ChainState, type SourceBlock } from './indexer';
+import { MemStorage } from './storage';
+
+type Operation = [string, any];
+
+/**
+ * In-process chain: blocks are built from per-block operation lists, and any
+ * range can be replaced by another branch to simulate a fork
+ */
+class FakeChain implements BlockSource {
+  private blocks = new Map<number, SourceBlock>();
+  lastIrreversibleBlock = 0;
+  getBlockCalls: number[] = [];
+
+  constructor(blockCount: number, opsFor: (blockNum: number) => Operation[] = () => []) {
+    for (let blockNum = 1; blockNum <= blockCount; blockNum++) {
+      this.append(opsFor(blockNum));
+    }
+  }
+
+  get headBlock(): number {
+    return this.blocks.size;
+  }
+
+  append(operations: Operation[], branch = 'a'): SourceBlock {
+    const blockNum = this.blocks.size + 1;
+    const block: SourceBlock = {
+      blockNum,
+      blockId: `${blockNum}-${branch}`,
+      previous: this.blocks.get(blockNum - 1)?.blockId ?? '0-genesis',
+      timestamp: new Date(Date.UTC(2025, 0, 1, 0, 0, blockNum * 3)).toISOString().slice(0, 19),
+      transactions: operations.map((op, i) => ({ txId: `tx-${blockNum}-${branch}-${i}`, operations: [op] })),
+    };
+    this.blocks.set(blockNum, block);
+    return block;
+  }
+
+  /** Drop everything above `fromBlockNum` so a new branch can be appended */
+  truncate(fromBlockNum: number): void {
+    for (let blockNum = this.blocks.size; blockNum > fromBlockNum; blockNum--) {
+      this.blocks.delete(blockNum);
+    }
+  }
+
+  async getChainState(): Promise<ChainState> {
+    return { headBlock: this.headBlock, lastIrreversibleBlock: this.lastIrreversibleBlock };
+  }
+
+  async getBlock(blockNum: number): Promise<SourceBlock | null> {
+    this.getBlockCalls.push(blockNum);
+    return this.blocks.get(blockNum) ?? null;
+  }
+}
+
+function transfer(from: string, to: string, memo = '#encrypted'): Operation {
+  return ['transfer', { from, to, amount: '0.001 HBD', memo }];
+}
+
+function groupOp(account: string, json: Record<string, unknown>): Operation {
+  return ['custom_json', {
+    id: 'hive_messenger_group',
+    required_auths: [],
+    required_posting_auths: [account],
+    json: JSON.stringify(json),
+  }];
+}
+
+async function indexedTransferTxIds(store: MemStorage, username: string): Promise<string[]> {
+  const transfers = await store.getIndexedTransfers({ username, limit: 1000 });
+  return transfers.map(t => t.txId).sort();
+}
+
+describe('BlockIndexer', () => {
+  let store: MemStorage;
+
+  beforeEach(() => {
+    // The indexer logs forks and failures; keep test output readable
+    mock.method(console, 'log', () => {});
+    store = new MemStorage();
+  });
+
+  it('indexes messenger transfers and group ops from the start block', async () => {
+    const chain = new FakeChain(5, blockNum => {
+      if (blockNum === 2) return [transfer('alice', 'bob'), transfer('alice', 'bob', 'plain memo')];
+      if (blockNum === 4) return [groupOp('alice', { action: 'create', groupId: 'g1', name: 'G', members: ['alice', 'bob'] })];
+      return [];
+    });
+    chain.lastIrreversibleBlock = 5;
+
+    const indexer = new BlockIndexer(chain, store, { startBlock: 1, batchSize: 10 });
+    assert.equal(await indexer.tick(), 4);
+
+    assert.deepEqual(await indexedTransferTxIds(store, 'bob'), ['tx-2-a-0']);
+    const state = await store.getIndexerState('hive');
+    assert.equal(state?.lastBlockNum, 5);
+    assert.equal(state?.lastBlockId, '5-a');
+
+    const group = await store.getGroup('g1');
+    assert.deepEqual(group?.members.sort(), ['alice', 'bob']);
+  });
+
+  it('only applies group ops once they are irreversible', async () => {
+    const chain = new FakeChain(3, blockNum =>
+      blockNum === 3 ? [groupOp('alice', { action: 'create', groupId: 'g1', name: 'G', members: ['alice', 'bob'] })] : []
+    );
+    chain.lastIrreversibleBlock = 2;
+
+    const indexer = new BlockIndexer(chain, store, { startBlock: 1 });
+    await indexer.tick();
+    assert.equal(await store.getGroup('g1'), undefined);
+
+    chain.lastIrreversibleBlock = 3;
+    await indexer.tick();
+    assert.ok(await store.getGroup('g1'));
+  });
+
+  it('resumes from its cursor after a restart', async () => {
+    const chain = new FakeChain(10, blockNum => [transfer('alice', 'bob', `#m${blockNum}`)]);
+
+    await new BlockIndexer(chain, store, { startBlock: 1, batchSize: 4 }).tick();
+    assert.equal((await store.getIndexerState('hive'))?.lastBlockNum, 5);
+
+    // A new worker on the same database picks up at block 6
+    chain.getBlockCalls = [];
+    const restarted = new BlockIndexer(chain, store, { startBlock: 1, batchSize: 100 });
+    assert.equal(await restarted.tick(), 5);
+
+    assert.deepEqual(chain.getBlockCalls, [6, 7, 8, 9, 10]);
+    assert.equal((await indexedTransferTxIds(store, 'bob')).length, 10);
+  });
+
+  it('rolls back to the common ancestor on a fork', async () => {
+    const chain = new FakeChain(8, blockNum => [transfer('alice', 'bob', `#m${blockNum}`)]);
+    chain.lastIrreversibleBlock = 4;
+
+    const indexer = new BlockIndexer(chain, store, { startBlock: 1, batchSize: 100 });
+    await indexer.tick();
+
+    // Blocks 7 and 8 are replaced by a longer branch
+    chain.truncate(6);
+    chain.append([transfer('carol', 'bob', '#b7')], 'b');
+    chain.append([], 'b');
+    chain.append([transfer('carol', 'bob', '#b9')], 'b');
+    await indexer.tick();
+
+    const txIds = await indexedTransferTxIds(store, 'bob');
+    assert.ok(!txIds.includes('tx-7-a-0'));
+    assert.ok(!txIds.includes('tx-8-a-0'));
+    assert.ok(txIds.includes('tx-7-b-0'));
+    assert.ok(txIds.includes('tx-9-b-0'));
+    assert.equal(txIds.length, 8);
+
+    const state = await store.getIndexerState('hive');
+    assert.equal(state?.lastBlockNum, 9);
+    assert.equal(state?.lastBlockId, '9-b');
+  });
+
+  it('never rolls back below the last irreversible block', async () => {
+    const chain = new FakeChain(6);
+    chain.lastIrreversibleBlock = 5;
+
+    const indexer = new BlockIndexer(chain, store, { startBlock: 1, batchSize: 100 });
+    await indexer.tick();
+
+    chain.truncate(5);
+    chain.append([], 'b');
+    chain.append([], 'b');
+    await indexer.tick();
+
+    assert.equal((await store.getIndexedBlock(5))?.blockId, '5-a');
+    assert.equal((await store.getIndexerState('hive'))?.lastBlockId, '7-b');
+  });
+
+  it('replays group ops idempotently after a crash before the irreversible mark', async () => {
+    const chain = new FakeChain(3, blockNum => {
+      if (blockNum === 1) return [groupOp('alice', { action: 'create', groupId: 'g1', name: 'G', members: ['alice', 'bob'] })];
+      if (blockNum === 2) return [groupOp('alice', { action: 'update', groupId: 'g1', version: 2, members: ['alice', 'bob', 'carol'] })];
+      return [];
+    });
+    chain.lastIrreversibleBlock = 3;
+
+    const markIrreversible = store.markIndexIrreversible.bind(store);
+    let failures = 1;
+    mock.method(store, 'markIndexIrreversible', async (name: string, block: number) => {
+      if (failures-- > 0) throw new Error('crash');
+      return markIrreversible(name, block);
+    });
+
+    const indexer = new BlockIndexer(chain, store, { startBlock: 1 });
+    await assert.rejects(indexer.tick(), /crash/);
+    await indexer.tick();
+
+    const group = await store.getGroup('g1');
+    assert.deepEqual(group?.members.sort(), ['alice', 'bob', 'carol']);
+    assert.equal((await store.getGroupMembershipHistory('g1')).filter(m => m.username === 'carol').length, 1);
+  });
+
+  it('applies updates by role, not just by the creator', async () => {
+    const chain = new FakeChain(4, blockNum => {
+      if (blockNum === 1) {
+        return [groupOp('alice', {
+          action: 'create', groupId: 'g1', name: 'G', members: ['bob', 'carol'], roles: { bob: 'admin' },
+        })];
+      }
+      // Admin adds dave; an outsider's update with a higher version is ignored
+      if (blockNum === 2) return [groupOp('bob', { action: 'update', groupId: 'g1', version: 2, members: ['alice', 'bob', 'carol', 'dave'] })];
+      if (blockNum === 3) return [groupOp('mallory', { action: 'update', groupId: 'g1', version: 3, members: ['mallory'], roles: { mallory: 'owner' } })];
+      // A plain member cannot rename the group
+      if (blockNum === 4) return [groupOp('carol', { action: 'update', groupId: 'g1', version: 4, name: 'Renamed' })];
+      return [];
+    });
+    chain.lastIrreversibleBlock = 4;
+
+    await new BlockIndexer(chain, store, { startBlock: 1 }).tick();
+
+    const group = await store.getGroup('g1');
+    assert.equal(group?.version, 2);
+    assert.equal(group?.name, 'G');
+    assert.deepEqual(group?.members.sort(), ['alice', 'bob', 'carol', 'dave']);
+    assert.equal(group?.roles?.bob, 'admin');
+  });
+
+  it('stores the same group state as the clients\' reducer for the same ops', async () => {
+    const chain = new FakeChain(7, blockNum => {
+      switch (blockNum) {
+        case 1: return [groupOp('alice', { action: 'create', groupId: 'g1', name: 'G', members: ['alice', 'bob', 'carol'], roles: { bob: 'admin' } })];
+        case 2: return [groupOp('bob', { action: 'ban', groupId: 'g1', username: 'mallory' })];
+        // Re-adding a banned user, a plain member's rename and an outsider's takeover are all rejected
+        case 3: return [groupOp('bob', { action: 'update', groupId: 'g1', version: 2, members: ['alice', 'bob', 'carol', 'mallory'] })];
+        case 4: return [groupOp('carol', { action: 'update', groupId: 'g1', version: 2, name: 'Renamed' })];
+        case 5: return [groupOp('bob', { action: 'update', groupId: 'g1', version: 2, members: ['alice', 'bob', 'carol', 'dave'] })];
+        // Approvals do not change the manifest, for the banned user least of all
+        case 6: return [groupOp('alice', { action: 'join_approve', groupId: 'g1', username: 'mallory' })];
+        case 7: return [groupOp('mallory', { action: 'update', groupId: 'g1', version: 9, members: ['mallory'], roles: { mallory: 'owner' } })];
+        default: return [];
+      }
+    });
+    chain.lastIrreversibleBlock = 7;
+
+    await new BlockIndexer(chain, store, { startBlock: 1 }).tick();
+
+    const ops = await store.getIndexedGroupOps({ groupId: 'g1', limit: 100 });
+    const { group: reduced } = reduceGroupOps(ops.map(toGroupOp));
+    const stored = await store.getGroup('g1');
+
+    assert.ok(reduced && stored);
+    assert.deepEqual(
+      { name: stored.name, creator: stored.creator, version: stored.version, members: stored.members.sort(), roles: stored.roles },
+      { name: reduced.name, creator: reduced.creator, version: reduced.version, members: reduced.members.sort(), roles: reduced.roles }
+    );
+    assert.deepEqual(stored.members, ['alice', 'bob', 'carol', 'dave']);
+    assert.equal(stored.version, 2);
+  });
+
+  it('applies every group op when a block holds more than a page of them', async () => {
+    const opsInBlock = 1200;
+    const chain = new FakeChain(3, blockNum =>
+      blockNum === 2
+        ? Array.from({ length: opsInBlock }, (_, i) =>
+            groupOp('alice', { action: 'create', groupId: `g${i}`, name: `G${i}`, members: ['alice', 'bob'] })
+          )
+        : []
+    );
+    chain.lastIrreversibleBlock = 3;
+
+    await new BlockIndexer(chain, store, { startBlock: 1 }).tick();
+
+    assert.equal((await store.getGroups('alice')).length, opsInBlock);
+  });
+});
@@ -0,0 +1,406 @@
+import type { GroupCustomJson, IndexedBlockData, IndexedGroupOpDB, IndexedGroupOpQuery } from "@shared/schema";
+import { GROUP_STATE_ACTIONS, reduceGroupOps, type GroupOp } from "@shared/groupReducer";
+import { hiveClient } from "../client/src/lib/hiveClient";
+import { storage, type IStorage } from "./storage";
+import { log } from "./vite";
+
+// Mirrors GROUP_CUSTOM_JSON_ID in client/src/lib/groupBlockchain.ts
+// (that module pulls in browser-only Keychain code, so it can't be imported here)
+const GROUP_CUSTOM_JSON_ID = 'hive_messenger_group';
+
+export const DEFAULT_INDEXER_NAME = 'hive';
+
+const GROUP_OP_PAGE_SIZE = 500;
+
+export interface ChainState {
+  headBlock: number;
+  lastIrreversibleBlock: number;
+}
+
+export interface SourceBlock {
+  blockNum: number;
+  blockId: string;
+  previous: string;
+  timestamp: string;
+  transactions: Array<{
+    txId: string;
+    operations: Array<[string, any]>;
+  }>;
+}
+
+/**
+ * Where the indexer reads blocks from
+ * The RPC implementation talks to Hive nodes; tests can supply an in-process fake chain
+ */
+export interface BlockSource {
+  getChainState(): Promise<ChainState>;
+  getBlock(blockNum: number): Promise<SourceBlock | null>;
+}
+
+/**
+ * Block source backed by the shared HiveBlockchainClient (node health + failover)
+ */
+export class HiveRpcBlockSource implements BlockSource {
+  async getChainState(): Promise<ChainState> {
+    const props = await hiveClient.call('condenser_api', 'get_dynamic_global_properties', []);
+    return {
+      headBlock: props.head_block_number,
+      lastIrreversibleBlock: props.last_irreversible_block_num,
+    };
+  }
+
+  async getBlock(blockNum: number): Promise<SourceBlock | null> {
+    const block = await hiveClient.call('condenser_api', 'get_block', [blockNum]);
+
+    if (!block) {
+      return null;
+    }
+
+    return {
+      blockNum,
+      blockId: block.block_id,
+      previous: block.previous,
+      timestamp: block.timestamp,
+      transactions: (block.transactions || []).map((tx: any, i: number) => ({
+        txId: block.transaction_ids?.[i] || tx.transaction_id || '',
+        operations: tx.operations || [],
+      })),
+    };
+  }
+}
+
+export interface IndexerOptions {
+  /** Cursor name in indexer_state - lets several indexers share one database */
+  name?: string;
+  /** Block to start from when there is no cursor yet (defaults to the current head) */
+  startBlock?: number;
+  /** Maximum blocks processed per tick */
+  batchSize?: number;
+  /** Delay between ticks when caught up with head */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Extract hive_messenger transfers and group ops from a block
+ * opIndex is the operation's position within the whole block, so rows sort in chain order
+ */
+export function extractIndexedData(block: SourceBlock): IndexedBlockData {
+  const timestamp = new Date(block.timestamp.endsWith('Z') ? block.timestamp : block.timestamp + 'Z');
+  const data: IndexedBlockData = {
+    blockNum: block.blockNum,
+    blockId: block.blockId,
+    previous: block.previous,
+    timestamp,
+    transfers: [],
+    groupOps: [],
+  };
+
+  let opIndex = 0;
+  for (const tx of block.transactions) {
+    for (const [opType, opData] of tx.operations) {
+      const currentOpIndex = opIndex++;
+
+      if (opType === 'transfer' && typeof opData?.memo === 'string' && opData.memo.startsWith('#')) {
+        data.transfers.push({
+          blockNum: block.blockNum,
+          txId: tx.txId,
+          opIndex: currentOpIndex,
+          fromUsername: opData.from,
+          toUsername: opData.to,
+          amount: typeof opData.amount === 'string' ? opData.amount : String(opData.amount),
+          memo: opData.memo,
+          timestamp,
+        });
+      } else if (opType === 'custom_json' && opData?.id === GROUP_CUSTOM_JSON_ID) {
+        let payload: any;
+        try {
+          payload = typeof opData.json === 'string' ? JSON.parse(opData.json) : opData.json;
+        } catch {
+          continue;
+        }
+
+        const account = opData.required_posting_auths?.[0] || opData.required_auths?.[0];
+        if (!payload?.groupId || !payload?.action || !account) {
+          continue;
+        }
+
+        data.groupOps.push({
+          blockNum: block.blockNum,
+          txId: tx.txId,
+          opIndex: currentOpIndex,
+          groupId: String(payload.groupId),
+          action: String(payload.action),
+          account,
+          payload,
+          timestamp,
+        });
+      }
+    }
+  }
+
+  return data;
+}
+
+/**
+ * An indexed group op in the reducer's shape
+ * opIndex is block-wide, so it orders the ops within a block by itself
+ */
+export function toGroupOp(row: IndexedGroupOpDB): GroupOp {
+  return {
+    json: { ...(row.payload as Partial<GroupCustomJson>), action: row.action, groupId: row.groupId } as GroupCustomJson,
+    author: row.account,
+    trxId: row.txId,
+    block: row.blockNum,
+    trxInBlock: 0,
+    opInTrx: row.opIndex,
+    timestamp: row.timestamp.toISOString(),
+  };
+}
+
+/**
+ * Follows the chain block by block and writes messenger operations to Postgres
+ *
+ * The cursor (last indexed block number + id) is stored after each block, so the
+ * worker resumes where it stopped. Each new block's `previous` is checked against
+ * the cursor; on mismatch the indexer walks back to the common ancestor and drops
+ * everything above it. Rows at or below the last irreversible block are flagged
+ * irreversible and can no longer be rolled back.
+ */
+export class BlockIndexer {
+  private source: BlockSource;
+  private store: IStorage;
+  private name: string;
+  private startBlock?: number;
+  private batchSize: number;
+  private pollIntervalMs: number;
+  private isRunning: boolean = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(source: BlockSource, store: IStorage = storage, options: IndexerOptions = {}) {
+    this.source = source;
+    this.store = store;
+    this.name = options.name || DEFAULT_INDEXER_NAME;
+    this.startBlock = options.startBlock;
+    this.batchSize = options.batchSize || 50;
+    this.pollIntervalMs = options.pollIntervalMs || 3000;
+  }
+
+  start(): void {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    log(`indexer "${this.name}" started`, "indexer");
+    this.scheduleTick(0);
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleTick(delay: number): void {
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      if (!this.isRunning) return;
+
+      let processed = 0;
+      try {
+        processed = await this.tick();
+      } catch (error) {
+        console.error('Indexer tick failed:', error);
+      }
+
+      if (this.isRunning) {
+        // Keep going immediately while catching up, otherwise wait for new blocks
+        this.scheduleTick(processed >= this.batchSize ? 0 : this.pollIntervalMs);
+      }
+    }, delay);
+  }
+
+  /**
+   * Index up to batchSize blocks
+   * @returns number of blocks indexed
+   */
+  async tick(): Promise<number> {
+    const chain = await this.source.getChainState();
+    let state = await this.store.getIndexerState(this.name);
+
+    if (!state) {
+      const firstBlockNum = this.startBlock ?? chain.headBlock;
+      const firstBlock = await this.source.getBlock(firstBlockNum);
+      if (!firstBlock) return 0;
+
+      await this.store.saveIndexedBlock(this.name, extractIndexedData(firstBlock));
+      state = await this.store.getIndexerState(this.name);
+      if (!state) return 0;
+    }
+
+    let lastBlockNum = state.lastBlockNum;
+    let lastBlockId = state.lastBlockId;
+    let processed = 0;
+
+    while (processed < this.batchSize && lastBlockNum < chain.headBlock) {
+      const block = await this.source.getBlock(lastBlockNum + 1);
+      if (!block) break;
+
+      if (block.previous !== lastBlockId) {
+        const ancestor = await this.findCommonAncestor(lastBlockNum, chain.lastIrreversibleBlock);
+        log(`fork detected at block ${block.blockNum}, rolling back to ${ancestor.blockNum}`, "indexer");
+        await this.store.rollbackIndex(this.name, ancestor.blockNum, ancestor.blockId);
+        lastBlockNum = ancestor.blockNum;
+        lastBlockId = ancestor.blockId;
+        continue;
+      }
+
+      await this.store.saveIndexedBlock(this.name, extractIndexedData(block));
+      lastBlockNum = block.blockNum;
+      lastBlockId = block.blockId;
+      processed++;
+    }
+
+    const irreversibleBlock = Math.min(chain.lastIrreversibleBlock, lastBlockNum);
+
+    // Apply before flagging: if we crash in between, the range is re-applied (ops are idempotent)
+    if (irreversibleBlock > state.lastIrreversibleBlock) {
+      await this.applyGroupOps(state.lastIrreversibleBlock, irreversibleBlock);
+    }
+
+    await this.store.markIndexIrreversible(this.name, irreversibleBlock);
+
+    return processed;
+  }
+
+  /**
+   * Bring the server group tables up to date with groups that had ops in blocks (fromBlock, throughBlock]
+   * Only irreversible ops are applied so group state never needs rolling back
+   */
+  private async applyGroupOps(fromBlock: number, throughBlock: number): Promise<void> {
+    const groupIds = new Set<string>();
+    await this.forEachGroupOpPage({ actions: GROUP_STATE_ACTIONS, afterBlock: fromBlock, throughBlock }, ops => {
+      ops.forEach(op => groupIds.add(op.groupId));
+    });
+
+    for (const groupId of Array.from(groupIds)) {
+      try {
+        await this.applyGroupState(groupId, throughBlock);
+      } catch (error) {
+        log(`failed to apply ops of group ${groupId}: ${error instanceof Error ? error.message : error}`, "indexer");
+      }
+    }
+  }
+
+  /**
+   * Fold the group's whole irreversible history with the clients' reducer and
+   * store every manifest it accepted that the server does not have yet
+   * Groups whose create op was not indexed are skipped (the reduction is partial).
+   */
+  private async applyGroupState(groupId: string, throughBlock: number): Promise<void> {
+    const ops: GroupOp[] = [];
+    await this.forEachGroupOpPage({ groupId, actions: GROUP_STATE_ACTIONS, throughBlock }, page => {
+      ops.push(...page.map(toGroupOp));
+    });
+
+    const stored = await this.store.getGroup(groupId);
+    const { applied, partial } = reduceGroupOps(ops, { creator: stored?.creator });
+    if (partial || applied.length === 0) return;
+
+    const [base, ...updates] = applied;
+    if (!stored) {
+      await this.store.createGroup({
+        groupId,
+        name: base.group.name,
+        members: base.group.members,
+        creator: base.group.creator,
+        paymentSettings: base.group.paymentSettings,
+        roles: base.group.roles,
+        txId: base.op.trxId,
+      });
+    }
+
+    // updateGroup skips versions the server already has, so replays are idempotent
+    for (const { op, group } of updates) {
+      await this.store.updateGroup(groupId, {
+        name: group.name,
+        members: group.members,
+        paymentSettings: group.paymentSettings,
+        roles: group.roles,
+        changedBy: op.author,
+        txId: op.trxId,
+        version: group.version,
+      });
+    }
+  }
+
+  /**
+   * Page through indexed group ops in chain order
+   * (block, op index) cursor, so pages may end anywhere - even in the middle of a block
+   */
+  private async forEachGroupOpPage(
+    query: Omit<IndexedGroupOpQuery, 'afterOpIndex' | 'limit'>,
+    callback: (ops: IndexedGroupOpDB[]) => void
+  ): Promise<void> {
+    let afterBlock = query.afterBlock;
+    let afterOpIndex: number | undefined;
+
+    while (true) {
+      const ops = await this.store.getIndexedGroupOps({ ...query, afterBlock, afterOpIndex, limit: GROUP_OP_PAGE_SIZE });
+      callback(ops);
+
+      // Only a short page means the range is exhausted
+      if (ops.length < GROUP_OP_PAGE_SIZE) break;
+
+      const last = ops[ops.length - 1];
+      afterBlock = last.blockNum;
+      afterOpIndex = last.opIndex;
+    }
+  }
+
+  /**
+   * Walk back from the cursor until the stored block matches the chain
+   * Never walks below the last irreversible block - that block cannot have forked
+   */
+  private async findCommonAncestor(fromBlockNum: number, lastIrreversibleBlock: number): Promise<{ blockNum: number; blockId: string }> {
+    const floor = Math.min(lastIrreversibleBlock, fromBlockNum);
+
+    for (let blockNum = fromBlockNum; blockNum > floor; blockNum--) {
+      const stored = await this.store.getIndexedBlock(blockNum);
+      const canonical = await this.source.getBlock(blockNum);
+
+      if (stored && canonical && stored.blockId === canonical.blockId) {
+        return { blockNum, blockId: stored.blockId };
+      }
+    }
+
+    const anchor = await this.source.getBlock(floor);
+    if (!anchor) {
+      throw new Error(`Unable to fetch irreversible block ${floor} during fork recovery`);
+    }
+
+    return { blockNum: anchor.blockNum, blockId: anchor.blockId };
+  }
+}
+
+export function isIndexerEnabled(): boolean {
+  return process.env.INDEXER_ENABLED === 'true';
+}
+
+/**
+ * Start the indexer worker if INDEXER_ENABLED=true
+ * INDEXER_START_BLOCK optionally sets the first block for a fresh database
+ */
+export function startIndexerFromEnv(): BlockIndexer | null {
+  if (!isIndexerEnabled()) {
+    return null;
+  }
+
+  const startBlock = process.env.INDEXER_START_BLOCK
+    ? parseInt(process.env.INDEXER_START_BLOCK, 10)
+    : undefined;
+
+  const indexer = new BlockIndexer(new HiveRpcBlockSource(), storage, { startBlock });
+  indexer.start();
+
+  return indexer;
+}
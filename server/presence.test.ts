@@ -0,0 +1,76 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import type { RealtimeServerFrame } from '@shared/schema';
+import { addPresenceClient, handlePresenceFrame, setPresencePrivacyCheck, type PresenceClient } from './presence';
+
+// Accounts whose message_privacy is 'following' or 'disabled'
+const restricted = new Set(['bob', 'erin']);
+
+function connect(username: string) {
+  const frames: RealtimeServerFrame[] = [];
+  const client: PresenceClient = { username, sharing: false, watching: new Set(), send: frame => frames.push(frame) };
+  const disconnect = addPresenceClient(client);
+  return { client, frames, disconnect };
+}
+
+describe('presence relay', () => {
+  before(() => {
+    setPresencePrivacyCheck(async username => !restricted.has(username));
+  });
+
+  it('does not let restricted users share presence or typing', async () => {
+    const alice = connect('alice');
+    const bob = connect('bob');
+    await handlePresenceFrame(alice.client, { type: 'presence.share', enabled: true });
+    await handlePresenceFrame(alice.client, { type: 'presence.watch', usernames: ['bob'] });
+
+    await handlePresenceFrame(bob.client, { type: 'presence.share', enabled: true });
+    await handlePresenceFrame(bob.client, { type: 'presence.watch', usernames: ['alice'] });
+    await handlePresenceFrame(bob.client, { type: 'typing', to: ['alice'], typing: true });
+
+    assert.equal(bob.client.sharing, false);
+    assert.deepEqual(alice.frames, []);
+    assert.deepEqual(bob.frames, []);
+
+    alice.disconnect();
+    bob.disconnect();
+  });
+
+  it('leaves restricted users out of presence answers', async () => {
+    const carol = connect('carol');
+    const dave = connect('dave');
+    const erin = connect('erin');
+    await handlePresenceFrame(dave.client, { type: 'presence.share', enabled: true });
+    await handlePresenceFrame(erin.client, { type: 'presence.share', enabled: true });
+
+    await handlePresenceFrame(carol.client, { type: 'presence.share', enabled: true });
+    await handlePresenceFrame(carol.client, { type: 'presence.watch', usernames: ['dave', 'erin'] });
+
+    assert.deepEqual(carol.frames, [{ type: 'presence', presence: { username: 'dave', online: true } }]);
+
+    carol.disconnect();
+    dave.disconnect();
+    erin.disconnect();
+  });
+
+  it('keeps the latest share frame when an earlier privacy check finishes last', async () => {
+    let releaseFirst!: () => void;
+    const firstCheck = new Promise<void>(resolve => { releaseFirst = resolve; });
+    let checks = 0;
+    setPresencePrivacyCheck(async () => {
+      if (checks++ === 0) await firstCheck;
+      return true;
+    });
+
+    const frank = connect('frank');
+    const enabling = handlePresenceFrame(frank.client, { type: 'presence.share', enabled: true });
+    await handlePresenceFrame(frank.client, { type: 'presence.share', enabled: false });
+    releaseFirst();
+    await enabling;
+
+    assert.equal(frank.client.sharing, false);
+
+    frank.disconnect();
+    setPresencePrivacyCheck(async username => !restricted.has(username));
+  });
+});
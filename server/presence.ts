@@ -0,0 +1,193 @@
+import type { PresenceState, RealtimeClientFrame, RealtimeServerFrame } from '@shared/schema';
+import { hiveClient } from '../client/src/lib/hiveClient';
+import { hiveProxy } from './hiveProxy';
+
+/**
+ * Ephemeral presence and typing relay
+ *
+ * Nothing here touches the chain or the event log: state lives in memory for the
+ * lifetime of the realtime sockets. A connection only shows up as online, sends
+ * typing events and receives other users' presence/typing after its client opted
+ * in with a `presence.share` frame, so users who haven't opted in are invisible
+ * and see nothing.
+ *
+ * Presence follows the account's message_privacy: users who only accept messages
+ * from people they follow (or none) cannot opt in, and their presence is never
+ * sent to anyone.
+ */
+
+// Whether a user's presence may be shown to others
+export type PresencePrivacyCheck = (username: string) => Promise<boolean>;
+
+export interface PresenceClient {
+  username: string;
+  sharing: boolean;
+  watching: Set<string>;
+  send: (frame: RealtimeServerFrame) => void;
+}
+
+// Connected clients by username (a user may have several devices/tabs)
+const clientsByUser = new Map<string, Set<PresenceClient>>();
+
+// Last disconnect of users who were sharing
+const lastSeen = new Map<string, string>();
+
+// Latest presence.share per client; an older frame's privacy check must not win
+const shareRequests = new WeakMap<PresenceClient, number>();
+
+// message_privacy from posting_json_metadata, 'everyone' when unset or unreadable (as on the client)
+function parseMessagePrivacy(postingJsonMetadata: string | undefined): string {
+  try {
+    const metadata = JSON.parse(postingJsonMetadata || '{}');
+    return metadata?.profile?.hive_messenger?.message_privacy || 'everyone';
+  } catch {
+    return 'everyone';
+  }
+}
+
+/**
+ * Presence is only shown for message_privacy 'everyone'; accounts that cannot be
+ * looked up count as restricted
+ */
+async function allowsPresenceByMessagePrivacy(username: string): Promise<boolean> {
+  try {
+    const account = await hiveProxy.cached('lookup.account', [username], () => hiveClient.getAccount(username));
+    return !!account && parseMessagePrivacy(account.posting_json_metadata) === 'everyone';
+  } catch (error) {
+    console.error('Presence privacy lookup failed:', username, error);
+    return false;
+  }
+}
+
+let allowsPresence: PresencePrivacyCheck = allowsPresenceByMessagePrivacy;
+
+/**
+ * Replace the message_privacy lookup (tests)
+ */
+export function setPresencePrivacyCheck(check: PresencePrivacyCheck): void {
+  allowsPresence = check;
+}
+
+function isOnline(username: string): boolean {
+  const clients = clientsByUser.get(username);
+  if (!clients) return false;
+  return Array.from(clients).some(client => client.sharing);
+}
+
+function getPresence(username: string): PresenceState {
+  return isOnline(username)
+    ? { username, online: true }
+    : { username, online: false, lastSeen: lastSeen.get(username) };
+}
+
+function forEachSharingClient(callback: (client: PresenceClient) => void): void {
+  clientsByUser.forEach(clients => {
+    clients.forEach(client => {
+      if (client.sharing) callback(client);
+    });
+  });
+}
+
+// Tell every sharing watcher of `username` about its current presence
+function notifyWatchers(username: string): void {
+  const presence = getPresence(username);
+  forEachSharingClient(client => {
+    if (client.watching.has(username)) {
+      client.send({ type: 'presence', presence });
+    }
+  });
+}
+
+// Answer a client's presence query, leaving out users whose privacy hides them
+async function sendPresences(client: PresenceClient, usernames: Iterable<string>): Promise<void> {
+  await Promise.all(Array.from(usernames).map(async username => {
+    if (await allowsPresence(username)) {
+      client.send({ type: 'presence', presence: getPresence(username) });
+    }
+  }));
+}
+
+// Run a change that may flip a user's online state, notifying watchers if it did
+function updateOnlineState(username: string, change: () => void): void {
+  const wasOnline = isOnline(username);
+  change();
+  const nowOnline = isOnline(username);
+
+  if (wasOnline && !nowOnline) {
+    lastSeen.set(username, new Date().toISOString());
+  }
+  if (wasOnline !== nowOnline) {
+    notifyWatchers(username);
+  }
+}
+
+/**
+ * Register a realtime connection
+ * @returns cleanup to call when the socket closes
+ */
+export function addPresenceClient(client: PresenceClient): () => void {
+  const clients = clientsByUser.get(client.username) ?? new Set<PresenceClient>();
+  clients.add(client);
+  clientsByUser.set(client.username, clients);
+
+  return () => {
+    updateOnlineState(client.username, () => {
+      clients.delete(client);
+      if (clients.size === 0) {
+        clientsByUser.delete(client.username);
+      }
+    });
+  };
+}
+
+/**
+ * Apply a presence/typing frame sent by a client
+ */
+export async function handlePresenceFrame(client: PresenceClient, frame: RealtimeClientFrame): Promise<void> {
+  switch (frame.type) {
+    case 'presence.share': {
+      const request = (shareRequests.get(client) ?? 0) + 1;
+      shareRequests.set(client, request);
+
+      const sharing = frame.enabled && await allowsPresence(client.username);
+      if (shareRequests.get(client) !== request) return;
+
+      if (frame.enabled && !sharing) {
+        lastSeen.delete(client.username);
+      }
+      updateOnlineState(client.username, () => {
+        client.sharing = sharing;
+      });
+      if (sharing) {
+        await sendPresences(client, client.watching);
+      }
+      break;
+    }
+
+    case 'presence.watch':
+      client.watching = new Set(frame.usernames.filter(username => username !== client.username));
+      if (client.sharing) {
+        await sendPresences(client, client.watching);
+      }
+      break;
+
+    case 'typing':
+      if (!client.sharing) return;
+
+      for (const recipient of Array.from(new Set(frame.to))) {
+        if (recipient === client.username) continue;
+
+        clientsByUser.get(recipient)?.forEach(recipientClient => {
+          if (recipientClient.sharing) {
+            recipientClient.send({
+              type: 'typing',
+              from: client.username,
+              groupId: frame.groupId,
+              typing: frame.typing,
+            });
+          }
+        });
+      }
+      break;
+  }
+}
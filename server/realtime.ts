@@ -0,0 +1,185 @@
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { realtimeClientFrameSchema, type RealtimeServerFrame } from "@shared/schema";
+import { getSession, onSessionRevoked, type Session } from "./auth";
+import { getEventsSince, getLatestCursor, subscribeToEvents } from "./events";
+import { addPresenceClient, handlePresenceFrame, type PresenceClient } from "./presence";
+import { log } from "./vite";
+
+export const REALTIME_PATH = "/api/ws";
+
+// Heartbeat configuration - drops connections that stop answering pings
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+// Client frames are tiny (presence/typing); anything larger is dropped
+const MAX_CLIENT_FRAME_BYTES = 4096;
+
+interface RealtimeSocket extends WebSocket {
+  isAlive?: boolean;
+  sessionExpiresAt?: Date;
+}
+
+// Open sockets per session id, so revoking a session disconnects its devices
+const socketsBySession = new Map<string, Set<RealtimeSocket>>();
+
+function send(socket: WebSocket, frame: RealtimeServerFrame): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(frame));
+  }
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Attach the realtime push channel to the HTTP server
+ *
+ * Clients connect to /api/ws?token=<sessionToken>&cursor=<lastCursor>.
+ * The token is the same session token accepted by requireAuth (browsers
+ * cannot set an Authorization header on WebSocket upgrades). Events missed
+ * since the cursor are replayed before live events; if the cursor is too old
+ * the client is told to resync from the REST endpoints.
+ *
+ * The socket also carries the opt-in presence/typing relay (see presence.ts):
+ * clients send presence.share / presence.watch / typing frames.
+ *
+ * Sockets are closed when their session is revoked or expires.
+ */
+export function setupRealtime(httpServer: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || "/", "http://localhost");
+
+    // Leave other upgrades (e.g. Vite HMR) to their own handlers
+    if (url.pathname !== REALTIME_PATH) {
+      return;
+    }
+
+    const token = url.searchParams.get("token");
+    if (!token) {
+      rejectUpgrade(socket, 401, "Unauthorized");
+      return;
+    }
+
+    getSession(token)
+      .then((session) => {
+        if (!session) {
+          rejectUpgrade(socket, 401, "Unauthorized");
+          return;
+        }
+
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          handleConnection(ws, session, url.searchParams.get("cursor"));
+        });
+      })
+      .catch((error) => {
+        console.error("Error authenticating realtime connection:", error);
+        rejectUpgrade(socket, 500, "Internal Server Error");
+      });
+  });
+
+  const stopRevocationListener = onSessionRevoked((sessionId) => {
+    socketsBySession.get(sessionId)?.forEach((socket) => {
+      socket.close(4001, "Session revoked");
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    wss.clients.forEach((client) => {
+      const socket = client as RealtimeSocket;
+      if (socket.sessionExpiresAt && now > socket.sessionExpiresAt) {
+        socket.close(4001, "Session expired");
+        return;
+      }
+      if (socket.isAlive === false) {
+        socket.terminate();
+        return;
+      }
+      socket.isAlive = false;
+      socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on("close", () => {
+    clearInterval(heartbeat);
+    stopRevocationListener();
+  });
+
+  return wss;
+}
+
+function handleConnection(ws: WebSocket, session: Session, cursor: string | null): void {
+  const { username } = session;
+  const socket = ws as RealtimeSocket;
+  socket.isAlive = true;
+  socket.sessionExpiresAt = session.expiresAt;
+  socket.on("pong", () => {
+    socket.isAlive = true;
+  });
+
+  const sessionSockets = socketsBySession.get(session.id) ?? new Set<RealtimeSocket>();
+  sessionSockets.add(socket);
+  socketsBySession.set(session.id, sessionSockets);
+
+  // Replay, then subscribe. Publishing is synchronous and so is everything from
+  // here to the subscription, so no event can land in between: each event is
+  // sent exactly once and in cursor order.
+  if (cursor) {
+    const missed = getEventsSince(username, cursor);
+    if (missed === null) {
+      send(socket, { type: "resync", cursor: getLatestCursor() });
+    } else {
+      for (const event of missed) {
+        send(socket, { type: "event", event });
+      }
+    }
+  }
+
+  const unsubscribe = subscribeToEvents(username, (event) => {
+    send(socket, { type: "event", event });
+  });
+
+  const presenceClient: PresenceClient = {
+    username,
+    sharing: false,
+    watching: new Set(),
+    send: (frame) => send(socket, frame),
+  };
+  const removePresenceClient = addPresenceClient(presenceClient);
+
+  socket.on("message", (data: Buffer, isBinary: boolean) => {
+    if (isBinary || data.length > MAX_CLIENT_FRAME_BYTES) return;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(data.toString());
+    } catch {
+      return;
+    }
+
+    const result = realtimeClientFrameSchema.safeParse(json);
+    if (result.success) {
+      void handlePresenceFrame(presenceClient, result.data);
+    }
+  });
+
+  socket.on("close", () => {
+    unsubscribe();
+    removePresenceClient();
+    sessionSockets.delete(socket);
+    if (sessionSockets.size === 0) {
+      socketsBySession.delete(session.id);
+    }
+  });
+  socket.on("error", (error) => {
+    console.error("Realtime socket error:", error);
+  });
+
+  send(socket, { type: "ready", cursor: getLatestCursor() });
+  log(`realtime connection opened for ${username}`, "realtime");
+}
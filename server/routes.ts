@@ -1,26 +1,116 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { z } from "zod";
-import type { Message, Conversation } from "@shared/schema";
+import {
+  storage,
+  decodeMessageCursor,
+  DEFAULT_MESSAGE_PAGE_SIZE,
+  MAX_MESSAGE_PAGE_SIZE,
+} from "./storage";
+import { getEventsSince, getLatestCursor } from "./events";
+import { setupRealtime } from "./realtime";
+import { DEFAULT_INDEXER_NAME, isIndexerEnabled } from "./indexer";
+import {
+  MESSAGE_STATUSES,
+  createGroupSchema,
+  updateGroupSchema,
+  createContactSchema,
+  updateContactSchema,
+  type Message,
+  type Conversation,
+  type Group,
+  type GroupMessage,
+} from "@shared/schema";
+import { randomUUID } from "crypto";
 import { hiveClient } from "../client/src/lib/hiveClient";
+import { getGroupOwner, isAuthorizedGroupUpdate, normalizeGroupRoles } from "@shared/groupRoles";
+import { hiveProxy } from "./hiveProxy";
+import { verifyTransfer } from "./transferReconciler";
 import { 
   createSession, 
   getSession, 
   invalidateSession, 
+  refreshSession,
+  listSessions,
+  revokeUserSession,
+  getBearerToken,
   verifyKeychainSignature,
+  createLoginChallenge,
+  consumeLoginChallenge,
+  isLoginRateLimited,
+  recordLoginFailure,
+  checkChallengeRateLimit,
   requireAuth
 } from "./auth";
 
+// How far the indexer may trail the chain head and still count as caught up (~1 minute)
+const INDEX_MAX_LAG_BLOCKS = 20;
+
+/**
+ * Indexer cursor plus whether its tables can be relied on: the worker is enabled
+ * and close to the chain head. startBlockNum is the first block it indexed, so ops
+ * before it are missing.
+ */
+async function getIndexStatus() {
+  const state = await storage.getIndexerState(DEFAULT_INDEXER_NAME);
+  if (!state) return null;
+
+  const startBlockNum = await storage.getFirstIndexedBlockNum();
+  let headBlockNum: number | null = null;
+  try {
+    const properties = await hiveProxy.call<{ head_block_number: number }>('condenser_api', 'get_dynamic_global_properties', []);
+    headBlockNum = properties.head_block_number;
+  } catch (error) {
+    console.error("Error fetching chain head for indexer status:", error);
+  }
+
+  return {
+    enabled: isIndexerEnabled(),
+    startBlockNum,
+    lastBlockNum: state.lastBlockNum,
+    lastBlockId: state.lastBlockId,
+    lastIrreversibleBlock: state.lastIrreversibleBlock,
+    headBlockNum,
+    caughtUp: headBlockNum !== null && headBlockNum - state.lastBlockNum <= INDEX_MAX_LAG_BLOCKS,
+    updatedAt: state.updatedAt.toISOString(),
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // ============================================================================
   // Authentication Endpoints
   // ============================================================================
 
-  // POST /api/auth/login - Authenticate with Keychain proof and create session
+  // POST /api/auth/challenge - Issue a single-use nonce for the user to sign with Keychain
+  app.post("/api/auth/challenge", (req, res) => {
+    const { username } = req.body;
+
+    if (!username || typeof username !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'Username is required'
+      });
+    }
+
+    if (!checkChallengeRateLimit(req.ip || 'unknown')) {
+      return res.status(429).json({
+        error: 'Too many requests',
+        message: 'Too many login attempts. Please wait a minute and try again.'
+      });
+    }
+
+    const challenge = createLoginChallenge(username);
+
+    res.json({
+      nonce: challenge.nonce,
+      message: challenge.message,
+      expiresAt: challenge.expiresAt.toISOString()
+    });
+  });
+
+  // POST /api/auth/login - Authenticate with a signed challenge and create session
   app.post("/api/auth/login", async (req, res) => {
     try {
-      const { username, keychainProof } = req.body;
+      const { username, keychainProof, deviceName } = req.body;
 
       // Validate request body
       if (!username || typeof username !== 'string') {
@@ -30,10 +120,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      if (!keychainProof || !keychainProof.signature || !keychainProof.message) {
+      if (!keychainProof || !keychainProof.signature || !keychainProof.nonce) {
         return res.status(400).json({
           error: 'Invalid request',
-          message: 'Keychain proof (signature, message) is required'
+          message: 'Keychain proof (signature, nonce) is required'
+        });
+      }
+
+      // SECURITY: Nonce is single-use - consumed before any further checks so it cannot be replayed
+      const challenge = consumeLoginChallenge(username, keychainProof.nonce);
+      if (!challenge) {
+        return res.status(401).json({
+          error: 'Authentication failed',
+          message: 'Login challenge is invalid, expired or already used'
+        });
+      }
+
+      const clientIp = req.ip || 'unknown';
+      if (isLoginRateLimited(clientIp, username)) {
+        return res.status(429).json({
+          error: 'Too many requests',
+          message: 'Too many login attempts. Please wait a minute and try again.'
         });
       }
 
@@ -56,9 +163,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // SECURITY FIX: Extract authoritative posting key from blockchain
-      const blockchainPostingKey = blockchainAccount.posting?.key_auths?.[0]?.[0];
-      if (!blockchainPostingKey) {
+      // SECURITY FIX: Extract authoritative posting keys from blockchain
+      const blockchainPostingKeys = (blockchainAccount.posting?.key_auths || []).map(
+        ([key]) => typeof key === 'string' ? key : key.toString()
+      );
+      if (blockchainPostingKeys.length === 0) {
         return res.status(500).json({
           error: 'Invalid account',
           message: 'Account has no posting key'
@@ -74,23 +183,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // SECURITY FIX: Verify signature against blockchain posting key (not client-supplied key)
+      // SECURITY FIX: Verify the server-issued challenge was signed by an on-chain posting or memo key
       const isValidSignature = verifyKeychainSignature(
-        username,
-        keychainProof.message,
+        challenge.message,
         keychainProof.signature,
-        typeof blockchainPostingKey === 'string' ? blockchainPostingKey : blockchainPostingKey.toString()
+        [...blockchainPostingKeys, blockchainMemoKey]
       );
 
       if (!isValidSignature) {
+        recordLoginFailure(clientIp, username);
         return res.status(401).json({
           error: 'Authentication failed',
-          message: 'Invalid Keychain signature - signature does not match blockchain posting key'
+          message: 'Invalid Keychain signature - signature does not match blockchain posting or memo key'
         });
       }
 
       // SECURITY FIX: Create session with blockchain-verified memo key
-      const sessionToken = createSession(username, blockchainMemoKey);
+      const tokens = await createSession(username, blockchainMemoKey, {
+        deviceName: typeof deviceName === 'string' ? deviceName.slice(0, 100) : undefined,
+        userAgent: req.get('user-agent')?.slice(0, 500),
+        ipAddress: req.ip,
+      });
 
       // SECURITY FIX: Update user record with blockchain-verified memo key
       const dbStorage = storage as any;
@@ -98,7 +211,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json({
         success: true,
-        sessionToken,
+        sessionToken: tokens.sessionToken,
+        refreshToken: tokens.refreshToken,
+        tokenExpiresAt: tokens.tokenExpiresAt.toISOString(),
+        expiresAt: tokens.expiresAt.toISOString(),
         username,
         publicMemoKey: blockchainMemoKey  // Return blockchain memo key
       });
@@ -111,52 +227,174 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // GET /api/auth/verify - Verify session token
-  app.get("/api/auth/verify", (req, res) => {
-    const authHeader = req.headers.authorization;
+  // POST /api/auth/refresh - Rotate session and refresh tokens
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      const { refreshToken } = req.body;
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
-        valid: false,
-        error: 'No authentication token provided'
+      if (!refreshToken || typeof refreshToken !== 'string') {
+        return res.status(400).json({
+          error: 'Invalid request',
+          message: 'refreshToken is required'
+        });
+      }
+
+      const tokens = await refreshSession(refreshToken);
+
+      if (!tokens) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Invalid, expired or revoked refresh token'
+        });
+      }
+
+      res.json({
+        success: true,
+        sessionToken: tokens.sessionToken,
+        refreshToken: tokens.refreshToken,
+        tokenExpiresAt: tokens.tokenExpiresAt.toISOString(),
+        expiresAt: tokens.expiresAt.toISOString()
+      });
+    } catch (error) {
+      console.error('Error refreshing session:', error);
+      res.status(500).json({
+        error: 'Refresh failed',
+        message: error instanceof Error ? error.message : 'Unknown error'
       });
     }
+  });
+
+  // GET /api/auth/verify - Verify session token
+  app.get("/api/auth/verify", async (req, res) => {
+    try {
+      const token = getBearerToken(req);
+
+      if (!token) {
+        return res.status(401).json({
+          valid: false,
+          error: 'No authentication token provided'
+        });
+      }
+
+      const session = await getSession(token);
 
-    const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-    const session = getSession(token);
+      if (!session) {
+        return res.status(401).json({
+          valid: false,
+          error: 'Invalid or expired session token'
+        });
+      }
 
-    if (!session) {
-      return res.status(401).json({
+      res.json({
+        valid: true,
+        username: session.username,
+        publicMemoKey: session.publicMemoKey,
+        expiresAt: session.expiresAt.toISOString()
+      });
+    } catch (error) {
+      console.error('Error verifying session:', error);
+      res.status(500).json({
         valid: false,
-        error: 'Invalid or expired session token'
+        error: 'Failed to verify session'
       });
     }
-
-    res.json({
-      valid: true,
-      username: session.username,
-      publicMemoKey: session.publicMemoKey
-    });
   });
 
   // POST /api/auth/logout - Invalidate session
-  app.post("/api/auth/logout", (req, res) => {
-    const authHeader = req.headers.authorization;
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const token = getBearerToken(req);
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(400).json({
+      if (!token) {
+        return res.status(400).json({
+          success: false,
+          error: 'No authentication token provided'
+        });
+      }
+
+      const invalidated = await invalidateSession(token);
+
+      res.json({
+        success: invalidated,
+        message: invalidated ? 'Session invalidated successfully' : 'Session not found'
+      });
+    } catch (error) {
+      console.error('Error during logout:', error);
+      res.status(500).json({
         success: false,
-        error: 'No authentication token provided'
+        error: 'Failed to invalidate session'
       });
     }
+  });
 
-    const token = authHeader.substring(7);
-    const invalidated = invalidateSession(token);
+  // GET /api/auth/sessions - List the current user's active sessions (one per device)
+  app.get("/api/auth/sessions", requireAuth, async (req: any, res) => {
+    try {
+      const sessions = await listSessions(req.session.username);
 
-    res.json({
-      success: invalidated,
-      message: invalidated ? 'Session invalidated successfully' : 'Session not found'
-    });
+      res.json(sessions.map(session => ({
+        ...session,
+        current: session.id === req.session.id,
+      })));
+    } catch (error) {
+      console.error('Error listing sessions:', error);
+      res.status(500).json({
+        error: 'Failed to list sessions',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // DELETE /api/auth/sessions - Revoke all of the current user's other sessions
+  app.delete("/api/auth/sessions", requireAuth, async (req: any, res) => {
+    try {
+      const sessions = await listSessions(req.session.username);
+      let revokedCount = 0;
+
+      for (const session of sessions) {
+        if (session.id === req.session.id) continue;
+        if (await revokeUserSession(req.session.username, session.id)) {
+          revokedCount++;
+        }
+      }
+
+      res.json({
+        success: true,
+        revokedCount
+      });
+    } catch (error) {
+      console.error('Error revoking sessions:', error);
+      res.status(500).json({
+        error: 'Failed to revoke sessions',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // DELETE /api/auth/sessions/:sessionId - Revoke one of the current user's sessions
+  app.delete("/api/auth/sessions/:sessionId", requireAuth, async (req: any, res) => {
+    try {
+      const { sessionId } = req.params;
+      const revoked = await revokeUserSession(req.session.username, sessionId);
+
+      if (!revoked) {
+        return res.status(404).json({
+          error: 'Session not found',
+          message: 'The specified session does not exist or is already revoked'
+        });
+      }
+
+      res.json({
+        success: true,
+        message: 'Session revoked successfully'
+      });
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      res.status(500).json({
+        error: 'Failed to revoke session',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
   });
 
   // ============================================================================
@@ -265,7 +503,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get messages for a conversation (Protected - requires authentication)
+  // Get a page of messages for a conversation (Protected - requires authentication)
+  // Query: before/after cursors, limit, status (comma-separated), sender
   app.get("/api/conversations/:conversationId/messages", requireAuth, async (req: any, res) => {
     try {
       const { conversationId } = req.params;
@@ -292,8 +531,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const messages = await storage.getMessages(conversationId);
-      res.json(messages);
+      const { before, after, limit, status, sender } = req.query;
+
+      if (before !== undefined && (typeof before !== 'string' || !decodeMessageCursor(before))) {
+        return res.status(400).json({
+          error: "Invalid cursor",
+          message: "before must be a cursor returned by a previous page"
+        });
+      }
+
+      if (after !== undefined && (typeof after !== 'string' || !decodeMessageCursor(after))) {
+        return res.status(400).json({
+          error: "Invalid cursor",
+          message: "after must be a cursor returned by a previous page"
+        });
+      }
+
+      const limitNum = limit === undefined ? DEFAULT_MESSAGE_PAGE_SIZE : parseInt(limit as string, 10);
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > MAX_MESSAGE_PAGE_SIZE) {
+        return res.status(400).json({
+          error: "Invalid limit",
+          message: `Limit must be a number between 1 and ${MAX_MESSAGE_PAGE_SIZE}`
+        });
+      }
+
+      // Accept ?status=sent,confirmed or repeated ?status= params; only known statuses are allowed
+      const statusFilter = status === undefined
+        ? undefined
+        : ([] as string[]).concat(status as string | string[]).flatMap(value => value.split(','));
+      if (statusFilter && !statusFilter.every(value => (MESSAGE_STATUSES as string[]).includes(value))) {
+        return res.status(400).json({
+          error: "Invalid status",
+          message: `Status must be one of: ${MESSAGE_STATUSES.join(', ')}`
+        });
+      }
+
+      if (sender !== undefined && (typeof sender !== 'string' || !/^[a-z0-9.-]{3,16}$/.test(sender))) {
+        return res.status(400).json({
+          error: "Invalid sender",
+          message: "sender must be a valid Hive username"
+        });
+      }
+
+      const page = await storage.getMessages(conversationId, {
+        before: before as string | undefined,
+        after: after as string | undefined,
+        limit: limitNum,
+        status: statusFilter as Message['status'][] | undefined,
+        sender: sender as string | undefined,
+      });
+      res.json(page);
     } catch (error) {
       console.error("Error fetching messages:", error);
       res.status(500).json({ 
@@ -395,16 +682,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update message status
-  app.patch("/api/messages/:messageId/status", async (req, res) => {
+  // Update message status (Protected - only the sender tracks their own delivery)
+  app.patch("/api/messages/:messageId/status", requireAuth, async (req: any, res) => {
     try {
       const { messageId } = req.params;
       const { status } = req.body;
-      const message = await storage.updateMessageStatus(messageId, status);
+      const currentUsername = req.session.username;
+
+      // "confirmed" is only ever set after checking the chain (POST /api/hive/transfer or the reconciler)
+      if (!(MESSAGE_STATUSES as string[]).includes(status) || status === 'confirmed') {
+        return res.status(400).json({ 
+          error: "Invalid status",
+          message: "Status must be one of: sending, sent, failed"
+        });
+      }
+
+      const existing = await storage.getMessage(messageId);
       
-      if (!message) {
+      if (!existing) {
         return res.status(404).json({ error: "Message not found" });
       }
+
+      if (existing.sender !== currentUsername) {
+        return res.status(403).json({
+          error: "Forbidden",
+          message: "You can only update the status of messages you sent"
+        });
+      }
+
+      const message = await storage.updateMessageStatus(messageId, status);
       
       res.json(message);
     } catch (error) {
@@ -551,6 +857,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Missed push events since a cursor - polling fallback for when the /api/ws socket is down
+  app.get("/api/events", requireAuth, (req: any, res) => {
+    const cursor = typeof req.query.cursor === 'string' ? req.query.cursor : null;
+
+    if (!cursor) {
+      return res.json({ events: [], cursor: getLatestCursor(), resync: false });
+    }
+
+    const events = getEventsSince(req.session.username, cursor);
+
+    if (events === null) {
+      return res.json({ events: [], cursor: getLatestCursor(), resync: true });
+    }
+
+    res.json({ events, cursor: getLatestCursor(), resync: false });
+  });
+
   // User management endpoints
   
   // Create or update user with public memo key (Protected - requires authentication)
@@ -606,7 +929,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { username } = req.params;
       
-      const account = await hiveClient.getAccount(username);
+      const account = await hiveProxy.cached('lookup.account', [username], () => hiveClient.getAccount(username));
       
       if (!account) {
         return res.status(404).json({ 
@@ -641,7 +964,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { username } = req.params;
       
-      const memoKey = await hiveClient.getPublicMemoKey(username);
+      const memoKey = await hiveProxy.cached('lookup.memo_key', [username], () => hiveClient.getPublicMemoKey(username));
       
       if (!memoKey) {
         return res.status(404).json({ 
@@ -689,9 +1012,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Verify account exists first
-      const accountExists = await hiveClient.verifyAccountExists(username);
+      const account = await hiveProxy.cached('lookup.account', [username], () => hiveClient.getAccount(username));
       
-      if (!accountExists) {
+      if (!account) {
         return res.status(404).json({ 
           error: "Account not found",
           message: `Hive account '${username}' does not exist`
@@ -699,7 +1022,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Fetch account history
-      const history = await hiveClient.getAccountHistory(username, limitNum);
+      const history = await hiveProxy.cached('lookup.account_history', [username, limitNum], () => hiveClient.getAccountHistory(username, limitNum));
       
       // Filter for transfer operations only
       const transfers = hiveClient.filterTransferOperations(history);
@@ -729,51 +1052,810 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Simulate encrypted message transfer
-  app.post("/api/hive/transfer", async (req, res) => {
+  // Read-only JSON-RPC passthrough to Hive nodes (cached, coalesced, with node failover)
+  app.post("/api/hive/rpc", async (req, res) => {
     try {
-      const { from, to, amount, memo } = req.body;
-      
-      // In production, Hive Keychain handles this directly from frontend
-      // This endpoint is for testing/simulation only
-      
-      res.json({ 
-        success: true, 
-        trx_id: `test-${Date.now()}`,
-        block_num: Math.floor(Math.random() * 1000000)
+      const { api = 'condenser_api', method, params = [] } = req.body;
+
+      if (typeof api !== 'string' || typeof method !== 'string' || !Array.isArray(params)) {
+        return res.status(400).json({ 
+          error: "Invalid request",
+          message: "api and method must be strings and params an array"
+        });
+      }
+
+      if (!hiveProxy.isAllowed(api, method)) {
+        return res.status(403).json({ 
+          error: "Method not allowed",
+          message: `${api}.${method} is not available through the proxy`
+        });
+      }
+
+      const result = await hiveProxy.call(api, method, params);
+      res.json({ result });
+    } catch (error) {
+      console.error("Error proxying Hive RPC call:", error);
+      res.status(502).json({ 
+        error: "RPC call failed",
+        message: error instanceof Error ? error.message : "Unknown error"
       });
+    }
+  });
+
+  // Cache hit rates, in-flight requests and node health of the RPC proxy
+  app.get("/api/hive/proxy/stats", (_req, res) => {
+    res.json(hiveProxy.getStats());
+  });
+
+  // ============================================================================
+  // Blockchain Index Endpoints (served from the server-side indexer tables)
+  // ============================================================================
+
+  // Indexer cursor, irreversibility and coverage status
+  app.get("/api/index/status", async (_req, res) => {
+    try {
+      const status = await getIndexStatus();
+
+      if (!status) {
+        return res.status(404).json({
+          error: "Indexer not initialized",
+          message: "The blockchain indexer has not processed any blocks yet"
+        });
+      }
+
+      res.json(status);
     } catch (error) {
-      console.error("Error processing transfer:", error);
-      res.status(500).json({ error: "Failed to process transfer" });
+      console.error("Error fetching indexer status:", error);
+      res.status(500).json({ error: "Failed to fetch indexer status" });
     }
   });
 
-  // Get contacts for a user
-  app.get("/api/contacts/:username", async (req, res) => {
+  // Indexed encrypted transfers for an account, newest first
+  app.get("/api/index/transfers/:username", async (req, res) => {
     try {
       const { username } = req.params;
-      const contacts = await storage.getContacts(username);
-      res.json(contacts);
+      const { direction = "both", before, limit = "100" } = req.query;
+
+      const limitNum = parseInt(limit as string, 10);
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 1000) {
+        return res.status(400).json({
+          error: "Invalid limit",
+          message: "Limit must be a number between 1 and 1000"
+        });
+      }
+
+      if (direction !== "in" && direction !== "out" && direction !== "both") {
+        return res.status(400).json({
+          error: "Invalid direction",
+          message: "Direction must be one of: in, out, both"
+        });
+      }
+
+      const beforeBlock = before ? parseInt(before as string, 10) : undefined;
+      if (beforeBlock !== undefined && isNaN(beforeBlock)) {
+        return res.status(400).json({
+          error: "Invalid cursor",
+          message: "before must be a block number"
+        });
+      }
+
+      const transfers = await storage.getIndexedTransfers({
+        username,
+        direction,
+        beforeBlock,
+        limit: limitNum,
+      });
+
+      res.json({
+        username,
+        transfers,
+        nextBefore: transfers.length === limitNum ? transfers[transfers.length - 1].blockNum : null,
+      });
     } catch (error) {
-      console.error("Error fetching contacts:", error);
-      res.status(500).json({ error: "Failed to fetch contacts" });
+      console.error("Error fetching indexed transfers:", error);
+      res.status(500).json({ error: "Failed to fetch indexed transfers" });
     }
   });
 
-  // Add a contact
-  app.post("/api/contacts/:username", async (req, res) => {
+  // Indexed hive_messenger_group operations for a group, in chain order
+  app.get("/api/index/groups/:groupId/ops", async (req, res) => {
     try {
-      const { username } = req.params;
-      const contactData = req.body;
-      const contact = await storage.addContact(username, contactData);
-      res.json(contact);
+      const { groupId } = req.params;
+      const { after, afterOp, limit = "500" } = req.query;
+
+      const limitNum = parseInt(limit as string, 10);
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 1000) {
+        return res.status(400).json({
+          error: "Invalid limit",
+          message: "Limit must be a number between 1 and 1000"
+        });
+      }
+
+      const afterBlock = after ? parseInt(after as string, 10) : undefined;
+      if (afterBlock !== undefined && isNaN(afterBlock)) {
+        return res.status(400).json({
+          error: "Invalid cursor",
+          message: "after must be a block number"
+        });
+      }
+
+      // afterOp continues inside the `after` block, so a page can end mid-block
+      const afterOpIndex = afterOp !== undefined ? parseInt(afterOp as string, 10) : undefined;
+      if (afterOpIndex !== undefined && (isNaN(afterOpIndex) || afterBlock === undefined)) {
+        return res.status(400).json({
+          error: "Invalid cursor",
+          message: "afterOp must be an operation index and needs after"
+        });
+      }
+
+      // An empty list must mean "no ops", not "not indexed": callers count invite uses from it
+      const status = await getIndexStatus();
+      if (!status?.enabled || !status.caughtUp) {
+        return res.status(503).json({
+          error: "Index unavailable",
+          message: "The blockchain indexer is disabled or behind the chain"
+        });
+      }
+
+      const ops = await storage.getIndexedGroupOps({ groupId, afterBlock, afterOpIndex, limit: limitNum });
+
+      res.json({ groupId, ops, startBlockNum: status.startBlockNum });
     } catch (error) {
-      console.error("Error adding contact:", error);
-      res.status(500).json({ error: "Failed to add contact" });
+      console.error("Error fetching indexed group operations:", error);
+      res.status(500).json({ error: "Failed to fetch indexed group operations" });
     }
   });
 
-  const httpServer = createServer(app);
+  // Indexed hive_messenger_group operations broadcast by an account, in chain order
+  app.get("/api/index/accounts/:username/group-ops", async (req, res) => {
+    try {
+      const { username } = req.params;
+      const { after, limit = "500" } = req.query;
+
+      const limitNum = parseInt(limit as string, 10);
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 1000) {
+        return res.status(400).json({
+          error: "Invalid limit",
+          message: "Limit must be a number between 1 and 1000"
+        });
+      }
+
+      const afterBlock = after ? parseInt(after as string, 10) : undefined;
+      if (afterBlock !== undefined && isNaN(afterBlock)) {
+        return res.status(400).json({
+          error: "Invalid cursor",
+          message: "after must be a block number"
+        });
+      }
+
+      const ops = await storage.getIndexedGroupOps({ account: username, afterBlock, limit: limitNum });
+
+      res.json({ username, ops });
+    } catch (error) {
+      console.error("Error fetching indexed account group operations:", error);
+      res.status(500).json({ error: "Failed to fetch indexed group operations" });
+    }
+  });
+
+  // Verify a broadcast transfer against the chain and update the linked message's status
+  app.post("/api/hive/transfer", requireAuth, async (req: any, res) => {
+    try {
+      const { txId, from, to, amount, memo, messageId } = req.body;
+      const username = req.session.username;
+
+      if (typeof txId !== 'string' || !/^[0-9a-f]{40}$/i.test(txId)) {
+        return res.status(400).json({ 
+          error: "Invalid request",
+          message: "txId must be a 40-character hex transaction ID"
+        });
+      }
+
+      if ([from, to, amount, memo].some(value => typeof value !== 'string' || value.length === 0)) {
+        return res.status(400).json({ 
+          error: "Invalid request",
+          message: "from, to, amount and memo are required"
+        });
+      }
+
+      if (from !== username) {
+        return res.status(403).json({ 
+          error: "Forbidden",
+          message: "You can only submit your own transfers"
+        });
+      }
+
+      let message: Message | undefined;
+      if (messageId !== undefined) {
+        message = await storage.getMessage(String(messageId));
+
+        if (!message) {
+          return res.status(404).json({ 
+            error: "Message not found",
+            message: "The specified message does not exist"
+          });
+        }
+
+        if (message.sender !== username || message.recipient !== to) {
+          return res.status(403).json({ 
+            error: "Forbidden",
+            message: "The message does not belong to this transfer"
+          });
+        }
+      }
+
+      // A linked message is checked against the chain with its own stored memo and
+      // amount, so a different transfer can't be used to confirm it
+      const claim = message
+        ? { txId, from, to, amount: message.amount || amount, memo: message.encryptedMemo || message.content }
+        : { txId, from, to, amount, memo };
+
+      if (message && claim.memo !== memo) {
+        return res.status(422).json({ 
+          error: "Transfer mismatch",
+          message: "The transfer memo does not match the message",
+          messageStatus: message.status,
+        });
+      }
+
+      const verification = await verifyTransfer(claim);
+
+      // Pending transfers stay "sent" with their txId so the reconciler picks them up
+      const status: Message['status'] =
+        verification.status === 'confirmed' ? 'confirmed' :
+        verification.status === 'mismatch' ? 'failed' : 'sent';
+
+      if (message) {
+        message = await storage.updateMessageStatus(message.id, status, { trxId: txId, amount: claim.amount });
+      }
+
+      if (verification.status === 'mismatch') {
+        return res.status(422).json({ 
+          error: "Transfer mismatch",
+          message: verification.reason,
+          messageStatus: message?.status,
+        });
+      }
+
+      res.status(verification.status === 'pending' ? 202 : 200).json({ 
+        success: true,
+        status: verification.status,
+        trx_id: txId,
+        block_num: verification.status === 'confirmed' ? verification.blockNum : undefined,
+        message,
+      });
+    } catch (error) {
+      console.error("Error processing transfer:", error);
+      res.status(500).json({ 
+        error: "Failed to process transfer",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+
+  // ==================== Contacts ====================
+  // Each user's own address book - always scoped to the authenticated session
+
+  // List contacts (?tag=work&favorite=true&blocked=false)
+  app.get("/api/contacts", requireAuth, async (req: any, res) => {
+    try {
+      const { tag, favorite, blocked } = req.query;
+
+      const parseFlag = (value: unknown) =>
+        value === 'true' ? true : value === 'false' ? false : undefined;
+
+      if ((favorite !== undefined && parseFlag(favorite) === undefined) ||
+          (blocked !== undefined && parseFlag(blocked) === undefined)) {
+        return res.status(400).json({
+          error: "Invalid request",
+          message: "favorite and blocked must be 'true' or 'false'"
+        });
+      }
+
+      const contacts = await storage.getContacts(req.session.username, {
+        tag: typeof tag === 'string' && tag.length > 0 ? tag : undefined,
+        favorite: parseFlag(favorite),
+        blocked: parseFlag(blocked),
+      });
+      res.json(contacts);
+    } catch (error) {
+      console.error("Error fetching contacts:", error);
+      res.status(500).json({ 
+        error: "Failed to fetch contacts",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Get a single contact
+  app.get("/api/contacts/:contactUsername", requireAuth, async (req: any, res) => {
+    try {
+      const contact = await storage.getContact(req.session.username, req.params.contactUsername);
+
+      if (!contact) {
+        return res.status(404).json({ 
+          error: "Contact not found",
+          message: "This user is not in your contacts"
+        });
+      }
+
+      res.json(contact);
+    } catch (error) {
+      console.error("Error fetching contact:", error);
+      res.status(500).json({ 
+        error: "Failed to fetch contact",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Add a contact - the memo key is taken from the blockchain, not the request
+  app.post("/api/contacts", requireAuth, async (req: any, res) => {
+    try {
+      const username = req.session.username;
+      const parsed = createContactSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: "Invalid request",
+          message: parsed.error.errors[0]?.message || "Invalid contact data"
+        });
+      }
+
+      const { username: contactUsername, ...fields } = parsed.data;
+
+      if (contactUsername === username) {
+        return res.status(400).json({ 
+          error: "Invalid request",
+          message: "You cannot add yourself as a contact"
+        });
+      }
+
+      if (await storage.getContact(username, contactUsername)) {
+        return res.status(409).json({ 
+          error: "Contact exists",
+          message: "This user is already in your contacts"
+        });
+      }
+
+      const account = await hiveClient.getAccount(contactUsername);
+      if (!account) {
+        return res.status(404).json({ 
+          error: "Account not found",
+          message: `Hive account @${contactUsername} does not exist`
+        });
+      }
+
+      const contact = await storage.addContact(username, {
+        username: contactUsername,
+        publicKey: account.memo_key,
+        nickname: fields.nickname || undefined,
+        notes: fields.notes || undefined,
+        tags: fields.tags,
+        isFavorite: fields.isFavorite,
+        isBlocked: fields.isBlocked,
+      });
+      res.status(201).json(contact);
+    } catch (error) {
+      console.error("Error adding contact:", error);
+      res.status(500).json({ 
+        error: "Failed to add contact",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Update nickname, notes, tags, favorite or blocked flags
+  app.patch("/api/contacts/:contactUsername", requireAuth, async (req: any, res) => {
+    try {
+      const parsed = updateContactSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: "Invalid request",
+          message: parsed.error.errors[0]?.message || "Invalid contact data"
+        });
+      }
+
+      const contact = await storage.updateContact(req.session.username, req.params.contactUsername, parsed.data);
+
+      if (!contact) {
+        return res.status(404).json({ 
+          error: "Contact not found",
+          message: "This user is not in your contacts"
+        });
+      }
+
+      res.json(contact);
+    } catch (error) {
+      console.error("Error updating contact:", error);
+      res.status(500).json({ 
+        error: "Failed to update contact",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Remove a contact
+  app.delete("/api/contacts/:contactUsername", requireAuth, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteContact(req.session.username, req.params.contactUsername);
+
+      if (!deleted) {
+        return res.status(404).json({ 
+          error: "Contact not found",
+          message: "This user is not in your contacts"
+        });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting contact:", error);
+      res.status(500).json({ 
+        error: "Failed to delete contact",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // ==================== Groups ====================
+  // Server-side mirror of group chats. The blockchain custom_json ops remain the
+  // source of truth for clients; these endpoints keep a queryable membership history.
+
+  // Load a group and make sure the authenticated user is a current member
+  async function loadGroupForMember(groupId: string, username: string, res: any): Promise<Group | null> {
+    const group = await storage.getGroup(groupId);
+    
+    if (!group) {
+      res.status(404).json({ 
+        error: "Group not found",
+        message: "The requested group does not exist"
+      });
+      return null;
+    }
+    
+    if (!group.members.includes(username)) {
+      res.status(403).json({ 
+        error: "Forbidden",
+        message: "You are not a member of this group"
+      });
+      return null;
+    }
+    
+    return group;
+  }
+
+  // List groups the authenticated user currently belongs to
+  app.get("/api/groups", requireAuth, async (req: any, res) => {
+    try {
+      const groups = await storage.getGroups(req.session.username);
+      res.json(groups);
+    } catch (error) {
+      console.error("Error fetching groups:", error);
+      res.status(500).json({ 
+        error: "Failed to fetch groups",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Create a group (creator is always a member)
+  app.post("/api/groups", requireAuth, async (req: any, res) => {
+    try {
+      const creator = req.session.username;
+      const parsed = createGroupSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: "Invalid request",
+          message: parsed.error.errors[0]?.message || "Invalid group data"
+        });
+      }
+
+      const { name, members } = parsed.data;
+      const allMembers = Array.from(new Set([creator, ...members]));
+
+      // Ids are always minted here: rows for on-chain group ids come only from the indexer,
+      // so nobody can claim an existing chain group's id before it is indexed
+      const group = await storage.createGroup({
+        groupId: randomUUID(),
+        name,
+        members: allMembers,
+        creator,
+      });
+
+      res.status(201).json(group);
+    } catch (error) {
+      console.error("Error creating group:", error);
+      res.status(500).json({ 
+        error: "Failed to create group",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Get a single group
+  app.get("/api/groups/:groupId", requireAuth, async (req: any, res) => {
+    try {
+      const group = await loadGroupForMember(req.params.groupId, req.session.username, res);
+      if (!group) return;
+
+      res.json(group);
+    } catch (error) {
+      console.error("Error fetching group:", error);
+      res.status(500).json({ 
+        error: "Failed to fetch group",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Rename a group, change its members or roles (checked against the caller's role) - bumps the group version
+  app.patch("/api/groups/:groupId", requireAuth, async (req: any, res) => {
+    try {
+      const username = req.session.username;
+      const group = await loadGroupForMember(req.params.groupId, username, res);
+      if (!group) return;
+
+      const parsed = updateGroupSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ 
+          error: "Invalid request",
+          message: parsed.error.errors[0]?.message || "Invalid group data"
+        });
+      }
+
+      const { name, members, roles, txId } = parsed.data;
+      const owner = getGroupOwner({ ...group, roles: roles || group.roles });
+      const nextMembers = members ? Array.from(new Set([owner, ...members])) : undefined;
+
+      // Same rules the clients apply when replaying the group's manifests
+      const change = {
+        action: 'update' as const,
+        groupId: group.groupId,
+        name,
+        members: nextMembers,
+        roles,
+        timestamp: new Date().toISOString(),
+      };
+      if (!isAuthorizedGroupUpdate(group, change, username)) {
+        return res.status(403).json({ 
+          error: "Forbidden",
+          message: "Your role in this group does not allow this change"
+        });
+      }
+
+      const updated = await storage.updateGroup(group.groupId, {
+        name,
+        members: nextMembers,
+        roles: (roles || nextMembers)
+          ? normalizeGroupRoles({ creator: group.creator, members: nextMembers || group.members, roles: roles || group.roles })
+          : undefined,
+        changedBy: username,
+        txId,
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating group:", error);
+      res.status(500).json({ 
+        error: "Failed to update group",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Leave a group
+  app.post("/api/groups/:groupId/leave", requireAuth, async (req: any, res) => {
+    try {
+      const username = req.session.username;
+      const group = await loadGroupForMember(req.params.groupId, username, res);
+      if (!group) return;
+
+      if (getGroupOwner(group) === username) {
+        return res.status(400).json({ 
+          error: "Invalid request",
+          message: "The group owner cannot leave the group - transfer ownership first"
+        });
+      }
+
+      await storage.updateGroup(group.groupId, {
+        members: group.members.filter(member => member !== username),
+        changedBy: username,
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error leaving group:", error);
+      res.status(500).json({ 
+        error: "Failed to leave group",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Membership history (joins and leaves, including former members)
+  app.get("/api/groups/:groupId/members/history", requireAuth, async (req: any, res) => {
+    try {
+      const group = await loadGroupForMember(req.params.groupId, req.session.username, res);
+      if (!group) return;
+
+      const history = await storage.getGroupMembershipHistory(group.groupId);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching group membership history:", error);
+      res.status(500).json({ 
+        error: "Failed to fetch membership history",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Version snapshots (name + member list per version)
+  app.get("/api/groups/:groupId/versions", requireAuth, async (req: any, res) => {
+    try {
+      const group = await loadGroupForMember(req.params.groupId, req.session.username, res);
+      if (!group) return;
+
+      const versions = await storage.getGroupVersions(group.groupId);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching group versions:", error);
+      res.status(500).json({ 
+        error: "Failed to fetch group versions",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Paginated group messages (same cursor format as conversation messages)
+  app.get("/api/groups/:groupId/messages", requireAuth, async (req: any, res) => {
+    try {
+      const group = await loadGroupForMember(req.params.groupId, req.session.username, res);
+      if (!group) return;
+
+      const { before, after, limit } = req.query;
+
+      if (before !== undefined && (typeof before !== 'string' || !decodeMessageCursor(before))) {
+        return res.status(400).json({
+          error: "Invalid cursor",
+          message: "before must be a cursor returned by a previous page"
+        });
+      }
+
+      if (after !== undefined && (typeof after !== 'string' || !decodeMessageCursor(after))) {
+        return res.status(400).json({
+          error: "Invalid cursor",
+          message: "after must be a cursor returned by a previous page"
+        });
+      }
+
+      const limitNum = limit === undefined ? DEFAULT_MESSAGE_PAGE_SIZE : parseInt(limit as string, 10);
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > MAX_MESSAGE_PAGE_SIZE) {
+        return res.status(400).json({
+          error: "Invalid limit",
+          message: `Limit must be a number between 1 and ${MAX_MESSAGE_PAGE_SIZE}`
+        });
+      }
+
+      const page = await storage.getGroupMessages(group.groupId, {
+        before: before as string | undefined,
+        after: after as string | undefined,
+        limit: limitNum,
+      });
+      res.json(page);
+    } catch (error) {
+      console.error("Error fetching group messages:", error);
+      res.status(500).json({ 
+        error: "Failed to fetch group messages",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Record a group message sent by the authenticated user
+  app.post("/api/groups/:groupId/messages", requireAuth, async (req: any, res) => {
+    try {
+      const sender = req.session.username;
+      const group = await loadGroupForMember(req.params.groupId, sender, res);
+      if (!group) return;
+
+      const { content, encryptedContent, txIds } = req.body;
+
+      if (!content || typeof content !== 'string' || content.trim().length === 0) {
+        return res.status(400).json({ 
+          error: "Invalid request",
+          message: "content is required and cannot be empty"
+        });
+      }
+
+      if (!encryptedContent || typeof encryptedContent !== 'string') {
+        return res.status(400).json({ 
+          error: "Invalid request",
+          message: "encryptedContent is required"
+        });
+      }
+
+      if (txIds !== undefined && (!Array.isArray(txIds) || !txIds.every((id: unknown) => typeof id === 'string'))) {
+        return res.status(400).json({ 
+          error: "Invalid request",
+          message: "txIds must be an array of transaction IDs"
+        });
+      }
+
+      const messageData: Omit<GroupMessage, 'id'> = {
+        groupId: group.groupId,
+        sender,
+        content,
+        encryptedContent,
+        timestamp: new Date().toISOString(),
+        recipients: group.members.filter(member => member !== sender),
+        txIds: txIds || [],
+        confirmed: false,
+        status: txIds && txIds.length > 0 ? 'sent' : 'sending',
+      };
+
+      const message = await storage.createGroupMessage(messageData);
+      res.status(201).json(message);
+    } catch (error) {
+      console.error("Error creating group message:", error);
+      res.status(500).json({ 
+        error: "Failed to create group message",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Update delivery status of a group message (sender only)
+  app.patch("/api/groups/:groupId/messages/:messageId/status", requireAuth, async (req: any, res) => {
+    try {
+      const { groupId, messageId } = req.params;
+      const username = req.session.username;
+      const { status, txIds, failedRecipients } = req.body;
+
+      // 'confirmed' means seen on chain - only the indexer or reconciler may set it
+      const validStatuses: GroupMessage['status'][] = ['sending', 'partial', 'sent', 'failed'];
+      if (!validStatuses.includes(status)) {
+        return res.status(400).json({ 
+          error: "Invalid status",
+          message: `Status must be one of: ${validStatuses.join(', ')}`
+        });
+      }
+
+      const message = await storage.getGroupMessage(messageId);
+      if (!message || message.groupId !== groupId) {
+        return res.status(404).json({ 
+          error: "Message not found",
+          message: "The requested group message does not exist"
+        });
+      }
+
+      if (message.sender !== username) {
+        return res.status(403).json({ 
+          error: "Forbidden",
+          message: "Only the sender can update this message"
+        });
+      }
+
+      const updated = await storage.updateGroupMessageStatus(messageId, {
+        status,
+        txIds: Array.isArray(txIds) ? txIds : undefined,
+        failedRecipients: Array.isArray(failedRecipients) ? failedRecipients : undefined,
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating group message status:", error);
+      res.status(500).json({ 
+        error: "Failed to update group message status",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  const httpServer = createServer(app);
+
+  // Realtime push channel (new messages, status changes, conversation updates)
+  setupRealtime(httpServer);
 
   return httpServer;
 }
@@ -0,0 +1,367 @@
+import { describe, it, before, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { DatabaseStorage, MemStorage, type IStorage } from './storage';
+import type { Message } from '@shared/schema';
+
+/**
+ * Behaviour both storage backends must share. The same suite runs against
+ * MemStorage and, when DATABASE_URL points at a scratch database, against
+ * DatabaseStorage - names, ids and block numbers are randomised so runs don't
+ * collide with each other or with existing rows.
+ */
+function describeStorageConformance(name: string, createStorage: () => IStorage, options: { skip?: string | false } = {}) {
+  describe(`${name} conformance`, { skip: options.skip }, () => {
+    let store: IStorage;
+    let run: string;
+    const user = (label: string) => `${label}-${run}`;
+
+    before(() => {
+      // Realtime publishing is a no-op without subscribers, but keep any logging quiet
+      mock.method(console, 'log', () => {});
+      store = createStorage();
+      run = crypto.randomBytes(4).toString('hex');
+    });
+
+    async function sendMessages(conversationId: string, sender: string, recipient: string, count: number): Promise<Message[]> {
+      const sent: Message[] = [];
+      for (let i = 0; i < count; i++) {
+        sent.push(await store.createMessage({
+          conversationId,
+          sender,
+          recipient,
+          content: `message ${i}`,
+          encryptedMemo: `#memo-${i}`,
+          timestamp: new Date().toISOString(),
+          status: 'sent',
+          trxId: `tx-${run}-${conversationId}-${i}`,
+          amount: '0.001 HBD',
+          isEncrypted: true,
+        }));
+      }
+      return sent;
+    }
+
+    describe('conversations', () => {
+      it('creates one conversation per contact and lists them per user', async () => {
+        const alice = user('alice');
+        const first = await store.createConversation({
+          currentUser: alice,
+          contactUsername: user('bob'),
+          lastMessageTime: new Date().toISOString(),
+          unreadCount: 0,
+          isEncrypted: true,
+          publicKey: 'STM-bob',
+        });
+        const again = await store.findOrCreateConversation(alice, user('bob'));
+        const other = await store.createConversation({
+          currentUser: alice,
+          contactUsername: user('carol'),
+          lastMessageTime: new Date(Date.now() + 60_000).toISOString(),
+          unreadCount: 2,
+          isEncrypted: true,
+        });
+
+        assert.equal(again.id, first.id);
+        assert.equal(first.publicKey, 'STM-bob');
+
+        const listed = await store.getConversations(alice);
+        assert.deepEqual(listed.map(c => c.contactUsername), [user('carol'), user('bob')]);
+        assert.equal(listed[0].id, other.id);
+        assert.deepEqual(await store.getConversations(user('nobody')), []);
+      });
+
+      it('updates a conversation in place', async () => {
+        const conversation = await store.findOrCreateConversation(user('dan'), user('erin'));
+        const updated = await store.updateConversation(conversation.id, { unreadCount: 5 });
+
+        assert.equal(updated?.unreadCount, 5);
+        assert.equal((await store.getConversation(conversation.id))?.unreadCount, 5);
+      });
+    });
+
+    describe('messages', () => {
+      it('pages backwards and forwards with opaque cursors', async () => {
+        const sender = user('frank');
+        const conversation = await store.findOrCreateConversation(sender, user('grace'));
+        const sent = await sendMessages(conversation.id, sender, user('grace'), 5);
+
+        const latest = await store.getMessages(conversation.id, { limit: 2 });
+        assert.deepEqual(latest.messages.map(m => m.id), sent.slice(3).map(m => m.id));
+        assert.equal(latest.hasMore, true);
+
+        const older = await store.getMessages(conversation.id, { limit: 10, before: latest.startCursor! });
+        assert.deepEqual(older.messages.map(m => m.id), sent.slice(0, 3).map(m => m.id));
+        assert.equal(older.hasMore, false);
+
+        const newer = await store.getMessages(conversation.id, { limit: 2, after: older.startCursor! });
+        assert.deepEqual(newer.messages.map(m => m.id), sent.slice(1, 3).map(m => m.id));
+        assert.equal(newer.hasMore, true);
+      });
+
+      it('filters pages by status and sender', async () => {
+        const sender = user('heidi');
+        const conversation = await store.findOrCreateConversation(sender, user('ivan'));
+        const [first, second] = await sendMessages(conversation.id, sender, user('ivan'), 2);
+        await store.updateMessageStatus(second.id, 'confirmed');
+
+        const confirmed = await store.getMessages(conversation.id, { limit: 10, status: ['confirmed'] });
+        assert.deepEqual(confirmed.messages.map(m => m.id), [second.id]);
+
+        const bySender = await store.getMessages(conversation.id, { limit: 10, sender });
+        assert.deepEqual(bySender.messages.map(m => m.id), [first.id, second.id]);
+
+        const unknownSender = await store.getMessages(conversation.id, { limit: 10, sender: user('nobody') });
+        assert.deepEqual(unknownSender.messages, []);
+        assert.equal(unknownSender.startCursor, null);
+      });
+
+      it('tracks status, transfers and unconfirmed messages', async () => {
+        const sender = user('judy');
+        const conversation = await store.findOrCreateConversation(sender, user('ken'));
+        const [message] = await sendMessages(conversation.id, sender, user('ken'), 1);
+
+        assert.equal(await store.messageExistsByTxId(message.trxId!), true);
+        assert.equal(await store.messageExistsByTxId(`missing-${run}`), false);
+
+        const isPending = async () =>
+          (await store.getUnconfirmedMessages(10_000)).some(m => m.id === message.id);
+        assert.equal(await isPending(), true);
+
+        const confirmed = await store.updateMessageStatus(message.id, 'confirmed', { trxId: `${message.trxId}-final`, amount: '0.002 HBD' });
+        assert.equal(confirmed?.status, 'confirmed');
+        assert.equal(confirmed?.trxId, `${message.trxId}-final`);
+        assert.equal(confirmed?.amount, '0.002 HBD');
+        assert.equal(await isPending(), false);
+
+        const decrypted = await store.updateMessageDecryptedContent(message.id, 'hello');
+        assert.equal(decrypted?.decryptedContent, 'hello');
+        assert.equal((await store.getMessage(message.id))?.decryptedContent, 'hello');
+      });
+    });
+
+    describe('contacts', () => {
+      it('adds contacts idempotently and lists favourites first', async () => {
+        const owner = user('leo');
+        await store.addContact(owner, { username: user('zed'), publicKey: 'STM-zed', isFavorite: true });
+        await store.addContact(owner, { username: user('amy'), publicKey: 'STM-amy', tags: ['work'] });
+        await store.addContact(owner, { username: user('amy'), publicKey: 'STM-other' });
+
+        const contacts = await store.getContacts(owner);
+        assert.deepEqual(contacts.map(c => c.username), [user('zed'), user('amy')]);
+        assert.equal((await store.getContact(owner, user('amy')))?.publicKey, 'STM-amy');
+
+        assert.deepEqual((await store.getContacts(owner, { tag: 'work' })).map(c => c.username), [user('amy')]);
+        assert.deepEqual((await store.getContacts(owner, { favorite: false })).map(c => c.username), [user('amy')]);
+      });
+
+      it('updates and deletes contacts', async () => {
+        const owner = user('mia');
+        await store.addContact(owner, { username: user('ned'), publicKey: 'STM-ned' });
+
+        const updated = await store.updateContact(owner, user('ned'), { nickname: 'Ned', isBlocked: true });
+        assert.equal(updated?.nickname, 'Ned');
+        assert.deepEqual((await store.getContacts(owner, { blocked: true })).map(c => c.username), [user('ned')]);
+
+        assert.equal(await store.deleteContact(owner, user('ned')), true);
+        assert.equal(await store.deleteContact(owner, user('ned')), false);
+        assert.equal(await store.getContact(owner, user('ned')), undefined);
+      });
+    });
+
+    describe('sessions', () => {
+      function sessionFields(label: string, expiresInMs: number) {
+        return {
+          tokenHash: `token-${label}-${run}`,
+          refreshTokenHash: `refresh-${label}-${run}`,
+          publicMemoKey: 'STM-memo',
+          tokenExpiresAt: new Date(Date.now() + 15 * 60_000),
+          expiresAt: new Date(Date.now() + expiresInMs),
+        };
+      }
+
+      it('finds sessions by token hashes and rotates refresh tokens', async () => {
+        const username = user('olga');
+        const session = await store.createSession(username, sessionFields('olga', 60 * 60_000));
+
+        assert.equal(session.username, username);
+        assert.equal((await store.getSessionByTokenHash(session.tokenHash))?.id, session.id);
+        assert.equal((await store.getSessionByRefreshTokenHash(session.refreshTokenHash))?.id, session.id);
+
+        await store.updateSession(String(session.id), {
+          refreshTokenHash: `refresh-olga-2-${run}`,
+          previousRefreshTokenHash: session.refreshTokenHash,
+        });
+        assert.equal((await store.getSessionByPreviousRefreshTokenHash(session.refreshTokenHash))?.id, session.id);
+        assert.deepEqual((await store.getActiveSessions(username)).map(s => s.id), [session.id]);
+      });
+
+      it('stops returning revoked and expired sessions', async () => {
+        const username = user('pat');
+        const revoked = await store.createSession(username, sessionFields('pat-revoked', 60 * 60_000));
+        const expired = await store.createSession(username, sessionFields('pat-expired', -60_000));
+
+        assert.equal(await store.revokeSession(String(revoked.id)), true);
+        // Lookups still find revoked sessions so callers can tell "revoked" from "unknown"
+        assert.ok((await store.getSessionByTokenHash(revoked.tokenHash))?.revokedAt);
+        assert.deepEqual(await store.getActiveSessions(username), []);
+
+        assert.ok(await store.deleteExpiredSessions() >= 2);
+        assert.equal(await store.getSessionByTokenHash(expired.tokenHash), undefined);
+      });
+    });
+
+    describe('groups', () => {
+      it('creates groups with their creator, roles and first version', async () => {
+        const groupId = `group-${run}-create`;
+        const creator = user('quinn');
+        await store.createGroup({
+          groupId,
+          name: 'Team',
+          creator,
+          members: [creator, user('rita'), user('rita')],
+          roles: { [user('rita')]: 'admin' },
+        });
+
+        const group = await store.getGroup(groupId);
+        assert.equal(group?.creator, creator);
+        assert.equal(group?.version, 1);
+        assert.deepEqual(group?.members.sort(), [creator, user('rita')].sort());
+        assert.equal(group?.roles?.[user('rita')], 'admin');
+        assert.deepEqual((await store.getGroups(user('rita'))).map(g => g.groupId), [groupId]);
+
+        await assert.rejects(store.createGroup({ groupId, name: 'Again', creator, members: [creator] }));
+      });
+
+      it('records versions and membership changes, ignoring replayed versions', async () => {
+        const groupId = `group-${run}-update`;
+        const creator = user('sam');
+        await store.createGroup({ groupId, name: 'Team', creator, members: [creator, user('tom')] });
+
+        const updated = await store.updateGroup(groupId, {
+          name: 'Renamed',
+          members: [creator, user('uma')],
+          changedBy: creator,
+          version: 2,
+        });
+        assert.equal(updated?.version, 2);
+
+        const replayed = await store.updateGroup(groupId, { name: 'Stale', changedBy: creator, version: 2 });
+        assert.equal(replayed?.name, 'Renamed');
+
+        const bumped = await store.updateGroup(groupId, { name: 'Bumped', changedBy: creator });
+        assert.equal(bumped?.version, 3);
+
+        assert.deepEqual((await store.getGroupVersions(groupId)).map(v => [v.version, v.name]), [
+          [1, 'Team'],
+          [2, 'Renamed'],
+          [3, 'Bumped'],
+        ]);
+
+        const history = await store.getGroupMembershipHistory(groupId);
+        const tom = history.find(m => m.username === user('tom'));
+        const uma = history.find(m => m.username === user('uma'));
+        assert.equal(tom?.leftVersion, 2);
+        assert.equal(tom?.removedBy, creator);
+        assert.equal(uma?.joinedVersion, 2);
+        assert.deepEqual(await store.getGroups(user('tom')), []);
+
+        assert.equal(await store.updateGroup(`group-${run}-missing`, { changedBy: creator }), undefined);
+      });
+    });
+
+    describe('blockchain index', () => {
+      // Far above any real block so rollbacks only touch rows written here
+      const base = 1_900_000_000 + crypto.randomInt(1_000_000) * 100;
+      const indexer = () => `test-${run}`;
+
+      function block(offset: number, branch: string, groupOps = 0) {
+        const blockNum = base + offset;
+        const timestamp = new Date();
+        return {
+          blockNum,
+          blockId: `${blockNum}-${branch}`,
+          previous: `${blockNum - 1}-${branch}`,
+          timestamp,
+          transfers: [{
+            blockNum,
+            txId: `tx-${blockNum}-${branch}`,
+            opIndex: 0,
+            fromUsername: user('vic'),
+            toUsername: user('wes'),
+            amount: '0.001 HBD',
+            memo: '#memo',
+            timestamp,
+          }],
+          groupOps: Array.from({ length: groupOps }, (_, opIndex) => ({
+            blockNum,
+            txId: `tx-${blockNum}-${branch}-g${opIndex}`,
+            opIndex,
+            groupId: `group-${run}-indexed`,
+            action: 'update',
+            account: user('vic'),
+            payload: { version: opIndex + 2 },
+            timestamp,
+          })),
+        };
+      }
+
+      it('saves blocks idempotently and moves the cursor', async () => {
+        await store.saveIndexedBlock(indexer(), block(1, 'a'));
+        await store.saveIndexedBlock(indexer(), block(1, 'a'));
+        await store.saveIndexedBlock(indexer(), block(2, 'a', 3));
+
+        const state = await store.getIndexerState(indexer());
+        assert.equal(state?.lastBlockNum, base + 2);
+        assert.equal(state?.lastBlockId, `${base + 2}-a`);
+        assert.equal((await store.getIndexedBlock(base + 1))?.blockId, `${base + 1}-a`);
+        assert.ok((await store.getFirstIndexedBlockNum())! <= base + 1);
+
+        const incoming = await store.getIndexedTransfers({ username: user('wes'), direction: 'in', limit: 10 });
+        assert.deepEqual(incoming.map(t => t.blockNum), [base + 2, base + 1]);
+        assert.deepEqual(await store.getIndexedTransfers({ username: user('wes'), direction: 'out', limit: 10 }), []);
+        assert.deepEqual(
+          (await store.getIndexedTransfers({ username: user('vic'), beforeBlock: base + 2, limit: 10 })).map(t => t.blockNum),
+          [base + 1]
+        );
+      });
+
+      it('pages group ops with a (block, op) cursor', async () => {
+        const groupId = `group-${run}-indexed`;
+        const firstPage = await store.getIndexedGroupOps({ groupId, limit: 2 });
+        assert.deepEqual(firstPage.map(op => op.opIndex), [0, 1]);
+
+        const rest = await store.getIndexedGroupOps({ groupId, afterBlock: base + 2, afterOpIndex: 1, limit: 10 });
+        assert.deepEqual(rest.map(op => op.opIndex), [2]);
+
+        assert.deepEqual(await store.getIndexedGroupOps({ groupId, afterBlock: base + 2, limit: 10 }), []);
+        assert.deepEqual(await store.getIndexedGroupOps({ groupId, throughBlock: base + 1, limit: 10 }), []);
+      });
+
+      it('rolls back above a block and marks irreversible rows', async () => {
+        await store.rollbackIndex(indexer(), base + 1, `${base + 1}-a`);
+
+        const state = await store.getIndexerState(indexer());
+        assert.equal(state?.lastBlockNum, base + 1);
+        assert.equal(await store.getIndexedBlock(base + 2), undefined);
+        assert.deepEqual(await store.getIndexedGroupOps({ groupId: `group-${run}-indexed`, limit: 10 }), []);
+
+        await store.saveIndexedBlock(indexer(), block(2, 'b'));
+        await store.markIndexIrreversible(indexer(), base + 2);
+
+        assert.equal((await store.getIndexerState(indexer()))?.lastIrreversibleBlock, base + 2);
+        const transfers = await store.getIndexedTransfers({ username: user('wes'), limit: 10 });
+        assert.deepEqual(transfers.map(t => [t.txId, t.irreversible]), [
+          [`tx-${base + 2}-b`, true],
+          [`tx-${base + 1}-a`, true],
+        ]);
+      });
+    });
+  });
+}
+
+describeStorageConformance('MemStorage', () => new MemStorage());
+
+describeStorageConformance('DatabaseStorage', () => new DatabaseStorage(), {
+  skip: !process.env.DATABASE_URL && 'DATABASE_URL not set',
+});
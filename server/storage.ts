@@ -1,7 +1,127 @@
-import type { Conversation, Message, Contact } from "@shared/schema";
+import type {
+  Conversation,
+  Message,
+  Contact,
+  ContactQuery,
+  ContactDB,
+  UpdateContactInput,
+  InsertSession,
+  SessionWithUser,
+  IndexerStateDB,
+  IndexedBlockDB,
+  IndexedBlockData,
+  IndexedTransferDB,
+  IndexedGroupOpDB,
+  IndexedTransferQuery,
+  IndexedGroupOpQuery,
+  MessagePage,
+  MessagePageQuery,
+  Group,
+  GroupMessage,
+  GroupMembership,
+  GroupVersion,
+  GroupUpdate,
+  GroupDB,
+  GroupMemberDB,
+  GroupVersionDB,
+  GroupMessageDB,
+  User,
+  ConversationDB,
+  MessageDB,
+  SessionDB,
+} from "@shared/schema";
 import { db } from "./db";
-import { users, conversations, messages, contacts } from "@shared/schema";
-import { eq, and, desc } from "drizzle-orm";
+import { publishMessageCreated, publishMessageStatus, publishConversationUpdated } from "./events";
+import {
+  users,
+  conversations,
+  messages,
+  contacts,
+  sessions,
+  indexerState,
+  indexedBlocks,
+  indexedTransfers,
+  indexedGroupOps,
+  groups,
+  groupMembers,
+  groupVersions,
+  groupMessages,
+} from "@shared/schema";
+import { eq, and, asc, desc, arrayContains, gt, lt, lte, inArray, isNull, or, isNotNull, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+export const MAX_MESSAGE_PAGE_SIZE = 200;
+
+/**
+ * Encode a message's (timestamp, id) position as an opaque pagination cursor
+ */
+export function encodeMessageCursor(message: Pick<Message, 'timestamp' | 'id'>): string {
+  return Buffer.from(`${message.timestamp}|${message.id}`).toString('base64url');
+}
+
+/**
+ * Decode a pagination cursor
+ * @returns null if the cursor is malformed
+ */
+export function decodeMessageCursor(cursor: string): { timestamp: Date; id: number } | null {
+  const [timestampStr, idStr] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  const timestamp = new Date(timestampStr);
+  const id = parseInt(idStr, 10);
+  
+  if (isNaN(timestamp.getTime()) || isNaN(id)) {
+    return null;
+  }
+  
+  return { timestamp, id };
+}
+
+function toContact(contact: ContactDB): Contact {
+  return {
+    username: contact.contactUsername,
+    publicKey: contact.publicMemoKey,
+    nickname: contact.nickname || undefined,
+    notes: contact.notes || undefined,
+    tags: contact.tags,
+    isFavorite: contact.isFavorite,
+    isBlocked: contact.isBlocked,
+    addedAt: contact.addedAt.toISOString(),
+  };
+}
+
+function toGroup(group: GroupDB, members: string[]): Group {
+  return {
+    groupId: group.groupId,
+    name: group.name,
+    members,
+    creator: group.creator,
+    createdAt: group.createdAt.toISOString(),
+    version: group.version,
+    lastMessage: group.lastMessage || undefined,
+    lastMessageTime: group.lastMessageAt?.toISOString(),
+    paymentSettings: group.paymentSettings || undefined,
+    roles: group.roles || undefined,
+  };
+}
+
+function toGroupMessage(message: GroupMessageDB): GroupMessage {
+  const failedRecipients = message.failedRecipients || [];
+  
+  return {
+    id: message.id.toString(),
+    groupId: message.groupId,
+    sender: message.sender,
+    content: message.content,
+    encryptedContent: message.encryptedContent,
+    timestamp: message.timestamp.toISOString(),
+    recipients: message.recipients,
+    txIds: message.txIds,
+    confirmed: message.status === 'confirmed',
+    status: message.status as GroupMessage['status'],
+    failedRecipients: failedRecipients.length > 0 ? failedRecipients : undefined,
+    deliveryStatus: failedRecipients.length > 0 ? 'partial' : undefined,
+  };
+}
 
 export interface IStorage {
   // Conversations
@@ -12,16 +132,52 @@ export interface IStorage {
   findOrCreateConversation(currentUsername: string, contactUsername: string, publicKey?: string): Promise<Conversation>;
   
   // Messages
-  getMessages(conversationId: string): Promise<Message[]>;
+  getMessages(conversationId: string, query?: MessagePageQuery): Promise<MessagePage>;
   getMessage(id: string): Promise<Message | undefined>;
   createMessage(message: Omit<Message, 'id'>): Promise<Message>;
-  updateMessageStatus(id: string, status: Message['status']): Promise<Message | undefined>;
+  updateMessageStatus(id: string, status: Message['status'], transfer?: Pick<Message, 'trxId' | 'amount'>): Promise<Message | undefined>;
   updateMessageDecryptedContent(id: string, decryptedContent: string): Promise<Message | undefined>;
   messageExistsByTxId(txId: string): Promise<boolean>;
+  getUnconfirmedMessages(limit: number): Promise<Message[]>;
   
   // Contacts
-  getContacts(username: string): Promise<Contact[]>;
+  getContacts(username: string, query?: ContactQuery): Promise<Contact[]>;
+  getContact(username: string, contactUsername: string): Promise<Contact | undefined>;
   addContact(username: string, contact: Contact): Promise<Contact>;
+  updateContact(username: string, contactUsername: string, updates: UpdateContactInput): Promise<Contact | undefined>;
+  deleteContact(username: string, contactUsername: string): Promise<boolean>;
+  
+  // Sessions
+  createSession(username: string, session: Omit<InsertSession, 'userId'>): Promise<SessionWithUser>;
+  getSessionByTokenHash(tokenHash: string): Promise<SessionWithUser | undefined>;
+  getSessionByRefreshTokenHash(refreshTokenHash: string): Promise<SessionWithUser | undefined>;
+  getSessionByPreviousRefreshTokenHash(refreshTokenHash: string): Promise<SessionWithUser | undefined>;
+  getActiveSessions(username: string): Promise<SessionWithUser[]>;
+  updateSession(id: string, updates: Partial<Omit<InsertSession, 'userId'>> & { lastUsedAt?: Date }): Promise<SessionWithUser | undefined>;
+  revokeSession(id: string): Promise<boolean>;
+  deleteExpiredSessions(): Promise<number>;
+  
+  // Groups
+  getGroups(username: string): Promise<Group[]>;
+  getGroup(groupId: string): Promise<Group | undefined>;
+  createGroup(group: Pick<Group, 'groupId' | 'name' | 'members' | 'creator' | 'paymentSettings' | 'roles'> & { txId?: string }): Promise<Group>;
+  updateGroup(groupId: string, update: GroupUpdate): Promise<Group | undefined>;
+  getGroupMembershipHistory(groupId: string): Promise<GroupMembership[]>;
+  getGroupVersions(groupId: string): Promise<GroupVersion[]>;
+  getGroupMessages(groupId: string, query?: MessagePageQuery): Promise<MessagePage<GroupMessage>>;
+  getGroupMessage(id: string): Promise<GroupMessage | undefined>;
+  createGroupMessage(message: Omit<GroupMessage, 'id'>): Promise<GroupMessage>;
+  updateGroupMessageStatus(id: string, updates: Pick<GroupMessage, 'status'> & Partial<Pick<GroupMessage, 'txIds' | 'failedRecipients'>>): Promise<GroupMessage | undefined>;
+  
+  // Blockchain index
+  getIndexerState(name: string): Promise<IndexerStateDB | undefined>;
+  getIndexedBlock(blockNum: number): Promise<IndexedBlockDB | undefined>;
+  getFirstIndexedBlockNum(): Promise<number | null>;
+  saveIndexedBlock(name: string, block: IndexedBlockData): Promise<void>;
+  rollbackIndex(name: string, toBlockNum: number, toBlockId: string): Promise<void>;
+  markIndexIrreversible(name: string, lastIrreversibleBlock: number): Promise<void>;
+  getIndexedTransfers(query: IndexedTransferQuery): Promise<IndexedTransferDB[]>;
+  getIndexedGroupOps(query: IndexedGroupOpQuery): Promise<IndexedGroupOpDB[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -179,7 +335,7 @@ export class DatabaseStorage implements IStorage {
     
     if (!updated) return undefined;
     
-    return {
+    const conversation: Conversation = {
       id: updated.id.toString(),
       contactUsername: updated.contactUsername,
       lastMessageTime: updated.lastMessageAt?.toISOString(),
@@ -187,53 +343,92 @@ export class DatabaseStorage implements IStorage {
       isEncrypted: updated.isEncrypted,
       publicKey: updated.publicKey || undefined,
     };
+    
+    const [owner] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, updated.userId))
+      .limit(1);
+    
+    if (owner) {
+      publishConversationUpdated(owner.username, conversation);
+    }
+    
+    return conversation;
   }
 
-  async getMessages(conversationId: string): Promise<Message[]> {
-    const msgs = await db
-      .select()
-      .from(messages)
-      .where(eq(messages.conversationId, parseInt(conversationId)))
-      .orderBy(messages.timestamp);
+  async getMessages(conversationId: string, query: MessagePageQuery = { limit: DEFAULT_MESSAGE_PAGE_SIZE }): Promise<MessagePage> {
+    const recipientUsers = alias(users, "recipient_users");
+    const conditions: SQL[] = [eq(messages.conversationId, parseInt(conversationId))];
     
-    const result: Message[] = [];
+    // Keyset pagination on (timestamp, id) - stable even when timestamps collide
+    const before = query.before ? decodeMessageCursor(query.before) : null;
+    const after = query.after ? decodeMessageCursor(query.after) : null;
     
-    for (const msg of msgs) {
-      const [sender] = await db
-        .select()
-        .from(users)
-        .where(eq(users.id, msg.senderId))
-        .limit(1);
-      
-      let recipient = '';
-      if (msg.recipientId) {
-        const [recipientUser] = await db
-          .select()
-          .from(users)
-          .where(eq(users.id, msg.recipientId))
-          .limit(1);
-        recipient = recipientUser?.username || msg.recipientUsername || '';
-      } else if (msg.recipientUsername) {
-        recipient = msg.recipientUsername;
-      }
-      
-      result.push({
-        id: msg.id.toString(),
-        conversationId: msg.conversationId.toString(),
-        sender: sender?.username || '',
-        recipient,
-        content: msg.content,
-        encryptedMemo: msg.encryptedContent || '',
-        decryptedContent: msg.decryptedContent || undefined,
-        timestamp: msg.timestamp.toISOString(),
-        status: msg.status as Message['status'],
-        blockNum: undefined,
-        trxId: msg.blockchainTxId || undefined,
-        isEncrypted: msg.isEncrypted,
-      });
+    if (before) {
+      conditions.push(or(
+        lt(messages.timestamp, before.timestamp),
+        and(eq(messages.timestamp, before.timestamp), lt(messages.id, before.id))
+      )!);
+    }
+    
+    if (after) {
+      conditions.push(or(
+        gt(messages.timestamp, after.timestamp),
+        and(eq(messages.timestamp, after.timestamp), gt(messages.id, after.id))
+      )!);
+    }
+    
+    if (query.status && query.status.length > 0) {
+      conditions.push(inArray(messages.status, query.status));
+    }
+    
+    if (query.sender) {
+      conditions.push(eq(users.username, query.sender));
+    }
+    
+    // Page forward from `after`, otherwise page backward from `before` (or the newest message)
+    const ascending = !!after && !before;
+    
+    const rows = await db
+      .select({ message: messages, senderUsername: users.username, recipientUsername: recipientUsers.username })
+      .from(messages)
+      .innerJoin(users, eq(messages.senderId, users.id))
+      .leftJoin(recipientUsers, eq(messages.recipientId, recipientUsers.id))
+      .where(and(...conditions))
+      .orderBy(...(ascending
+        ? [asc(messages.timestamp), asc(messages.id)]
+        : [desc(messages.timestamp), desc(messages.id)]))
+      .limit(query.limit + 1);
+    
+    const hasMore = rows.length > query.limit;
+    const pageRows = rows.slice(0, query.limit);
+    if (!ascending) {
+      pageRows.reverse();
     }
     
-    return result;
+    const result: Message[] = pageRows.map(({ message: msg, senderUsername, recipientUsername }) => ({
+      id: msg.id.toString(),
+      conversationId: msg.conversationId.toString(),
+      sender: senderUsername,
+      recipient: recipientUsername || msg.recipientUsername || '',
+      content: msg.content,
+      encryptedMemo: msg.encryptedContent || '',
+      decryptedContent: msg.decryptedContent || undefined,
+      timestamp: msg.timestamp.toISOString(),
+      status: msg.status as Message['status'],
+      blockNum: undefined,
+      trxId: msg.blockchainTxId || undefined,
+      amount: msg.amount || undefined,
+      isEncrypted: msg.isEncrypted,
+    }));
+    
+    return {
+      messages: result,
+      startCursor: result.length > 0 ? encodeMessageCursor(result[0]) : null,
+      endCursor: result.length > 0 ? encodeMessageCursor(result[result.length - 1]) : null,
+      hasMore,
+    };
   }
 
   async getMessage(id: string): Promise<Message | undefined> {
@@ -275,6 +470,7 @@ export class DatabaseStorage implements IStorage {
       status: msg.status as Message['status'],
       blockNum: undefined,
       trxId: msg.blockchainTxId || undefined,
+      amount: msg.amount || undefined,
       isEncrypted: msg.isEncrypted,
     };
   }
@@ -305,10 +501,11 @@ export class DatabaseStorage implements IStorage {
         isEncrypted: message.isEncrypted,
         status: message.status,
         blockchainTxId: message.trxId || null,
+        amount: message.amount || null,
       })
       .returning();
     
-    return {
+    const created: Message = {
       id: newMessage.id.toString(),
       conversationId: newMessage.conversationId.toString(),
       sender: message.sender,
@@ -320,14 +517,23 @@ export class DatabaseStorage implements IStorage {
       status: newMessage.status as Message['status'],
       blockNum: message.blockNum,
       trxId: newMessage.blockchainTxId || undefined,
+      amount: newMessage.amount || undefined,
       isEncrypted: newMessage.isEncrypted,
     };
+    
+    publishMessageCreated(created);
+    
+    return created;
   }
 
-  async updateMessageStatus(id: string, status: Message['status']): Promise<Message | undefined> {
+  async updateMessageStatus(id: string, status: Message['status'], transfer?: Pick<Message, 'trxId' | 'amount'>): Promise<Message | undefined> {
+    const updateData: Partial<MessageDB> = { status };
+    if (transfer?.trxId) updateData.blockchainTxId = transfer.trxId;
+    if (transfer?.amount) updateData.amount = transfer.amount;
+    
     const [updated] = await db
       .update(messages)
-      .set({ status })
+      .set(updateData)
       .where(eq(messages.id, parseInt(id)))
       .returning();
     
@@ -351,7 +557,7 @@ export class DatabaseStorage implements IStorage {
       recipient = updated.recipientUsername;
     }
     
-    return {
+    const message: Message = {
       id: updated.id.toString(),
       conversationId: updated.conversationId.toString(),
       sender: sender?.username || '',
@@ -363,8 +569,13 @@ export class DatabaseStorage implements IStorage {
       status: updated.status as Message['status'],
       blockNum: undefined,
       trxId: updated.blockchainTxId || undefined,
+      amount: updated.amount || undefined,
       isEncrypted: updated.isEncrypted,
     };
+    
+    publishMessageStatus(message);
+    
+    return message;
   }
 
   async updateMessageDecryptedContent(id: string, decryptedContent: string): Promise<Message | undefined> {
@@ -406,28 +617,58 @@ export class DatabaseStorage implements IStorage {
       status: updated.status as Message['status'],
       blockNum: undefined,
       trxId: updated.blockchainTxId || undefined,
+      amount: updated.amount || undefined,
       isEncrypted: updated.isEncrypted,
     };
   }
 
-  async getContacts(username: string): Promise<Contact[]> {
-    const user = await db
-      .select()
+  private async getUserId(username: string): Promise<number | undefined> {
+    const [user] = await db
+      .select({ id: users.id })
       .from(users)
       .where(eq(users.username, username))
       .limit(1);
     
-    if (user.length === 0) return [];
+    return user?.id;
+  }
+
+  async getContacts(username: string, query: ContactQuery = {}): Promise<Contact[]> {
+    const userId = await this.getUserId(username);
+    
+    if (userId === undefined) return [];
+    
+    const conditions: SQL[] = [eq(contacts.userId, userId)];
+    if (query.tag) {
+      conditions.push(arrayContains(contacts.tags, [query.tag]));
+    }
+    if (query.favorite !== undefined) {
+      conditions.push(eq(contacts.isFavorite, query.favorite));
+    }
+    if (query.blocked !== undefined) {
+      conditions.push(eq(contacts.isBlocked, query.blocked));
+    }
     
     const userContacts = await db
       .select()
       .from(contacts)
-      .where(eq(contacts.userId, user[0].id));
+      .where(and(...conditions))
+      .orderBy(desc(contacts.isFavorite), asc(contacts.contactUsername));
     
-    return userContacts.map(contact => ({
-      username: contact.contactUsername,
-      publicKey: contact.publicMemoKey,
-    }));
+    return userContacts.map(toContact);
+  }
+
+  async getContact(username: string, contactUsername: string): Promise<Contact | undefined> {
+    const userId = await this.getUserId(username);
+    
+    if (userId === undefined) return undefined;
+    
+    const [contact] = await db
+      .select()
+      .from(contacts)
+      .where(and(eq(contacts.userId, userId), eq(contacts.contactUsername, contactUsername)))
+      .limit(1);
+    
+    return contact ? toContact(contact) : undefined;
   }
 
   async addContact(username: string, contact: Contact): Promise<Contact> {
@@ -444,17 +685,59 @@ export class DatabaseStorage implements IStorage {
       )
       .limit(1);
     
-    if (existing.length === 0) {
-      await db
-        .insert(contacts)
-        .values({
-          userId,
-          contactUsername: contact.username,
-          publicMemoKey: contact.publicKey,
-        });
+    if (existing.length > 0) {
+      return toContact(existing[0]);
     }
     
-    return contact;
+    const [newContact] = await db
+      .insert(contacts)
+      .values({
+        userId,
+        contactUsername: contact.username,
+        publicMemoKey: contact.publicKey,
+        nickname: contact.nickname || null,
+        notes: contact.notes || null,
+        tags: contact.tags || [],
+        isFavorite: contact.isFavorite || false,
+        isBlocked: contact.isBlocked || false,
+      })
+      .returning();
+    
+    return toContact(newContact);
+  }
+
+  async updateContact(username: string, contactUsername: string, updates: UpdateContactInput): Promise<Contact | undefined> {
+    const userId = await this.getUserId(username);
+    
+    if (userId === undefined) return undefined;
+    
+    const updateData: Partial<ContactDB> = { updatedAt: new Date() };
+    if (updates.nickname !== undefined) updateData.nickname = updates.nickname || null;
+    if (updates.notes !== undefined) updateData.notes = updates.notes || null;
+    if (updates.tags !== undefined) updateData.tags = Array.from(new Set(updates.tags));
+    if (updates.isFavorite !== undefined) updateData.isFavorite = updates.isFavorite;
+    if (updates.isBlocked !== undefined) updateData.isBlocked = updates.isBlocked;
+    
+    const [updated] = await db
+      .update(contacts)
+      .set(updateData)
+      .where(and(eq(contacts.userId, userId), eq(contacts.contactUsername, contactUsername)))
+      .returning();
+    
+    return updated ? toContact(updated) : undefined;
+  }
+
+  async deleteContact(username: string, contactUsername: string): Promise<boolean> {
+    const userId = await this.getUserId(username);
+    
+    if (userId === undefined) return false;
+    
+    const deleted = await db
+      .delete(contacts)
+      .where(and(eq(contacts.userId, userId), eq(contacts.contactUsername, contactUsername)))
+      .returning({ id: contacts.id });
+    
+    return deleted.length > 0;
   }
 
   async messageExistsByTxId(txId: string): Promise<boolean> {
@@ -466,6 +749,18 @@ export class DatabaseStorage implements IStorage {
     
     return !!existing;
   }
+  async getUnconfirmedMessages(limit: number): Promise<Message[]> {
+    const rows = await db
+      .select({ id: messages.id })
+      .from(messages)
+      .where(and(eq(messages.status, 'sent'), isNotNull(messages.blockchainTxId)))
+      .orderBy(asc(messages.timestamp))
+      .limit(limit);
+    
+    const result = await Promise.all(rows.map(row => this.getMessage(row.id.toString())));
+    return result.filter((message): message is Message => !!message);
+  }
+
 
   async findOrCreateConversation(currentUsername: string, contactUsername: string, publicKey?: string): Promise<Conversation> {
     const userId = await this.ensureUser(currentUsername);
@@ -513,6 +808,1317 @@ export class DatabaseStorage implements IStorage {
       publicKey: newConversation.publicKey || undefined,
     };
   }
+
+  async createSession(username: string, session: Omit<InsertSession, 'userId'>): Promise<SessionWithUser> {
+    const userId = await this.ensureUser(username);
+    
+    const [newSession] = await db
+      .insert(sessions)
+      .values({ ...session, userId })
+      .returning();
+    
+    return { ...newSession, username };
+  }
+
+  private async findSession(condition: SQL): Promise<SessionWithUser | undefined> {
+    const [row] = await db
+      .select({ session: sessions, username: users.username })
+      .from(sessions)
+      .innerJoin(users, eq(sessions.userId, users.id))
+      .where(condition)
+      .limit(1);
+    
+    if (!row) return undefined;
+    
+    return { ...row.session, username: row.username };
+  }
+
+  async getSessionByTokenHash(tokenHash: string): Promise<SessionWithUser | undefined> {
+    return this.findSession(eq(sessions.tokenHash, tokenHash));
+  }
+
+  async getSessionByRefreshTokenHash(refreshTokenHash: string): Promise<SessionWithUser | undefined> {
+    return this.findSession(eq(sessions.refreshTokenHash, refreshTokenHash));
+  }
+
+  async getSessionByPreviousRefreshTokenHash(refreshTokenHash: string): Promise<SessionWithUser | undefined> {
+    return this.findSession(eq(sessions.previousRefreshTokenHash, refreshTokenHash));
+  }
+
+  async getActiveSessions(username: string): Promise<SessionWithUser[]> {
+    const rows = await db
+      .select({ session: sessions, username: users.username })
+      .from(sessions)
+      .innerJoin(users, eq(sessions.userId, users.id))
+      .where(
+        and(
+          eq(users.username, username),
+          isNull(sessions.revokedAt),
+          gt(sessions.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(sessions.lastUsedAt));
+    
+    return rows.map(row => ({ ...row.session, username: row.username }));
+  }
+
+  async updateSession(id: string, updates: Partial<Omit<InsertSession, 'userId'>> & { lastUsedAt?: Date }): Promise<SessionWithUser | undefined> {
+    const [updated] = await db
+      .update(sessions)
+      .set(updates)
+      .where(eq(sessions.id, parseInt(id)))
+      .returning();
+    
+    if (!updated) return undefined;
+    
+    return this.findSession(eq(sessions.id, updated.id));
+  }
+
+  async revokeSession(id: string): Promise<boolean> {
+    const [revoked] = await db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessions.id, parseInt(id)), isNull(sessions.revokedAt)))
+      .returning();
+    
+    return !!revoked;
+  }
+
+  async deleteExpiredSessions(): Promise<number> {
+    const deleted = await db
+      .delete(sessions)
+      .where(or(lt(sessions.expiresAt, new Date()), isNotNull(sessions.revokedAt)))
+      .returning({ id: sessions.id });
+    
+    return deleted.length;
+  }
+
+  private async getCurrentMembers(groupIds: string[]): Promise<Map<string, string[]>> {
+    const membersByGroup = new Map<string, string[]>(groupIds.map(id => [id, []]));
+    
+    if (groupIds.length === 0) return membersByGroup;
+    
+    const rows = await db
+      .select()
+      .from(groupMembers)
+      .where(and(inArray(groupMembers.groupId, groupIds), isNull(groupMembers.leftAt)))
+      .orderBy(asc(groupMembers.id));
+    
+    for (const row of rows) {
+      membersByGroup.get(row.groupId)?.push(row.username);
+    }
+    
+    return membersByGroup;
+  }
+
+  async getGroups(username: string): Promise<Group[]> {
+    const rows = await db
+      .select({ group: groups })
+      .from(groups)
+      .innerJoin(groupMembers, eq(groupMembers.groupId, groups.groupId))
+      .where(and(eq(groupMembers.username, username), isNull(groupMembers.leftAt)))
+      .orderBy(desc(groups.lastMessageAt), desc(groups.updatedAt));
+    
+    const membersByGroup = await this.getCurrentMembers(rows.map(row => row.group.groupId));
+    
+    return rows.map(row => toGroup(row.group, membersByGroup.get(row.group.groupId) || []));
+  }
+
+  async getGroup(groupId: string): Promise<Group | undefined> {
+    const [group] = await db
+      .select()
+      .from(groups)
+      .where(eq(groups.groupId, groupId))
+      .limit(1);
+    
+    if (!group) return undefined;
+    
+    const membersByGroup = await this.getCurrentMembers([groupId]);
+    
+    return toGroup(group, membersByGroup.get(groupId) || []);
+  }
+
+  async createGroup(group: Pick<Group, 'groupId' | 'name' | 'members' | 'creator' | 'paymentSettings' | 'roles'> & { txId?: string }): Promise<Group> {
+    const members = Array.from(new Set(group.members));
+    
+    const [newGroup] = await db
+      .insert(groups)
+      .values({
+        groupId: group.groupId,
+        name: group.name,
+        creator: group.creator,
+        version: 1,
+        paymentSettings: group.paymentSettings || null,
+        roles: group.roles || null,
+      })
+      .returning();
+    
+    await db
+      .insert(groupMembers)
+      .values(members.map(username => ({
+        groupId: group.groupId,
+        username,
+        joinedVersion: 1,
+        addedBy: group.creator,
+      })));
+    
+    await db
+      .insert(groupVersions)
+      .values({
+        groupId: group.groupId,
+        version: 1,
+        name: group.name,
+        members,
+        changedBy: group.creator,
+        txId: group.txId || null,
+      });
+    
+    return toGroup(newGroup, members);
+  }
+
+  async updateGroup(groupId: string, update: GroupUpdate): Promise<Group | undefined> {
+    const current = await this.getGroup(groupId);
+    
+    if (!current) return undefined;
+    
+    // Replayed chain ops carry their own version - ignore anything not newer than what we have
+    if (update.version !== undefined && update.version <= current.version) {
+      return current;
+    }
+    
+    const version = update.version ?? current.version + 1;
+    const name = update.name ?? current.name;
+    const members = update.members ? Array.from(new Set(update.members)) : current.members;
+    const now = new Date();
+    
+    const added = members.filter(username => !current.members.includes(username));
+    const removed = current.members.filter(username => !members.includes(username));
+    
+    if (added.length > 0) {
+      await db
+        .insert(groupMembers)
+        .values(added.map(username => ({
+          groupId,
+          username,
+          joinedAt: now,
+          joinedVersion: version,
+          addedBy: update.changedBy,
+        })));
+    }
+    
+    if (removed.length > 0) {
+      await db
+        .update(groupMembers)
+        .set({ leftAt: now, leftVersion: version, removedBy: update.changedBy })
+        .where(
+          and(
+            eq(groupMembers.groupId, groupId),
+            inArray(groupMembers.username, removed),
+            isNull(groupMembers.leftAt)
+          )
+        );
+    }
+    
+    const updateData: Partial<GroupDB> = { name, version, updatedAt: now };
+    if (update.paymentSettings !== undefined) updateData.paymentSettings = update.paymentSettings;
+    if (update.roles !== undefined) updateData.roles = update.roles;
+    
+    const [updated] = await db
+      .update(groups)
+      .set(updateData)
+      .where(eq(groups.groupId, groupId))
+      .returning();
+    
+    await db
+      .insert(groupVersions)
+      .values({
+        groupId,
+        version,
+        name,
+        members,
+        changedBy: update.changedBy,
+        txId: update.txId || null,
+      })
+      .onConflictDoNothing();
+    
+    return toGroup(updated, members);
+  }
+
+  async getGroupMembershipHistory(groupId: string): Promise<GroupMembership[]> {
+    const rows = await db
+      .select()
+      .from(groupMembers)
+      .where(eq(groupMembers.groupId, groupId))
+      .orderBy(asc(groupMembers.joinedAt), asc(groupMembers.id));
+    
+    return rows.map(row => ({
+      username: row.username,
+      joinedAt: row.joinedAt.toISOString(),
+      joinedVersion: row.joinedVersion,
+      addedBy: row.addedBy || undefined,
+      leftAt: row.leftAt?.toISOString(),
+      leftVersion: row.leftVersion ?? undefined,
+      removedBy: row.removedBy || undefined,
+    }));
+  }
+
+  async getGroupVersions(groupId: string): Promise<GroupVersion[]> {
+    const rows = await db
+      .select()
+      .from(groupVersions)
+      .where(eq(groupVersions.groupId, groupId))
+      .orderBy(asc(groupVersions.version));
+    
+    return rows.map(row => ({
+      version: row.version,
+      name: row.name,
+      members: row.members,
+      changedBy: row.changedBy,
+      txId: row.txId || undefined,
+      createdAt: row.createdAt.toISOString(),
+    }));
+  }
+
+  async getGroupMessages(groupId: string, query: MessagePageQuery = { limit: DEFAULT_MESSAGE_PAGE_SIZE }): Promise<MessagePage<GroupMessage>> {
+    const conditions: SQL[] = [eq(groupMessages.groupId, groupId)];
+    
+    const before = query.before ? decodeMessageCursor(query.before) : null;
+    const after = query.after ? decodeMessageCursor(query.after) : null;
+    
+    if (before) {
+      conditions.push(or(
+        lt(groupMessages.timestamp, before.timestamp),
+        and(eq(groupMessages.timestamp, before.timestamp), lt(groupMessages.id, before.id))
+      )!);
+    }
+    
+    if (after) {
+      conditions.push(or(
+        gt(groupMessages.timestamp, after.timestamp),
+        and(eq(groupMessages.timestamp, after.timestamp), gt(groupMessages.id, after.id))
+      )!);
+    }
+    
+    if (query.status && query.status.length > 0) {
+      conditions.push(inArray(groupMessages.status, query.status));
+    }
+    
+    if (query.sender) {
+      conditions.push(eq(groupMessages.sender, query.sender));
+    }
+    
+    const ascending = !!after && !before;
+    
+    const rows = await db
+      .select()
+      .from(groupMessages)
+      .where(and(...conditions))
+      .orderBy(...(ascending
+        ? [asc(groupMessages.timestamp), asc(groupMessages.id)]
+        : [desc(groupMessages.timestamp), desc(groupMessages.id)]))
+      .limit(query.limit + 1);
+    
+    const hasMore = rows.length > query.limit;
+    const pageRows = rows.slice(0, query.limit);
+    if (!ascending) {
+      pageRows.reverse();
+    }
+    
+    const result = pageRows.map(toGroupMessage);
+    
+    return {
+      messages: result,
+      startCursor: result.length > 0 ? encodeMessageCursor(result[0]) : null,
+      endCursor: result.length > 0 ? encodeMessageCursor(result[result.length - 1]) : null,
+      hasMore,
+    };
+  }
+
+  async getGroupMessage(id: string): Promise<GroupMessage | undefined> {
+    const [message] = await db
+      .select()
+      .from(groupMessages)
+      .where(eq(groupMessages.id, parseInt(id)))
+      .limit(1);
+    
+    return message ? toGroupMessage(message) : undefined;
+  }
+
+  async createGroupMessage(message: Omit<GroupMessage, 'id'>): Promise<GroupMessage> {
+    const [newMessage] = await db
+      .insert(groupMessages)
+      .values({
+        groupId: message.groupId,
+        sender: message.sender,
+        content: message.content,
+        encryptedContent: message.encryptedContent,
+        timestamp: new Date(message.timestamp),
+        recipients: message.recipients,
+        txIds: message.txIds,
+        status: message.status,
+        failedRecipients: message.failedRecipients || null,
+      })
+      .returning();
+    
+    await db
+      .update(groups)
+      .set({ lastMessage: newMessage.content, lastMessageAt: newMessage.timestamp })
+      .where(eq(groups.groupId, message.groupId));
+    
+    return toGroupMessage(newMessage);
+  }
+
+  async updateGroupMessageStatus(id: string, updates: Pick<GroupMessage, 'status'> & Partial<Pick<GroupMessage, 'txIds' | 'failedRecipients'>>): Promise<GroupMessage | undefined> {
+    const updateData: Partial<GroupMessageDB> = { status: updates.status };
+    if (updates.txIds !== undefined) updateData.txIds = updates.txIds;
+    if (updates.failedRecipients !== undefined) updateData.failedRecipients = updates.failedRecipients;
+    
+    const [updated] = await db
+      .update(groupMessages)
+      .set(updateData)
+      .where(eq(groupMessages.id, parseInt(id)))
+      .returning();
+    
+    return updated ? toGroupMessage(updated) : undefined;
+  }
+
+  async getIndexerState(name: string): Promise<IndexerStateDB | undefined> {
+    const [state] = await db
+      .select()
+      .from(indexerState)
+      .where(eq(indexerState.name, name))
+      .limit(1);
+    
+    return state;
+  }
+
+  async getIndexedBlock(blockNum: number): Promise<IndexedBlockDB | undefined> {
+    const [block] = await db
+      .select()
+      .from(indexedBlocks)
+      .where(eq(indexedBlocks.blockNum, blockNum))
+      .limit(1);
+    
+    return block;
+  }
+
+  async getFirstIndexedBlockNum(): Promise<number | null> {
+    const [block] = await db
+      .select({ blockNum: indexedBlocks.blockNum })
+      .from(indexedBlocks)
+      .orderBy(asc(indexedBlocks.blockNum))
+      .limit(1);
+    
+    return block?.blockNum ?? null;
+  }
+
+  async saveIndexedBlock(name: string, block: IndexedBlockData): Promise<void> {
+    // Rows are idempotent on (txId, opIndex) so a crash mid-block is safe to replay
+    if (block.transfers.length > 0) {
+      await db
+        .insert(indexedTransfers)
+        .values(block.transfers)
+        .onConflictDoNothing();
+    }
+    
+    if (block.groupOps.length > 0) {
+      await db
+        .insert(indexedGroupOps)
+        .values(block.groupOps)
+        .onConflictDoNothing();
+    }
+    
+    await db
+      .insert(indexedBlocks)
+      .values({
+        blockNum: block.blockNum,
+        blockId: block.blockId,
+        previous: block.previous,
+        timestamp: block.timestamp,
+      })
+      .onConflictDoUpdate({
+        target: indexedBlocks.blockNum,
+        set: { blockId: block.blockId, previous: block.previous, timestamp: block.timestamp },
+      });
+    
+    // Cursor moves last - it only ever points at a fully written block
+    await db
+      .insert(indexerState)
+      .values({ name, lastBlockNum: block.blockNum, lastBlockId: block.blockId })
+      .onConflictDoUpdate({
+        target: indexerState.name,
+        set: { lastBlockNum: block.blockNum, lastBlockId: block.blockId, updatedAt: new Date() },
+      });
+  }
+
+  async rollbackIndex(name: string, toBlockNum: number, toBlockId: string): Promise<void> {
+    await db.delete(indexedTransfers).where(gt(indexedTransfers.blockNum, toBlockNum));
+    await db.delete(indexedGroupOps).where(gt(indexedGroupOps.blockNum, toBlockNum));
+    await db.delete(indexedBlocks).where(gt(indexedBlocks.blockNum, toBlockNum));
+    
+    await db
+      .update(indexerState)
+      .set({ lastBlockNum: toBlockNum, lastBlockId: toBlockId, updatedAt: new Date() })
+      .where(eq(indexerState.name, name));
+  }
+
+  async markIndexIrreversible(name: string, lastIrreversibleBlock: number): Promise<void> {
+    await db
+      .update(indexedTransfers)
+      .set({ irreversible: true })
+      .where(and(lte(indexedTransfers.blockNum, lastIrreversibleBlock), eq(indexedTransfers.irreversible, false)));
+    
+    await db
+      .update(indexedGroupOps)
+      .set({ irreversible: true })
+      .where(and(lte(indexedGroupOps.blockNum, lastIrreversibleBlock), eq(indexedGroupOps.irreversible, false)));
+    
+    // Irreversible blocks can't fork - keep only the last one as the fork-check anchor
+    await db.delete(indexedBlocks).where(lt(indexedBlocks.blockNum, lastIrreversibleBlock));
+    
+    await db
+      .update(indexerState)
+      .set({ lastIrreversibleBlock, updatedAt: new Date() })
+      .where(eq(indexerState.name, name));
+  }
+
+  async getIndexedTransfers(query: IndexedTransferQuery): Promise<IndexedTransferDB[]> {
+    const direction = query.direction || 'both';
+    const participant =
+      direction === 'in' ? eq(indexedTransfers.toUsername, query.username) :
+      direction === 'out' ? eq(indexedTransfers.fromUsername, query.username) :
+      or(eq(indexedTransfers.toUsername, query.username), eq(indexedTransfers.fromUsername, query.username));
+    
+    const conditions = [participant];
+    if (query.beforeBlock !== undefined) {
+      conditions.push(lt(indexedTransfers.blockNum, query.beforeBlock));
+    }
+    
+    return db
+      .select()
+      .from(indexedTransfers)
+      .where(and(...conditions))
+      .orderBy(desc(indexedTransfers.blockNum), desc(indexedTransfers.opIndex))
+      .limit(query.limit);
+  }
+
+  async getIndexedGroupOps(query: IndexedGroupOpQuery): Promise<IndexedGroupOpDB[]> {
+    const conditions: SQL[] = [];
+    if (query.groupId) {
+      conditions.push(eq(indexedGroupOps.groupId, query.groupId));
+    }
+    if (query.account) {
+      conditions.push(eq(indexedGroupOps.account, query.account));
+    }
+    if (query.actions) {
+      conditions.push(inArray(indexedGroupOps.action, query.actions));
+    }
+    if (query.afterBlock !== undefined && query.afterOpIndex !== undefined) {
+      conditions.push(or(
+        gt(indexedGroupOps.blockNum, query.afterBlock),
+        and(eq(indexedGroupOps.blockNum, query.afterBlock), gt(indexedGroupOps.opIndex, query.afterOpIndex))
+      )!);
+    } else if (query.afterBlock !== undefined) {
+      conditions.push(gt(indexedGroupOps.blockNum, query.afterBlock));
+    }
+    if (query.throughBlock !== undefined) {
+      conditions.push(lte(indexedGroupOps.blockNum, query.throughBlock));
+    }
+    
+    return db
+      .select()
+      .from(indexedGroupOps)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(indexedGroupOps.blockNum), asc(indexedGroupOps.opIndex))
+      .limit(query.limit);
+  }
+}
+
+// ==================== In-memory backend ====================
+
+// Postgres sorts NULLs first on DESC; mirror that so both backends order identically
+function compareDatesDesc(a: Date | null, b: Date | null): number {
+  if (a === b) return 0;
+  if (!a) return -1;
+  if (!b) return 1;
+  return b.getTime() - a.getTime();
+}
+
+// Keyset pagination shared by conversation and group messages (same semantics as the SQL version)
+function paginateByCursor<T extends { id: number; timestamp: Date }>(
+  rows: T[],
+  query: MessagePageQuery
+): { rows: T[]; hasMore: boolean } {
+  const before = query.before ? decodeMessageCursor(query.before) : null;
+  const after = query.after ? decodeMessageCursor(query.after) : null;
+  const position = (row: T, cursor: { timestamp: Date; id: number }) =>
+    row.timestamp.getTime() - cursor.timestamp.getTime() || row.id - cursor.id;
+  
+  const filtered = rows.filter(row =>
+    (!before || position(row, before) < 0) && (!after || position(row, after) > 0)
+  );
+  
+  const ascending = !!after && !before;
+  filtered.sort((a, b) => {
+    const order = a.timestamp.getTime() - b.timestamp.getTime() || a.id - b.id;
+    return ascending ? order : -order;
+  });
+  
+  const pageRows = filtered.slice(0, query.limit);
+  if (!ascending) {
+    pageRows.reverse();
+  }
+  
+  return { rows: pageRows, hasMore: filtered.length > query.limit };
+}
+
+/**
+ * IStorage kept entirely in process memory
+ *
+ * Behaves like DatabaseStorage (same ordering, idempotency and events) so the
+ * server can run without Postgres for local development and tests. Data is lost
+ * on restart.
+ */
+export class MemStorage implements IStorage {
+  private users = new Map<number, User>();
+  private conversations = new Map<number, ConversationDB>();
+  private messages = new Map<number, MessageDB>();
+  private contacts = new Map<number, ContactDB>();
+  private sessions = new Map<number, SessionDB>();
+  private groups = new Map<string, GroupDB>();
+  private groupMembers: GroupMemberDB[] = [];
+  private groupVersions: GroupVersionDB[] = [];
+  private groupMessages = new Map<number, GroupMessageDB>();
+  private indexerStates = new Map<string, IndexerStateDB>();
+  private indexedBlocks = new Map<number, IndexedBlockDB>();
+  private indexedTransfers: IndexedTransferDB[] = [];
+  private indexedGroupOps: IndexedGroupOpDB[] = [];
+  private nextId = 1;
+
+  private generateId(): number {
+    return this.nextId++;
+  }
+
+  private findUser(username: string): User | undefined {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  private async ensureUser(username: string, publicMemoKey: string | null = null): Promise<number> {
+    const existing = this.findUser(username);
+    if (existing) return existing.id;
+    
+    const user: User = { id: this.generateId(), username, publicMemoKey: publicMemoKey || null, createdAt: new Date() };
+    this.users.set(user.id, user);
+    return user.id;
+  }
+
+  async updateUserMemoKey(username: string, publicMemoKey: string): Promise<void> {
+    const user = this.findUser(username);
+    if (user) user.publicMemoKey = publicMemoKey;
+  }
+
+  private toConversation(conv: ConversationDB): Conversation {
+    return {
+      id: conv.id.toString(),
+      contactUsername: conv.contactUsername,
+      lastMessageTime: conv.lastMessageAt?.toISOString(),
+      unreadCount: conv.unreadCount,
+      isEncrypted: conv.isEncrypted,
+      publicKey: conv.publicKey || undefined,
+    };
+  }
+
+  private toMessage(msg: MessageDB): Message {
+    const recipientUser = msg.recipientId ? this.users.get(msg.recipientId) : undefined;
+    
+    return {
+      id: msg.id.toString(),
+      conversationId: msg.conversationId.toString(),
+      sender: this.users.get(msg.senderId)?.username || '',
+      recipient: recipientUser?.username || msg.recipientUsername || '',
+      content: msg.content,
+      encryptedMemo: msg.encryptedContent || '',
+      decryptedContent: msg.decryptedContent || undefined,
+      timestamp: msg.timestamp.toISOString(),
+      status: msg.status as Message['status'],
+      blockNum: undefined,
+      trxId: msg.blockchainTxId || undefined,
+      amount: msg.amount || undefined,
+      isEncrypted: msg.isEncrypted,
+    };
+  }
+
+  private findConversation(userId: number, contactUsername: string): ConversationDB | undefined {
+    return Array.from(this.conversations.values()).find(
+      conv => conv.userId === userId && conv.contactUsername === contactUsername
+    );
+  }
+
+  async getConversations(username: string): Promise<Conversation[]> {
+    const user = this.findUser(username);
+    if (!user) return [];
+    
+    return Array.from(this.conversations.values())
+      .filter(conv => conv.userId === user.id)
+      .sort((a, b) => compareDatesDesc(a.lastMessageAt, b.lastMessageAt))
+      .map(conv => this.toConversation(conv));
+  }
+
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(parseInt(id));
+    return conversation ? this.toConversation(conversation) : undefined;
+  }
+
+  async createConversation(conversation: Omit<Conversation, 'id'> & { currentUser: string }): Promise<Conversation> {
+    const userId = await this.ensureUser(conversation.currentUser);
+    
+    const existing = this.findConversation(userId, conversation.contactUsername);
+    if (existing) return this.toConversation(existing);
+    
+    const newConversation: ConversationDB = {
+      id: this.generateId(),
+      userId,
+      contactUsername: conversation.contactUsername,
+      lastMessageAt: conversation.lastMessageTime ? new Date(conversation.lastMessageTime) : null,
+      unreadCount: conversation.unreadCount,
+      isEncrypted: conversation.isEncrypted,
+      publicKey: conversation.publicKey || null,
+    };
+    this.conversations.set(newConversation.id, newConversation);
+    
+    return this.toConversation(newConversation);
+  }
+
+  async updateConversation(id: string, updates: Partial<Conversation>): Promise<Conversation | undefined> {
+    const existing = this.conversations.get(parseInt(id));
+    if (!existing) return undefined;
+    
+    if (updates.contactUsername !== undefined) existing.contactUsername = updates.contactUsername;
+    if (updates.lastMessageTime !== undefined) existing.lastMessageAt = new Date(updates.lastMessageTime);
+    if (updates.unreadCount !== undefined) existing.unreadCount = updates.unreadCount;
+    if (updates.isEncrypted !== undefined) existing.isEncrypted = updates.isEncrypted;
+    if (updates.publicKey !== undefined) existing.publicKey = updates.publicKey;
+    
+    const conversation = this.toConversation(existing);
+    
+    const owner = this.users.get(existing.userId);
+    if (owner) {
+      publishConversationUpdated(owner.username, conversation);
+    }
+    
+    return conversation;
+  }
+
+  async findOrCreateConversation(currentUsername: string, contactUsername: string, publicKey?: string): Promise<Conversation> {
+    const userId = await this.ensureUser(currentUsername);
+    
+    const existing = this.findConversation(userId, contactUsername);
+    if (existing) return this.toConversation(existing);
+    
+    const newConversation: ConversationDB = {
+      id: this.generateId(),
+      userId,
+      contactUsername,
+      lastMessageAt: null,
+      unreadCount: 0,
+      isEncrypted: true,
+      publicKey: publicKey || null,
+    };
+    this.conversations.set(newConversation.id, newConversation);
+    
+    return this.toConversation(newConversation);
+  }
+
+  async getMessages(conversationId: string, query: MessagePageQuery = { limit: DEFAULT_MESSAGE_PAGE_SIZE }): Promise<MessagePage> {
+    const convId = parseInt(conversationId);
+    const senderId = query.sender ? this.findUser(query.sender)?.id : undefined;
+    if (query.sender && senderId === undefined) {
+      return { messages: [], startCursor: null, endCursor: null, hasMore: false };
+    }
+    
+    const candidates = Array.from(this.messages.values()).filter(msg =>
+      msg.conversationId === convId &&
+      (!query.status || query.status.length === 0 || query.status.includes(msg.status as Message['status'])) &&
+      (senderId === undefined || msg.senderId === senderId)
+    );
+    
+    const page = paginateByCursor(candidates, query);
+    const result = page.rows.map(msg => this.toMessage(msg));
+    
+    return {
+      messages: result,
+      startCursor: result.length > 0 ? encodeMessageCursor(result[0]) : null,
+      endCursor: result.length > 0 ? encodeMessageCursor(result[result.length - 1]) : null,
+      hasMore: page.hasMore,
+    };
+  }
+
+  async getMessage(id: string): Promise<Message | undefined> {
+    const msg = this.messages.get(parseInt(id));
+    return msg ? this.toMessage(msg) : undefined;
+  }
+
+  async createMessage(message: Omit<Message, 'id'>): Promise<Message> {
+    const senderId = await this.ensureUser(message.sender);
+    const recipientId = message.recipient ? this.findUser(message.recipient)?.id ?? null : null;
+    
+    const newMessage: MessageDB = {
+      id: this.generateId(),
+      conversationId: parseInt(message.conversationId),
+      senderId,
+      recipientId,
+      recipientUsername: message.recipient || null,
+      content: message.content,
+      encryptedContent: message.encryptedMemo || null,
+      decryptedContent: message.decryptedContent || null,
+      isEncrypted: message.isEncrypted,
+      status: message.status,
+      timestamp: new Date(),
+      blockchainTxId: message.trxId || null,
+      amount: message.amount || null,
+    };
+    this.messages.set(newMessage.id, newMessage);
+    
+    const created: Message = { ...this.toMessage(newMessage), blockNum: message.blockNum };
+    
+    publishMessageCreated(created);
+    
+    return created;
+  }
+
+  async updateMessageStatus(id: string, status: Message['status'], transfer?: Pick<Message, 'trxId' | 'amount'>): Promise<Message | undefined> {
+    const existing = this.messages.get(parseInt(id));
+    if (!existing) return undefined;
+    
+    existing.status = status;
+    if (transfer?.trxId) existing.blockchainTxId = transfer.trxId;
+    if (transfer?.amount) existing.amount = transfer.amount;
+    const message = this.toMessage(existing);
+    
+    publishMessageStatus(message);
+    
+    return message;
+  }
+
+  async updateMessageDecryptedContent(id: string, decryptedContent: string): Promise<Message | undefined> {
+    const existing = this.messages.get(parseInt(id));
+    if (!existing) return undefined;
+    
+    existing.decryptedContent = decryptedContent;
+    return this.toMessage(existing);
+  }
+
+  async messageExistsByTxId(txId: string): Promise<boolean> {
+    return Array.from(this.messages.values()).some(msg => msg.blockchainTxId === txId);
+  }
+
+  async getUnconfirmedMessages(limit: number): Promise<Message[]> {
+    return Array.from(this.messages.values())
+      .filter(msg => msg.status === 'sent' && !!msg.blockchainTxId)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .slice(0, limit)
+      .map(msg => this.toMessage(msg));
+  }
+
+  private findContact(username: string, contactUsername: string): ContactDB | undefined {
+    const user = this.findUser(username);
+    if (!user) return undefined;
+    
+    return Array.from(this.contacts.values()).find(
+      contact => contact.userId === user.id && contact.contactUsername === contactUsername
+    );
+  }
+
+  async getContacts(username: string, query: ContactQuery = {}): Promise<Contact[]> {
+    const user = this.findUser(username);
+    if (!user) return [];
+    
+    return Array.from(this.contacts.values())
+      .filter(contact =>
+        contact.userId === user.id &&
+        (!query.tag || contact.tags.includes(query.tag)) &&
+        (query.favorite === undefined || contact.isFavorite === query.favorite) &&
+        (query.blocked === undefined || contact.isBlocked === query.blocked)
+      )
+      .sort((a, b) =>
+        Number(b.isFavorite) - Number(a.isFavorite) || a.contactUsername.localeCompare(b.contactUsername)
+      )
+      .map(toContact);
+  }
+
+  async getContact(username: string, contactUsername: string): Promise<Contact | undefined> {
+    const contact = this.findContact(username, contactUsername);
+    return contact ? toContact(contact) : undefined;
+  }
+
+  async addContact(username: string, contact: Contact): Promise<Contact> {
+    const userId = await this.ensureUser(username);
+    
+    const existing = this.findContact(username, contact.username);
+    if (existing) return toContact(existing);
+    
+    const now = new Date();
+    const newContact: ContactDB = {
+      id: this.generateId(),
+      userId,
+      contactUsername: contact.username,
+      publicMemoKey: contact.publicKey,
+      nickname: contact.nickname || null,
+      notes: contact.notes || null,
+      tags: contact.tags || [],
+      isFavorite: contact.isFavorite || false,
+      isBlocked: contact.isBlocked || false,
+      addedAt: now,
+      updatedAt: now,
+    };
+    this.contacts.set(newContact.id, newContact);
+    
+    return toContact(newContact);
+  }
+
+  async updateContact(username: string, contactUsername: string, updates: UpdateContactInput): Promise<Contact | undefined> {
+    const existing = this.findContact(username, contactUsername);
+    if (!existing) return undefined;
+    
+    if (updates.nickname !== undefined) existing.nickname = updates.nickname || null;
+    if (updates.notes !== undefined) existing.notes = updates.notes || null;
+    if (updates.tags !== undefined) existing.tags = Array.from(new Set(updates.tags));
+    if (updates.isFavorite !== undefined) existing.isFavorite = updates.isFavorite;
+    if (updates.isBlocked !== undefined) existing.isBlocked = updates.isBlocked;
+    existing.updatedAt = new Date();
+    
+    return toContact(existing);
+  }
+
+  async deleteContact(username: string, contactUsername: string): Promise<boolean> {
+    const existing = this.findContact(username, contactUsername);
+    return existing ? this.contacts.delete(existing.id) : false;
+  }
+
+  private withUsername(session: SessionDB | undefined): SessionWithUser | undefined {
+    if (!session) return undefined;
+    
+    const user = this.users.get(session.userId);
+    return user ? { ...session, username: user.username } : undefined;
+  }
+
+  async createSession(username: string, session: Omit<InsertSession, 'userId'>): Promise<SessionWithUser> {
+    const userId = await this.ensureUser(username);
+    const now = new Date();
+    
+    const newSession: SessionDB = {
+      id: this.generateId(),
+      userId,
+      tokenHash: session.tokenHash,
+      refreshTokenHash: session.refreshTokenHash,
+      previousRefreshTokenHash: session.previousRefreshTokenHash ?? null,
+      publicMemoKey: session.publicMemoKey,
+      deviceName: session.deviceName ?? null,
+      userAgent: session.userAgent ?? null,
+      ipAddress: session.ipAddress ?? null,
+      createdAt: now,
+      lastUsedAt: now,
+      tokenExpiresAt: session.tokenExpiresAt,
+      expiresAt: session.expiresAt,
+      revokedAt: null,
+    };
+    this.sessions.set(newSession.id, newSession);
+    
+    return { ...newSession, username };
+  }
+
+  private findSession(predicate: (session: SessionDB) => boolean): SessionWithUser | undefined {
+    return this.withUsername(Array.from(this.sessions.values()).find(predicate));
+  }
+
+  async getSessionByTokenHash(tokenHash: string): Promise<SessionWithUser | undefined> {
+    return this.findSession(session => session.tokenHash === tokenHash);
+  }
+
+  async getSessionByRefreshTokenHash(refreshTokenHash: string): Promise<SessionWithUser | undefined> {
+    return this.findSession(session => session.refreshTokenHash === refreshTokenHash);
+  }
+
+  async getSessionByPreviousRefreshTokenHash(refreshTokenHash: string): Promise<SessionWithUser | undefined> {
+    return this.findSession(session => session.previousRefreshTokenHash === refreshTokenHash);
+  }
+
+  async getActiveSessions(username: string): Promise<SessionWithUser[]> {
+    const user = this.findUser(username);
+    if (!user) return [];
+    
+    const now = Date.now();
+    return Array.from(this.sessions.values())
+      .filter(session => session.userId === user.id && !session.revokedAt && session.expiresAt.getTime() > now)
+      .sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime())
+      .map(session => ({ ...session, username }));
+  }
+
+  async updateSession(id: string, updates: Partial<Omit<InsertSession, 'userId'>> & { lastUsedAt?: Date }): Promise<SessionWithUser | undefined> {
+    const existing = this.sessions.get(parseInt(id));
+    if (!existing) return undefined;
+    
+    Object.assign(existing, updates);
+    return this.withUsername(existing);
+  }
+
+  async revokeSession(id: string): Promise<boolean> {
+    const existing = this.sessions.get(parseInt(id));
+    if (!existing || existing.revokedAt) return false;
+    
+    existing.revokedAt = new Date();
+    return true;
+  }
+
+  async deleteExpiredSessions(): Promise<number> {
+    const now = Date.now();
+    let deleted = 0;
+    
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.expiresAt.getTime() < now || session.revokedAt) {
+        this.sessions.delete(session.id);
+        deleted++;
+      }
+    }
+    
+    return deleted;
+  }
+
+  private getCurrentMembers(groupId: string): string[] {
+    return this.groupMembers
+      .filter(member => member.groupId === groupId && !member.leftAt)
+      .map(member => member.username);
+  }
+
+  async getGroups(username: string): Promise<Group[]> {
+    return Array.from(this.groups.values())
+      .filter(group => this.getCurrentMembers(group.groupId).includes(username))
+      .sort((a, b) => compareDatesDesc(a.lastMessageAt, b.lastMessageAt) || compareDatesDesc(a.updatedAt, b.updatedAt))
+      .map(group => toGroup(group, this.getCurrentMembers(group.groupId)));
+  }
+
+  async getGroup(groupId: string): Promise<Group | undefined> {
+    const group = this.groups.get(groupId);
+    return group ? toGroup(group, this.getCurrentMembers(groupId)) : undefined;
+  }
+
+  async createGroup(group: Pick<Group, 'groupId' | 'name' | 'members' | 'creator' | 'paymentSettings' | 'roles'> & { txId?: string }): Promise<Group> {
+    if (this.groups.has(group.groupId)) {
+      throw new Error(`Group ${group.groupId} already exists`);
+    }
+    
+    const members = Array.from(new Set(group.members));
+    const now = new Date();
+    
+    const newGroup: GroupDB = {
+      id: this.generateId(),
+      groupId: group.groupId,
+      name: group.name,
+      creator: group.creator,
+      version: 1,
+      paymentSettings: group.paymentSettings || null,
+      roles: group.roles || null,
+      createdAt: now,
+      updatedAt: now,
+      lastMessage: null,
+      lastMessageAt: null,
+    };
+    this.groups.set(group.groupId, newGroup);
+    
+    for (const username of members) {
+      this.groupMembers.push({
+        id: this.generateId(),
+        groupId: group.groupId,
+        username,
+        joinedAt: now,
+        joinedVersion: 1,
+        addedBy: group.creator,
+        leftAt: null,
+        leftVersion: null,
+        removedBy: null,
+      });
+    }
+    
+    this.groupVersions.push({
+      id: this.generateId(),
+      groupId: group.groupId,
+      version: 1,
+      name: group.name,
+      members,
+      changedBy: group.creator,
+      txId: group.txId || null,
+      createdAt: now,
+    });
+    
+    return toGroup(newGroup, members);
+  }
+
+  async updateGroup(groupId: string, update: GroupUpdate): Promise<Group | undefined> {
+    const existing = this.groups.get(groupId);
+    if (!existing) return undefined;
+    
+    const currentMembers = this.getCurrentMembers(groupId);
+    
+    // Replayed chain ops carry their own version - ignore anything not newer than what we have
+    if (update.version !== undefined && update.version <= existing.version) {
+      return toGroup(existing, currentMembers);
+    }
+    
+    const version = update.version ?? existing.version + 1;
+    const name = update.name ?? existing.name;
+    const members = update.members ? Array.from(new Set(update.members)) : currentMembers;
+    const now = new Date();
+    
+    for (const username of members.filter(username => !currentMembers.includes(username))) {
+      this.groupMembers.push({
+        id: this.generateId(),
+        groupId,
+        username,
+        joinedAt: now,
+        joinedVersion: version,
+        addedBy: update.changedBy,
+        leftAt: null,
+        leftVersion: null,
+        removedBy: null,
+      });
+    }
+    
+    for (const member of this.groupMembers) {
+      if (member.groupId === groupId && !member.leftAt && !members.includes(member.username)) {
+        member.leftAt = now;
+        member.leftVersion = version;
+        member.removedBy = update.changedBy;
+      }
+    }
+    
+    existing.name = name;
+    existing.version = version;
+    existing.updatedAt = now;
+    if (update.paymentSettings !== undefined) existing.paymentSettings = update.paymentSettings;
+    if (update.roles !== undefined) existing.roles = update.roles;
+    
+    if (!this.groupVersions.some(v => v.groupId === groupId && v.version === version)) {
+      this.groupVersions.push({
+        id: this.generateId(),
+        groupId,
+        version,
+        name,
+        members,
+        changedBy: update.changedBy,
+        txId: update.txId || null,
+        createdAt: now,
+      });
+    }
+    
+    return toGroup(existing, members);
+  }
+
+  async getGroupMembershipHistory(groupId: string): Promise<GroupMembership[]> {
+    return this.groupMembers
+      .filter(member => member.groupId === groupId)
+      .sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime() || a.id - b.id)
+      .map(row => ({
+        username: row.username,
+        joinedAt: row.joinedAt.toISOString(),
+        joinedVersion: row.joinedVersion,
+        addedBy: row.addedBy || undefined,
+        leftAt: row.leftAt?.toISOString(),
+        leftVersion: row.leftVersion ?? undefined,
+        removedBy: row.removedBy || undefined,
+      }));
+  }
+
+  async getGroupVersions(groupId: string): Promise<GroupVersion[]> {
+    return this.groupVersions
+      .filter(row => row.groupId === groupId)
+      .sort((a, b) => a.version - b.version)
+      .map(row => ({
+        version: row.version,
+        name: row.name,
+        members: row.members,
+        changedBy: row.changedBy,
+        txId: row.txId || undefined,
+        createdAt: row.createdAt.toISOString(),
+      }));
+  }
+
+  async getGroupMessages(groupId: string, query: MessagePageQuery = { limit: DEFAULT_MESSAGE_PAGE_SIZE }): Promise<MessagePage<GroupMessage>> {
+    const candidates = Array.from(this.groupMessages.values()).filter(msg =>
+      msg.groupId === groupId &&
+      (!query.status || query.status.length === 0 || (query.status as string[]).includes(msg.status)) &&
+      (!query.sender || msg.sender === query.sender)
+    );
+    
+    const page = paginateByCursor(candidates, query);
+    const result = page.rows.map(toGroupMessage);
+    
+    return {
+      messages: result,
+      startCursor: result.length > 0 ? encodeMessageCursor(result[0]) : null,
+      endCursor: result.length > 0 ? encodeMessageCursor(result[result.length - 1]) : null,
+      hasMore: page.hasMore,
+    };
+  }
+
+  async getGroupMessage(id: string): Promise<GroupMessage | undefined> {
+    const message = this.groupMessages.get(parseInt(id));
+    return message ? toGroupMessage(message) : undefined;
+  }
+
+  async createGroupMessage(message: Omit<GroupMessage, 'id'>): Promise<GroupMessage> {
+    const newMessage: GroupMessageDB = {
+      id: this.generateId(),
+      groupId: message.groupId,
+      sender: message.sender,
+      content: message.content,
+      encryptedContent: message.encryptedContent,
+      timestamp: new Date(message.timestamp),
+      recipients: message.recipients,
+      txIds: message.txIds,
+      status: message.status,
+      failedRecipients: message.failedRecipients || null,
+    };
+    this.groupMessages.set(newMessage.id, newMessage);
+    
+    const group = this.groups.get(message.groupId);
+    if (group) {
+      group.lastMessage = newMessage.content;
+      group.lastMessageAt = newMessage.timestamp;
+    }
+    
+    return toGroupMessage(newMessage);
+  }
+
+  async updateGroupMessageStatus(id: string, updates: Pick<GroupMessage, 'status'> & Partial<Pick<GroupMessage, 'txIds' | 'failedRecipients'>>): Promise<GroupMessage | undefined> {
+    const existing = this.groupMessages.get(parseInt(id));
+    if (!existing) return undefined;
+    
+    existing.status = updates.status;
+    if (updates.txIds !== undefined) existing.txIds = updates.txIds;
+    if (updates.failedRecipients !== undefined) existing.failedRecipients = updates.failedRecipients;
+    
+    return toGroupMessage(existing);
+  }
+
+  async getIndexerState(name: string): Promise<IndexerStateDB | undefined> {
+    return this.indexerStates.get(name);
+  }
+
+  async getIndexedBlock(blockNum: number): Promise<IndexedBlockDB | undefined> {
+    return this.indexedBlocks.get(blockNum);
+  }
+
+  async getFirstIndexedBlockNum(): Promise<number | null> {
+    let first: number | null = null;
+    this.indexedBlocks.forEach((_block, blockNum) => {
+      if (first === null || blockNum < first) first = blockNum;
+    });
+    return first;
+  }
+
+  async saveIndexedBlock(name: string, block: IndexedBlockData): Promise<void> {
+    const isIndexed = (rows: { txId: string; opIndex: number }[], txId: string, opIndex: number) =>
+      rows.some(row => row.txId === txId && row.opIndex === opIndex);
+    
+    for (const transfer of block.transfers) {
+      if (!isIndexed(this.indexedTransfers, transfer.txId, transfer.opIndex)) {
+        this.indexedTransfers.push({ ...transfer, id: this.generateId(), irreversible: false });
+      }
+    }
+    
+    for (const op of block.groupOps) {
+      if (!isIndexed(this.indexedGroupOps, op.txId, op.opIndex)) {
+        this.indexedGroupOps.push({ ...op, id: this.generateId(), irreversible: false });
+      }
+    }
+    
+    this.indexedBlocks.set(block.blockNum, {
+      blockNum: block.blockNum,
+      blockId: block.blockId,
+      previous: block.previous,
+      timestamp: block.timestamp,
+    });
+    
+    const existing = this.indexerStates.get(name);
+    this.indexerStates.set(name, {
+      name,
+      lastBlockNum: block.blockNum,
+      lastBlockId: block.blockId,
+      lastIrreversibleBlock: existing?.lastIrreversibleBlock ?? 0,
+      updatedAt: new Date(),
+    });
+  }
+
+  async rollbackIndex(name: string, toBlockNum: number, toBlockId: string): Promise<void> {
+    this.indexedTransfers = this.indexedTransfers.filter(row => row.blockNum <= toBlockNum);
+    this.indexedGroupOps = this.indexedGroupOps.filter(row => row.blockNum <= toBlockNum);
+    for (const blockNum of Array.from(this.indexedBlocks.keys())) {
+      if (blockNum > toBlockNum) this.indexedBlocks.delete(blockNum);
+    }
+    
+    const state = this.indexerStates.get(name);
+    if (state) {
+      Object.assign(state, { lastBlockNum: toBlockNum, lastBlockId: toBlockId, updatedAt: new Date() });
+    }
+  }
+
+  async markIndexIrreversible(name: string, lastIrreversibleBlock: number): Promise<void> {
+    for (const row of [...this.indexedTransfers, ...this.indexedGroupOps]) {
+      if (row.blockNum <= lastIrreversibleBlock) row.irreversible = true;
+    }
+    
+    // Irreversible blocks can't fork - keep only the last one as the fork-check anchor
+    for (const blockNum of Array.from(this.indexedBlocks.keys())) {
+      if (blockNum < lastIrreversibleBlock) this.indexedBlocks.delete(blockNum);
+    }
+    
+    const state = this.indexerStates.get(name);
+    if (state) {
+      Object.assign(state, { lastIrreversibleBlock, updatedAt: new Date() });
+    }
+  }
+
+  async getIndexedTransfers(query: IndexedTransferQuery): Promise<IndexedTransferDB[]> {
+    const direction = query.direction || 'both';
+    
+    return this.indexedTransfers
+      .filter(row =>
+        (direction === 'in' ? row.toUsername === query.username :
+          direction === 'out' ? row.fromUsername === query.username :
+          row.toUsername === query.username || row.fromUsername === query.username) &&
+        (query.beforeBlock === undefined || row.blockNum < query.beforeBlock)
+      )
+      .sort((a, b) => b.blockNum - a.blockNum || b.opIndex - a.opIndex)
+      .slice(0, query.limit);
+  }
+
+  async getIndexedGroupOps(query: IndexedGroupOpQuery): Promise<IndexedGroupOpDB[]> {
+    return this.indexedGroupOps
+      .filter(row =>
+        (!query.groupId || row.groupId === query.groupId) &&
+        (!query.account || row.account === query.account) &&
+        (!query.actions || query.actions.includes(row.action)) &&
+        (query.afterBlock === undefined ||
+          row.blockNum > query.afterBlock ||
+          (query.afterOpIndex !== undefined && row.blockNum === query.afterBlock && row.opIndex > query.afterOpIndex)) &&
+        (query.throughBlock === undefined || row.blockNum <= query.throughBlock)
+      )
+      .sort((a, b) => a.blockNum - b.blockNum || a.opIndex - b.opIndex)
+      .slice(0, query.limit);
+  }
+}
+
+/**
+ * Pick the storage backend from STORAGE_BACKEND
+ * "memory" runs without Postgres; anything else (default "postgres") uses DATABASE_URL
+ */
+function createStorage(): IStorage {
+  if (process.env.STORAGE_BACKEND === 'memory') {
+    console.log('[storage] Using in-memory storage - data is lost on restart');
+    return new MemStorage();
+  }
+  
+  return new DatabaseStorage();
 }
 
-export const storage = new DatabaseStorage();
+export const storage = createStorage();
@@ -0,0 +1,161 @@
+import type { Message } from "@shared/schema";
+import { rpcCallWithFailover } from "../client/src/lib/hiveClient";
+import { storage, type IStorage } from "./storage";
+import { log } from "./vite";
+
+// Hive rejects transactions whose expiration is more than 1 hour ahead, so a
+// transaction still unknown after this long will never be included
+const TRANSACTION_EXPIRY_MS = 65 * 60 * 1000;
+
+export interface TransferClaim {
+  txId: string;
+  from: string;
+  to: string;
+  amount?: string;                    // Skipped when unknown (messages stored before amounts were recorded)
+  memo: string;
+}
+
+export type TransferVerification =
+  | { status: 'confirmed'; blockNum: number }
+  | { status: 'pending' }
+  | { status: 'mismatch'; reason: string };
+
+// Parse "1.000 HBD" into a comparable form (3 decimals, upper-case symbol)
+function normalizeAmount(amount: string): string | null {
+  const match = /^\s*(\d+(?:\.\d+)?)\s+([A-Za-z]+)\s*$/.exec(amount);
+  if (!match) return null;
+  return `${parseFloat(match[1]).toFixed(3)} ${match[2].toUpperCase()}`;
+}
+
+/**
+ * Check a claimed transfer against the chain with get_transaction
+ *
+ * "pending" means the node doesn't know the transaction (yet) - either it isn't in
+ * a block so far or every node failed; the reconciler retries those later.
+ */
+export async function verifyTransfer(claim: TransferClaim): Promise<TransferVerification> {
+  let transaction: any;
+  try {
+    transaction = await rpcCallWithFailover<any>('get_transaction', [claim.txId], { parallelNodes: 2 });
+  } catch {
+    return { status: 'pending' };
+  }
+
+  if (!transaction?.operations) {
+    return { status: 'pending' };
+  }
+
+  const claimedAmount = claim.amount ? normalizeAmount(claim.amount) : null;
+  const transfers = transaction.operations
+    .filter(([opType]: [string, any]) => opType === 'transfer')
+    .map(([, opData]: [string, any]) => opData);
+
+  if (transfers.length === 0) {
+    return { status: 'mismatch', reason: 'Transaction contains no transfer operation' };
+  }
+
+  const match = transfers.find((op: any) =>
+    op.from === claim.from &&
+    op.to === claim.to &&
+    op.memo === claim.memo &&
+    (!claim.amount || normalizeAmount(String(op.amount)) === claimedAmount)
+  );
+
+  if (!match) {
+    return { status: 'mismatch', reason: 'No transfer in the transaction matches from, to, amount and memo' };
+  }
+
+  return { status: 'confirmed', blockNum: transaction.block_num };
+}
+
+/**
+ * Re-checks messages that were sent with a txId but never confirmed
+ *
+ * Confirmed transfers move the message to "confirmed"; mismatches and
+ * transactions that expired without making it into a block move it to "failed".
+ */
+export class TransferReconciler {
+  private store: IStorage;
+  private intervalMs: number;
+  private batchSize: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isReconciling: boolean = false;
+
+  constructor(store: IStorage = storage, options: { intervalMs?: number; batchSize?: number } = {}) {
+    this.store = store;
+    this.intervalMs = options.intervalMs || 30000;
+    this.batchSize = options.batchSize || 50;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.reconcile().catch(error => {
+        log(`reconcile failed: ${error instanceof Error ? error.message : error}`, "reconciler");
+      });
+    }, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check one batch of unconfirmed messages
+   * @returns number of messages whose status changed
+   */
+  async reconcile(): Promise<number> {
+    // Skip if the previous run is still waiting on RPC nodes
+    if (this.isReconciling) return 0;
+    this.isReconciling = true;
+
+    try {
+      const pending = await this.store.getUnconfirmedMessages(this.batchSize);
+      let changed = 0;
+
+      for (const message of pending) {
+        const status = await this.reconcileMessage(message);
+        if (status) changed++;
+      }
+
+      if (changed > 0) {
+        log(`updated ${changed} of ${pending.length} unconfirmed messages`, "reconciler");
+      }
+
+      return changed;
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+
+  private async reconcileMessage(message: Message): Promise<Message['status'] | null> {
+    if (!message.trxId) return null;
+
+    const result = await verifyTransfer({
+      txId: message.trxId,
+      from: message.sender,
+      to: message.recipient,
+      amount: message.amount,
+      memo: message.encryptedMemo || message.content,
+    });
+
+    if (result.status === 'confirmed') {
+      await this.store.updateMessageStatus(message.id, 'confirmed');
+      return 'confirmed';
+    }
+
+    const expired = Date.now() - new Date(message.timestamp).getTime() > TRANSACTION_EXPIRY_MS;
+
+    if (result.status === 'mismatch' || expired) {
+      await this.store.updateMessageStatus(message.id, 'failed');
+      return 'failed';
+    }
+
+    return null;
+  }
+}
+
+export const transferReconciler = new TransferReconciler();
@@ -0,0 +1,92 @@
+import type { GroupModerationEntry } from './schema';
+
+/**
+ * Group bans and mutes
+ *
+ * Bans and mutes are their own group custom_json actions (ban / unban / mute /
+ * unmute, with the target in `username`). They are folded in chain order by the
+ * group reducer together with the manifests, so whether a moderator could ban or
+ * mute someone is judged by the roles at that point. Manifests re-adding banned
+ * users are ignored by that fold, on clients and in the server indexer alike. The
+ * rest is client-side: banned users' join requests are never approved, and messages
+ * from banned users, and from muted users while muted, are hidden.
+ *
+ * Mutes are kept as periods (an unmute closes the current one), so messages sent
+ * during a past mute stay hidden after the mute ends.
+ *
+ * @module groupModeration
+ */
+
+export interface GroupModeration {
+  bans: GroupModerationEntry[];
+  mutes: GroupModerationEntry[];   // Mute periods, oldest first
+}
+
+function sameUser(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Moderation state stored with a cached group
+ */
+export function getCachedGroupModeration(group: { bans?: GroupModerationEntry[]; mutes?: GroupModerationEntry[] } | undefined): GroupModeration {
+  return { bans: group?.bans || [], mutes: group?.mutes || [] };
+}
+
+export function getGroupBan(moderation: GroupModeration, username: string): GroupModerationEntry | undefined {
+  return moderation.bans.find(ban => sameUser(ban.username, username));
+}
+
+export function isGroupMemberBanned(moderation: GroupModeration, username: string): boolean {
+  return !!getGroupBan(moderation, username);
+}
+
+/**
+ * The mute period covering `at`, if any
+ */
+export function getGroupMute(
+  moderation: GroupModeration,
+  username: string,
+  at: Date = new Date()
+): GroupModerationEntry | undefined {
+  const time = at.getTime();
+  return moderation.mutes.find(mute =>
+    sameUser(mute.username, username) &&
+    new Date(mute.at).getTime() <= time &&
+    (!mute.until || time < new Date(mute.until).getTime())
+  );
+}
+
+/**
+ * Whether a group message should be hidden: sender banned, or muted when it was sent
+ */
+export function isGroupMessageHidden(moderation: GroupModeration, sender: string, timestamp: string): boolean {
+  return isGroupMemberBanned(moderation, sender) || !!getGroupMute(moderation, sender, new Date(timestamp));
+}
+
+/**
+ * Moderation state after a ban / unban / mute / unmute the user just broadcast
+ * Used to show the change right away, before the next audit scan picks it up.
+ */
+export function applyGroupModeration(
+  moderation: GroupModeration,
+  action: 'ban' | 'unban' | 'mute' | 'unmute',
+  entry: GroupModerationEntry
+): GroupModeration {
+  const others = (entries: GroupModerationEntry[]) => entries.filter(e => !sameUser(e.username, entry.username));
+  const endActiveMute = (mutes: GroupModerationEntry[]) => {
+    const active = getGroupMute(moderation, entry.username, new Date(entry.at));
+    return mutes.map(mute => (mute === active ? { ...mute, until: entry.at } : mute));
+  };
+
+  switch (action) {
+    case 'ban':
+      return { ...moderation, bans: [...others(moderation.bans), entry] };
+    case 'unban':
+      return { ...moderation, bans: others(moderation.bans) };
+    case 'mute':
+      return { ...moderation, mutes: [...endActiveMute(moderation.mutes), entry] };
+    case 'unmute':
+      return { ...moderation, mutes: endActiveMute(moderation.mutes) };
+  }
+}
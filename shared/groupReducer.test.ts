@@ -0,0 +1,288 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { GroupCustomJson } from './schema';
+import { reduceGroupOps, type GroupOp } from './groupReducer';
+
+let nextBlock = 1;
+
+/**
+ * A group op in its own block unless a position is given
+ */
+function op(
+  author: string,
+  json: Omit<GroupCustomJson, 'groupId' | 'timestamp'> & { timestamp?: string },
+  position: Partial<Pick<GroupOp, 'block' | 'trxInBlock' | 'opInTrx'>> = {}
+): GroupOp {
+  const block = position.block ?? nextBlock++;
+  return {
+    json: { groupId: 'g1', timestamp: new Date(Date.UTC(2025, 0, 1, 0, 0, block * 3)).toISOString(), ...json },
+    author,
+    trxId: `tx-${block}-${position.trxInBlock ?? 0}-${author}`,
+    block,
+    trxInBlock: position.trxInBlock ?? 0,
+    opInTrx: position.opInTrx ?? 0,
+    timestamp: new Date(Date.UTC(2025, 0, 1, 0, 0, block * 3)).toISOString(),
+  };
+}
+
+function create(author = 'alice', extra: Partial<GroupCustomJson> = {}): GroupOp {
+  return op(author, { action: 'create', name: 'Team', creator: author, members: [author, 'bob', 'carol'], version: 1, ...extra });
+}
+
+function rejections(ops: GroupOp[]): string[] {
+  return reduceGroupOps(ops).audit.filter(entry => entry.action === 'rejected').map(entry => entry.summary);
+}
+
+describe('reduceGroupOps', () => {
+  describe('ordering', () => {
+    it('gives the same state whatever order the ops are found in', () => {
+      const ops = [
+        create(),
+        op('alice', { action: 'update', version: 2, members: ['alice', 'bob', 'carol', 'dave'] }),
+        op('alice', { action: 'update', version: 3, name: 'Renamed' }),
+        op('alice', { action: 'update', version: 4, members: ['alice', 'bob', 'dave'] }),
+      ];
+
+      const expected = reduceGroupOps(ops).group;
+      for (const shuffled of [[...ops].reverse(), [ops[2], ops[0], ops[3], ops[1]]]) {
+        assert.deepEqual(reduceGroupOps(shuffled).group, expected);
+      }
+      assert.equal(expected?.version, 4);
+      assert.equal(expected?.name, 'Renamed');
+      assert.deepEqual(expected?.members, ['alice', 'bob', 'dave']);
+    });
+
+    it('orders ops in one block by transaction, then operation', () => {
+      const created = create();
+      const block = nextBlock++;
+      const ops = [
+        created,
+        op('alice', { action: 'update', version: 3, name: 'Third' }, { block, trxInBlock: 1, opInTrx: 0 }),
+        op('alice', { action: 'update', version: 2, name: 'Second' }, { block, trxInBlock: 0, opInTrx: 1 }),
+      ];
+
+      const { group, audit } = reduceGroupOps(ops);
+      assert.equal(group?.name, 'Third');
+      assert.deepEqual(audit.filter(e => e.action === 'renamed').map(e => e.version), [2, 3]);
+    });
+
+    it('drops the same op found through several account histories', () => {
+      const created = create();
+      const update = op('alice', { action: 'update', version: 2, members: ['alice', 'bob', 'carol', 'dave'] });
+      const { audit } = reduceGroupOps([created, update, { ...update }]);
+
+      assert.equal(audit.filter(e => e.action === 'members_added').length, 1);
+      assert.equal(audit.filter(e => e.action === 'rejected').length, 0);
+    });
+  });
+
+  describe('conflicts', () => {
+    it('keeps the earlier of two updates with the same version', () => {
+      const ops = [
+        create('alice', { roles: { bob: 'admin' } }),
+        op('bob', { action: 'update', version: 2, name: 'From bob' }),
+        op('alice', { action: 'update', version: 2, name: 'From alice' }),
+      ];
+
+      assert.equal(reduceGroupOps(ops).group?.name, 'From bob');
+      assert.match(rejections(ops)[0], /already at v2/);
+    });
+
+    it('ignores updates that do not raise the version', () => {
+      const ops = [
+        create(),
+        op('alice', { action: 'update', version: 3, name: 'Newer' }),
+        op('alice', { action: 'update', version: 2, name: 'Stale' }),
+      ];
+
+      assert.equal(reduceGroupOps(ops).group?.name, 'Newer');
+      assert.equal(rejections(ops).length, 1);
+    });
+
+    it('ignores a second create for the same group', () => {
+      const ops = [create(), create('mallory', { name: 'Hijacked' })];
+
+      const { group } = reduceGroupOps(ops);
+      assert.equal(group?.creator, 'alice');
+      assert.equal(group?.name, 'Team');
+      assert.match(rejections(ops)[0], /already exists/);
+    });
+  });
+
+  describe('unauthorized updates', () => {
+    it('ignores updates from non-members and plain members', () => {
+      const ops = [
+        create(),
+        op('mallory', { action: 'update', version: 2, members: ['mallory'], roles: { mallory: 'owner' } }),
+        op('bob', { action: 'update', version: 3, name: 'Renamed by bob' }),
+      ];
+
+      const { group } = reduceGroupOps(ops);
+      assert.equal(group?.version, 1);
+      assert.equal(group?.name, 'Team');
+      assert.deepEqual(group?.members, ['alice', 'bob', 'carol']);
+      assert.equal(rejections(ops).length, 2);
+    });
+
+    it('lets moderators do less than admins', () => {
+      const ops = [
+        create('alice', { roles: { bob: 'admin', carol: 'moderator' } }),
+        op('carol', { action: 'update', version: 2, members: ['alice', 'bob', 'carol', 'dave'] }),
+        op('bob', { action: 'update', version: 3, members: ['alice', 'bob', 'carol', 'dave'] }),
+        // An admin cannot remove the owner or promote someone to admin
+        op('bob', { action: 'update', version: 4, members: ['bob', 'carol', 'dave'] }),
+        op('bob', { action: 'update', version: 5, roles: { bob: 'admin', carol: 'moderator', dave: 'admin' } }),
+      ];
+
+      const { group } = reduceGroupOps(ops);
+      assert.equal(group?.version, 3);
+      assert.deepEqual(group?.members, ['alice', 'bob', 'carol', 'dave']);
+      assert.equal(group?.roles?.dave, undefined);
+      assert.equal(rejections(ops).length, 3);
+    });
+
+    it('checks each update against the roles at that point', () => {
+      const ops = [
+        create(),
+        op('alice', { action: 'update', version: 2, roles: { bob: 'admin' } }),
+        op('bob', { action: 'update', version: 3, name: 'Renamed by admin' }),
+        op('alice', { action: 'update', version: 4, roles: {} }),
+        op('bob', { action: 'update', version: 5, name: 'Renamed after demotion' }),
+      ];
+
+      const { group } = reduceGroupOps(ops);
+      assert.equal(group?.name, 'Renamed by admin');
+      assert.equal(group?.roles?.bob, undefined);
+      assert.equal(rejections(ops).length, 1);
+    });
+
+    it('does not re-add banned users', () => {
+      const ops = [
+        create(),
+        op('alice', { action: 'ban', username: 'mallory' }),
+        op('alice', { action: 'update', version: 2, members: ['alice', 'bob', 'carol', 'mallory'] }),
+      ];
+
+      assert.deepEqual(reduceGroupOps(ops).group?.members, ['alice', 'bob', 'carol']);
+      assert.match(rejections(ops)[0], /@mallory is banned/);
+    });
+  });
+
+  describe('ownership transfer', () => {
+    it('lets only the owner hand over the group, keeping them on as admin', () => {
+      const ops = [
+        create('alice', { roles: { bob: 'admin' } }),
+        op('bob', { action: 'update', version: 2, roles: { bob: 'owner' } }),
+        op('alice', { action: 'update', version: 3, roles: { alice: 'admin', bob: 'owner' } }),
+      ];
+
+      const { group, audit } = reduceGroupOps(ops);
+      assert.deepEqual(group?.roles, { bob: 'owner', alice: 'admin' });
+      assert.equal(group?.creator, 'alice');
+      assert.equal(audit.filter(e => e.action === 'ownership_transferred').length, 1);
+      assert.match(rejections(ops)[0], /not permitted/);
+    });
+
+    it('moves the owner permissions along with the role', () => {
+      const ops = [
+        create(),
+        op('alice', { action: 'update', version: 2, roles: { alice: 'admin', bob: 'owner' } }),
+        // The former owner is now an admin and cannot take the group back or remove the owner
+        op('alice', { action: 'update', version: 3, roles: { alice: 'owner', bob: 'admin' } }),
+        op('alice', { action: 'update', version: 4, members: ['alice', 'carol'] }),
+        op('bob', { action: 'update', version: 5, members: ['bob', 'carol'] }),
+      ];
+
+      const { group } = reduceGroupOps(ops);
+      assert.equal(group?.version, 5);
+      assert.deepEqual(group?.members, ['bob', 'carol']);
+      assert.deepEqual(group?.roles, { bob: 'owner' });
+      assert.equal(rejections(ops).length, 2);
+    });
+
+    it('cannot hand ownership to a non-member', () => {
+      const ops = [create(), op('alice', { action: 'update', version: 2, roles: { mallory: 'owner' } })];
+
+      assert.equal(reduceGroupOps(ops).group?.roles, undefined);
+      assert.equal(rejections(ops).length, 1);
+    });
+  });
+
+  describe('moderation', () => {
+    it('starts mutes at the block time, not the time the op claims', () => {
+      const creation = create();
+      const mute = op('alice', { action: 'mute', username: 'bob', timestamp: '2024-01-01T00:00:00.000Z' });
+      const { moderation } = reduceGroupOps([creation, mute]);
+
+      assert.equal(moderation.mutes.length, 1);
+      assert.equal(moderation.mutes[0].at, mute.timestamp);
+    });
+
+    it('rejects mutes that end at or before their block time', () => {
+      const creation = create();
+      const backdated = op('alice', { action: 'mute', username: 'bob', timestamp: '2024-01-01T00:00:00.000Z', until: '2024-01-02T00:00:00.000Z' });
+      const instant = op('alice', { action: 'mute', username: 'carol' });
+      instant.json.until = instant.timestamp;
+
+      assert.deepEqual(reduceGroupOps([creation, backdated, instant]).moderation.mutes, []);
+      assert.deepEqual(rejections([creation, backdated, instant]), [
+        'Ignored mute of @bob from @alice: the mute would end before it starts',
+        'Ignored mute of @carol from @alice: the mute would end before it starts',
+      ]);
+    });
+
+    it('keeps a mute with an end after its block time', () => {
+      const creation = create();
+      const mute = op('alice', { action: 'mute', username: 'bob', until: '2030-01-01T00:00:00.000Z' });
+      const { moderation } = reduceGroupOps([creation, mute]);
+
+      assert.deepEqual(moderation.mutes.map(m => [m.username, m.at, m.until]), [['bob', mute.timestamp, '2030-01-01T00:00:00.000Z']]);
+    });
+  });
+
+  it('records the state after each applied manifest', () => {
+    const ops = [
+      create(),
+      op('bob', { action: 'update', version: 2, members: ['bob'] }),
+      op('alice', { action: 'update', version: 3, members: ['alice', 'bob'] }),
+    ];
+
+    const { applied } = reduceGroupOps(ops);
+    assert.deepEqual(applied.map(step => [step.op.trxId, step.group.version]), [
+      [ops[0].trxId, 1],
+      [ops[2].trxId, 3],
+    ]);
+    assert.deepEqual(applied[0].group.members, ['alice', 'bob', 'carol']);
+  });
+
+  describe('partial reductions', () => {
+    it('marks a state without the create op as partial', () => {
+      const reduction = reduceGroupOps([op('alice', { action: 'update', version: 4, name: 'Later', members: ['alice', 'bob'] })]);
+
+      assert.equal(reduction.partial, true);
+      assert.equal(reduction.group?.version, 4);
+    });
+
+    it('only starts from a create by the known creator', () => {
+      // mallory re-used the group id in their own history
+      const forged = create('mallory', { members: ['mallory', 'bob'] });
+
+      assert.equal(reduceGroupOps([forged], { creator: 'alice' }).partial, true);
+      assert.equal(reduceGroupOps([forged, create()], { creator: 'alice' }).group?.creator, 'alice');
+      assert.equal(reduceGroupOps([forged, create()], { creator: 'alice' }).partial, false);
+    });
+
+    it('does not accept a create that names someone else as creator', () => {
+      const reduction = reduceGroupOps([op('mallory', { action: 'create', name: 'Team', creator: 'alice', members: ['alice', 'mallory'] })]);
+
+      assert.equal(reduction.partial, true);
+    });
+
+    it('returns no group without any manifest', () => {
+      const reduction = reduceGroupOps([op('alice', { action: 'leave' })]);
+
+      assert.equal(reduction.group, null);
+      assert.equal(reduction.partial, true);
+    });
+  });
+});
@@ -0,0 +1,407 @@
+import type { Group, GroupCustomJson, GroupModerationEntry, GroupRole } from './schema';
+import { normalizeHiveTimestamp } from './hiveTimestamp';
+import {
+  GROUP_ROLE_LABELS,
+  canModerateGroupMember,
+  getGroupOwner,
+  isAuthorizedGroupUpdate,
+  normalizeGroupRoles,
+} from './groupRoles';
+import { getGroupMute, isGroupMemberBanned, type GroupModeration } from './groupModeration';
+
+/**
+ * Deterministic group state reducer
+ *
+ * Folds a group's manifest ops (create / update custom_json) into one canonical
+ * group state. Every client that sees the same ops ends up with the same group,
+ * regardless of which account histories the ops were found in or in what order
+ * (the server's block indexer folds its indexed ops with this reducer too):
+ *
+ * 1. Ops are sorted into chain order (block, transaction, operation) and duplicates
+ *    (the same op found via several scans) are dropped.
+ * 2. The state starts at the creator's `create` op. Later `create` ops for the same
+ *    group are ignored. When the caller already knows the creator (e.g. from a group it
+ *    holds), only that account's create counts. Without it (history not reached) the
+ *    first manifest found is used as the starting point and the result is marked
+ *    partial - a partial state is unverified and must not be treated as authoritative.
+ * 3. An update must carry a higher version than the current state. Of two concurrent
+ *    updates with the same version, the one earlier on chain wins.
+ * 4. An update is only applied if its author held the role for every change it makes
+ *    at that point (see groupRoles.ts), and never re-adds a banned user.
+ * 5. Ban / unban / mute / unmute ops are applied in the same pass, checked against the
+ *    roles at that point (see groupModeration.ts). They take effect at the op's block
+ *    time, not the timestamp in its JSON.
+ *
+ * Alongside the state, the reducer produces an audit log of membership, role,
+ * settings and moderation changes, including the ops it ignored and why.
+ *
+ * @module groupReducer
+ */
+
+/**
+ * A group custom_json op and where it sits on chain
+ */
+export interface GroupOp {
+  json: GroupCustomJson;
+  author: string;                  // required_posting_auths[0]
+  trxId?: string;
+  block?: number;
+  trxInBlock?: number;
+  opInTrx?: number;
+  timestamp?: string;              // Block time; json.timestamp is whatever the author wrote
+}
+
+export type GroupAuditAction =
+  | 'created'
+  | 'members_added'
+  | 'members_removed'
+  | 'role_changed'
+  | 'ownership_transferred'
+  | 'renamed'
+  | 'settings_changed'
+  | 'banned'
+  | 'unbanned'
+  | 'muted'
+  | 'unmuted'
+  | 'rejected';
+
+/**
+ * One line of the group audit log
+ */
+export interface GroupAuditEntry {
+  action: GroupAuditAction;
+  actor: string;
+  version: number;
+  timestamp: string;               // ISO timestamp
+  targets: string[];               // Members the change was about
+  role?: GroupRole;                // role_changed: the new role
+  previousRole?: GroupRole;        // role_changed: the role before
+  reason?: string;                 // banned / muted: the reason given
+  summary: string;                 // Human-readable description
+  trxId?: string;
+  block?: number;
+}
+
+/**
+ * A manifest the reducer applied and the group state right after it
+ */
+export interface AppliedGroupManifest {
+  op: GroupOp;
+  group: Group;
+}
+
+export interface GroupReduction {
+  group: Group | null;
+  moderation: GroupModeration;
+  audit: GroupAuditEntry[];        // Chain order
+  applied: AppliedGroupManifest[]; // Starting manifest first, then every accepted update, chain order
+  partial: boolean;                // The creator's create op was not among the ops
+}
+
+export interface GroupReduceOptions {
+  creator?: string;                // Creator known from a trusted source - only their create op can start the state
+}
+
+const MODERATION_ACTIONS = new Set<GroupCustomJson['action']>(['ban', 'unban', 'mute', 'unmute']);
+
+/**
+ * The actions the reducer folds; all other group ops can be left out of its input
+ */
+export const GROUP_STATE_ACTIONS: GroupCustomJson['action'][] = ['create', 'update', ...Array.from(MODERATION_ACTIONS)];
+
+/**
+ * Chain order: block, position in block, position in transaction
+ * Ops without block info (not yet confirmed) go last, ordered by timestamp, author
+ * and content so the result never depends on input order.
+ */
+export function compareGroupOps(a: GroupOp, b: GroupOp): number {
+  if (a.block !== undefined && b.block !== undefined) {
+    return a.block - b.block
+      || (a.trxInBlock ?? 0) - (b.trxInBlock ?? 0)
+      || (a.opInTrx ?? 0) - (b.opInTrx ?? 0);
+  }
+  if (a.block !== undefined) return -1;
+  if (b.block !== undefined) return 1;
+
+  return (a.json.timestamp || '').localeCompare(b.json.timestamp || '')
+    || a.author.localeCompare(b.author)
+    || JSON.stringify(a.json).localeCompare(JSON.stringify(b.json));
+}
+
+function getOpKey(op: GroupOp): string {
+  return op.trxId ? `${op.trxId}:${op.opInTrx ?? 0}` : `${op.author}:${JSON.stringify(op.json)}`;
+}
+
+function formatUsers(usernames: string[]): string {
+  return usernames.map(username => `@${username}`).join(', ');
+}
+
+function isCreatorCreate(op: GroupOp, creator?: string): boolean {
+  if (op.json.action !== 'create') return false;
+  if (op.json.creator && op.json.creator !== op.author) return false;
+  return !creator || op.author.toLowerCase() === creator.toLowerCase();
+}
+
+/**
+ * When the op happened: its block time, or the time it claims while unconfirmed
+ */
+function getOpTime(op: GroupOp): string {
+  return normalizeHiveTimestamp(op.timestamp || op.json.timestamp);
+}
+
+function isManifest(op: GroupOp): boolean {
+  return op.json.action === 'create' || op.json.action === 'update';
+}
+
+/**
+ * Audit entries for the differences between two consecutive states
+ */
+function diffGroups(before: Group, after: Group, op: GroupOp): GroupAuditEntry[] {
+  const entries: GroupAuditEntry[] = [];
+  const base = {
+    actor: op.author,
+    version: after.version,
+    timestamp: normalizeHiveTimestamp(op.json.timestamp),
+    trxId: op.trxId,
+    block: op.block,
+  };
+
+  const added = after.members.filter(m => !before.members.includes(m));
+  const removed = before.members.filter(m => !after.members.includes(m));
+
+  if (added.length > 0) {
+    entries.push({ ...base, action: 'members_added', targets: added, summary: `@${op.author} added ${formatUsers(added)}` });
+  }
+  if (removed.length > 0) {
+    entries.push({ ...base, action: 'members_removed', targets: removed, summary: `@${op.author} removed ${formatUsers(removed)}` });
+  }
+
+  const oldOwner = getGroupOwner(before);
+  const newOwner = getGroupOwner(after);
+  if (oldOwner !== newOwner) {
+    entries.push({
+      ...base,
+      action: 'ownership_transferred',
+      targets: [newOwner],
+      role: 'owner',
+      summary: `@${op.author} transferred ownership to @${newOwner}`,
+    });
+  }
+
+  // Role changes of people who stay in the group (removed members simply lose theirs)
+  const beforeRoles = normalizeGroupRoles(before);
+  const afterRoles = normalizeGroupRoles(after);
+  const users = Array.from(new Set([...Object.keys(beforeRoles), ...Object.keys(afterRoles)])).sort();
+
+  for (const username of users) {
+    if (username === newOwner || !after.members.includes(username)) continue;
+
+    const oldRole = beforeRoles[username] || 'member';
+    const newRole = afterRoles[username] || 'member';
+    if (oldRole === newRole) continue;
+
+    entries.push({
+      ...base,
+      action: 'role_changed',
+      targets: [username],
+      role: newRole,
+      previousRole: oldRole,
+      summary: `@${op.author} changed @${username} from ${GROUP_ROLE_LABELS[oldRole].toLowerCase()} to ${GROUP_ROLE_LABELS[newRole].toLowerCase()}`,
+    });
+  }
+
+  if (before.name !== after.name) {
+    entries.push({ ...base, action: 'renamed', targets: [], summary: `@${op.author} renamed the group to "${after.name}"` });
+  }
+  if (JSON.stringify(before.paymentSettings) !== JSON.stringify(after.paymentSettings)) {
+    entries.push({ ...base, action: 'settings_changed', targets: [], summary: `@${op.author} changed the payment settings` });
+  }
+
+  return entries;
+}
+
+/**
+ * Fold a group's ops into its canonical state and audit log
+ *
+ * @param ops - Ops of a single group, in any order (other actions, e.g. messages, are skipped)
+ * @param options - Pass the creator when it is known, so a create op by anyone else is ignored
+ */
+export function reduceGroupOps(ops: GroupOp[], options: GroupReduceOptions = {}): GroupReduction {
+  const seen = new Set<string>();
+  const manifests = ops
+    .filter(op => isManifest(op) || MODERATION_ACTIONS.has(op.json.action))
+    .sort(compareGroupOps)
+    .filter(op => {
+      const key = getOpKey(op);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  const audit: GroupAuditEntry[] = [];
+  const moderation: GroupModeration = { bans: [], mutes: [] };
+  const creatorCreateIndex = manifests.findIndex(op => isCreatorCreate(op, options.creator));
+  const baseIndex = creatorCreateIndex >= 0 ? creatorCreateIndex : manifests.findIndex(isManifest);
+  const base = manifests[baseIndex];
+
+  if (!base) {
+    return { group: null, moderation, audit, applied: [], partial: true };
+  }
+
+  const partial = !isCreatorCreate(base, options.creator);
+  const creator = base.json.creator || base.author;
+  let group: Group = {
+    groupId: base.json.groupId,
+    name: base.json.name || 'Unnamed Group',
+    members: base.json.members || [],
+    creator,
+    createdAt: normalizeHiveTimestamp(base.json.timestamp),
+    version: base.json.version || 1,
+    paymentSettings: base.json.paymentSettings,
+  };
+  if (base.json.roles) {
+    group.roles = normalizeGroupRoles({ ...group, roles: base.json.roles });
+  }
+  const applied: AppliedGroupManifest[] = [{ op: base, group }];
+
+  if (!partial) {
+    audit.push({
+      action: 'created',
+      actor: base.author,
+      version: group.version,
+      timestamp: group.createdAt,
+      targets: group.members.filter(m => m !== base.author),
+      summary: `@${base.author} created "${group.name}" with ${group.members.length} members`,
+      trxId: base.trxId,
+      block: base.block,
+    });
+  }
+
+  const reject = (op: GroupOp, reason: string) => {
+    const what = isManifest(op) ? `${op.json.action} v${op.json.version || 1}` : `${op.json.action} of @${op.json.username}`;
+    audit.push({
+      action: 'rejected',
+      actor: op.author,
+      version: op.json.version || group.version,
+      timestamp: normalizeHiveTimestamp(op.json.timestamp),
+      targets: [],
+      summary: `Ignored ${what} from @${op.author}: ${reason}`,
+      trxId: op.trxId,
+      block: op.block,
+    });
+  };
+
+  const moderate = (op: GroupOp) => {
+    const { action, username: target, reason, until } = op.json;
+    if (!target) {
+      reject(op, 'no user given');
+      return;
+    }
+
+    const permission = action === 'ban' || action === 'unban' ? 'ban_members' : 'mute_members';
+    if (!canModerateGroupMember(group, op.author, target, permission)) {
+      reject(op, 'not permitted by their role');
+      return;
+    }
+
+    const timestamp = getOpTime(op);
+    // Mutes start at the block time, so `until` cannot reach back before the op
+    if (action === 'mute' && until && !(new Date(until).getTime() > new Date(timestamp).getTime())) {
+      reject(op, 'the mute would end before it starts');
+      return;
+    }
+
+    const activeMute = getGroupMute(moderation, target, new Date(timestamp));
+    const entry: GroupModerationEntry = {
+      username: target,
+      by: op.author,
+      at: timestamp,
+      ...(reason && { reason }),
+      trxId: op.trxId,
+    };
+    const auditBase = {
+      actor: op.author,
+      version: group.version,
+      timestamp,
+      targets: [target],
+      trxId: op.trxId,
+      block: op.block,
+    };
+    const because = reason ? `: ${reason}` : '';
+
+    if (action === 'ban') {
+      moderation.bans = [...moderation.bans.filter(ban => ban.username.toLowerCase() !== target.toLowerCase()), entry];
+      audit.push({ ...auditBase, action: 'banned', reason, summary: `@${op.author} banned @${target}${because}` });
+    } else if (action === 'unban') {
+      if (!isGroupMemberBanned(moderation, target)) {
+        reject(op, `@${target} is not banned`);
+        return;
+      }
+      moderation.bans = moderation.bans.filter(ban => ban.username.toLowerCase() !== target.toLowerCase());
+      audit.push({ ...auditBase, action: 'unbanned', summary: `@${op.author} unbanned @${target}` });
+    } else if (action === 'mute') {
+      // A new mute replaces the running one
+      if (activeMute) activeMute.until = timestamp;
+      moderation.mutes = [...moderation.mutes, { ...entry, ...(until && { until }) }];
+      audit.push({ ...auditBase, action: 'muted', reason, summary: `@${op.author} muted @${target}${because}` });
+    } else {
+      if (!activeMute) {
+        reject(op, `@${target} is not muted`);
+        return;
+      }
+      activeMute.until = timestamp;
+      audit.push({ ...auditBase, action: 'unmuted', summary: `@${op.author} unmuted @${target}` });
+    }
+  };
+
+  manifests.forEach((op, index) => {
+    if (index === baseIndex) return;
+
+    // Ops before the create cannot belong to this group's history
+    if (index < baseIndex) {
+      reject(op, 'broadcast before the group was created');
+      return;
+    }
+    if (MODERATION_ACTIONS.has(op.json.action)) {
+      moderate(op);
+      return;
+    }
+    if (op.json.action === 'create') {
+      reject(op, 'the group already exists');
+      return;
+    }
+
+    const version = op.json.version || 1;
+    if (version <= group.version) {
+      reject(op, `group is already at v${group.version}`);
+      return;
+    }
+    if (!isAuthorizedGroupUpdate(group, op.json, op.author)) {
+      reject(op, 'not permitted by their role');
+      return;
+    }
+
+    const members = op.json.members || group.members;
+    const bannedAdded = members.filter(m => !group.members.includes(m) && isGroupMemberBanned(moderation, m));
+    if (bannedAdded.length > 0) {
+      reject(op, `${formatUsers(bannedAdded)} ${bannedAdded.length === 1 ? 'is' : 'are'} banned`);
+      return;
+    }
+
+    const roles = op.json.roles || group.roles;
+    const next: Group = {
+      ...group,
+      name: op.json.name || group.name,
+      members,
+      version,
+      paymentSettings: op.json.paymentSettings || group.paymentSettings,
+      roles: roles ? normalizeGroupRoles({ creator, members, roles }) : undefined,
+    };
+
+    audit.push(...diffGroups(group, next, op));
+    applied.push({ op, group: next });
+    group = next;
+  });
+
+  return { group, moderation, audit, applied, partial };
+}
@@ -0,0 +1,247 @@
+import type { Group, GroupCustomJson, GroupRole } from './schema';
+
+/**
+ * Group roles and permissions
+ *
+ * Roles live in the group manifest (`roles` on create/update custom_json) as a
+ * username -> role map; members without an entry are plain members and a group
+ * without an owner entry is owned by its creator (groups created before roles).
+ * The same rules decide what the UI offers and which manifest updates are
+ * accepted when replaying a group's history, so an update broadcast by an account
+ * without the required role is ignored by every client.
+ *
+ * @module groupRoles
+ */
+
+export type GroupPermission =
+  | 'manage_members'      // Add and remove members
+  | 'edit_settings'       // Rename, payment settings
+  | 'approve_joins'       // Approve / reject join requests
+  | 'pin_messages'        // Pin / unpin messages
+  | 'broadcast'           // Send announcements
+  | 'manage_roles'        // Promote / demote members below your own role
+  | 'ban_members'         // Ban / unban users below your own role
+  | 'mute_members'        // Mute / unmute members below your own role
+  | 'transfer_ownership';
+
+export const GROUP_ROLE_RANK: Record<GroupRole, number> = {
+  owner: 3,
+  admin: 2,
+  moderator: 1,
+  member: 0,
+};
+
+export const GROUP_ROLE_LABELS: Record<GroupRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  moderator: 'Moderator',
+  member: 'Member',
+};
+
+const ROLE_PERMISSIONS: Record<GroupRole, GroupPermission[]> = {
+  owner: ['manage_members', 'edit_settings', 'approve_joins', 'pin_messages', 'broadcast', 'manage_roles', 'ban_members', 'mute_members', 'transfer_ownership'],
+  admin: ['manage_members', 'edit_settings', 'approve_joins', 'pin_messages', 'broadcast', 'manage_roles', 'ban_members', 'mute_members'],
+  moderator: ['approve_joins', 'pin_messages', 'mute_members'],
+  member: [],
+};
+
+/**
+ * The parts of a group the role rules need
+ */
+export type GroupRoleState = Pick<Group, 'creator' | 'members' | 'roles'>;
+
+function sameUser(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function isMember(group: GroupRoleState, username: string): boolean {
+  return group.members.some(m => sameUser(m, username)) || sameUser(group.creator, username);
+}
+
+/**
+ * Current owner (explicit owner role, else the creator)
+ */
+export function getGroupOwner(group: GroupRoleState): string {
+  const owner = Object.entries(group.roles || {}).find(([, role]) => role === 'owner');
+  return owner ? owner[0] : group.creator;
+}
+
+/**
+ * Role of a user in a group, or null if they are not a member
+ */
+export function getGroupRole(group: GroupRoleState, username: string | undefined): GroupRole | null {
+  if (!username) return null;
+  if (sameUser(getGroupOwner(group), username)) return 'owner';
+  if (!isMember(group, username)) return null;
+
+  const entry = Object.entries(group.roles || {}).find(([user]) => sameUser(user, username));
+  return entry && entry[1] !== 'owner' ? entry[1] : 'member';
+}
+
+export function hasGroupPermission(
+  group: GroupRoleState,
+  username: string | undefined,
+  permission: GroupPermission
+): boolean {
+  const role = getGroupRole(group, username);
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Whether `actor` may give `target` the role `role`
+ * Roles can only be handed out below your own, to members below your own role;
+ * ownership moves with transferGroupOwnership instead.
+ */
+export function canSetGroupRole(
+  group: GroupRoleState,
+  actor: string | undefined,
+  target: string,
+  role: GroupRole
+): boolean {
+  if (role === 'owner' || !actor || sameUser(actor, target)) return false;
+  if (!hasGroupPermission(group, actor, 'manage_roles')) return false;
+
+  const actorRank = GROUP_ROLE_RANK[getGroupRole(group, actor)!];
+  const targetRole = getGroupRole(group, target);
+  if (!targetRole) return false;
+
+  return GROUP_ROLE_RANK[targetRole] < actorRank && GROUP_ROLE_RANK[role] < actorRank;
+}
+
+/**
+ * Whether `actor` may remove `target` from the group
+ */
+export function canRemoveGroupMember(group: GroupRoleState, actor: string | undefined, target: string): boolean {
+  if (!actor || sameUser(actor, target)) return false;
+  if (!hasGroupPermission(group, actor, 'manage_members')) return false;
+
+  const targetRole = getGroupRole(group, target);
+  return !targetRole || GROUP_ROLE_RANK[targetRole] < GROUP_ROLE_RANK[getGroupRole(group, actor)!];
+}
+
+/**
+ * Whether `actor` may ban / mute `target` (non-members can be banned too)
+ */
+export function canModerateGroupMember(
+  group: GroupRoleState,
+  actor: string | undefined,
+  target: string,
+  permission: Extract<GroupPermission, 'ban_members' | 'mute_members'>
+): boolean {
+  if (!actor || sameUser(actor, target)) return false;
+  if (!hasGroupPermission(group, actor, permission)) return false;
+
+  const targetRole = getGroupRole(group, target);
+  return !targetRole || GROUP_ROLE_RANK[targetRole] < GROUP_ROLE_RANK[getGroupRole(group, actor)!];
+}
+
+/**
+ * Drop roles of non-members and plain 'member' entries, keep exactly one owner
+ */
+export function normalizeGroupRoles(group: GroupRoleState): Record<string, GroupRole> {
+  const owner = getGroupOwner(group);
+  const roles: Record<string, GroupRole> = { [owner]: 'owner' };
+
+  for (const [username, role] of Object.entries(group.roles || {})) {
+    if (role === 'owner' || role === 'member' || sameUser(username, owner)) continue;
+    if (!group.members.some(m => sameUser(m, username))) continue;
+    roles[username] = role;
+  }
+
+  return roles;
+}
+
+/**
+ * Roles after a role change (setting 'member' removes the entry)
+ */
+export function withGroupRole(group: GroupRoleState, target: string, role: GroupRole): Record<string, GroupRole> {
+  const roles = { ...normalizeGroupRoles(group) };
+  delete roles[target];
+  if (role !== 'member') {
+    roles[target] = role;
+  }
+  return roles;
+}
+
+/**
+ * Roles after the owner hands the group to another member (the old owner stays on as admin)
+ */
+export function transferGroupOwnership(group: GroupRoleState, newOwner: string): Record<string, GroupRole> {
+  const roles = { ...normalizeGroupRoles(group) };
+  const oldOwner = getGroupOwner(group);
+
+  roles[oldOwner] = 'admin';
+  delete roles[newOwner];
+  roles[newOwner] = 'owner';
+  return roles;
+}
+
+/**
+ * Whether a manifest update by `author` is allowed on top of `current`
+ *
+ * Each kind of change needs its own permission: membership -> manage_members,
+ * name or payment settings -> edit_settings, roles -> manage_roles within the
+ * author's rank, a new owner -> the current owner.
+ */
+export function isAuthorizedGroupUpdate(
+  current: GroupRoleState & Pick<Group, 'name' | 'paymentSettings'>,
+  update: GroupCustomJson,
+  author: string
+): boolean {
+  const authorRole = getGroupRole(current, author);
+  if (!authorRole) return false;
+
+  // Membership changes
+  if (update.members) {
+    const added = update.members.filter(m => !current.members.some(c => sameUser(c, m)));
+    const removed = current.members.filter(m => !update.members!.some(u => sameUser(u, m)));
+
+    if ((added.length > 0 || removed.length > 0) && !hasGroupPermission(current, author, 'manage_members')) {
+      return false;
+    }
+    if (removed.some(m => !canRemoveGroupMember(current, author, m))) {
+      return false;
+    }
+  }
+
+  // Settings changes
+  const renamed = update.name !== undefined && update.name !== current.name;
+  const paymentChanged = update.paymentSettings !== undefined &&
+    JSON.stringify(update.paymentSettings) !== JSON.stringify(current.paymentSettings);
+  if ((renamed || paymentChanged) && !hasGroupPermission(current, author, 'edit_settings')) {
+    return false;
+  }
+
+  // Role changes
+  if (update.roles) {
+    const next: GroupRoleState = {
+      creator: current.creator,
+      members: update.members || current.members,
+      roles: update.roles,
+    };
+    const newOwner = getGroupOwner(next);
+
+    // The owner may reshuffle anything, including handing over ownership
+    if (!sameUser(newOwner, getGroupOwner(current))) {
+      return authorRole === 'owner' && next.members.some(m => sameUser(m, newOwner));
+    }
+    if (authorRole === 'owner') {
+      return true;
+    }
+
+    const before = normalizeGroupRoles(current);
+    const after = normalizeGroupRoles(next);
+    const changedUsers = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const username of Array.from(changedUsers)) {
+      const oldRole = before[username] || 'member';
+      const newRole = after[username] || 'member';
+      if (oldRole === newRole) continue;
+      // Members removed in this same update already passed the removal check
+      if (!next.members.some(m => sameUser(m, username))) continue;
+      if (!canSetGroupRole(current, author, username, newRole)) return false;
+    }
+  }
+
+  return true;
+}
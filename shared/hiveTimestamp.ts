@@ -0,0 +1,22 @@
+/**
+ * Normalizes Hive blockchain timestamps to proper UTC format
+ * Hive returns timestamps like "2025-02-27T23:27:00" or "2024-11-18T22:11:54+00:00"
+ * JavaScript interprets timestamps without timezone as local time, so we append "Z" to mark them as UTC
+ * 
+ * @param timestamp - Raw timestamp from Hive blockchain
+ * @returns ISO 8601 timestamp with UTC indicator
+ */
+export const normalizeHiveTimestamp = (timestamp: string | null | undefined): string => {
+  if (!timestamp) return new Date().toISOString();
+  
+  // Check if timestamp already ends with a timezone indicator
+  // Match: Z at end, or +/-HH:MM at end, or +/-HHMM at end, or +/-HH at end
+  const hasTimezone = /[Z]$|[+-]\d{2}:\d{2}$|[+-]\d{4}$|[+-]\d{2}$/.test(timestamp);
+  
+  if (hasTimezone) {
+    return timestamp;
+  }
+  
+  // No timezone found at end - append Z to mark as UTC
+  return timestamp + 'Z';
+};
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { pgTable, serial, text, integer, boolean, timestamp, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, serial, text, integer, boolean, timestamp, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 
@@ -36,10 +36,16 @@ export const messages = pgTable("messages", {
   decryptedContent: text("decrypted_content"),
   isEncrypted: boolean("is_encrypted").notNull(),
   status: text("status").notNull(),
-  timestamp: timestamp("timestamp").notNull().defaultNow(),
+  // Millisecond precision so (timestamp, id) pagination cursors round-trip through JS Dates
+  timestamp: timestamp("timestamp", { precision: 3 }).notNull().defaultNow(),
   blockchainTxId: text("blockchain_tx_id"),
+  amount: text("amount"),
 }, (table) => ({
   conversationIdIdx: index("messages_conversation_id_idx").on(table.conversationId),
+  unconfirmedIdx: index("messages_status_timestamp_idx").on(table.status, table.timestamp),
+  conversationTimestampIdx: index("messages_conversation_timestamp_id_idx").on(table.conversationId, table.timestamp, table.id),
+  conversationStatusIdx: index("messages_conversation_status_idx").on(table.conversationId, table.status),
+  senderIdIdx: index("messages_sender_id_idx").on(table.senderId),
 }));
 
 export const contacts = pgTable("contacts", {
@@ -47,17 +53,157 @@ export const contacts = pgTable("contacts", {
   userId: integer("user_id").notNull().references(() => users.id),
   contactUsername: text("contact_username").notNull(),
   publicMemoKey: text("public_memo_key").notNull(),
+  nickname: text("nickname"),
+  notes: text("notes"),
+  tags: text("tags").array().notNull().default([]),
+  isFavorite: boolean("is_favorite").notNull().default(false),
+  isBlocked: boolean("is_blocked").notNull().default(false),
   addedAt: timestamp("added_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => ({
   userContactUnique: uniqueIndex("contacts_user_contact_unique").on(table.userId, table.contactUsername),
 }));
 
+export const sessions = pgTable("sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(),
+  previousRefreshTokenHash: text("previous_refresh_token_hash"),
+  publicMemoKey: text("public_memo_key").notNull(),
+  deviceName: text("device_name"),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastUsedAt: timestamp("last_used_at").notNull().defaultNow(),
+  tokenExpiresAt: timestamp("token_expires_at").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+}, (table) => ({
+  userIdIdx: index("sessions_user_id_idx").on(table.userId),
+  previousRefreshTokenIdx: index("sessions_previous_refresh_token_idx").on(table.previousRefreshTokenHash),
+}));
+
+// Group tables - server copy of group state shared by a user's devices and the indexer
+
+export const groups = pgTable("groups", {
+  id: serial("id").primaryKey(),
+  groupId: text("group_id").notNull().unique(),
+  name: text("name").notNull(),
+  creator: text("creator").notNull(),
+  version: integer("version").notNull().default(1),
+  paymentSettings: jsonb("payment_settings").$type<PaymentSettings>(),
+  roles: jsonb("roles").$type<Record<string, GroupRole>>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  lastMessage: text("last_message"),
+  lastMessageAt: timestamp("last_message_at"),
+});
+
+export const groupMembers = pgTable("group_members", {
+  id: serial("id").primaryKey(),
+  groupId: text("group_id").notNull().references(() => groups.groupId),
+  username: text("username").notNull(),
+  joinedAt: timestamp("joined_at").notNull().defaultNow(),
+  joinedVersion: integer("joined_version").notNull(),
+  addedBy: text("added_by"),
+  leftAt: timestamp("left_at"),
+  leftVersion: integer("left_version"),
+  removedBy: text("removed_by"),
+}, (table) => ({
+  groupIdIdx: index("group_members_group_id_idx").on(table.groupId),
+  usernameIdx: index("group_members_username_idx").on(table.username),
+}));
+
+export const groupVersions = pgTable("group_versions", {
+  id: serial("id").primaryKey(),
+  groupId: text("group_id").notNull().references(() => groups.groupId),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  members: jsonb("members").$type<string[]>().notNull(),
+  changedBy: text("changed_by").notNull(),
+  txId: text("tx_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  groupVersionUnique: uniqueIndex("group_versions_group_version_unique").on(table.groupId, table.version),
+}));
+
+export const groupMessages = pgTable("group_messages", {
+  id: serial("id").primaryKey(),
+  groupId: text("group_id").notNull().references(() => groups.groupId),
+  sender: text("sender").notNull(),
+  content: text("content").notNull(),
+  encryptedContent: text("encrypted_content").notNull(),
+  // Millisecond precision so (timestamp, id) pagination cursors round-trip through JS Dates
+  timestamp: timestamp("timestamp", { precision: 3 }).notNull().defaultNow(),
+  recipients: jsonb("recipients").$type<string[]>().notNull(),
+  txIds: jsonb("tx_ids").$type<string[]>().notNull(),
+  status: text("status").notNull(),
+  failedRecipients: jsonb("failed_recipients").$type<string[]>(),
+}, (table) => ({
+  groupTimestampIdx: index("group_messages_group_timestamp_id_idx").on(table.groupId, table.timestamp, table.id),
+}));
+
+// Blockchain indexer tables (written by server/indexer.ts)
+
+export const indexerState = pgTable("indexer_state", {
+  name: text("name").primaryKey(),
+  lastBlockNum: integer("last_block_num").notNull(),
+  lastBlockId: text("last_block_id").notNull(),
+  lastIrreversibleBlock: integer("last_irreversible_block").notNull().default(0),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const indexedBlocks = pgTable("indexed_blocks", {
+  blockNum: integer("block_num").primaryKey(),
+  blockId: text("block_id").notNull(),
+  previous: text("previous").notNull(),
+  timestamp: timestamp("timestamp").notNull(),
+});
+
+export const indexedTransfers = pgTable("indexed_transfers", {
+  id: serial("id").primaryKey(),
+  blockNum: integer("block_num").notNull(),
+  txId: text("tx_id").notNull(),
+  opIndex: integer("op_index").notNull(),
+  fromUsername: text("from_username").notNull(),
+  toUsername: text("to_username").notNull(),
+  amount: text("amount").notNull(),
+  memo: text("memo").notNull(),
+  timestamp: timestamp("timestamp").notNull(),
+  irreversible: boolean("irreversible").notNull().default(false),
+}, (table) => ({
+  txOpUnique: uniqueIndex("indexed_transfers_tx_op_unique").on(table.txId, table.opIndex),
+  fromIdx: index("indexed_transfers_from_idx").on(table.fromUsername, table.blockNum),
+  toIdx: index("indexed_transfers_to_idx").on(table.toUsername, table.blockNum),
+  blockNumIdx: index("indexed_transfers_block_num_idx").on(table.blockNum),
+}));
+
+export const indexedGroupOps = pgTable("indexed_group_ops", {
+  id: serial("id").primaryKey(),
+  blockNum: integer("block_num").notNull(),
+  txId: text("tx_id").notNull(),
+  opIndex: integer("op_index").notNull(),
+  groupId: text("group_id").notNull(),
+  action: text("action").notNull(),
+  account: text("account").notNull(),
+  payload: jsonb("payload").notNull(),
+  timestamp: timestamp("timestamp").notNull(),
+  irreversible: boolean("irreversible").notNull().default(false),
+}, (table) => ({
+  txOpUnique: uniqueIndex("indexed_group_ops_tx_op_unique").on(table.txId, table.opIndex),
+  groupIdIdx: index("indexed_group_ops_group_id_idx").on(table.groupId, table.blockNum),
+  accountIdx: index("indexed_group_ops_account_idx").on(table.account, table.blockNum),
+  blockNumIdx: index("indexed_group_ops_block_num_idx").on(table.blockNum),
+}));
+
 // Relations
 
 export const usersRelations = relations(users, ({ many }) => ({
   conversations: many(conversations),
   messages: many(messages),
   contacts: many(contacts),
+  sessions: many(sessions),
 }));
 
 export const conversationsRelations = relations(conversations, ({ one, many }) => ({
@@ -86,12 +232,47 @@ export const contactsRelations = relations(contacts, ({ one }) => ({
   }),
 }));
 
+export const groupsRelations = relations(groups, ({ many }) => ({
+  members: many(groupMembers),
+  versions: many(groupVersions),
+  messages: many(groupMessages),
+}));
+
+export const groupMembersRelations = relations(groupMembers, ({ one }) => ({
+  group: one(groups, {
+    fields: [groupMembers.groupId],
+    references: [groups.groupId],
+  }),
+}));
+
+export const groupVersionsRelations = relations(groupVersions, ({ one }) => ({
+  group: one(groups, {
+    fields: [groupVersions.groupId],
+    references: [groups.groupId],
+  }),
+}));
+
+export const groupMessagesRelations = relations(groupMessages, ({ one }) => ({
+  group: one(groups, {
+    fields: [groupMessages.groupId],
+    references: [groups.groupId],
+  }),
+}));
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
+}));
+
 // Insert Schemas
 
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
 export const insertConversationSchema = createInsertSchema(conversations).omit({ id: true });
 export const insertMessageSchema = createInsertSchema(messages).omit({ id: true, timestamp: true });
-export const insertContactSchema = createInsertSchema(contacts).omit({ id: true, addedAt: true });
+export const insertContactSchema = createInsertSchema(contacts).omit({ id: true, addedAt: true, updatedAt: true });
+export const insertSessionSchema = createInsertSchema(sessions).omit({ id: true, createdAt: true, lastUsedAt: true, revokedAt: true });
 
 // Insert Types
 
@@ -99,6 +280,7 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type InsertContact = z.infer<typeof insertContactSchema>;
+export type InsertSession = z.infer<typeof insertSessionSchema>;
 
 // Select Types
 
@@ -106,6 +288,18 @@ export type User = typeof users.$inferSelect;
 export type ConversationDB = typeof conversations.$inferSelect;
 export type MessageDB = typeof messages.$inferSelect;
 export type ContactDB = typeof contacts.$inferSelect;
+export type SessionDB = typeof sessions.$inferSelect;
+export type SessionWithUser = SessionDB & { username: string };
+export type GroupDB = typeof groups.$inferSelect;
+export type GroupMemberDB = typeof groupMembers.$inferSelect;
+export type GroupVersionDB = typeof groupVersions.$inferSelect;
+export type GroupMessageDB = typeof groupMessages.$inferSelect;
+export type IndexerStateDB = typeof indexerState.$inferSelect;
+export type IndexedBlockDB = typeof indexedBlocks.$inferSelect;
+export type IndexedTransferDB = typeof indexedTransfers.$inferSelect;
+export type IndexedGroupOpDB = typeof indexedGroupOps.$inferSelect;
+export type InsertIndexedTransfer = typeof indexedTransfers.$inferInsert;
+export type InsertIndexedGroupOp = typeof indexedGroupOps.$inferInsert;
 
 // Hive Blockchain Data Models
 
@@ -138,9 +332,11 @@ export interface Message {
   encryptedMemo: string;
   decryptedContent?: string;
   timestamp: string;
-  status: 'sending' | 'sent' | 'confirmed' | 'failed';
+  status: 'sending' | 'sent' | 'confirmed' | 'read' | 'failed';  // 'read' comes from the recipient's read receipt
   blockNum?: number;
   trxId?: string;
+  amount?: string;                    // Transfer amount carrying the memo (e.g. "0.001 HBD")
+  replyTo?: string;                   // Message this one replies to (txId, or client message id in groups)
   isEncrypted: boolean;
 }
 
@@ -162,6 +358,18 @@ export interface Contact {
   avatar?: string;
   lastSeen?: string;
   isOnline?: boolean;
+  nickname?: string;                  // User-defined display name
+  notes?: string;                     // Private notes about the contact
+  tags?: string[];                    // User-defined labels (e.g. "work", "family")
+  isFavorite?: boolean;               // Pinned to the top of contact pickers
+  isBlocked?: boolean;                // Hidden from pickers; messages are filtered
+  addedAt?: string;                   // ISO timestamp
+}
+
+export interface ContactQuery {
+  tag?: string;
+  favorite?: boolean;
+  blocked?: boolean;
 }
 
 export interface UserSession {
@@ -173,6 +381,22 @@ export interface UserSession {
   hbdBalance?: string;
 }
 
+/**
+ * Server-side login session for one device
+ * Token hashes never leave the server; this is what session listings expose
+ */
+export interface DeviceSession {
+  id: string;
+  username: string;
+  publicMemoKey: string;
+  deviceName?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+}
+
 export interface EncryptionStatus {
   isKeyExchangeComplete: boolean;
   recipientPublicKey?: string;
@@ -185,6 +409,81 @@ export interface BlockchainSyncStatus {
   blockHeight?: number;
 }
 
+// Message pagination
+
+export const MESSAGE_STATUSES: Message['status'][] = ['sending', 'sent', 'confirmed', 'failed'];
+
+export interface MessagePageQuery {
+  /** Opaque cursor - return messages older than this one */
+  before?: string;
+  /** Opaque cursor - return messages newer than this one */
+  after?: string;
+  limit: number;
+  status?: Message['status'][];
+  sender?: string;
+}
+
+export interface MessagePage<T = Message> {
+  /** Messages in ascending (timestamp, id) order */
+  messages: T[];
+  /** Cursor of the oldest message in the page - pass as `before` for the previous page */
+  startCursor: string | null;
+  /** Cursor of the newest message in the page - pass as `after` for the next page */
+  endCursor: string | null;
+  /** More messages exist beyond this page in the requested direction */
+  hasMore: boolean;
+}
+
+// Blockchain indexer data
+
+export interface IndexedBlockData {
+  blockNum: number;
+  blockId: string;
+  previous: string;
+  timestamp: Date;
+  transfers: Omit<InsertIndexedTransfer, 'id' | 'irreversible'>[];
+  groupOps: Omit<InsertIndexedGroupOp, 'id' | 'irreversible'>[];
+}
+
+export interface IndexedTransferQuery {
+  username: string;
+  direction?: 'in' | 'out' | 'both';
+  beforeBlock?: number;
+  limit: number;
+}
+
+export interface IndexedGroupOpQuery {
+  groupId?: string;
+  account?: string;
+  actions?: string[];
+  afterBlock?: number;
+  afterOpIndex?: number;           // With afterBlock: also return ops later in that block (block, op cursor)
+  throughBlock?: number;
+  limit: number;
+}
+
+// Realtime push events (server -> client over /api/ws or /api/events)
+
+export type RealtimeEvent =
+  | { cursor: string; type: 'message.created'; timestamp: string; message: Message }
+  | { cursor: string; type: 'message.status'; timestamp: string; message: Message }
+  | { cursor: string; type: 'conversation.updated'; timestamp: string; conversation: Conversation };
+
+export type RealtimeServerFrame =
+  | { type: 'ready'; cursor: string }
+  | { type: 'event'; event: RealtimeEvent }
+  | { type: 'resync'; cursor: string }
+  | { type: 'presence'; presence: PresenceState }
+  | { type: 'typing'; from: string; groupId?: string; typing: boolean };
+
+// Ephemeral presence relay (never logged or replayed, only for users who opted in)
+
+export interface PresenceState {
+  username: string;
+  online: boolean;
+  lastSeen?: string;                  // ISO timestamp of the last disconnect (while sharing)
+}
+
 // Zod Schemas for Validation
 
 export const messageSchema = z.object({
@@ -198,14 +497,45 @@ export const contactSchema = z.object({
   username: z.string().min(3).max(16), // Hive username constraints
 });
 
+const contactFieldsSchema = z.object({
+  nickname: z.string().trim().max(50).nullable(),
+  notes: z.string().max(1000).nullable(),
+  tags: z.array(z.string().trim().min(1).max(30)).max(20),
+  isFavorite: z.boolean(),
+  isBlocked: z.boolean(),
+});
+
+export const createContactSchema = contactSchema.extend({
+  username: z.string().regex(/^[a-z0-9.-]{3,16}$/, 'Invalid Hive username'),
+}).merge(contactFieldsSchema.partial());
+
+export const updateContactSchema = contactFieldsSchema.partial();
+
 export const loginSchema = z.object({
   username: z.string().min(3).max(16),
 });
 
+const hiveUsernameSchema = z.string().regex(/^[a-z0-9.-]{3,16}$/, 'Invalid Hive username');
+
+// Frames a client may send over /api/ws
+export const realtimeClientFrameSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('presence.share'), enabled: z.boolean() }),
+  z.object({ type: z.literal('presence.watch'), usernames: z.array(hiveUsernameSchema).max(200) }),
+  z.object({
+    type: z.literal('typing'),
+    to: z.array(hiveUsernameSchema).min(1).max(100),
+    groupId: z.string().max(100).optional(),
+    typing: z.boolean(),
+  }),
+]);
+
 // Type exports
 export type MessageInput = z.infer<typeof messageSchema>;
 export type ContactInput = z.infer<typeof contactSchema>;
+export type CreateContactInput = z.infer<typeof createContactSchema>;
+export type UpdateContactInput = z.infer<typeof updateContactSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
+export type RealtimeClientFrame = z.infer<typeof realtimeClientFrameSchema>;
 
 // Storage Interface Types
 export interface ConversationWithMessages extends Conversation {
@@ -216,6 +546,29 @@ export interface ConversationWithMessages extends Conversation {
 // GROUP CHAT: Decentralized Multi-Recipient Messaging
 // ============================================================================
 
+/**
+ * Group member role, highest first
+ * owner: everything, including managing admins and transferring ownership
+ * admin: members, settings, broadcasts, bans and moderators
+ * moderator: join requests, pinned messages and mutes
+ * member: chat only
+ */
+export type GroupRole = 'owner' | 'admin' | 'moderator' | 'member';
+
+/**
+ * A ban or mute of a user in a group (from ban / mute custom_json)
+ * Banned users cannot rejoin and their messages are hidden; muted users'
+ * messages are hidden while the mute lasts.
+ */
+export interface GroupModerationEntry {
+  username: string;                   // Banned / muted user
+  by: string;                         // Who banned / muted them
+  reason?: string;
+  at: string;                         // ISO timestamp of the ban / mute
+  until?: string;                     // Mutes only: ISO end (none = until unmuted)
+  trxId?: string;
+}
+
 export interface Group {
   groupId: string;                    // UUID v4 - unique group identifier
   name: string;                       // User-defined group name
@@ -226,6 +579,7 @@ export interface Group {
   lastMessage?: string;               // Preview of last group message
   lastMessageTime?: string;           // Timestamp of last message
   paymentSettings?: PaymentSettings;  // Payment configuration for paid groups
+  roles?: Record<string, GroupRole>;  // Elevated roles by username (no entry = member, no owner entry = creator owns)
 }
 
 export interface GroupMessage {
@@ -243,6 +597,32 @@ export interface GroupMessage {
   deliveryStatus?: 'full' | 'partial'; // Delivery status for partial failures
 }
 
+/**
+ * One membership period of a user in a group (server membership history)
+ * A user who leaves and rejoins has one entry per period
+ */
+export interface GroupMembership {
+  username: string;
+  joinedAt: string;
+  joinedVersion: number;
+  addedBy?: string;
+  leftAt?: string;
+  leftVersion?: number;
+  removedBy?: string;
+}
+
+/**
+ * Snapshot of a group's name and member list at one version
+ */
+export interface GroupVersion {
+  version: number;
+  name: string;
+  members: string[];
+  changedBy: string;
+  txId?: string;
+  createdAt: string;
+}
+
 export interface GroupConversation extends Omit<Conversation, 'contactUsername'> {
   type: 'group';
   groupId: string;
@@ -265,6 +645,29 @@ export const createGroupSchema = z.object({
 
 export type CreateGroupInput = z.infer<typeof createGroupSchema>;
 
+export const updateGroupSchema = z.object({
+  name: z.string().min(1).max(50, 'Group name must be 50 characters or less').optional(),
+  members: z.array(z.string().min(3).max(16)).min(1).optional(),
+  roles: z.record(z.enum(['owner', 'admin', 'moderator', 'member'])).optional(),
+  txId: z.string().length(40).optional(),
+});
+
+export type UpdateGroupInput = z.infer<typeof updateGroupSchema>;
+
+/**
+ * Change applied to a server-side group by IStorage.updateGroup
+ * `version` is set when replaying a chain op; otherwise the version is bumped by one
+ */
+export interface GroupUpdate {
+  name?: string;
+  members?: string[];
+  paymentSettings?: PaymentSettings;
+  roles?: Record<string, GroupRole>;
+  changedBy: string;
+  txId?: string;
+  version?: number;
+}
+
 // ============================================================================
 // PAID GROUPS & JOIN REQUESTS: Payment Configuration & Request Management
 // ============================================================================
@@ -348,15 +751,18 @@ export interface JoinRequest {
   txId?: string;
   /** Payment proof for paid groups (only present if payment was made) */
   memberPayment?: MemberPayment;
+  /** Signed invite link token the request redeems (see groupInviteLinks.ts) */
+  invite?: string;
 }
 
 /**
  * Blockchain custom_json operation for group management
- * Used for creating groups, updating membership, and managing join requests
+ * Used for creating groups, updating membership, managing join requests and
+ * sending shared-key group messages
  */
 export interface GroupCustomJson {
   /** Action type for this custom_json operation */
-  action: 'create' | 'update' | 'leave' | 'join_request' | 'join_approve' | 'join_reject';
+  action: 'create' | 'update' | 'leave' | 'join_request' | 'join_approve' | 'join_reject' | 'message' | 'ban' | 'unban' | 'mute' | 'unmute';
   /** Unique group identifier (UUID v4) */
   groupId: string;
   /** Group name (for create/update actions) */
@@ -375,6 +781,22 @@ export interface GroupCustomJson {
   memberPayments?: MemberPayment[];
   /** Pending join requests (for manually-approved groups) */
   joinRequests?: JoinRequest[];
+  /** Elevated member roles (for create/update actions; omitted = unchanged) */
+  roles?: Record<string, GroupRole>;
+  /** Group version of the shared key the message was encrypted with (for message action) */
+  key_version?: number;
+  /** Base64 AES-GCM nonce (for message action) */
+  iv?: string;
+  /** Base64 AES-GCM ciphertext of the message envelope (for message action) */
+  ct?: string;
+  /** Signed invite link token redeemed by this request (for join_request action) */
+  invite?: string;
+  /** Requester (join actions) or the banned / muted user (moderation actions) */
+  username?: string;
+  /** Why the user was banned or muted (for ban/mute actions) */
+  reason?: string;
+  /** ISO end of a mute (for mute action; omitted = until unmuted) */
+  until?: string;
 }
 
 /**
@@ -410,4 +832,10 @@ export interface GroupConversationCache {
   joinRequests?: JoinRequest[];
   /** Pinned messages for announcements */
   pinnedMessages?: PinnedMessage[];
+  /** Elevated member roles by username (no entry = member) */
+  roles?: Record<string, GroupRole>;
+  /** Banned users (refreshed from chain while the group is open) */
+  bans?: GroupModerationEntry[];
+  /** Muted users, including expired mutes */
+  mutes?: GroupModerationEntry[];
 }